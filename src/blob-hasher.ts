@@ -0,0 +1,44 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { createHash, Hash } from 'node:crypto';
+
+/**
+ * Computes blob ids incrementally, chunk by chunk.
+ *
+ * The resulting id is identical to `hshBuffer` from \@rljson/hash applied
+ * to the concatenation of all chunks, but the chunks never need to be held
+ * in memory at the same time.
+ */
+export class BlobHasher {
+  private readonly hash: Hash = createHash('sha256');
+  private _size = 0;
+
+  /**
+   * Feed the next chunk of content into the hash
+   * @param chunk - The next chunk
+   */
+  update(chunk: Uint8Array): this {
+    this.hash.update(chunk);
+    this._size += chunk.byteLength;
+    return this;
+  }
+
+  /**
+   * The number of bytes hashed so far
+   */
+  get size(): number {
+    return this._size;
+  }
+
+  /**
+   * Finish hashing and return the blob id.
+   * The hasher can't be updated afterwards.
+   */
+  digest(): string {
+    return this.hash.digest('base64url').substring(0, 22);
+  }
+}
@@ -0,0 +1,564 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { randomUUID } from 'node:crypto';
+import {
+  appendFile,
+  open,
+  rename,
+  rm,
+  stat,
+  writeFile,
+} from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+import type { ListBlobsOptions } from '@rljson/bs';
+
+import type { BsFsBlobMetadata } from './blob-metadata.ts';
+import type { SealedMetadata } from './encryption.ts';
+
+/**
+ * An entry of the blob index
+ */
+export interface BlobIndexEntry extends BsFsBlobMetadata {
+  blobId: string;
+  size: number;
+  createdAt: string;
+
+  /** Metadata fields that can't be decrypted by this instance */
+  sealed?: SealedMetadata;
+}
+
+/**
+ * A single line of the index log
+ */
+type IndexRecord =
+  ({ op: 'add' } & BlobIndexEntry) | { op: 'del'; blobId: string };
+
+/**
+ * Options for the blob index
+ */
+export interface BlobIndexOptions {
+  /**
+   * The log is compacted once it holds more than this many records and
+   * more than twice as many records as live entries. Defaults to 1000.
+   */
+  compactThreshold?: number;
+
+  /**
+   * Convert an entry into what the log holds, e.g. to encrypt its
+   * metadata. Defaults to keeping the entry as it is.
+   */
+  encode?: (entry: BlobIndexEntry) => Promise<BlobIndexEntry>;
+
+  /** Convert what the log holds back into an entry, see encode */
+  decode?: (entry: BlobIndexEntry) => Promise<BlobIndexEntry>;
+}
+
+/**
+ * Keep an entry as it is
+ * @param entry - The entry
+ */
+const unchanged = async (entry: BlobIndexEntry) => entry;
+
+const collator = new Intl.Collator();
+const baseCollator = new Intl.Collator(undefined, { sensitivity: 'base' });
+
+/**
+ * The order in which blobs are listed
+ * @param a - The first blob id
+ * @param b - The second blob id
+ */
+export const compareBlobIds = (a: string, b: string): number =>
+  collator.compare(a, b);
+
+/**
+ * Compare the start of a blob id with a prefix, ignoring case. The listing
+ * order compares case last, so the ids starting with a prefix are
+ * contiguous, together with the ids differing from it in case only.
+ * @param blobId - The blob id
+ * @param prefix - The prefix
+ */
+const comparePrefix = (blobId: string, prefix: string): number =>
+  baseCollator.compare(blobId.substring(0, prefix.length), prefix);
+
+/**
+ * Find the first position in a sorted array whose item is not less than
+ * (or, with `after`, is greater than) the given value
+ * @param sorted - The sorted array
+ * @param value - The value to look for
+ * @param compare - The order of the array
+ * @param after - Skip items equal to value
+ */
+const bound = (
+  sorted: string[],
+  value: string,
+  compare: (a: string, b: string) => number,
+  after: boolean,
+): number => {
+  let lo = 0;
+  let hi = sorted.length;
+  while (lo < hi) {
+    const mid = (lo + hi) >>> 1;
+    const c = compare(sorted[mid]!, value);
+    if (c < 0 || (after && c === 0)) {
+      lo = mid + 1;
+    } else {
+      hi = mid;
+    }
+  }
+  return lo;
+};
+
+/**
+ * Insert a blob id into an array in listing order, unless it is there
+ * @param sorted - The array
+ * @param blobId - The blob id to insert
+ */
+const insertSorted = (sorted: string[], blobId: string): void => {
+  const i = bound(sorted, blobId, compareBlobIds, false);
+  if (sorted[i] !== blobId) {
+    sorted.splice(i, 0, blobId);
+  }
+};
+
+/**
+ * Remove a blob id from an array in listing order
+ * @param sorted - The array
+ * @param blobId - The blob id to remove, which must be in the array
+ */
+const removeSorted = (sorted: string[], blobId: string): void => {
+  sorted.splice(bound(sorted, blobId, compareBlobIds, false), 1);
+};
+
+/**
+ * A persistent, sorted index of all blobs in a store.
+ *
+ * The index is kept in memory and persisted as an append-only log of
+ * `add` and `del` records, one JSON object per line. Once the log holds
+ * mostly outdated records, it is compacted into a log of `add` records.
+ *
+ * Before each operation the index reads records appended to the log by
+ * other instances. A replaced log (e.g. after a compaction) is read anew.
+ * A missing log is rebuilt by scanning the store.
+ */
+export class BlobIndex {
+  private readonly filePath: string;
+  private readonly scan: () => Promise<BlobIndexEntry[]>;
+  private readonly compactThreshold: number;
+  private readonly encode: (entry: BlobIndexEntry) => Promise<BlobIndexEntry>;
+  private readonly decode: (entry: BlobIndexEntry) => Promise<BlobIndexEntry>;
+
+  private readonly entries = new Map<string, BlobIndexEntry>();
+
+  /** All blob ids in listing order */
+  private ordered: string[] = [];
+
+  /** The blob ids carrying a tag, per tag, in listing order */
+  private byTag = new Map<string, string[]>();
+
+  /** Identity of the log file read so far, empty if no log has been read */
+  private identity = '';
+
+  /** Number of bytes of the log file read so far */
+  private offset = 0;
+
+  /** Number of records in the log file */
+  private records = 0;
+
+  /** Total size of all blobs */
+  private bytes = 0;
+
+  private queue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a new BlobIndex
+   * @param filePath - The log file
+   * @param scan - Collects all blobs of the store, used to rebuild the log
+   * @param options - Additional options
+   */
+  constructor(
+    filePath: string,
+    scan: () => Promise<BlobIndexEntry[]>,
+    options: BlobIndexOptions = {},
+  ) {
+    this.filePath = filePath;
+    this.scan = scan;
+    this.compactThreshold = options.compactThreshold ?? 1000;
+    this.encode = options.encode ?? unchanged;
+    this.decode = options.decode ?? unchanged;
+  }
+
+  // ...........................................................................
+  /**
+   * Add a blob to the index
+   * @param entry - The blob to add
+   */
+  add(entry: BlobIndexEntry): Promise<void> {
+    return this.exclusive(async () => {
+      await this.refresh();
+      if (this.entries.has(entry.blobId)) {
+        return;
+      }
+      await this.append({ op: 'add', ...entry });
+    });
+  }
+
+  /**
+   * Replace the entry of a blob, e.g. after its metadata changed
+   * @param entry - The new entry
+   */
+  update(entry: BlobIndexEntry): Promise<void> {
+    return this.exclusive(async () => {
+      await this.refresh();
+      if (!this.entries.has(entry.blobId)) {
+        return;
+      }
+      await this.append({ op: 'add', ...entry });
+    });
+  }
+
+  /**
+   * Remove a blob from the index
+   * @param blobId - The blob to remove
+   */
+  remove(blobId: string): Promise<void> {
+    return this.exclusive(async () => {
+      await this.refresh();
+      if (!this.entries.has(blobId)) {
+        return;
+      }
+      await this.append({ op: 'del', blobId });
+    });
+  }
+
+  /**
+   * Return the entry of a blob
+   * @param blobId - The blob to look up
+   */
+  get(blobId: string): Promise<BlobIndexEntry | undefined> {
+    return this.exclusive(async () => {
+      await this.refresh();
+      return this.entries.get(blobId);
+    });
+  }
+
+  /**
+   * Return the number of blobs
+   */
+  count(): Promise<number> {
+    return this.exclusive(async () => {
+      await this.refresh();
+      return this.entries.size;
+    });
+  }
+
+  /**
+   * Return the number and total size of all blobs
+   */
+  totals(): Promise<{ count: number; bytes: number }> {
+    return this.exclusive(async () => {
+      await this.refresh();
+      return { count: this.entries.size, bytes: this.bytes };
+    });
+  }
+
+  /**
+   * Return a page of blobs in listing order.
+   * Costs O(log n + page). Within a prefix, ids differing from it in case
+   * only are skipped as well. A tag is looked up in the ids carrying it.
+   * @param options - Prefix, tag, continuation token and page size
+   */
+  list(
+    options: ListBlobsOptions & { tag?: string } = {},
+  ): Promise<{ entries: BlobIndexEntry[]; continuationToken?: string }> {
+    return this.exclusive(async () => {
+      await this.refresh();
+
+      const { prefix = '', tag, continuationToken } = options;
+      const sorted =
+        tag === undefined ? this.ordered : (this.byTag.get(tag) ?? []);
+
+      // Continue after the last blob of the previous page, even if that
+      // blob has been deleted in the meantime
+      const from = bound(sorted, prefix, comparePrefix, false);
+      const to = bound(sorted, prefix, comparePrefix, true);
+      let i = continuationToken
+        ? Math.max(from, bound(sorted, continuationToken, compareBlobIds, true))
+        : from;
+
+      const maxResults = options.maxResults ?? Infinity;
+      const entries: BlobIndexEntry[] = [];
+      for (; i < to && entries.length < maxResults; i++) {
+        if (sorted[i]!.startsWith(prefix)) {
+          entries.push(this.entries.get(sorted[i]!)!);
+        }
+      }
+
+      // Only hand out a continuation token if more blobs follow
+      while (i < to && !sorted[i]!.startsWith(prefix)) {
+        i++;
+      }
+      return {
+        entries,
+        continuationToken: i < to ? entries.at(-1)?.blobId : undefined,
+      };
+    });
+  }
+
+  /**
+   * Rebuild the log by scanning the store
+   */
+  rebuild(): Promise<void> {
+    return this.exclusive(() => this.rebuildLog());
+  }
+
+  /**
+   * Forget everything read so far, e.g. after the store was cleared
+   */
+  reset(): void {
+    this.load([]);
+    this.identity = '';
+    this.offset = 0;
+    this.records = 0;
+  }
+
+  // ...........................................................................
+  /**
+   * Run operations one after another
+   * @param fn - The operation
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.queue.then(fn);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Read records appended to the log since the last refresh
+   */
+  private async refresh(): Promise<void> {
+    let info;
+    try {
+      info = await stat(this.filePath);
+    } catch {
+      await this.rebuildLog();
+      return;
+    }
+
+    // The log was replaced: Read it from the beginning
+    const identity = `${info.ino}/${info.birthtimeMs}`;
+    if (identity !== this.identity || info.size < this.offset) {
+      this.reset();
+      this.identity = identity;
+    }
+
+    if (info.size === this.offset) {
+      return;
+    }
+
+    const bulk = this.offset === 0;
+    const handle = await open(this.filePath, 'r');
+    let text: string;
+    try {
+      const buffer = Buffer.alloc(info.size - this.offset);
+      const { bytesRead } = await handle.read(
+        buffer,
+        0,
+        buffer.length,
+        this.offset,
+      );
+      text = buffer.subarray(0, bytesRead).toString('utf8');
+    } finally {
+      await handle.close();
+    }
+
+    // Only apply complete lines. An incomplete last line is being written
+    // right now, or is the remainder of a crashed write.
+    const lastNewline = text.lastIndexOf('\n');
+    if (lastNewline === -1) {
+      return;
+    }
+
+    const records: IndexRecord[] = [];
+    for (const line of text.substring(0, lastNewline).split('\n')) {
+      try {
+        records.push(JSON.parse(line));
+      } catch {
+        // Skip lines damaged by a crash
+      }
+    }
+    for (const [i, record] of records.entries()) {
+      if (record.op === 'add') {
+        const { op, ...entry } = record;
+        records[i] = { op, ...(await this.decode(entry)) };
+      }
+    }
+
+    this.offset += Buffer.byteLength(text.substring(0, lastNewline + 1));
+    this.records += records.length;
+    this.apply(records, bulk);
+  }
+
+  /**
+   * Apply records to the in-memory index
+   * @param records - The records to apply
+   * @param bulk - Sort once at the end instead of inserting one by one
+   */
+  private apply(records: IndexRecord[], bulk: boolean): void {
+    for (const record of records) {
+      const { op, ...rest } = record;
+      const existing = this.entries.get(record.blobId);
+      this.bytes -= existing?.size ?? 0;
+      if (existing && !bulk) {
+        this.removeTags(existing);
+      }
+
+      if (op === 'add') {
+        const entry = rest as BlobIndexEntry;
+        this.entries.set(record.blobId, entry);
+        this.bytes += entry.size;
+        if (!bulk) {
+          insertSorted(this.ordered, record.blobId);
+          this.addTags(entry);
+        }
+      } else if (existing) {
+        this.entries.delete(record.blobId);
+        if (!bulk) {
+          removeSorted(this.ordered, record.blobId);
+        }
+      }
+    }
+
+    if (bulk) {
+      this.load([...this.entries.values()]);
+    }
+  }
+
+  /**
+   * Replace the in-memory index with the given entries
+   * @param entries - The new entries
+   */
+  private load(entries: BlobIndexEntry[]): void {
+    this.entries.clear();
+    for (const entry of entries) {
+      this.entries.set(entry.blobId, entry);
+    }
+    this.bytes = 0;
+    for (const entry of this.entries.values()) {
+      this.bytes += entry.size;
+    }
+    this.ordered = [...this.entries.keys()].sort(compareBlobIds);
+
+    // Ids are added in listing order, which keeps each tag sorted
+    this.byTag = new Map();
+    for (const blobId of this.ordered) {
+      this.addTags(this.entries.get(blobId)!, true);
+    }
+  }
+
+  /**
+   * Add a blob to the ids of its tags
+   * @param entry - The entry of the blob
+   * @param last - Whether the blob follows all ids listed so far
+   */
+  private addTags(entry: BlobIndexEntry, last = false): void {
+    for (const tag of new Set(entry.tags)) {
+      const ids = this.byTag.get(tag);
+      if (!ids) {
+        this.byTag.set(tag, [entry.blobId]);
+      } else if (last) {
+        ids.push(entry.blobId);
+      } else {
+        insertSorted(ids, entry.blobId);
+      }
+    }
+  }
+
+  /**
+   * Remove a blob from the ids of its tags
+   * @param entry - The entry of the blob
+   */
+  private removeTags(entry: BlobIndexEntry): void {
+    for (const tag of new Set(entry.tags)) {
+      const ids = this.byTag.get(tag)!;
+      removeSorted(ids, entry.blobId);
+      if (ids.length === 0) {
+        this.byTag.delete(tag);
+      }
+    }
+  }
+
+  /**
+   * Append a record to the log and compact it if needed. Callers must
+   * have refreshed the index and hold the lock of the store.
+   * @param record - The record to append
+   */
+  private async append(record: IndexRecord): Promise<void> {
+    let line: IndexRecord = record;
+    if (record.op === 'add') {
+      const { op, ...entry } = record;
+      line = { op, ...(await this.encode(entry)) };
+    }
+    await this.terminateTail();
+    await appendFile(this.filePath, JSON.stringify(line) + '\n');
+    await this.refresh();
+
+    if (
+      this.records > this.compactThreshold &&
+      this.records > 2 * this.entries.size
+    ) {
+      await this.writeLog([...this.entries.values()]);
+    }
+  }
+
+  /**
+   * Terminate an incomplete last line left by a crashed write, so that
+   * the next record isn't glued onto it. Nobody else is writing, as the
+   * lock of the store is held, and refresh read all complete lines.
+   */
+  private async terminateTail(): Promise<void> {
+    const size = await stat(this.filePath).then(
+      (info) => info.size,
+      () => 0,
+    );
+    if (size > this.offset) {
+      await appendFile(this.filePath, '\n');
+    }
+  }
+
+  /**
+   * Scan the store and write a new log
+   */
+  private async rebuildLog(): Promise<void> {
+    const entries = await this.scan();
+    this.reset();
+
+    // Don't create an empty store just by looking at it
+    if (entries.length === 0) {
+      await rm(this.filePath, { force: true });
+      return;
+    }
+
+    await this.writeLog(entries);
+  }
+
+  /**
+   * Atomically replace the log with the given entries
+   * @param entries - The entries to write
+   */
+  private async writeLog(entries: BlobIndexEntry[]): Promise<void> {
+    const tempPath = join(dirname(this.filePath), `.${randomUUID()}.tmp`);
+    const lines: string[] = [];
+    for (const entry of entries) {
+      const encoded = await this.encode(entry);
+      lines.push(JSON.stringify({ op: 'add', ...encoded }) + '\n');
+    }
+    await writeFile(tempPath, lines.join(''));
+    await rename(tempPath, this.filePath);
+    await this.refresh();
+  }
+}
@@ -0,0 +1,111 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import type { BlobProperties } from '@rljson/bs';
+
+/**
+ * Descriptive metadata attached to a blob. It is stored next to the blob
+ * and doesn't affect its content-addressed id.
+ */
+export interface BsFsBlobMetadata {
+  /** The media type of the content, e.g. `image/png` */
+  contentType?: string;
+
+  /** The original name of the file the content came from */
+  filename?: string;
+
+  /** Arbitrary tags, e.g. to find blobs by using `listBlobs` */
+  tags?: string[];
+}
+
+/**
+ * The properties of a blob, including its descriptive metadata
+ */
+export type BsFsBlobProperties = BlobProperties & BsFsBlobMetadata;
+
+/**
+ * Check metadata passed by a caller and bring it into its stored form:
+ * Tags are sorted and unique, empty tag lists are dropped.
+ * Throws if a field has the wrong type.
+ * @param metadata - The metadata to check
+ */
+export const normalizeMetadata = (
+  metadata: BsFsBlobMetadata,
+): BsFsBlobMetadata => {
+  const { contentType, filename, tags } = metadata;
+
+  for (const [name, value] of Object.entries({ contentType, filename })) {
+    if (value !== undefined && typeof value !== 'string') {
+      throw new Error(`Invalid blob metadata: ${name} must be a string`);
+    }
+  }
+
+  if (
+    tags !== undefined &&
+    (!Array.isArray(tags) || tags.some((tag) => typeof tag !== 'string'))
+  ) {
+    throw new Error('Invalid blob metadata: tags must be an array of strings');
+  }
+
+  return pickMetadata({ contentType, filename, tags });
+};
+
+/**
+ * Combine the metadata of a stored blob with metadata given when storing
+ * the same content again: Given fields replace stored ones, tags are
+ * merged.
+ * @param stored - The metadata of the stored blob
+ * @param added - The metadata given for the new copy
+ */
+export const mergeMetadata = (
+  stored: BsFsBlobMetadata,
+  added: BsFsBlobMetadata,
+): BsFsBlobMetadata =>
+  pickMetadata({
+    contentType: added.contentType ?? stored.contentType,
+    filename: added.filename ?? stored.filename,
+    tags: [...(stored.tags ?? []), ...(added.tags ?? [])],
+  });
+
+/**
+ * Check whether storing the second metadata would change the first
+ * @param a - The first metadata
+ * @param b - The second metadata
+ */
+export const sameMetadata = (
+  a: BsFsBlobMetadata,
+  b: BsFsBlobMetadata,
+): boolean =>
+  a.contentType === b.contentType &&
+  a.filename === b.filename &&
+  JSON.stringify(a.tags ?? []) === JSON.stringify(b.tags ?? []);
+
+/**
+ * Extract the metadata fields of an object with valid types, e.g. of
+ * stored metadata. Other fields are dropped.
+ * @param source - The object to read
+ */
+export const pickMetadata = (
+  source: Partial<Record<keyof BsFsBlobMetadata, unknown>>,
+): BsFsBlobMetadata => {
+  const metadata: BsFsBlobMetadata = {};
+  const { contentType, filename, tags } = source;
+
+  if (typeof contentType === 'string') {
+    metadata.contentType = contentType;
+  }
+  if (typeof filename === 'string') {
+    metadata.filename = filename;
+  }
+  if (Array.isArray(tags)) {
+    const valid = tags.filter((tag) => typeof tag === 'string');
+    if (valid.length > 0) {
+      metadata.tags = [...new Set(valid)].sort();
+    }
+  }
+
+  return metadata;
+};
@@ -0,0 +1,362 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { BsFsBlobMetadata } from './blob-metadata.ts';
+import { BsFs, BsFsDownloadOptions, BsFsEvents } from './bs-fs.ts';
+import { LruCache, LruCacheStats } from './lru-cache.ts';
+import { resolveRange } from './range.ts';
+
+import type {
+  BlobProperties,
+  Bs,
+  ListBlobsOptions,
+  ListBlobsResult,
+} from '@rljson/bs';
+
+/**
+ * Options for a BsCached
+ */
+export interface BsCachedOptions {
+  /**
+   * The maximum total size of cached content in bytes. Larger blobs are
+   * not cached. Defaults to 64 MiB.
+   */
+  maxContentBytes?: number;
+
+  /**
+   * The maximum total size of cached properties in bytes, measured as
+   * JSON. Defaults to 1 MiB.
+   */
+  maxPropertiesBytes?: number;
+
+  /**
+   * How long blobExists remembers missing blobs, in milliseconds.
+   * Defaults to 1000.
+   */
+  missingTtlMs?: number;
+
+  /**
+   * How often reads served from cached content are passed on to a wrapped
+   * BsFs, per blob and in milliseconds, so that they count for
+   * `eviction: 'lru'`. Defaults to 60000.
+   */
+  touchIntervalMs?: number;
+}
+
+/**
+ * How well the caches of a BsCached are doing
+ */
+export interface BsCachedStats {
+  /** The content of blobs, sized in bytes */
+  content: LruCacheStats;
+
+  /** The properties of blobs, sized in bytes of JSON */
+  properties: LruCacheStats;
+
+  /** Blobs found missing by blobExists, sized in entries */
+  missing: LruCacheStats;
+}
+
+/**
+ * Cached content of a blob
+ */
+interface CachedContent {
+  content: Buffer;
+
+  /** When the last read was passed on to the wrapped store */
+  touchedAt: number;
+}
+
+/** At most this many missing blobs are remembered */
+const maxMissingEntries = 10000;
+
+/**
+ * Copy properties, so that callers can't change the cached ones
+ * @param properties - The properties
+ */
+const copyProperties = <P extends BlobProperties>(properties: P): P =>
+  structuredClone(properties);
+
+/**
+ * Create a stream passing on a buffer
+ * @param content - The buffer
+ */
+const bufferStream = (content: Buffer): ReadableStream =>
+  new ReadableStream({
+    start(controller) {
+      if (content.length) {
+        controller.enqueue(new Uint8Array(content));
+      }
+      controller.close();
+    },
+  });
+
+// .............................................................................
+/**
+ * Implements the Bs interface on top of another Bs, keeping the content
+ * and properties of recently read blobs in memory.
+ *
+ * Blob content never changes, so cached content stays valid until the
+ * blob is deleted. Blobs deleted through the cache are dropped from it.
+ * Wrapping a BsFs also drops blobs deleted by it, e.g. by `gc`. Blobs
+ * deleted by other instances or processes can be read from the cache
+ * until they are evicted or `invalidate` is called. Call `close` to stop
+ * following a wrapped BsFs.
+ */
+export class BsCached implements Bs {
+  private readonly bs: Bs;
+  private readonly content: LruCache<CachedContent>;
+  private readonly properties: LruCache<BlobProperties>;
+  private readonly missing: LruCache<true>;
+  private readonly touchIntervalMs: number;
+
+  /** Removes the listeners registered on a wrapped BsFs */
+  private unsubscribe?: () => void;
+
+  /** Increased by every invalidation, to discard reads started before */
+  private generation = 0;
+
+  /**
+   * Create a new cache
+   * @param bs - The blob store to read from and write to
+   * @param options - Cache sizes and expiry
+   */
+  constructor(bs: Bs, options: BsCachedOptions = {}) {
+    this.bs = bs;
+    this.content = new LruCache({
+      maxSize: options.maxContentBytes ?? 64 * 1024 * 1024,
+      sizeOf: ({ content }) => content.length,
+    });
+    this.properties = new LruCache({
+      maxSize: options.maxPropertiesBytes ?? 1024 * 1024,
+      sizeOf: (properties) => JSON.stringify(properties).length,
+    });
+    this.missing = new LruCache({
+      maxSize: maxMissingEntries,
+      ttlMs: options.missingTtlMs ?? 1000,
+    });
+    this.touchIntervalMs = options.touchIntervalMs ?? 60 * 1000;
+
+    if (bs instanceof BsFs) {
+      const added = ({ blobId }: BsFsEvents['blobAdded']) =>
+        this.missing.delete(blobId);
+      const deleted = ({ blobId }: BsFsEvents['blobDeleted']) =>
+        this.invalidate(blobId);
+      const deduplicated = ({
+        blobId,
+        properties,
+      }: BsFsEvents['blobDeduplicated']) => {
+        if (this.properties.has(blobId)) {
+          this.properties.set(blobId, copyProperties(properties));
+        }
+      };
+      bs.on('blobAdded', added);
+      bs.on('blobDeleted', deleted);
+      bs.on('blobDeduplicated', deduplicated);
+      this.unsubscribe = () => {
+        bs.off('blobAdded', added);
+        bs.off('blobDeleted', deleted);
+        bs.off('blobDeduplicated', deduplicated);
+      };
+    }
+  }
+
+  /**
+   * Store a blob through the cache
+   * @param content - The content of the blob
+   * @param metadata - Metadata passed on if the wrapped store is a BsFs,
+   * directly or through another BsCached. Ignored otherwise.
+   */
+  async setBlob(
+    content: Buffer | string | ReadableStream,
+    metadata?: BsFsBlobMetadata,
+  ): Promise<BlobProperties> {
+    const properties =
+      this.bs instanceof BsFs || this.bs instanceof BsCached
+        ? await this.bs.setBlob(content, metadata)
+        : await this.bs.setBlob(content);
+    this.missing.delete(properties.blobId);
+    this.properties.set(properties.blobId, copyProperties(properties));
+    return properties;
+  }
+
+  /**
+   * Read a blob, from the cache if possible. Cached content is not
+   * verified again. Range reads are served from cached content, but don't
+   * fill the cache. Reads from the cache are passed on to a wrapped BsFs
+   * at most once per `touchIntervalMs`.
+   * @param blobId - The id of the blob
+   * @param options - Range and verification of the read
+   */
+  async getBlob(
+    blobId: string,
+    options?: BsFsDownloadOptions,
+  ): Promise<{ content: Buffer; properties: BlobProperties }> {
+    const cached = this.content.get(blobId);
+    if (cached) {
+      const properties = await this.getBlobProperties(blobId);
+      await this.touch(blobId, cached);
+      const { content } = cached;
+      if (!options?.range) {
+        return { content: Buffer.from(content), properties };
+      }
+      const { start, end } = resolveRange(
+        blobId,
+        options.range,
+        content.length,
+      );
+      return { content: Buffer.from(content.subarray(start, end)), properties };
+    }
+
+    const generation = this.generation;
+    const result = await this.bs.getBlob(blobId, options);
+    if (generation === this.generation) {
+      if (!options?.range) {
+        this.content.set(blobId, {
+          content: Buffer.from(result.content),
+          touchedAt: Date.now(),
+        });
+      }
+      this.properties.set(blobId, copyProperties(result.properties));
+    }
+    return result;
+  }
+
+  /**
+   * Stream a blob, from the cache if possible. Streamed blobs don't fill
+   * the cache.
+   * @param blobId - The id of the blob
+   * @param options - Range and verification of the read
+   */
+  async getBlobStream(
+    blobId: string,
+    options?: BsFsDownloadOptions,
+  ): Promise<ReadableStream> {
+    const cached = this.content.get(blobId);
+    if (!cached) {
+      return this.bs.getBlobStream(blobId, options);
+    }
+
+    await this.touch(blobId, cached);
+    const { content } = cached;
+    if (!options?.range) {
+      return bufferStream(content);
+    }
+    const { start, end } = resolveRange(blobId, options.range, content.length);
+    return bufferStream(content.subarray(start, end));
+  }
+
+  async deleteBlob(blobId: string): Promise<void> {
+    await this.bs.deleteBlob(blobId);
+    this.invalidate(blobId);
+    this.missing.set(blobId, true);
+  }
+
+  async blobExists(blobId: string): Promise<boolean> {
+    if (this.missing.get(blobId)) {
+      return false;
+    }
+
+    const generation = this.generation;
+    const exists = await this.bs.blobExists(blobId);
+    if (!exists && generation === this.generation) {
+      this.missing.set(blobId, true);
+    }
+    return exists;
+  }
+
+  async getBlobProperties(blobId: string): Promise<BlobProperties> {
+    const cached = this.properties.get(blobId);
+    if (cached) {
+      return copyProperties(cached);
+    }
+
+    const generation = this.generation;
+    const properties = await this.bs.getBlobProperties(blobId);
+    if (generation === this.generation) {
+      this.properties.set(blobId, copyProperties(properties));
+    }
+    return properties;
+  }
+
+  async listBlobs(options?: ListBlobsOptions): Promise<ListBlobsResult> {
+    return this.bs.listBlobs(options);
+  }
+
+  async generateSignedUrl(
+    blobId: string,
+    expiresIn: number,
+    permissions?: 'read' | 'delete',
+  ): Promise<string> {
+    return this.bs.generateSignedUrl(blobId, expiresIn, permissions);
+  }
+
+  // ...........................................................................
+  /**
+   * Forget what is cached about a blob, e.g. after it was deleted or its
+   * metadata was changed through another instance
+   * @param blobId - The id of the blob, or undefined to forget all blobs
+   */
+  invalidate(blobId?: string): void {
+    this.generation++;
+    if (blobId === undefined) {
+      this.content.clear();
+      this.properties.clear();
+      this.missing.clear();
+      return;
+    }
+
+    this.content.delete(blobId);
+    this.properties.delete(blobId);
+    this.missing.delete(blobId);
+  }
+
+  /**
+   * Stop following the changes of a wrapped BsFs and drop everything
+   * cached. The cache can be used further, but then reads blobs deleted by
+   * the BsFs from the cache until `invalidate` is called.
+   */
+  close(): void {
+    this.unsubscribe?.();
+    this.unsubscribe = undefined;
+    this.invalidate();
+  }
+
+  /**
+   * Return the hits, misses and sizes of the caches
+   */
+  stats(): BsCachedStats {
+    return {
+      content: this.content.stats(),
+      properties: this.properties.stats(),
+      missing: this.missing.stats(),
+    };
+  }
+
+  // ...........................................................................
+  /**
+   * Pass a read served from cached content on to a wrapped BsFs, so that
+   * it counts for eviction. Blobs deleted meanwhile are still served.
+   * @param blobId - The id of the blob
+   * @param cached - The cached content of the blob
+   */
+  private async touch(blobId: string, cached: CachedContent): Promise<void> {
+    const now = Date.now();
+    if (
+      !(this.bs instanceof BsFs) ||
+      now - cached.touchedAt < this.touchIntervalMs
+    ) {
+      return;
+    }
+
+    cached.touchedAt = now;
+    try {
+      await this.bs.touchBlob(blobId);
+    } catch {
+      // Deleted meanwhile
+    }
+  }
+}
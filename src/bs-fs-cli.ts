@@ -0,0 +1,12 @@
+#!/usr/bin/env node
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { runCli } from './cli.ts';
+
+runCli(process.argv.slice(2), process).then((code) => {
+  process.exitCode = code;
+});
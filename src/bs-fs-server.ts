@@ -0,0 +1,503 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { createHash, timingSafeEqual } from 'node:crypto';
+import {
+  createServer,
+  IncomingMessage,
+  Server,
+  ServerResponse,
+} from 'node:http';
+import { AddressInfo } from 'node:net';
+import { pipeline, Readable } from 'node:stream';
+import { ReadableStream as NodeReadableStream } from 'node:stream/web';
+
+import { BsFs } from './bs-fs.ts';
+import {
+  BlobNotFoundError,
+  BlobReferencedError,
+  SignedUrlError,
+} from './errors.ts';
+import { createdAtHeader } from './http-headers.ts';
+import { blobIdPattern } from './layout.ts';
+import { BsFsSignedUrlGrant } from './signed-url.ts';
+
+/**
+ * Options for a BsFsServer
+ */
+export interface BsFsServerOptions {
+  /** The host to listen on. Defaults to 127.0.0.1. */
+  host?: string;
+
+  /** The port to listen on. Defaults to a random free port. */
+  port?: number;
+
+  /**
+   * Requests sending this token as `Authorization: Bearer <token>` may do
+   * everything. Without a token, only requests carrying a signed URL are
+   * accepted, which excludes uploads and listings.
+   */
+  accessToken?: string;
+}
+
+/** The scheme of URLs created by BsFs.generateSignedUrl */
+const signedUrlScheme = 'fs://';
+
+// .............................................................................
+/**
+ * An error that is answered with the given HTTP status
+ */
+class HttpError extends Error {
+  /**
+   * Create a new HttpError
+   * @param status - The HTTP status code
+   * @param message - Describes the error
+   */
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+  }
+}
+
+/**
+ * Map an error to the HTTP status it is answered with
+ * @param error - The error
+ */
+const statusOf = (error: Error): number => {
+  if (error instanceof HttpError) {
+    return error.status;
+  }
+  if (error instanceof SignedUrlError) {
+    return 403;
+  }
+  if (error instanceof BlobNotFoundError) {
+    return 404;
+  }
+  if (error instanceof BlobReferencedError) {
+    return 409;
+  }
+  return 500;
+};
+
+/**
+ * Send a JSON response
+ * @param res - The response
+ * @param status - The HTTP status code
+ * @param body - The body, serialized as JSON
+ */
+const sendJson = (res: ServerResponse, status: number, body: unknown) => {
+  const json = JSON.stringify(body);
+  res.writeHead(status, {
+    'Content-Type': 'application/json; charset=utf-8',
+    'Content-Length': Buffer.byteLength(json),
+  });
+  res.end(json);
+};
+
+/**
+ * Check if an If-None-Match header matches the ETag of a blob
+ * @param header - The If-None-Match header
+ * @param etag - The ETag of the blob
+ */
+const matchesEtag = (header: string | undefined, etag: string): boolean =>
+  !!header &&
+  header
+    .split(',')
+    .map((tag) => tag.trim().replace(/^W\//, ''))
+    .some((tag) => tag === '*' || tag === etag);
+
+/**
+ * Parse a Range header of a blob with the given size. Headers that are
+ * malformed or ask for several ranges are ignored, as HTTP allows.
+ * @param header - The Range header
+ * @param size - The size of the blob in bytes
+ * @returns The requested bytes with an exclusive end, `undefined` to send
+ * the whole blob or 'unsatisfiable' if the range lies outside of the blob
+ */
+const parseRangeHeader = (
+  header: string | undefined,
+  size: number,
+): { start: number; end: number } | 'unsatisfiable' | undefined => {
+  const match = /^bytes=(\d*)-(\d*)$/.exec(header?.trim() ?? '');
+  if (!match || (!match[1] && !match[2])) {
+    return undefined;
+  }
+
+  // bytes=-500 selects the last 500 bytes
+  if (!match[1]) {
+    const suffix = Number(match[2]);
+    return suffix === 0 || size === 0
+      ? 'unsatisfiable'
+      : { start: Math.max(0, size - suffix), end: size };
+  }
+
+  const start = Number(match[1]);
+  const last = match[2] ? Number(match[2]) : Infinity;
+  if (last < start) {
+    return undefined;
+  }
+  if (start >= size) {
+    return 'unsatisfiable';
+  }
+  return { start, end: Math.min(last + 1, size) };
+};
+
+// .............................................................................
+/**
+ * Serves a BsFs over HTTP:
+ *
+ * - `POST /blobs` or `PUT /blobs` stores the streamed request body
+ * - `GET /blobs?prefix=&maxResults=&continuationToken=` lists blobs
+ * - `GET /blobs/<blobId>` and `HEAD /blobs/<blobId>` read a blob
+ * - `DELETE /blobs/<blobId>` deletes a blob
+ * - `POST /blobs/<blobId>/signed-url?expiresIn=&permissions=` creates a
+ *   signed HTTP URL for a blob
+ *
+ * Reads and deletes are allowed with a signed URL granting them, everything
+ * is allowed with the access token.
+ */
+export class BsFsServer {
+  private readonly bs: BsFs;
+  private readonly host: string;
+  private readonly port: number;
+  private readonly accessTokenHash: Buffer | undefined;
+  private readonly responses = new Set<ServerResponse>();
+  private server: Server | undefined;
+  private _url: string | undefined;
+
+  /**
+   * Create a new BsFsServer
+   * @param bs - The store to serve
+   * @param options - Additional options
+   */
+  constructor(bs: BsFs, options: BsFsServerOptions = {}) {
+    this.bs = bs;
+    this.host = options.host ?? '127.0.0.1';
+    this.port = options.port ?? 0;
+    this.accessTokenHash =
+      options.accessToken === undefined
+        ? undefined
+        : createHash('sha256').update(options.accessToken).digest();
+  }
+
+  /** The base URL of the server, e.g. http://127.0.0.1:8080 */
+  get url(): string {
+    if (!this._url) {
+      throw new Error('Server is not listening');
+    }
+    return this._url;
+  }
+
+  /**
+   * Start listening
+   * @returns The base URL of the server
+   */
+  async listen(): Promise<string> {
+    if (this.server) {
+      throw new Error('Server is already listening');
+    }
+
+    const server = createServer(this.handleRequest);
+    await new Promise<void>((resolve, reject) => {
+      server.once('error', reject);
+      server.listen(this.port, this.host, () => {
+        server.off('error', reject);
+        resolve();
+      });
+    });
+
+    const { port } = server.address() as AddressInfo;
+    const host = this.host.includes(':') ? `[${this.host}]` : this.host;
+    this.server = server;
+    this._url = `http://${host}:${port}`;
+    return this._url;
+  }
+
+  /**
+   * Stop listening. Running requests are completed.
+   */
+  async close(): Promise<void> {
+    const server = this.server;
+    if (!server) {
+      return;
+    }
+
+    this.server = undefined;
+    this._url = undefined;
+    await new Promise<void>((resolve) => {
+      server.close(() => resolve());
+
+      // Keep-alive connections are closed once their response is done
+      server.closeIdleConnections();
+      for (const res of this.responses) {
+        res.once('close', () => server.closeIdleConnections());
+      }
+    });
+  }
+
+  /**
+   * Turn a URL created by BsFs.generateSignedUrl into a URL of this server
+   * @param signedUrl - The signed URL
+   */
+  toHttpUrl(signedUrl: string): string {
+    if (!signedUrl.startsWith(signedUrlScheme)) {
+      throw new Error(`Not a signed URL: ${signedUrl}`);
+    }
+    return `${this.url}/blobs/${signedUrl.substring(signedUrlScheme.length)}`;
+  }
+
+  /**
+   * Handle a request. Can be used to serve the store from an existing
+   * HTTP server.
+   * @param req - The request
+   * @param res - The response
+   */
+  readonly handleRequest = (req: IncomingMessage, res: ServerResponse) => {
+    this.responses.add(res);
+    res.once('close', () => this.responses.delete(res));
+
+    this.route(req, res).catch((error: Error) => {
+      sendJson(res, statusOf(error), { error: error.message });
+    });
+  };
+
+  // ...........................................................................
+  /**
+   * Dispatch a request to its handler
+   * @param req - The request
+   * @param res - The response
+   */
+  private async route(req: IncomingMessage, res: ServerResponse) {
+    const url = new URL(req.url!, 'http://localhost');
+    const [root, rawBlobId, action, ...rest] = url.pathname.split('/').slice(1);
+    const method = req.method!;
+
+    if (root !== 'blobs' || rest.length > 0) {
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+    }
+
+    if (!rawBlobId) {
+      if (method === 'GET') {
+        this.authorize(req);
+        return this.list(res, url);
+      }
+      if (method === 'POST' || method === 'PUT') {
+        this.authorize(req);
+        return this.upload(req, res);
+      }
+      return this.notAllowed(res, 'GET, POST, PUT');
+    }
+
+    let blobId: string;
+    try {
+      blobId = decodeURIComponent(rawBlobId);
+    } catch {
+      throw new HttpError(400, `Malformed blob id: ${rawBlobId}`);
+    }
+    if (!blobIdPattern.test(blobId)) {
+      throw new HttpError(400, `Malformed blob id: ${rawBlobId}`);
+    }
+
+    if (action === 'signed-url') {
+      if (method === 'POST') {
+        this.authorize(req);
+        return this.signUrl(res, blobId, url);
+      }
+      return this.notAllowed(res, 'POST');
+    }
+
+    if (action !== undefined) {
+      throw new HttpError(404, `Not found: ${url.pathname}`);
+    }
+
+    if (method === 'GET' || method === 'HEAD') {
+      this.authorize(req, url, rawBlobId, 'read');
+      return this.download(req, res, blobId, method === 'HEAD');
+    }
+    if (method === 'DELETE') {
+      this.authorize(req, url, rawBlobId, 'delete');
+      await this.bs.deleteBlob(blobId);
+      res.writeHead(204).end();
+      return;
+    }
+    return this.notAllowed(res, 'GET, HEAD, DELETE');
+  }
+
+  /**
+   * Check if a request may do what it asks for. Throws an HttpError or a
+   * SignedUrlError if not.
+   * @param req - The request
+   * @param url - The URL of the request, needed for signed URLs only
+   * @param rawBlobId - The blob id as it appears in the URL
+   * @param permission - The permission a signed URL must grant
+   */
+  private authorize(
+    req: IncomingMessage,
+    url?: URL,
+    rawBlobId?: string,
+    permission?: BsFsSignedUrlGrant['permissions'],
+  ) {
+    const match = /^Bearer (.+)$/.exec(req.headers.authorization ?? '');
+    if (match && this.accessTokenHash) {
+      const hash = createHash('sha256').update(match[1]!).digest();
+      if (timingSafeEqual(hash, this.accessTokenHash)) {
+        return;
+      }
+      throw new HttpError(401, 'Invalid access token');
+    }
+
+    if (url?.searchParams.has('signature')) {
+      const grant = this.bs.verifySignedUrl(
+        `${signedUrlScheme}${rawBlobId}${url.search}`,
+      );
+      if (grant.permissions !== permission) {
+        throw new HttpError(403, `Signed URL does not grant ${permission}`);
+      }
+      return;
+    }
+
+    throw new HttpError(401, 'Access token or signed URL required');
+  }
+
+  /**
+   * Answer a request with 405 Method Not Allowed
+   * @param res - The response
+   * @param allow - The allowed methods
+   */
+  private notAllowed(res: ServerResponse, allow: string) {
+    res.setHeader('Allow', allow);
+    throw new HttpError(405, 'Method not allowed');
+  }
+
+  /**
+   * Store the request body as a blob
+   * @param req - The request
+   * @param res - The response
+   */
+  private async upload(req: IncomingMessage, res: ServerResponse) {
+    const properties = await this.bs.setBlob(
+      Readable.toWeb(req) as ReadableStream,
+    );
+    sendJson(res, 201, properties);
+  }
+
+  /**
+   * Send a page of the blob list
+   * @param res - The response
+   * @param url - The URL holding the list options
+   */
+  private async list(res: ServerResponse, url: URL) {
+    const params = url.searchParams;
+    const maxResults = params.has('maxResults')
+      ? Number(params.get('maxResults'))
+      : undefined;
+    if (
+      maxResults !== undefined &&
+      !(Number.isInteger(maxResults) && maxResults > 0)
+    ) {
+      throw new HttpError(400, 'maxResults must be a positive integer');
+    }
+
+    sendJson(
+      res,
+      200,
+      await this.bs.listBlobs({
+        prefix: params.get('prefix') ?? undefined,
+        continuationToken: params.get('continuationToken') ?? undefined,
+        maxResults,
+      }),
+    );
+  }
+
+  /**
+   * Send a blob or a range of it
+   * @param req - The request
+   * @param res - The response
+   * @param blobId - The id of the blob
+   * @param headOnly - Send the headers only
+   */
+  private async download(
+    req: IncomingMessage,
+    res: ServerResponse,
+    blobId: string,
+    headOnly: boolean,
+  ) {
+    const { size, createdAt, contentType } =
+      await this.bs.getBlobProperties(blobId);
+
+    // Blobs never change, so their id is a strong ETag
+    const etag = `"${blobId}"`;
+    res.setHeader('ETag', etag);
+    res.setHeader('Accept-Ranges', 'bytes');
+    res.setHeader(createdAtHeader, createdAt.toISOString());
+
+    if (matchesEtag(req.headers['if-none-match'], etag)) {
+      res.writeHead(304).end();
+      return;
+    }
+
+    const range = parseRangeHeader(req.headers.range, size);
+    if (range === 'unsatisfiable') {
+      res.setHeader('Content-Range', `bytes */${size}`);
+      throw new HttpError(416, `Range not satisfiable: ${req.headers.range}`);
+    }
+
+    const { start, end } = range ?? { start: 0, end: size };
+    const status = range ? 206 : 200;
+    const headers: Record<string, string | number> = {
+      'Content-Type': contentType ?? 'application/octet-stream',
+      'Content-Length': end - start,
+    };
+    if (range) {
+      headers['Content-Range'] = `bytes ${start}-${end - 1}/${size}`;
+    }
+
+    if (headOnly) {
+      res.writeHead(status, headers).end();
+      return;
+    }
+
+    const stream = await this.bs.getBlobStream(
+      blobId,
+      range ? { range } : undefined,
+    );
+    res.writeHead(status, headers);
+
+    // Errors while streaming, e.g. failed verification, abort the response
+    pipeline(
+      Readable.fromWeb(stream as NodeReadableStream),
+      res,
+      () => undefined,
+    );
+  }
+
+  /**
+   * Create a signed HTTP URL for a blob
+   * @param res - The response
+   * @param blobId - The id of the blob
+   * @param url - The URL holding expiry and permissions
+   */
+  private async signUrl(res: ServerResponse, blobId: string, url: URL) {
+    const expiresIn = Number(url.searchParams.get('expiresIn'));
+    if (!(expiresIn > 0)) {
+      throw new HttpError(400, 'expiresIn must be a positive number');
+    }
+
+    const permissions = url.searchParams.get('permissions') ?? 'read';
+    if (permissions !== 'read' && permissions !== 'delete') {
+      throw new HttpError(400, `Unknown permissions: ${permissions}`);
+    }
+
+    const signedUrl = await this.bs.generateSignedUrl(
+      blobId,
+      expiresIn,
+      permissions,
+    );
+    sendJson(res, 200, { url: this.toHttpUrl(signedUrl) });
+  }
+}
@@ -1,13 +1,3108 @@
 // @license
-// Copyright (c) 2025 Rljson
+// Copyright (c) 2026 Rljson
 //
 // Use of this source code is governed by terms that can be
 // found in the LICENSE file in the root of this package.
 
-// .............................................................................
-export class BsFs {
-  /** Example instance for test purposes */
+import { hshBuffer } from '@rljson/hash';
+
+import { randomUUID } from 'node:crypto';
+import { EventEmitter } from 'node:events';
+import { createReadStream } from 'node:fs';
+import {
+  FileHandle,
+  link,
+  mkdir,
+  open,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  rmdir,
+  stat,
+  unlink,
+} from 'node:fs/promises';
+import { tmpdir } from 'node:os';
+import {
+  basename,
+  dirname,
+  extname,
+  join,
+  relative,
+  resolve,
+  sep,
+} from 'node:path';
+import { Readable, Writable } from 'node:stream';
+import { pipeline } from 'node:stream/promises';
+import { ReadableStream as NodeReadableStream } from 'node:stream/web';
+
+import { BlobHasher } from './blob-hasher.ts';
+import { BlobIndex, BlobIndexEntry } from './blob-index.ts';
+import {
+  BsFsBlobMetadata,
+  BsFsBlobProperties,
+  mergeMetadata,
+  normalizeMetadata,
+  pickMetadata,
+  sameMetadata,
+} from './blob-metadata.ts';
+import { BsFsChange, ChangeLog } from './change-log.ts';
+import {
+  BsFsCodec,
+  BsFsCompressionOptions,
+  chooseCodec,
+  codecs,
+  decodeStream,
+  encodeBuffer,
+  encodeStream,
+  isCodecSupported,
+  ResolvedCompression,
+  resolveCompression,
+} from './compression.ts';
+import {
+  BsFsEncryptionOptions,
+  BsFsKeyProvider,
+  currentKey,
+  decryptRange,
+  decryptStream,
+  encryptBuffer,
+  encryptStream,
+  isSealedMetadata,
+  openMetadata,
+  readKeyId,
+  ResolvedEncryption,
+  resolveEncryption,
+  SealedMetadata,
+  sealMetadata,
+} from './encryption.ts';
+import {
+  BlobDecryptionError,
+  BlobIntegrityError,
+  BlobNotFoundError,
+  BlobNotRetainedError,
+  BlobReferencedError,
+  IncompatibleStoreError,
+  QuotaExceededError,
+} from './errors.ts';
+import { FileLock } from './file-lock.ts';
+import {
+  blobIdPattern,
+  BlobPaths,
+  BsFsLayoutName,
+  BsFsLayoutOptions,
+  layoutPaths,
+  layouts,
+  metaSuffix,
+  payloadExtensions,
+  ResolvedLayout,
+  resolveLayout,
+  sameLayout,
+  usesDir,
+} from './layout.ts';
+import {
+  BsFsFeature,
+  manifestFileName,
+  missingFeatures,
+  newManifest,
+  parseManifest,
+  StoreManifest,
+} from './manifest.ts';
+import { magicLength, mimeSniffLength, sniffContentType } from './mime.ts';
+import {
+  BsFsEvictionCandidate,
+  BsFsQuotaOptions,
+  chooseVictims,
+  exceededLimit,
+  resolveQuota,
+  ResolvedQuota,
+} from './quota.ts';
+import { BsFsRange, resolveRange, sliceRange } from './range.ts';
+import {
+  BsFsSignedUrlGrant,
+  createSignedUrl,
+  resolveSecrets,
+  verifySignedUrl,
+} from './signed-url.ts';
+import { createTarHeader, readTar, tarPadding, tarTrailer } from './tar.ts';
+import { BsFsWatcher, BsFsWatchOptions } from './watcher.ts';
+
+import type {
+  Bs,
+  DownloadBlobOptions,
+  ListBlobsOptions,
+  ListBlobsResult,
+} from '@rljson/bs';
+
+interface StoredMetadata extends BsFsBlobMetadata {
+  blobId: string;
+  size: number;
+  createdAt: string;
+
+  /** The codec the payload is compressed with, missing if uncompressed */
+  codec?: BsFsCodec;
+
+  /** The id of the key the payload is encrypted with, missing if plain */
+  keyId?: string;
+
+  /** The number of owners retaining the blob, missing if none */
+  refCount?: number;
+
+  /** When the last owner released the blob, missing if it never was */
+  releasedAt?: string;
+
+  /** When the blob was last read, only recorded by stores with a quota */
+  lastAccessedAt?: string;
+
+  /**
+   * The encrypted content type, filename and tags of an encrypted store,
+   * replacing the plain fields on disk
+   */
+  sealed?: SealedMetadata;
+}
+
+/**
+ * How a payload is stored on disk
+ */
+type PayloadEncoding = Pick<StoredMetadata, 'blobId' | 'codec' | 'keyId'>;
+
+/**
+ * What a new blob is described with
+ */
+interface BlobDescription {
+  /** Normalized metadata given for the blob */
+  added: BsFsBlobMetadata;
+
+  /** The content type detected from the content */
+  detected: string | undefined;
+
+  /** The creation date to keep, e.g. of an imported blob */
+  createdAt?: string;
+}
+
+/**
+ * The metadata fields that can't be derived from a payload
+ */
+type RecoveredMetadata = Pick<
+  StoredMetadata,
+  | 'createdAt'
+  | 'refCount'
+  | 'releasedAt'
+  | 'lastAccessedAt'
+  | 'sealed'
+  | keyof BsFsBlobMetadata
+>;
+
+/**
+ * Options for configuring a BsFs instance
+ */
+export interface BsFsOptions {
+  /**
+   * Flush payload, metadata and directory entries to disk before a write
+   * is reported as done. Slower, but survives power loss. Defaults to false.
+   */
+  fsync?: boolean;
+
+  /**
+   * Temp files older than this many milliseconds are treated as leftovers
+   * of a crashed write and removed on startup. Defaults to 10 minutes.
+   */
+  tempFileMaxAgeMs?: number;
+
+  /**
+   * The blob index log is compacted once it holds more than this many
+   * records and mostly outdated ones. Defaults to 1000.
+   */
+  indexCompactThreshold?: number;
+
+  /**
+   * The change log drops its older half once it holds more than this many
+   * changes. Defaults to 10000.
+   */
+  changeLogMaxRecords?: number;
+
+  /**
+   * Re-hash content while reading it and fail with a BlobIntegrityError
+   * if it doesn't match its blob id anymore. Defaults to false.
+   */
+  verifyOnRead?: boolean;
+
+  /**
+   * Move blobs found corrupt on read into the `lost+found` directory.
+   * Defaults to false.
+   */
+  quarantineCorruptBlobs?: boolean;
+
+  /**
+   * Compress new payloads with this codec. Blob ids and sizes still refer
+   * to the uncompressed content. Stores may contain payloads compressed
+   * with different codecs. Defaults to no compression.
+   */
+  compression?: BsFsCodec | BsFsCompressionOptions;
+
+  /**
+   * Encrypt new payloads and the content type, filename and tags of blobs
+   * with AES-256-GCM. Blob ids, sizes and dates stay readable, and blob ids
+   * are still derived from the plaintext. Defaults to no encryption.
+   */
+  encryption?: BsFsEncryptionOptions;
+
+  /**
+   * Secrets to sign URLs with. The first one signs new URLs, all of them
+   * are accepted, so secrets can be rotated. Defaults to a random secret,
+   * which makes URLs valid for this instance only.
+   */
+  signedUrlSecrets?: ReadonlyArray<string | Buffer>;
+
+  /**
+   * Limit the number and total size of blobs, e.g. for stores used as a
+   * cache. Retained blobs are never evicted. Defaults to no limit.
+   */
+  quota?: BsFsQuotaOptions;
+
+  /**
+   * Detect the content type of new blobs from their first bytes, unless
+   * one is given. Defaults to false, as other Bs implementations return
+   * no content type.
+   */
+  detectContentType?: boolean;
+
+  /**
+   * How blob files are placed below the base directory. Only used by new
+   * stores: Existing stores keep the layout recorded in their manifest
+   * until migrateLayout is called. Defaults to `legacy`.
+   */
+  layout?: BsFsLayoutName | BsFsLayoutOptions;
+
+  /**
+   * Writes, deletes and other changes hold a lock file shared by all
+   * processes using the store. A lock not refreshed for this many
+   * milliseconds is treated as left behind by a crashed process and
+   * broken. Defaults to 10 seconds.
+   */
+  lockStaleMs?: number;
+
+  /**
+   * Changes fail with a LockTimeoutError if the lock can't be acquired
+   * within this many milliseconds. Defaults to one minute.
+   */
+  lockTimeoutMs?: number;
+}
+
+/**
+ * Options for listing the blobs of a BsFs
+ */
+export type BsFsListBlobsOptions = ListBlobsOptions & {
+  /** Only list blobs carrying this tag */
+  tag?: string;
+};
+
+/**
+ * A page of blobs of a BsFs
+ */
+export type BsFsListBlobsResult = ListBlobsResult & {
+  blobs: BsFsBlobProperties[];
+};
+
+/**
+ * Options for reading blobs from a BsFs
+ */
+export interface BsFsDownloadOptions extends Omit<
+  DownloadBlobOptions,
+  'range'
+> {
+  /** Only read these bytes of the blob */
+  range?: BsFsRange;
+
+  /**
+   * Verify the content against its blob id while reading.
+   * Overrides the `verifyOnRead` option of the store. Range reads are
+   * verified by hashing the complete payload before the range is read.
+   */
+  verify?: boolean;
+}
+
+/** Name of the blob index log inside the base directory */
+const indexFileName = 'bs-fs.index.log';
+
+/** Name of the change log inside the base directory */
+const changeLogFileName = 'bs-fs.changes.log';
+
+/** Name of the lock file inside the base directory */
+const lockFileName = 'bs-fs.lock';
+
+/** Suffix of files that are written but not yet renamed into place */
+const tempSuffix = '.tmp';
+
+/** Directory inside the base directory receiving quarantined files */
+const quarantineDirName = 'lost+found';
+
+/** Directory inside archives holding the blobs */
+const archiveDir = 'blobs/';
+
+/**
+ * Check whether a payload is stored compressed or encrypted
+ * @param encoding - How the payload is stored
+ */
+const isEncoded = (encoding: Omit<PayloadEncoding, 'blobId'>): boolean =>
+  encoding.codec !== undefined || encoding.keyId !== undefined;
+
+/**
+ * Return the file telling in which of two layouts a blob is. Blobs are
+ * moved by linking the payload first and moving the metadata last, so the
+ * metadata tells, unless both layouts place it alike.
+ * @param a - The files of the blob in one layout
+ * @param b - The files of the blob in the other layout
+ */
+const locatingFile = (a: BlobPaths, b: BlobPaths): keyof BlobPaths =>
+  a.metaPath === b.metaPath ? 'filePath' : 'metaPath';
+
+/**
+ * Collect all chunks of a stream into a single buffer
+ * @param source - The stream
+ */
+const collect = async (source: AsyncIterable<Uint8Array>): Promise<Buffer> => {
+  const chunks: Uint8Array[] = [];
+  for await (const chunk of source) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Read the metadata of a blob stored in an archive
+ * @param data - The metadata file
+ * @returns The creation date and the metadata fields with valid types
+ */
+const parseArchivedMetadata = (
+  data: Buffer,
+): { createdAt?: string } & BsFsBlobMetadata => {
+  let parsed: Partial<Record<'createdAt' | keyof BsFsBlobMetadata, unknown>>;
+  try {
+    parsed = JSON.parse(data.toString('utf8')) ?? {};
+  } catch {
+    return {};
+  }
+
+  const { createdAt } = parsed;
+  return {
+    ...pickMetadata(parsed),
+    createdAt:
+      typeof createdAt === 'string' && !isNaN(Date.parse(createdAt))
+        ? createdAt
+        : undefined,
+  };
+};
+
+/**
+ * Kinds of problems found when verifying a store
+ *
+ * - `corrupt`: The payload doesn't hash to its blob id
+ * - `truncated`: The payload is shorter than its metadata says
+ * - `misplaced`: The payload is not located where its blob id belongs
+ * - `orphanedPayload`: The payload has no metadata
+ * - `orphanedMetadata`: The metadata has no payload
+ * - `invalidMetadata`: The metadata can't be parsed or doesn't match
+ *   the payload
+ */
+export type BsFsIssueKind =
+  | 'corrupt'
+  | 'truncated'
+  | 'misplaced'
+  | 'orphanedPayload'
+  | 'orphanedMetadata'
+  | 'invalidMetadata';
+
+/**
+ * A problem found when verifying a store
+ */
+export interface BsFsIssue {
+  /** The kind of problem */
+  kind: BsFsIssueKind;
+
+  /** The blob id, as given by the file name */
+  blobId: string;
+
+  /** The affected file */
+  path: string;
+
+  /** A human readable description */
+  message: string;
+}
+
+/**
+ * The result of verifying a store
+ */
+export interface BsFsVerifyReport {
+  /** The number of payload files checked */
+  checked: number;
+
+  /** All problems found */
+  issues: BsFsIssue[];
+}
+
+/**
+ * What was done to fix an issue
+ *
+ * - `rebuiltMetadata`: The metadata was written anew from the payload
+ * - `quarantined`: The files were moved into the `lost+found` directory
+ * - `moved`: The payload was moved to its proper location
+ * - `removed`: A needless file was deleted
+ */
+export type BsFsRepairAction =
+  'rebuiltMetadata' | 'quarantined' | 'moved' | 'removed';
+
+/**
+ * The result of repairing a store
+ */
+export interface BsFsRepairReport extends BsFsVerifyReport {
+  /** The action taken for each issue */
+  repaired: { issue: BsFsIssue; action: BsFsRepairAction }[];
+}
+
+/**
+ * Options for rotating keys
+ */
+export interface BsFsRotateKeysOptions {
+  /** Stops the rotation before the next blob once aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * The result of rotating keys
+ */
+export interface BsFsRotateKeysReport {
+  /** The number of blobs checked */
+  checked: number;
+
+  /** The number of blobs encrypted with the current key */
+  rotated: number;
+}
+
+/**
+ * The events of a BsFs and the value passed to their listeners
+ */
+export interface BsFsEvents {
+  /** A new blob was stored */
+  blobAdded: BsFsChange & { properties: BsFsBlobProperties };
+
+  /** A blob was deleted, collected, evicted or quarantined */
+  blobDeleted: BsFsChange;
+
+  /** Content was stored again. Carries the properties of the blob. */
+  blobDeduplicated: { blobId: string; properties: BsFsBlobProperties };
+}
+
+/**
+ * Options for migrating a store to another layout
+ */
+export interface BsFsMigrateLayoutOptions {
+  /** Stops the migration before the next blob once aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * The result of migrating a store to another layout
+ */
+export interface BsFsMigrateLayoutReport {
+  /** The number of blobs checked */
+  checked: number;
+
+  /** The number of blobs moved into the new layout */
+  moved: number;
+}
+
+/**
+ * Blob ids that are in use: either given directly or by a function
+ * collecting them, e.g. by walking rljson data for blob references
+ */
+export type BsFsGcRoots =
+  | Iterable<string>
+  | AsyncIterable<string>
+  | (() =>
+      Iterable<string> | AsyncIterable<string> | Promise<Iterable<string>>);
+
+/**
+ * Options for collecting garbage
+ */
+export interface BsFsGcOptions {
+  /**
+   * Blobs in use besides the retained ones. Defaults to none, which keeps
+   * retained blobs only.
+   */
+  roots?: BsFsGcRoots;
+
+  /**
+   * Unreferenced blobs created or released less than this many
+   * milliseconds ago are kept, so that blobs just stored survive until
+   * they are referenced. Defaults to 10 minutes.
+   */
+  gracePeriodMs?: number;
+
+  /** Only report what would be deleted. Defaults to false. */
+  dryRun?: boolean;
+}
+
+/**
+ * The result of collecting garbage
+ */
+export interface BsFsGcReport {
+  /** The number of blobs checked */
+  checked: number;
+
+  /** The number of blobs referenced by the roots or retained */
+  live: number;
+
+  /** The number of unreferenced blobs kept for the grace period */
+  recent: number;
+
+  /** The ids of the deleted blobs, or of those a dry run would delete */
+  deleted: string[];
+
+  /** The total size of the deleted blobs */
+  deletedBytes: number;
+}
+
+/**
+ * Options for exporting blobs into an archive
+ */
+export interface BsFsExportOptions {
+  /** Only export blobs whose id starts with this prefix */
+  prefix?: string;
+
+  /**
+   * Only export blobs created after this date, e.g. the date of the last
+   * export. Defaults to all blobs.
+   */
+  since?: Date;
+}
+
+/**
+ * The result of exporting blobs into an archive
+ */
+export interface BsFsExportReport {
+  /** The number of blobs exported */
+  exported: number;
+
+  /** The total size of the exported blobs */
+  bytes: number;
+}
+
+/**
+ * The result of importing an archive
+ */
+export interface BsFsImportReport {
+  /** The ids of the blobs added to the store */
+  imported: string[];
+
+  /** The ids of the blobs the store contained already */
+  skipped: string[];
+
+  /** The ids of the blobs not imported because their content doesn't match */
+  invalid: string[];
+}
+
+/**
+ * The space taken by a store
+ */
+export interface BsFsUsage {
+  /** The number of blobs */
+  blobs: number;
+
+  /** The total size of all blobs */
+  bytes: number;
+
+  /**
+   * The total size of all files below the base directory, including
+   * metadata, the index and temp files but not quarantined files.
+   * Smaller than `bytes` if blobs are compressed.
+   */
+  diskBytes: number;
+}
+
+/**
+ * Filesystem-based implementation of content-addressable blob storage.
+ * All blobs are stored on the filesystem in a hierarchical directory structure.
+ * Useful for persistent storage and production use.
+ */
+export class BsFs implements Bs {
+  private readonly baseDir: string;
+  private readonly fsync: boolean;
+  private readonly tempFileMaxAgeMs: number;
+  private readonly verifyOnRead: boolean;
+  private readonly quarantineCorruptBlobs: boolean;
+  private readonly compression: ResolvedCompression | undefined;
+  private readonly encryption: ResolvedEncryption | undefined;
+  private readonly signedUrlSecrets: Buffer[];
+  private readonly quota: ResolvedQuota | undefined;
+  private readonly detectContentType: boolean;
+  private readonly layout: ResolvedLayout;
+  private readonly features: BsFsFeature[];
+  private readonly index: BlobIndex;
+  private readonly changeLog: ChangeLog;
+  private readonly events = new EventEmitter();
+  private readonly lock: FileLock;
+  private _ready: Promise<void> | undefined;
+  private _manifest: Promise<StoreManifest> | undefined;
+  private changeQueue: Promise<unknown> = Promise.resolve();
+
+  /**
+   * Create a new BsFs instance
+   * @param baseDir - Base directory for blob storage (defaults to './blobs')
+   * @param options - Additional options
+   */
+  constructor(baseDir: string = './blobs', options: BsFsOptions = {}) {
+    this.baseDir = baseDir;
+    this.fsync = options.fsync ?? false;
+    this.tempFileMaxAgeMs = options.tempFileMaxAgeMs ?? 10 * 60 * 1000;
+    this.verifyOnRead = options.verifyOnRead ?? false;
+    this.quarantineCorruptBlobs = options.quarantineCorruptBlobs ?? false;
+    this.compression = resolveCompression(options.compression);
+    this.encryption = resolveEncryption(options.encryption);
+    this.signedUrlSecrets = resolveSecrets(options.signedUrlSecrets);
+    this.quota = resolveQuota(options.quota);
+    this.detectContentType = options.detectContentType ?? false;
+    this.layout = resolveLayout(options.layout ?? 'legacy');
+    this.features = [
+      ...(this.compression ? ['compression' as const] : []),
+      ...(this.encryption ? ['encryption' as const] : []),
+    ];
+    this.index = new BlobIndex(
+      join(baseDir, indexFileName),
+      () => this.findAllBlobs(),
+      {
+        compactThreshold: options.indexCompactThreshold,
+        encode: (entry) => this.sealFields(entry),
+        decode: (entry) => this.openFields(entry),
+      },
+    );
+    this.changeLog = new ChangeLog(join(baseDir, changeLogFileName), {
+      maxRecords: options.changeLogMaxRecords,
+    });
+    this.lock = new FileLock(join(baseDir, lockFileName), {
+      staleMs: options.lockStaleMs,
+      timeoutMs: options.lockTimeoutMs,
+    });
+  }
+
+  /** Example instance for test purposes, operating on a fresh temp directory */
   static get example(): BsFs {
-    return new BsFs();
+    return new BsFs(join(tmpdir(), `bs-fs-example-${randomUUID()}`));
+  }
+
+  /**
+   * Create a new store and write its manifest. Throws an
+   * IncompatibleStoreError if the directory exists and isn't empty, apart
+   * from the change log of a cleared store.
+   * @param baseDir - Base directory for blob storage
+   * @param options - Additional options
+   */
+  static async create(
+    baseDir: string,
+    options: BsFsOptions = {},
+  ): Promise<BsFs> {
+    const entries = await readdir(baseDir).catch(() => []);
+    if (entries.some((name) => name !== changeLogFileName)) {
+      throw new IncompatibleStoreError(baseDir, 'the directory is not empty');
+    }
+
+    const bs = new BsFs(baseDir, options);
+    await bs.ready();
+    return bs;
+  }
+
+  /**
+   * Open an existing store. Unlike the constructor, this checks that the
+   * directory holds a store and that the options fit its manifest, and
+   * throws an IncompatibleStoreError otherwise: A given layout must be the
+   * layout of the store, and encrypted stores need encryption. Features
+   * only new payloads are written with, like compression, may differ.
+   * Stores holding blobs from before manifests are opened in the legacy
+   * layout, and get their manifest with the next write.
+   * @param baseDir - Base directory for blob storage
+   * @param options - Additional options
+   */
+  static async open(baseDir: string, options: BsFsOptions = {}): Promise<BsFs> {
+    const bs = new BsFs(baseDir, options);
+    let manifest = await bs.readManifest();
+    if (!manifest && (await bs.holdsLegacyBlobs())) {
+      manifest = await bs.manifest();
+    }
+    if (!manifest) {
+      throw new IncompatibleStoreError(baseDir, 'no manifest found');
+    }
+    if (manifest.features.includes('encryption') && !bs.encryption) {
+      throw new IncompatibleStoreError(
+        baseDir,
+        'the store is encrypted, but no encryption is configured',
+      );
+    }
+    if (
+      options.layout !== undefined &&
+      !sameLayout(bs.layout, manifest.layout)
+    ) {
+      throw new IncompatibleStoreError(
+        baseDir,
+        'the store uses another layout than configured',
+      );
+    }
+
+    bs._manifest = Promise.resolve(manifest);
+    return bs;
+  }
+
+  /**
+   * Locate the files of a blob. While a migration is running, blobs not
+   * moved yet are found in the previous layout. Missing blobs belong to
+   * the current layout. Ids that no blob can have aren't found, so that
+   * they can't point outside the base directory.
+   * @param blobId - The id of the blob
+   */
+  private async getBlobPath(blobId: string): Promise<BlobPaths> {
+    if (!blobIdPattern.test(blobId)) {
+      throw new BlobNotFoundError(blobId);
+    }
+
+    const { layout, previousLayout } = await this.manifest();
+    const paths = layoutPaths(this.baseDir, layout, blobId);
+    if (!previousLayout) {
+      return paths;
+    }
+
+    const previous = layoutPaths(this.baseDir, previousLayout, blobId);
+    const file = locatingFile(paths, previous);
+    if (await this.fileExists(paths[file])) {
+      return paths;
+    }
+    return (await this.fileExists(previous[file])) ? previous : paths;
+  }
+
+  /**
+   * Read the manifest once. Stores without manifest holding blobs already
+   * were created before manifests were written and use the legacy layout,
+   * new stores the configured one.
+   */
+  private manifest(): Promise<StoreManifest> {
+    this._manifest ??= this.readManifest().then(
+      async (manifest) =>
+        manifest ??
+        newManifest(
+          (await this.index.count()) > 0 ? layouts.legacy : this.layout,
+          [],
+        ),
+    );
+    return this._manifest;
+  }
+
+  /**
+   * Check whether a store without manifest holds blobs placed in the
+   * legacy layout, as stores written before manifests do
+   */
+  private async holdsLegacyBlobs(): Promise<boolean> {
+    const [first] = (await this.index.list({ maxResults: 1 })).entries;
+    return (
+      first !== undefined &&
+      (await this.fileExists(
+        layoutPaths(this.baseDir, layouts.legacy, first.blobId).metaPath,
+      ))
+    );
+  }
+
+  /**
+   * Read and check the manifest from disk. Throws an IncompatibleStoreError
+   * if this package can't read the store.
+   * @returns The manifest, or undefined if there is none
+   */
+  private async readManifest(): Promise<StoreManifest | undefined> {
+    let content: string;
+    try {
+      content = await readFile(join(this.baseDir, manifestFileName), 'utf8');
+    } catch {
+      return undefined;
+    }
+    return parseManifest(this.baseDir, content);
+  }
+
+  /**
+   * Write the manifest of a store that has none yet. Linking publishes the
+   * complete file at once and never replaces an existing manifest.
+   * @param manifest - The new manifest
+   */
+  private async createManifest(manifest: StoreManifest): Promise<void> {
+    await this.ensureDir(this.baseDir);
+    const tempPath = await this.writeTempFile(
+      this.baseDir,
+      JSON.stringify(manifest, null, 2),
+    );
+    try {
+      await link(tempPath, join(this.baseDir, manifestFileName));
+    } finally {
+      await unlink(tempPath);
+    }
+    await this.syncDir(this.baseDir);
+    this._manifest = Promise.resolve(manifest);
+  }
+
+  /**
+   * Atomically replace the manifest
+   * @param manifest - The new manifest
+   */
+  private async writeManifest(manifest: StoreManifest): Promise<void> {
+    await this.ensureDir(this.baseDir);
+    const tempPath = await this.writeTempFile(
+      this.baseDir,
+      JSON.stringify(manifest, null, 2),
+    );
+    await rename(tempPath, join(this.baseDir, manifestFileName));
+    await this.syncDir(this.baseDir);
+    this._manifest = Promise.resolve(manifest);
+  }
+
+  /**
+   * Write the manifest of new stores and of stores created before
+   * manifests, and add the features of this instance to it
+   */
+  private async recordManifest(): Promise<void> {
+    await this.exclusive(async () => {
+      // Another process might have written the manifest meanwhile
+      const existing = await this.readManifest();
+      if (!existing) {
+        const { layout } = await this.manifest();
+        await this.createManifest(newManifest(layout, this.features));
+        return;
+      }
+
+      const missing = missingFeatures(existing, this.features);
+      if (missing.length > 0) {
+        await this.writeManifest({
+          ...existing,
+          features: [...existing.features, ...missing].sort(),
+        });
+      } else {
+        this._manifest = Promise.resolve(existing);
+      }
+    });
+  }
+
+  /**
+   * Ensure directory exists
+   * @param dir - The directory to create
+   */
+  private async ensureDir(dir: string): Promise<void> {
+    await mkdir(dir, { recursive: true });
+  }
+
+  /**
+   * Sweep orphaned temp files and record the manifest once, before the
+   * first write
+   */
+  private ready(): Promise<void> {
+    this._ready ??= this.sweepTempFiles()
+      .then(() => this.recordManifest())
+      .catch((error) => {
+        this._ready = undefined; // Try again with the next write
+        throw error;
+      });
+    return this._ready;
+  }
+
+  /**
+   * Write data into a new temp file next to its final destination
+   * @param dir - The directory the file will finally be renamed into
+   * @param data - The data to write
+   * @returns The path of the temp file
+   */
+  private async writeTempFile(
+    dir: string,
+    data: Buffer | string,
+  ): Promise<string> {
+    const tempPath = join(dir, `.${randomUUID()}${tempSuffix}`);
+    const handle = await open(tempPath, 'wx');
+    try {
+      await handle.writeFile(data);
+      if (this.fsync) {
+        await handle.sync();
+      }
+    } finally {
+      await handle.close();
+    }
+    return tempPath;
+  }
+
+  /**
+   * Stream content into a new temp file
+   * @param dir - The directory the file will finally be renamed into
+   * @param source - The content to write
+   * @returns The path of the temp file
+   */
+  private async writeTempReadable(
+    dir: string,
+    source: Readable,
+  ): Promise<string> {
+    const tempPath = join(dir, `.${randomUUID()}${tempSuffix}`);
+    const handle = await open(tempPath, 'wx');
+
+    try {
+      for await (const chunk of source) {
+        await handle.write(chunk);
+      }
+
+      if (this.fsync) {
+        await handle.sync();
+      }
+    } catch (err) {
+      await handle.close();
+      await rm(tempPath, { force: true });
+      throw err;
+    }
+
+    await handle.close();
+    return tempPath;
+  }
+
+  /**
+   * Stream content into a new temp file while hashing and, if configured,
+   * compressing and encrypting it. Only a few chunks are held in memory at
+   * a time.
+   * @param dir - The directory to create the temp file in
+   * @param stream - The content to write
+   * @returns The path of the temp file, the blob id, the uncompressed size
+   * and how the payload is stored
+   */
+  private async writeTempStream(
+    dir: string,
+    stream: ReadableStream,
+  ): Promise<{
+    tempPath: string;
+    blobId: string;
+    size: number;
+    encoding: Omit<PayloadEncoding, 'blobId'>;
+    detected: string | undefined;
+  }> {
+    const hasher = new BlobHasher();
+    const reader = stream.getReader();
+    let tempPath: string;
+    let codec: BsFsCodec | undefined;
+    let keyId: string | undefined;
+    let detected: string | undefined;
+
+    try {
+      // Read ahead until the codec and the content type can be decided on
+      const head: Uint8Array[] = [];
+      const headLength = Math.max(
+        this.compression ? Math.max(this.compression.minSize, magicLength) : 0,
+        this.detectContentType ? mimeSniffLength : 0,
+      );
+      let headSize = 0;
+      let complete = false;
+      while (headSize < headLength) {
+        const { done, value } = await reader.read();
+        if (done) {
+          complete = true;
+          break;
+        }
+        hasher.update(value);
+        head.push(value);
+        headSize += value.length;
+      }
+      const headBuffer = Buffer.concat(head);
+      codec = chooseCodec(this.compression, headBuffer, complete);
+      detected = this.detectType(headBuffer, complete);
+
+      const chunks = async function* () {
+        yield* head;
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          hasher.update(value);
+          yield value;
+        }
+      };
+
+      let source: Readable = Readable.from(chunks(), { objectMode: false });
+      if (codec) {
+        source = encodeStream(source, codec, this.compression!.level);
+      }
+      if (this.encryption) {
+        const current = await currentKey(this.encryption.keyProvider);
+        keyId = current.keyId;
+        source = encryptStream(
+          source,
+          current.key,
+          keyId,
+          this.encryption.chunkSize,
+        );
+      }
+
+      tempPath = await this.writeTempReadable(dir, source);
+    } catch (err) {
+      await reader.cancel(err).catch(() => undefined);
+      throw err;
+    }
+
+    reader.releaseLock();
+
+    return {
+      tempPath,
+      blobId: hasher.digest(),
+      size: hasher.size,
+      encoding: { codec, keyId },
+      detected,
+    };
+  }
+
+  /**
+   * Detect the content type of new content, if enabled
+   * @param head - The first bytes of the content
+   * @param complete - True if head is the complete content
+   */
+  private detectType(head: Buffer, complete: boolean): string | undefined {
+    return this.detectContentType
+      ? sniffContentType(head, complete)
+      : undefined;
+  }
+
+  /**
+   * Flush the entries of a directory to disk, if fsync is enabled
+   * @param dir - The directory to flush
+   */
+  private async syncDir(dir: string): Promise<void> {
+    if (!this.fsync) {
+      return;
+    }
+
+    try {
+      const handle = await open(dir, 'r');
+      try {
+        await handle.sync();
+      } finally {
+        await handle.close();
+      }
+      /* v8 ignore start -- @preserve */
+    } catch {
+      // Some platforms (e.g. Windows) can't fsync directories
+    }
+    /* v8 ignore stop -- @preserve */
+  }
+
+  /**
+   * Read the metadata of a blob. A blob exists as soon as its metadata
+   * file exists, because that file is always renamed into place last.
+   * @param blobId - The id of the blob
+   */
+  private async readMetadata(blobId: string): Promise<StoredMetadata> {
+    return this.openFields(await this.readSealedMetadata(blobId));
+  }
+
+  /**
+   * Read the metadata of a blob as stored, see readMetadata
+   * @param blobId - The id of the blob
+   */
+  private async readSealedMetadata(blobId: string): Promise<StoredMetadata> {
+    const { metaPath } = await this.getBlobPath(blobId);
+
+    let metaContent: string;
+    try {
+      metaContent = await readFile(metaPath, 'utf8');
+    } catch {
+      throw new BlobNotFoundError(blobId);
+    }
+
+    return JSON.parse(metaContent);
+  }
+
+  /**
+   * Atomically replace the metadata of a blob
+   * @param metadata - The new metadata
+   */
+  private async replaceMetadata(metadata: StoredMetadata): Promise<void> {
+    const { metaPath, dir } = await this.getBlobPath(metadata.blobId);
+    const tempMeta = await this.writeTempFile(
+      dir,
+      JSON.stringify(await this.sealFields(metadata), null, 2),
+    );
+    await rename(tempMeta, metaPath);
+    await this.syncDir(dir);
+  }
+
+  /**
+   * Encrypt the content type, filename and tags of a blob before they are
+   * written, if encryption is configured. Fields that couldn't be
+   * decrypted stay sealed as they are.
+   * @param metadata - The metadata to write
+   */
+  private async sealFields<M extends BlobIndexEntry>(metadata: M): Promise<M> {
+    const fields = pickMetadata(metadata);
+    if (!this.encryption || Object.keys(fields).length === 0) {
+      return metadata;
+    }
+
+    const { keyId, key } = await currentKey(this.encryption.keyProvider);
+    const sealed = { ...metadata };
+    delete sealed.contentType;
+    delete sealed.filename;
+    delete sealed.tags;
+    sealed.sealed = sealMetadata(key, keyId, metadata.blobId, fields);
+    return sealed;
+  }
+
+  /**
+   * Decrypt the content type, filename and tags of a blob after they are
+   * read. Without encryption or the right key, they stay sealed and the
+   * blob appears without them.
+   * @param metadata - The metadata read
+   */
+  private async openFields<M extends BlobIndexEntry>(metadata: M): Promise<M> {
+    if (!metadata.sealed || !this.encryption) {
+      return metadata;
+    }
+
+    let fields: BsFsBlobMetadata;
+    try {
+      fields = await openMetadata(
+        this.encryption.keyProvider,
+        metadata.blobId,
+        metadata.sealed,
+      );
+    } catch {
+      return metadata;
+    }
+
+    const opened = { ...metadata, ...pickMetadata(fields) };
+    delete opened.sealed;
+    return opened;
+  }
+
+  /**
+   * Run changes of the store one after another, within this instance
+   * and across all processes sharing the store
+   * @param fn - The change to run
+   */
+  private exclusive<T>(fn: () => Promise<T>): Promise<T> {
+    const result = this.changeQueue.then(() => this.lock.run(fn));
+    this.changeQueue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Convert stored metadata into blob properties
+   * @param metadata - The stored metadata
+   */
+  private toProperties(metadata: StoredMetadata): BsFsBlobProperties {
+    return {
+      blobId: metadata.blobId,
+      size: metadata.size,
+      createdAt: new Date(metadata.createdAt),
+      ...pickMetadata(metadata),
+    };
+  }
+
+  /**
+   * Convert stored metadata into an entry of the blob index
+   * @param metadata - The stored metadata
+   */
+  private toIndexEntry(metadata: StoredMetadata): BlobIndexEntry {
+    return {
+      blobId: metadata.blobId,
+      size: metadata.size,
+      createdAt: metadata.createdAt,
+      ...pickMetadata(metadata),
+      ...(metadata.sealed ? { sealed: metadata.sealed } : {}),
+    };
+  }
+
+  /**
+   * Return the metadata of a stored blob after storing its content again,
+   * see mergeMetadata. A detected content type is only used if the blob
+   * has none.
+   * @param existing - The stored metadata
+   * @param added - The metadata given for the copy
+   * @param detected - The content type detected for the copy
+   */
+  private remergedMetadata(
+    existing: StoredMetadata,
+    added: BsFsBlobMetadata,
+    detected: string | undefined,
+  ): StoredMetadata {
+    const merged = mergeMetadata(existing, added);
+    merged.contentType ??= detected;
+    return { ...existing, ...merged };
+  }
+
+  /**
+   * Write changed metadata of a stored blob
+   * @param existing - The stored metadata
+   * @param updated - The new metadata
+   * @returns The new metadata
+   */
+  private async updateMetadata(
+    existing: StoredMetadata,
+    updated: StoredMetadata,
+  ): Promise<StoredMetadata> {
+    if (!sameMetadata(existing, updated)) {
+      await this.replaceMetadata(updated);
+      await this.index.update(this.toIndexEntry(updated));
+    }
+    return updated;
+  }
+
+  /**
+   * Remove temp files left behind by writes that crashed before their
+   * final rename. Only files older than `tempFileMaxAgeMs` are removed,
+   * so that writes still in progress are not disturbed.
+   * @param maxAgeMs - Minimum age of the temp files to remove
+   * @returns The number of removed temp files
+   */
+  async sweepTempFiles(
+    maxAgeMs: number = this.tempFileMaxAgeMs,
+  ): Promise<number> {
+    const now = Date.now();
+    let removed = 0;
+
+    await this.walkFiles(async (dir, name) => {
+      if (!name.endsWith(tempSuffix)) {
+        return;
+      }
+
+      const fullPath = join(dir, name);
+      try {
+        const { mtimeMs } = await stat(fullPath);
+        if (now - mtimeMs >= maxAgeMs) {
+          await unlink(fullPath);
+          removed++;
+        }
+        /* v8 ignore start -- @preserve */
+      } catch {
+        // Removed concurrently
+      }
+      /* v8 ignore stop -- @preserve */
+    });
+
+    return removed;
+  }
+
+  /**
+   * Visit all files below the base directory, except quarantined ones
+   * @param visit - Called with the directory and name of each file
+   */
+  private async walkFiles(
+    visit: (dir: string, name: string) => Promise<void>,
+  ): Promise<void> {
+    const quarantineDir = join(this.baseDir, quarantineDirName);
+
+    const scanDir = async (dir: string): Promise<void> => {
+      let entries;
+      try {
+        entries = await readdir(dir, { withFileTypes: true });
+      } catch {
+        return; // Directory doesn't exist or can't be read
+      }
+
+      for (const entry of entries) {
+        const fullPath = join(dir, entry.name);
+
+        if (entry.isDirectory()) {
+          if (fullPath !== quarantineDir) {
+            await scanDir(fullPath);
+          }
+        } else if (entry.isFile()) {
+          await visit(dir, entry.name);
+        }
+      }
+    };
+
+    await scanDir(this.baseDir);
+  }
+
+  /**
+   * Store content. Storing content again returns the existing blob,
+   * with the given metadata merged into its metadata (see mergeMetadata).
+   * @param content - The content to store
+   * @param metadata - Content type, filename and tags of the blob
+   */
+  async setBlob(
+    content: Buffer | string | ReadableStream,
+    metadata: BsFsBlobMetadata = {},
+  ): Promise<BsFsBlobProperties> {
+    const added = normalizeMetadata(metadata);
+    await this.ready();
+
+    // Streams are written to a temp file while being hashed
+    if (!Buffer.isBuffer(content) && typeof content !== 'string') {
+      await this.ensureDir(this.baseDir);
+      const { tempPath, blobId, size, encoding, detected } =
+        await this.writeTempStream(this.baseDir, content);
+      return this.commitBlob(blobId, size, tempPath, encoding, {
+        added,
+        detected,
+      });
+    }
+
+    // Buffers are hashed upfront, so duplicates are never written
+    const buffer =
+      typeof content === 'string' ? Buffer.from(content, 'utf8') : content;
+    const blobId = hshBuffer(buffer);
+    const detected = this.detectType(buffer, true);
+
+    let existing: StoredMetadata | undefined;
+    try {
+      existing = await this.readMetadata(blobId);
+    } catch {
+      // Blob doesn't exist, create it
+    }
+    if (
+      existing &&
+      sameMetadata(existing, this.remergedMetadata(existing, added, detected))
+    ) {
+      return this.deduplicated(this.toProperties(existing));
+    }
+
+    const codec = chooseCodec(this.compression, buffer, true);
+    let payload = codec
+      ? await encodeBuffer(codec, this.compression!.level, buffer)
+      : buffer;
+
+    let keyId: string | undefined;
+    if (this.encryption) {
+      const current = await currentKey(this.encryption.keyProvider);
+      keyId = current.keyId;
+      payload = encryptBuffer(
+        current.key,
+        keyId,
+        this.encryption.chunkSize,
+        payload,
+      );
+    }
+
+    // New blobs go into the current layout, even while migrating
+    const { layout } = await this.manifest();
+    const { dir } = layoutPaths(this.baseDir, layout, blobId);
+    await this.ensureDir(dir);
+    const tempPath = await this.writeTempFile(dir, payload);
+    return this.commitBlob(
+      blobId,
+      buffer.length,
+      tempPath,
+      { codec, keyId },
+      { added, detected },
+    );
+  }
+
+  /**
+   * Move a completely written payload to its content-addressed location
+   * and write its metadata. Drops the payload if the blob already exists.
+   * @param blobId - The id of the blob
+   * @param size - The uncompressed size of the payload in bytes
+   * @param tempPath - The temp file holding the payload
+   * @param encoding - How the payload is compressed and encrypted
+   * @param description - Normalized metadata given for the blob and the
+   * detected content type
+   */
+  private commitBlob(
+    blobId: string,
+    size: number,
+    tempPath: string,
+    encoding: Omit<PayloadEncoding, 'blobId'>,
+    description: BlobDescription,
+  ): Promise<BsFsBlobProperties> {
+    // A concurrent delete of the same blob must not remove the payload
+    // between the dedupe check and writing the metadata, and concurrent
+    // writes must not exceed the quota together
+    return this.exclusive(() =>
+      this.placeBlob(blobId, size, tempPath, encoding, description),
+    );
+  }
+
+  /**
+   * Implements commitBlob
+   * @param blobId - The id of the blob
+   * @param size - The uncompressed size of the payload in bytes
+   * @param tempPath - The temp file holding the payload
+   * @param encoding - How the payload is compressed and encrypted
+   * @param description - Normalized metadata given for the blob and the
+   * detected content type
+   */
+  private async placeBlob(
+    blobId: string,
+    size: number,
+    tempPath: string,
+    encoding: Omit<PayloadEncoding, 'blobId'>,
+    description: BlobDescription,
+  ): Promise<BsFsBlobProperties> {
+    const { added, detected } = description;
+    const { filePath, metaPath, dir } = await this.getBlobPath(blobId);
+
+    // Check if blob already exists (deduplication)
+    let existing: StoredMetadata | undefined;
+    try {
+      existing = await this.readMetadata(blobId);
+    } catch {
+      // Blob doesn't exist, create it
+    }
+    if (existing) {
+      await rm(tempPath, { force: true });
+      return this.deduplicated(
+        this.toProperties(
+          await this.updateMetadata(
+            existing,
+            this.remergedMetadata(existing, added, detected),
+          ),
+        ),
+      );
+    }
+
+    if (this.quota) {
+      try {
+        await this.makeRoom(blobId, size);
+      } catch (error) {
+        await rm(tempPath, { force: true });
+        throw error;
+      }
+    }
+
+    const metadata: StoredMetadata = {
+      blobId,
+      size,
+      createdAt: description.createdAt ?? new Date().toISOString(),
+      ...encoding,
+      ...mergeMetadata({ contentType: detected }, added),
+    };
+
+    const tempFiles: string[] = [tempPath];
+    try {
+      await this.ensureDir(dir);
+      const tempMeta = await this.writeTempFile(
+        dir,
+        JSON.stringify(await this.sealFields(metadata), null, 2),
+      );
+      tempFiles.push(tempMeta);
+
+      // Rename payload and metadata into place. The metadata goes last:
+      // Readers only see a blob once its metadata exists, and then the
+      // payload is complete.
+      await rename(tempPath, filePath);
+      tempFiles.shift();
+      await rename(tempMeta, metaPath);
+      tempFiles.shift();
+    } finally {
+      for (const tempFile of tempFiles) {
+        await rm(tempFile, { force: true });
+      }
+    }
+
+    await this.syncDir(dir);
+    await this.index.add(this.toIndexEntry(metadata));
+
+    const properties = this.toProperties(metadata);
+    const change = await this.changeLog.append('added', blobId);
+    this.events.emit('blobAdded', { ...change, properties });
+    return properties;
+  }
+
+  /**
+   * Tell listeners that content was stored again
+   * @param properties - The properties of the existing blob
+   */
+  private deduplicated(properties: BsFsBlobProperties): BsFsBlobProperties {
+    const { blobId } = properties;
+    this.events.emit('blobDeduplicated', { blobId, properties });
+    return properties;
+  }
+
+  /**
+   * Record that a blob vanished and tell listeners
+   * @param blobId - The id of the blob
+   */
+  private async recordDeletion(blobId: string): Promise<void> {
+    const change = await this.changeLog.append('deleted', blobId);
+    this.events.emit('blobDeleted', change);
+  }
+
+  async getBlob(
+    blobId: string,
+    options?: BsFsDownloadOptions,
+  ): Promise<{ content: Buffer; properties: BsFsBlobProperties }> {
+    const { filePath } = await this.getBlobPath(blobId);
+    const verify = options?.verify ?? this.verifyOnRead;
+
+    // Read metadata
+    const metadata = await this.readMetadata(blobId);
+    const properties = this.toProperties(metadata);
+    await this.recordAccess(metadata);
+
+    // Handle range request
+    if (options?.range) {
+      const { start, end } = resolveRange(
+        blobId,
+        options.range,
+        properties.size,
+      );
+      if (verify) {
+        await this.checkIntegrity(
+          blobId,
+          (await this.hashFile(filePath, metadata)).blobId,
+        );
+      }
+      const content = await this.readRange(filePath, metadata, start, end);
+      return { content, properties };
+    }
+
+    const content = isEncoded(metadata)
+      ? await collect(this.readPayload(filePath, metadata))
+      : await readFile(filePath);
+    if (verify) {
+      await this.checkIntegrity(blobId, hshBuffer(content));
+    }
+
+    return {
+      content,
+      properties,
+    };
+  }
+
+  /**
+   * Evict blobs so that a new blob fits into the quota. Throws a
+   * QuotaExceededError if it can't or the quota rejects new blobs.
+   * @param blobId - The id of the new blob
+   * @param size - The size of the new blob in bytes
+   */
+  private async makeRoom(blobId: string, size: number): Promise<void> {
+    const quota = this.quota!;
+    const { count, bytes } = await this.index.totals();
+    const usage = { blobs: count + 1, bytes: bytes + size };
+
+    const limit = exceededLimit(quota, usage);
+    if (!limit) {
+      return;
+    }
+
+    const victims =
+      quota.mode === 'evict'
+        ? chooseVictims(quota, usage, await this.evictionCandidates())
+        : undefined;
+    if (!victims) {
+      throw new QuotaExceededError(blobId, size, limit, quota[limit]);
+    }
+
+    for (const victim of victims) {
+      await this.removeBlob(victim.blobId);
+    }
+  }
+
+  /**
+   * Collect all blobs that may be evicted, i.e. all unretained ones
+   */
+  private async evictionCandidates(): Promise<BsFsEvictionCandidate[]> {
+    const candidates: BsFsEvictionCandidate[] = [];
+
+    await this.walkIndex(async ({ blobId }) => {
+      let metadata: StoredMetadata;
+      try {
+        metadata = await this.readMetadata(blobId);
+        /* v8 ignore start -- @preserve */
+      } catch {
+        return; // Deleted by another process meanwhile
+      }
+      /* v8 ignore stop -- @preserve */
+
+      if (!metadata.refCount) {
+        candidates.push({
+          blobId,
+          size: metadata.size,
+          createdAt: new Date(metadata.createdAt),
+          lastAccessedAt: new Date(
+            metadata.lastAccessedAt ?? metadata.createdAt,
+          ),
+        });
+      }
+    });
+
+    return candidates;
+  }
+
+  /**
+   * Record that a blob is read, if the eviction policy needs it
+   * @param metadata - The metadata of the blob
+   */
+  private async recordAccess(metadata: StoredMetadata): Promise<void> {
+    if (!this.quota?.tracksAccess) {
+      return;
+    }
+
+    const now = Date.now();
+    const last = Date.parse(metadata.lastAccessedAt ?? metadata.createdAt);
+    if (now - last < this.quota.accessTimeResolutionMs) {
+      return;
+    }
+
+    await this.exclusive(async () => {
+      let current: StoredMetadata;
+      try {
+        current = await this.readMetadata(metadata.blobId);
+        /* v8 ignore start -- @preserve */
+      } catch {
+        return; // Deleted meanwhile
+      }
+      /* v8 ignore stop -- @preserve */
+
+      await this.replaceMetadata({
+        ...current,
+        lastAccessedAt: new Date(now).toISOString(),
+      });
+    });
+  }
+
+  /**
+   * Throw a BlobIntegrityError if content doesn't match its blob id.
+   * Quarantines the blob if configured.
+   * @param blobId - The id of the blob
+   * @param actualBlobId - The id the content actually hashes to
+   */
+  private async checkIntegrity(
+    blobId: string,
+    actualBlobId: string,
+  ): Promise<void> {
+    if (actualBlobId === blobId) {
+      return;
+    }
+
+    if (this.quarantineCorruptBlobs) {
+      await this.exclusive(() => this.quarantineBlob(blobId));
+    }
+
+    throw new BlobIntegrityError(blobId, actualBlobId);
+  }
+
+  /**
+   * Move payload and metadata of a blob into the quarantine directory
+   * @param blobId - The id of the blob
+   */
+  private async quarantineBlob(blobId: string): Promise<void> {
+    const { filePath, metaPath } = await this.getBlobPath(blobId);
+
+    // Move the metadata first, so that the blob vanishes at once
+    await this.quarantine(metaPath);
+    await this.index.remove(blobId);
+    await this.quarantine(filePath);
+    await this.recordDeletion(blobId);
+  }
+
+  /**
+   * Read only the bytes between start and end from a payload
+   * @param filePath - The file to read from
+   * @param metadata - The metadata of the blob
+   * @param start - The offset of the first byte
+   * @param end - The offset after the last byte
+   */
+  private async readRange(
+    filePath: string,
+    metadata: StoredMetadata,
+    start: number,
+    end: number,
+  ): Promise<Buffer> {
+    if (isEncoded(metadata)) {
+      return collect(this.readEncodedRange(filePath, metadata, start, end));
+    }
+
+    const content = Buffer.alloc(end - start);
+    const handle = await open(filePath, 'r');
+
+    try {
+      let offset = 0;
+      while (offset < content.length) {
+        const { bytesRead } = await handle.read(
+          content,
+          offset,
+          content.length - offset,
+          start + offset,
+        );
+        /* v8 ignore next -- @preserve */
+        if (bytesRead === 0) break; // File is shorter than its metadata
+        offset += bytesRead;
+      }
+      return content.subarray(0, offset);
+    } finally {
+      await handle.close();
+    }
+  }
+
+  /**
+   * Read the bytes between start and end from a compressed or encrypted
+   * payload. Compressed payloads are decompressed up to end. Encrypted,
+   * uncompressed payloads decrypt only the chunks within the range.
+   * @param filePath - The file to read from
+   * @param metadata - The metadata of the blob
+   * @param start - The offset of the first byte
+   * @param end - The offset after the last byte
+   */
+  private readEncodedRange(
+    filePath: string,
+    metadata: StoredMetadata,
+    start: number,
+    end: number,
+  ): AsyncIterable<Uint8Array> {
+    if (metadata.codec) {
+      const decoded = this.readPayload(filePath, metadata);
+      return sliceRange(decoded, start, end);
+    }
+
+    return decryptRange(
+      filePath,
+      this.keyProvider(metadata.blobId),
+      metadata.blobId,
+      metadata.size,
+      start,
+      end,
+    );
+  }
+
+  async getBlobStream(
+    blobId: string,
+    options?: BsFsDownloadOptions,
+  ): Promise<ReadableStream> {
+    const { filePath } = await this.getBlobPath(blobId);
+    const verify = options?.verify ?? this.verifyOnRead;
+
+    const metadata = await this.readMetadata(blobId);
+    await this.recordAccess(metadata);
+
+    if (!options?.range) {
+      // Create read stream from file
+      const nodeStream = this.readPayload(filePath, metadata);
+      const stream = Readable.toWeb(nodeStream) as ReadableStream;
+      return verify ? stream.pipeThrough(this.verifier(blobId)) : stream;
+    }
+
+    const { start, end } = resolveRange(blobId, options.range, metadata.size);
+
+    if (verify) {
+      await this.checkIntegrity(
+        blobId,
+        (await this.hashFile(filePath, metadata)).blobId,
+      );
+    }
+
+    if (isEncoded(metadata)) {
+      const nodeStream = Readable.from(
+        this.readEncodedRange(filePath, metadata, start, end),
+      );
+      return Readable.toWeb(nodeStream) as ReadableStream;
+    }
+
+    // createReadStream can't express empty ranges
+    if (start === end) {
+      return new ReadableStream({
+        start(controller) {
+          controller.close();
+        },
+      });
+    }
+
+    // Unlike our ranges, the end of createReadStream is inclusive
+    const nodeStream = createReadStream(filePath, { start, end: end - 1 });
+    return Readable.toWeb(nodeStream) as ReadableStream;
+  }
+
+  /**
+   * Create a transform stream passing content through while hashing it.
+   * The stream errors at its end if the content doesn't match the blob id.
+   * @param blobId - The id of the blob
+   */
+  private verifier(blobId: string): TransformStream<Uint8Array, Uint8Array> {
+    const hasher = new BlobHasher();
+
+    return new TransformStream({
+      transform: (chunk, controller) => {
+        hasher.update(chunk);
+        controller.enqueue(chunk);
+      },
+      flush: async () => {
+        await this.checkIntegrity(blobId, hasher.digest());
+      },
+    });
+  }
+
+  /**
+   * Delete a blob. Retained blobs are kept and a BlobReferencedError is
+   * thrown instead.
+   * @param blobId - The id of the blob
+   */
+  async deleteBlob(blobId: string): Promise<void> {
+    await this.exclusive(async () => {
+      const { refCount } = await this.readMetadata(blobId);
+      if (refCount) {
+        throw new BlobReferencedError(blobId, refCount);
+      }
+      await this.removeBlob(blobId);
+    });
+  }
+
+  /**
+   * Remove the files of a blob and its index entry
+   * @param blobId - The id of the blob
+   */
+  private async removeBlob(blobId: string): Promise<void> {
+    const { filePath, metaPath, dir } = await this.getBlobPath(blobId);
+
+    // Remove the metadata first, so that the blob vanishes at once
+    try {
+      await unlink(metaPath);
+      /* v8 ignore start -- @preserve */
+    } catch {
+      // Deleted by another process meanwhile
+      throw new BlobNotFoundError(blobId);
+    }
+    /* v8 ignore stop -- @preserve */
+
+    await this.index.remove(blobId);
+    await rm(filePath, { force: true });
+    await this.syncDir(dir);
+    await this.recordDeletion(blobId);
+  }
+
+  async blobExists(blobId: string): Promise<boolean> {
+    try {
+      await this.readMetadata(blobId);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  async getBlobProperties(blobId: string): Promise<BsFsBlobProperties> {
+    return this.toProperties(await this.readMetadata(blobId));
+  }
+
+  /**
+   * Record a read of a blob served elsewhere, e.g. from a cache in front
+   * of the store. Counts like a read for `eviction: 'lru'` and does
+   * nothing for other policies.
+   * @param blobId - The id of the blob
+   */
+  async touchBlob(blobId: string): Promise<void> {
+    if (this.quota?.tracksAccess) {
+      await this.recordAccess(await this.readMetadata(blobId));
+    }
+  }
+
+  /**
+   * Replace the content type, filename and tags of a blob. Fields missing
+   * in the given metadata are removed from the blob.
+   * @param blobId - The id of the blob
+   * @param metadata - The new metadata
+   * @returns The updated properties of the blob
+   */
+  async setBlobMetadata(
+    blobId: string,
+    metadata: BsFsBlobMetadata,
+  ): Promise<BsFsBlobProperties> {
+    const replacement = normalizeMetadata(metadata);
+
+    return this.exclusive(async () => {
+      const existing = await this.readMetadata(blobId);
+      const updated: StoredMetadata = {
+        ...existing,
+        contentType: undefined,
+        filename: undefined,
+        tags: undefined,
+        ...replacement,
+      };
+
+      return this.toProperties(await this.updateMetadata(existing, updated));
+    });
+  }
+
+  /**
+   * Recursively find all blob metadata files in the storage directory.
+   * Used to rebuild the blob index.
+   */
+  private async findAllBlobs(): Promise<StoredMetadata[]> {
+    const blobs: StoredMetadata[] = [];
+
+    await this.walkFiles(async (dir, name) => {
+      if (!name.endsWith(metaSuffix)) {
+        return;
+      }
+
+      try {
+        const metaContent = await readFile(join(dir, name), 'utf8');
+        const metadata = JSON.parse(metaContent);
+        if (
+          typeof metadata.blobId === 'string' &&
+          blobIdPattern.test(metadata.blobId)
+        ) {
+          blobs.push(this.toIndexEntry(await this.openFields(metadata)));
+        }
+      } catch {
+        // Skip invalid metadata files
+      }
+    });
+
+    return blobs;
+  }
+
+  async listBlobs(
+    options?: BsFsListBlobsOptions,
+  ): Promise<BsFsListBlobsResult> {
+    const { entries, continuationToken } = await this.index.list(options);
+
+    return {
+      blobs: entries.map((entry) => this.toProperties(entry)),
+      continuationToken,
+    };
+  }
+
+  /**
+   * Register an owner of a blob. Retained blobs can't be deleted and
+   * survive garbage collection until all owners released them.
+   * @param blobId - The id of the blob
+   * @returns The number of owners now retaining the blob
+   */
+  async retain(blobId: string): Promise<number> {
+    return this.exclusive(async () => {
+      const metadata = await this.readMetadata(blobId);
+      const refCount = (metadata.refCount ?? 0) + 1;
+      await this.replaceMetadata({
+        ...metadata,
+        refCount,
+        releasedAt: undefined,
+      });
+      return refCount;
+    });
+  }
+
+  /**
+   * Unregister an owner of a blob. Blobs released by all owners are
+   * deleted by the next garbage collection after the grace period. Throws
+   * a BlobNotRetainedError if no owner retains the blob.
+   * @param blobId - The id of the blob
+   * @returns The number of owners still retaining the blob
+   */
+  async release(blobId: string): Promise<number> {
+    return this.exclusive(async () => {
+      const metadata = await this.readMetadata(blobId);
+      if (!metadata.refCount) {
+        throw new BlobNotRetainedError(blobId);
+      }
+
+      const refCount = metadata.refCount - 1;
+      await this.replaceMetadata(
+        refCount > 0
+          ? { ...metadata, refCount }
+          : {
+              ...metadata,
+              refCount: undefined,
+              releasedAt: new Date().toISOString(),
+            },
+      );
+      return refCount;
+    });
+  }
+
+  /**
+   * Get the number of owners retaining a blob
+   * @param blobId - The id of the blob
+   */
+  async refCount(blobId: string): Promise<number> {
+    return (await this.readMetadata(blobId)).refCount ?? 0;
+  }
+
+  /**
+   * Delete all blobs that are neither retained nor referenced by the
+   * given roots, once their grace period is over
+   * @param options - Roots, grace period and dry run
+   */
+  async gc(options: BsFsGcOptions = {}): Promise<BsFsGcReport> {
+    const gracePeriodMs = options.gracePeriodMs ?? 10 * 60 * 1000;
+    const report: BsFsGcReport = {
+      checked: 0,
+      live: 0,
+      recent: 0,
+      deleted: [],
+      deletedBytes: 0,
+    };
+
+    // Mark
+    const marked = new Set<string>();
+    const roots =
+      typeof options.roots === 'function'
+        ? await options.roots()
+        : options.roots;
+    for await (const blobId of roots ?? []) {
+      marked.add(blobId);
+    }
+
+    // Sweep
+    const now = Date.now();
+    await this.walkIndex(async ({ blobId }) => {
+      report.checked++;
+      if (marked.has(blobId)) {
+        report.live++;
+        return;
+      }
+
+      // Checked and deleted at once, so that retaining it can't interfere
+      await this.exclusive(async () => {
+        let metadata: StoredMetadata;
+        try {
+          metadata = await this.readMetadata(blobId);
+        } catch {
+          return; // Deleted meanwhile
+        }
+
+        if (metadata.refCount) {
+          report.live++;
+          return;
+        }
+        const since = Date.parse(metadata.releasedAt ?? metadata.createdAt);
+        if (now - since < gracePeriodMs) {
+          report.recent++;
+          return;
+        }
+
+        if (!options.dryRun) {
+          await this.removeBlob(blobId);
+        }
+        report.deleted.push(blobId);
+        report.deletedBytes += metadata.size;
+      });
+    });
+
+    return report;
+  }
+
+  /**
+   * Visit all blobs of the index page by page, so that blobs can be
+   * deleted while visiting
+   * @param visit - Called with the index entry of each blob
+   * @param prefix - Only visit blobs whose id starts with this prefix
+   */
+  private async walkIndex(
+    visit: (entry: BlobIndexEntry) => Promise<void>,
+    prefix?: string,
+  ): Promise<void> {
+    let continuationToken: string | undefined;
+    do {
+      const page = await this.index.list({
+        prefix,
+        continuationToken,
+        maxResults: 100,
+      });
+      for (const entry of page.entries) {
+        await visit(entry);
+      }
+      continuationToken = page.continuationToken;
+    } while (continuationToken);
+  }
+
+  /**
+   * Rebuild the blob index by scanning all metadata files, e.g. after the
+   * index log was lost or damaged. A missing index log is rebuilt
+   * automatically.
+   */
+  async rebuildIndex(): Promise<void> {
+    await this.index.rebuild();
+  }
+
+  /**
+   * Write blobs into a tar archive, e.g. to move them to another store.
+   * Each blob is archived as `blobs/<blobId>`, uncompressed and decrypted,
+   * preceded by its metadata in `blobs/<blobId>.meta.json`. The stream is
+   * not ended, so that it can be written to stdout.
+   * @param stream - Receives the archive
+   * @param options - Which blobs to export
+   */
+  async exportArchive(
+    stream: Writable,
+    options: BsFsExportOptions = {},
+  ): Promise<BsFsExportReport> {
+    const report: BsFsExportReport = { exported: 0, bytes: 0 };
+
+    const since = options.since?.getTime() ?? -Infinity;
+    const blobIds: string[] = [];
+    await this.walkIndex(async ({ blobId, createdAt }) => {
+      if (Date.parse(createdAt) > since) {
+        blobIds.push(blobId);
+      }
+    }, options.prefix);
+
+    const chunks = async function* (bs: BsFs) {
+      for (const blobId of blobIds) {
+        // Keep the payload open, so that deleting the blob meanwhile doesn't
+        // break the archive
+        let metadata: StoredMetadata;
+        let handle: FileHandle;
+        try {
+          metadata = await bs.readMetadata(blobId);
+          handle = await open((await bs.getBlobPath(blobId)).filePath, 'r');
+        } catch {
+          continue; // Deleted meanwhile
+        }
+
+        try {
+          const { size, createdAt } = metadata;
+          const mtime = new Date(createdAt);
+          const archived = Buffer.from(
+            JSON.stringify(
+              { blobId, size, createdAt, ...pickMetadata(metadata) },
+              null,
+              2,
+            ),
+          );
+          yield createTarHeader({
+            name: `${archiveDir}${blobId}${metaSuffix}`,
+            size: archived.length,
+            mtime,
+          });
+          yield archived;
+          yield tarPadding(archived.length);
+          yield createTarHeader({
+            name: `${archiveDir}${blobId}`,
+            size,
+            mtime,
+          });
+
+          let written = 0;
+          for await (const chunk of bs.readPayload(handle, metadata)) {
+            written += (chunk as Buffer).length;
+            yield chunk as Buffer;
+          }
+          if (written !== size) {
+            throw new Error(`Payload doesn't match its size: ${blobId}`);
+          }
+          yield tarPadding(size);
+        } finally {
+          await handle.close();
+        }
+
+        report.exported++;
+        report.bytes += metadata.size;
+      }
+
+      yield tarTrailer();
+    };
+
+    // Pipe once, so that listeners aren't added to the stream per chunk
+    await pipeline(Readable.from(chunks(this)), stream, { end: false });
+    return report;
+  }
+
+  /**
+   * Add the blobs of an archive written by exportArchive. The content of
+   * each blob is checked against its blob id, blobs the store contains
+   * already are skipped. Blobs keep their metadata and creation date.
+   * Throws an ArchiveError if the archive is malformed or truncated.
+   * @param source - The archive
+   */
+  async importArchive(
+    source: ReadableStream | AsyncIterable<Uint8Array>,
+  ): Promise<BsFsImportReport> {
+    const report: BsFsImportReport = { imported: [], skipped: [], invalid: [] };
+    await this.ready();
+    await this.ensureDir(this.baseDir);
+
+    const chunks =
+      source instanceof ReadableStream
+        ? Readable.fromWeb(source as NodeReadableStream)
+        : source;
+
+    // The metadata precedes the payload of each blob
+    let archived: { blobId: string; createdAt?: string } & BsFsBlobMetadata = {
+      blobId: '',
+    };
+
+    for await (const file of readTar(chunks)) {
+      const name = file.name.startsWith(archiveDir)
+        ? file.name.substring(archiveDir.length)
+        : '';
+
+      if (name.endsWith(metaSuffix)) {
+        archived = {
+          blobId: name.slice(0, -metaSuffix.length),
+          ...parseArchivedMetadata(await collect(file.content)),
+        };
+        continue;
+      }
+      if (!blobIdPattern.test(name)) {
+        continue; // Not written by exportArchive
+      }
+
+      const metadata = archived.blobId === name ? archived : { blobId: name };
+      if (await this.blobExists(name)) {
+        report.skipped.push(name);
+        continue;
+      }
+
+      const { tempPath, blobId, size, encoding, detected } =
+        await this.writeTempStream(
+          this.baseDir,
+          Readable.toWeb(Readable.from(file.content)) as ReadableStream,
+        );
+      if (blobId !== name) {
+        await rm(tempPath, { force: true });
+        report.invalid.push(name);
+        continue;
+      }
+
+      await this.commitBlob(blobId, size, tempPath, encoding, {
+        added: pickMetadata(metadata),
+        detected,
+        createdAt: metadata.createdAt,
+      });
+      report.imported.push(blobId);
+    }
+
+    return report;
+  }
+
+  /**
+   * Generate a URL granting access to a blob, signed with HMAC-SHA256
+   * @param blobId - The id of the blob
+   * @param expiresIn - Seconds until the URL expires
+   * @param permissions - The operation the URL allows, defaults to 'read'
+   */
+  async generateSignedUrl(
+    blobId: string,
+    expiresIn: number,
+    permissions?: 'read' | 'delete',
+  ): Promise<string> {
+    // Check if blob exists
+    await this.readMetadata(blobId);
+
+    return createSignedUrl(this.signedUrlSecrets[0]!, {
+      blobId,
+      permissions: permissions ?? 'read',
+      expires: Date.now() + Math.round(expiresIn * 1000),
+    });
+  }
+
+  /**
+   * Check a URL created by generateSignedUrl. Throws a SignedUrlError if
+   * the URL is malformed or not signed with one of the configured secrets,
+   * and a SignedUrlExpiredError if it has expired.
+   * @param url - The URL to check
+   * @returns The blob and the operation the URL grants access to
+   */
+  verifySignedUrl(url: string): BsFsSignedUrlGrant {
+    return verifySignedUrl(url, this.signedUrlSecrets);
+  }
+
+  /**
+   * Check every blob of the store: Payloads must hash to their blob id,
+   * match the size recorded in their metadata and be located where their
+   * blob id belongs. Every payload needs metadata and vice versa.
+   * @returns A report of all problems found
+   */
+  async verify(): Promise<BsFsVerifyReport> {
+    const issues: BsFsIssue[] = [];
+    let checked = 0;
+
+    await this.walkFiles(async (dir, name) => {
+      if (payloadExtensions.some((extension) => name.endsWith(extension))) {
+        checked++;
+        const issue = await this.verifyPayload(dir, name);
+        if (issue) {
+          issues.push(issue);
+        }
+      } else if (name.endsWith(metaSuffix)) {
+        const blobId = name.slice(0, -metaSuffix.length);
+        let hasPayload = false;
+        for (const extension of payloadExtensions) {
+          hasPayload ||= await this.fileExists(join(dir, blobId + extension));
+        }
+        if (!hasPayload) {
+          issues.push({
+            kind: 'orphanedMetadata',
+            blobId,
+            path: join(dir, name),
+            message: 'Metadata without payload',
+          });
+        }
+      }
+    });
+
+    return { checked, issues };
+  }
+
+  /**
+   * Verify a store and fix all problems found:
+   *
+   * - Corrupt and truncated payloads are moved into `lost+found`
+   * - Misplaced payloads are moved to their proper location
+   * - Missing or invalid metadata is rebuilt from the payload
+   * - Metadata without payload is removed
+   *
+   * Finally, the blob index is rebuilt.
+   * @returns The verification report and the actions taken
+   */
+  async repair(): Promise<BsFsRepairReport> {
+    const report = await this.verify();
+    const repaired: BsFsRepairReport['repaired'] = [];
+
+    // Remove orphaned metadata first, so that it doesn't hit metadata
+    // written for payloads moved into place
+    const issues = [...report.issues].sort(
+      (a, b) =>
+        Number(b.kind === 'orphanedMetadata') -
+        Number(a.kind === 'orphanedMetadata'),
+    );
+
+    for (const issue of issues) {
+      const action = await this.exclusive(() => this.repairIssue(issue));
+      repaired.push({ issue, action });
+    }
+
+    await this.rebuildIndex();
+    return { ...report, repaired };
+  }
+
+  /**
+   * Check a single payload file
+   * @param dir - The directory of the payload
+   * @param name - The file name of the payload
+   * @returns The problem found, if any
+   */
+  private async verifyPayload(
+    dir: string,
+    name: string,
+  ): Promise<BsFsIssue | undefined> {
+    const blobId = name.slice(0, -extname(name).length);
+    const path = join(dir, name);
+    const issue = (kind: BsFsIssueKind, message: string): BsFsIssue => ({
+      kind,
+      blobId,
+      path,
+      message,
+    });
+
+    // Read the metadata next to the payload: undefined if missing,
+    // null if it can't be parsed
+    let metadata: StoredMetadata | null | undefined;
+    let metaContent: string | undefined;
+    try {
+      metaContent = await readFile(join(dir, blobId + metaSuffix), 'utf8');
+    } catch {
+      metadata = undefined;
+    }
+    if (metaContent !== undefined) {
+      try {
+        metadata = JSON.parse(metaContent);
+      } catch {
+        metadata = null;
+      }
+    }
+
+    const actual = await this.identifyPayload(path, blobId, metadata?.codec);
+
+    if (!actual) {
+      return issue('corrupt', "Payload can't be decrypted");
+    }
+
+    if (actual.blobId !== blobId) {
+      if (metadata && !metadata.codec && actual.size < metadata.size) {
+        return issue(
+          'truncated',
+          `Payload has ${actual.size} of ${metadata.size} bytes`,
+        );
+      }
+      return issue('corrupt', `Payload hashes to ${actual.blobId}`);
+    }
+
+    const expected = (await this.getBlobPath(blobId)).filePath;
+    if (path !== expected) {
+      return issue('misplaced', `Payload belongs to ${expected}`);
+    }
+
+    if (metadata === undefined) {
+      return issue('orphanedPayload', 'Payload without metadata');
+    }
+
+    if (
+      metadata === null ||
+      metadata.blobId !== blobId ||
+      metadata.size !== actual.size ||
+      metadata.codec !== actual.codec ||
+      metadata.keyId !== actual.keyId
+    ) {
+      return issue('invalidMetadata', 'Metadata does not match payload');
+    }
+
+    return undefined;
+  }
+
+  /**
+   * Fix a single problem found by verify
+   * @param issue - The problem to fix
+   * @returns The action taken
+   */
+  private async repairIssue(issue: BsFsIssue): Promise<BsFsRepairAction> {
+    const { blobId, path } = issue;
+    const siblingMeta = join(dirname(path), blobId + metaSuffix);
+
+    switch (issue.kind) {
+      case 'corrupt':
+      case 'truncated':
+        await this.quarantine(path);
+        if (await this.fileExists(siblingMeta)) {
+          await this.quarantine(siblingMeta);
+        }
+        return 'quarantined';
+
+      case 'misplaced': {
+        const { filePath, dir } = await this.getBlobPath(blobId);
+        const recovered = await this.recoverMetadata(blobId, siblingMeta, path);
+        await rm(siblingMeta, { force: true });
+
+        // A proper copy exists already
+        if (await this.fileExists(filePath)) {
+          await rm(path, { force: true });
+          return 'removed';
+        }
+
+        await this.ensureDir(dir);
+        await rename(path, filePath);
+        await this.writeMetadataFor(blobId, recovered);
+        return 'moved';
+      }
+
+      case 'orphanedPayload':
+      case 'invalidMetadata':
+        await this.writeMetadataFor(
+          blobId,
+          await this.recoverMetadata(blobId, siblingMeta, path),
+        );
+        return 'rebuiltMetadata';
+
+      case 'orphanedMetadata':
+        await rm(path, { force: true });
+        return 'removed';
+    }
+  }
+
+  /**
+   * Write metadata for a payload that is in its proper location
+   * @param blobId - The id of the blob
+   * @param recovered - The fields kept from the previous metadata
+   */
+  private async writeMetadataFor(
+    blobId: string,
+    recovered: RecoveredMetadata,
+  ): Promise<void> {
+    const { filePath } = await this.getBlobPath(blobId);
+    const { size, codec, keyId } = (await this.identifyPayload(
+      filePath,
+      blobId,
+    ))!;
+
+    // Detect the content type again if it was lost with the metadata
+    const contentType =
+      recovered.contentType ??
+      (this.detectContentType
+        ? await this.sniffPayload(filePath, { blobId, codec, keyId }, size)
+        : undefined);
+
+    await this.replaceMetadata({
+      blobId,
+      size,
+      codec,
+      keyId,
+      ...recovered,
+      contentType,
+    });
+  }
+
+  /**
+   * Detect the content type of a stored payload from its first bytes
+   * @param path - The payload file
+   * @param encoding - How the payload is stored
+   * @param size - The uncompressed size of the payload
+   */
+  private async sniffPayload(
+    path: string,
+    encoding: PayloadEncoding,
+    size: number,
+  ): Promise<string | undefined> {
+    const head: Buffer[] = [];
+    let length = 0;
+    for await (const chunk of this.readPayload(path, encoding)) {
+      head.push(chunk);
+      length += chunk.length;
+      if (length >= mimeSniffLength) {
+        break;
+      }
+    }
+
+    return sniffContentType(Buffer.concat(head), size <= length);
+  }
+
+  /**
+   * Return the fields of a metadata file that can't be derived from the
+   * payload. The creation date falls back to the modification time of the
+   * payload, the reference count to none. Sealed fields that can't be
+   * decrypted are kept sealed.
+   * @param blobId - The id of the blob
+   * @param metaPath - The metadata file, which might be missing or invalid
+   * @param payloadPath - The payload file
+   */
+  private async recoverMetadata(
+    blobId: string,
+    metaPath: string,
+    payloadPath: string,
+  ): Promise<RecoveredMetadata> {
+    let parsed: Partial<Record<keyof RecoveredMetadata, unknown>> = {};
+    try {
+      parsed = JSON.parse(await readFile(metaPath, 'utf8')) ?? {};
+    } catch {
+      // Missing or invalid metadata
+    }
+
+    const { createdAt, refCount, releasedAt, lastAccessedAt, sealed } = parsed;
+    const opened = isSealedMetadata(sealed)
+      ? await this.openFields<BlobIndexEntry>({
+          blobId,
+          size: 0,
+          createdAt: '',
+          sealed,
+        })
+      : undefined;
+    return {
+      ...pickMetadata(opened ?? parsed),
+      sealed: opened?.sealed,
+      createdAt:
+        typeof createdAt === 'string'
+          ? createdAt
+          : (await stat(payloadPath)).mtime.toISOString(),
+      refCount:
+        Number.isInteger(refCount) && (refCount as number) > 0
+          ? (refCount as number)
+          : undefined,
+      releasedAt: typeof releasedAt === 'string' ? releasedAt : undefined,
+      lastAccessedAt:
+        typeof lastAccessedAt === 'string' ? lastAccessedAt : undefined,
+    };
+  }
+
+  /**
+   * Move a file into the quarantine directory
+   * @param path - The file to move
+   */
+  private async quarantine(path: string): Promise<void> {
+    const quarantineDir = join(this.baseDir, quarantineDirName);
+    await this.ensureDir(quarantineDir);
+    await rename(
+      path,
+      join(quarantineDir, `${randomUUID()}-${basename(path)}`),
+    );
+  }
+
+  /**
+   * Compute blob id and uncompressed size of a payload without loading it
+   * into memory
+   * @param path - The file to hash
+   * @param encoding - How the payload is stored
+   */
+  private async hashFile(
+    path: string,
+    encoding: PayloadEncoding,
+  ): Promise<{ blobId: string; size: number }> {
+    const hasher = new BlobHasher();
+    for await (const chunk of this.readPayload(path, encoding)) {
+      hasher.update(chunk);
+    }
+    return { blobId: hasher.digest(), size: hasher.size };
+  }
+
+  /**
+   * Open a payload for reading, decrypting and decompressing it if needed
+   * @param path - The payload file, or an open handle of it
+   * @param encoding - How the payload is stored
+   */
+  private readPayload(
+    path: string | FileHandle,
+    encoding: PayloadEncoding,
+  ): Readable {
+    let stream: Readable =
+      typeof path === 'string'
+        ? createReadStream(path)
+        : path.createReadStream();
+    if (encoding.keyId !== undefined) {
+      const { blobId } = encoding;
+      stream = decryptStream(stream, this.keyProvider(blobId), blobId);
+    }
+    if (encoding.codec) {
+      stream = decodeStream(stream, encoding.codec);
+    }
+    return stream;
+  }
+
+  /**
+   * Return the key provider needed to decrypt a payload
+   * @param blobId - The id of the encrypted blob
+   */
+  private keyProvider(blobId: string): BsFsKeyProvider {
+    if (!this.encryption) {
+      throw new Error(
+        `Blob is encrypted, but no keys are configured: ${blobId}`,
+      );
+    }
+    return this.encryption.keyProvider;
+  }
+
+  /**
+   * Find out how a payload is stored: Encrypted payloads are recognized by
+   * their header. Compressed payloads are decompressed with each codec until
+   * their content hashes to the blob id. Falls back to the uncompressed
+   * payload.
+   * @param path - The payload file
+   * @param blobId - The expected blob id
+   * @param hint - The codec to try first, e.g. the one from the metadata
+   * @returns Blob id, uncompressed size and encoding of the payload, or
+   * undefined if the payload can't be decrypted
+   */
+  private async identifyPayload(
+    path: string,
+    blobId: string,
+    hint?: BsFsCodec,
+  ): Promise<
+    | { blobId: string; size: number; codec?: BsFsCodec; keyId?: string }
+    | undefined
+  > {
+    const keyId = await readKeyId(path);
+
+    // Try the hint first, then the uncompressed payload, then all codecs
+    const candidates = new Set<BsFsCodec | undefined>([
+      hint,
+      undefined,
+      ...codecs.filter(isCodecSupported),
+    ]);
+
+    let raw: { blobId: string; size: number } | undefined;
+    for (const codec of candidates) {
+      let actual: { blobId: string; size: number };
+      try {
+        actual = await this.hashFile(path, { blobId, codec, keyId });
+      } catch (err) {
+        // Not compressed with this codec
+        if (codec || err instanceof BlobDecryptionError) {
+          continue;
+        }
+        throw err;
+      }
+
+      if (!codec) {
+        raw = actual;
+      }
+
+      if (actual.blobId === blobId) {
+        return { ...actual, codec, keyId };
+      }
+    }
+
+    return raw && { ...raw, keyId };
+  }
+
+  /**
+   * Check whether a file exists
+   * @param path - The file to check
+   */
+  private async fileExists(path: string): Promise<boolean> {
+    try {
+      await stat(path);
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  /**
+   * Re-encrypt all blobs that are not encrypted with the current key of the
+   * key provider, including unencrypted ones. Blobs stay readable while
+   * being rotated, so this can run in the background. Compressed payloads
+   * are re-encrypted without being decompressed. Metadata is sealed with
+   * the current key as well, and the index is rewritten at the end.
+   * @param options - Allows to stop the rotation early
+   * @returns The number of blobs checked and rotated
+   */
+  async rotateKeys(
+    options: BsFsRotateKeysOptions = {},
+  ): Promise<BsFsRotateKeysReport> {
+    if (!this.encryption) {
+      throw new Error('Encryption is not configured');
+    }
+
+    const { keyId, key } = await currentKey(this.encryption.keyProvider);
+    const report: BsFsRotateKeysReport = { checked: 0, rotated: 0 };
+
+    await this.walkIndex(async ({ blobId }) => {
+      options.signal?.throwIfAborted();
+      report.checked++;
+      if (await this.exclusive(() => this.rotateBlob(blobId, keyId, key))) {
+        report.rotated++;
+      }
+    });
+
+    if (report.rotated > 0) {
+      await this.exclusive(() => this.index.rebuild());
+    }
+    return report;
+  }
+
+  /**
+   * Re-encrypt a single blob with the given key
+   * @param blobId - The id of the blob
+   * @param keyId - The id of the key
+   * @param key - The key
+   * @returns False if the blob is up to date or was deleted meanwhile
+   */
+  private async rotateBlob(
+    blobId: string,
+    keyId: string,
+    key: Buffer,
+  ): Promise<boolean> {
+    let sealed: StoredMetadata;
+    try {
+      sealed = await this.readSealedMetadata(blobId);
+    } catch {
+      return false;
+    }
+    const metadata = await this.openFields(sealed);
+
+    // Fields that can't be decrypted are left as they are
+    const fieldsCurrent =
+      metadata.sealed !== undefined ||
+      (Object.keys(pickMetadata(sealed)).length === 0 &&
+        (sealed.sealed?.keyId ?? keyId) === keyId);
+    if (metadata.keyId === keyId) {
+      if (fieldsCurrent) {
+        return false;
+      }
+      await this.replaceMetadata(metadata);
+      return true;
+    }
+
+    const { filePath, metaPath, dir } = await this.getBlobPath(blobId);
+
+    // Decrypt, but keep compressed payloads compressed
+    const stored = this.readPayload(filePath, {
+      ...metadata,
+      codec: undefined,
+    });
+    const tempFiles = [
+      await this.writeTempReadable(
+        dir,
+        encryptStream(stored, key, keyId, this.encryption!.chunkSize),
+      ),
+    ];
+
+    try {
+      tempFiles.push(
+        await this.writeTempFile(
+          dir,
+          JSON.stringify(
+            await this.sealFields({ ...metadata, keyId }),
+            null,
+            2,
+          ),
+        ),
+      );
+
+      // Encrypted payloads name their key in their header, so readers
+      // holding the old metadata can still read the new payload
+      await rename(tempFiles[0]!, filePath);
+      tempFiles.shift();
+      await rename(tempFiles[0]!, metaPath);
+      tempFiles.shift();
+    } finally {
+      for (const tempFile of tempFiles) {
+        await rm(tempFile, { force: true });
+      }
+    }
+
+    await this.syncDir(dir);
+    return true;
+  }
+
+  /**
+   * Move all blobs into another layout. New blobs are placed in the new
+   * layout at once, existing ones are moved one after another and stay
+   * readable meanwhile, so this can run in the background. Call again with
+   * the same layout to continue an interrupted migration.
+   * @param layout - A predefined layout or layout options
+   * @param options - Allows to stop the migration early
+   * @returns The number of blobs checked and moved
+   */
+  async migrateLayout(
+    layout: BsFsLayoutName | BsFsLayoutOptions,
+    options: BsFsMigrateLayoutOptions = {},
+  ): Promise<BsFsMigrateLayoutReport> {
+    const target = resolveLayout(layout);
+    const report: BsFsMigrateLayoutReport = { checked: 0, moved: 0 };
+    await this.ready();
+
+    // Record both layouts before moving anything
+    const from = await this.exclusive(async () => {
+      const manifest = (await this.readManifest())!;
+      this._manifest = Promise.resolve(manifest);
+      const { layout: current, previousLayout } = manifest;
+      if (sameLayout(current, target)) {
+        return previousLayout;
+      }
+      if (previousLayout) {
+        throw new Error('Another layout migration is in progress');
+      }
+
+      await this.writeManifest({
+        ...manifest,
+        layout: target,
+        previousLayout: current,
+      });
+      return current;
+    });
+    if (!from) {
+      return report;
+    }
+
+    await this.walkIndex(async ({ blobId }) => {
+      options.signal?.throwIfAborted();
+      report.checked++;
+      if (await this.exclusive(() => this.moveBlob(blobId, from, target))) {
+        report.moved++;
+      }
+    });
+
+    await this.exclusive(async () => {
+      const manifest = (await this.readManifest())!;
+      if (sameLayout(manifest.layout, target)) {
+        await this.writeManifest({ ...manifest, previousLayout: undefined });
+        /* v8 ignore start -- @preserve */
+      } else {
+        // Another process finished this migration and started the next
+        this._manifest = Promise.resolve(manifest);
+      }
+      /* v8 ignore stop -- @preserve */
+    });
+    return report;
+  }
+
+  /**
+   * Move the files of a single blob into another layout
+   * @param blobId - The id of the blob
+   * @param from - The layout to move the blob from
+   * @param to - The layout to move the blob to
+   * @returns False if the blob was moved or deleted already
+   */
+  private async moveBlob(
+    blobId: string,
+    from: ResolvedLayout,
+    to: ResolvedLayout,
+  ): Promise<boolean> {
+    const source = layoutPaths(this.baseDir, from, blobId);
+    const target = layoutPaths(this.baseDir, to, blobId);
+    if (!(await this.fileExists(source[locatingFile(source, target)]))) {
+      return false;
+    }
+
+    // Readers find the payload wherever they find the metadata
+    await this.ensureDir(target.dir);
+    try {
+      await link(source.filePath, target.filePath);
+    } catch (error) {
+      // Linked by an interrupted migration already
+      if ((error as NodeJS.ErrnoException).code !== 'EEXIST') {
+        throw error;
+      }
+    }
+    await rename(source.metaPath, target.metaPath);
+    await rm(source.filePath, { force: true });
+    await this.syncDir(target.dir);
+    await this.syncDir(source.dir);
+
+    await this.pruneDirs(source.dir, to);
+    return true;
+  }
+
+  /**
+   * Remove a directory and its parents as long as they are empty, up to
+   * the base directory or a directory the given layout places blobs in
+   * @param dir - The directory
+   * @param layout - The layout whose directories are kept
+   */
+  private async pruneDirs(dir: string, layout: ResolvedLayout): Promise<void> {
+    const names = relative(this.baseDir, dir).split(sep).filter(Boolean);
+    while (names.length > 0 && !usesDir(layout, names)) {
+      try {
+        await rmdir(join(this.baseDir, ...names));
+      } catch {
+        return; // Not empty
+      }
+      names.pop();
+    }
+  }
+
+  /**
+   * Clear all blobs from storage (useful for testing). Only the change log
+   * is kept, so that its sequence numbers keep increasing and readers of
+   * changesSince learn about the clear.
+   */
+  async clear(): Promise<void> {
+    await this.exclusive(async () => {
+      const seq = await this.changeLog.seq();
+
+      // Move everything but the held lock away first, so that other
+      // processes don't see partly removed blobs. The manifest goes last,
+      // so that blobs are never seen without it.
+      const names = await readdir(this.baseDir);
+      const trashDir = `${resolve(this.baseDir)}.${randomUUID()}.deleted`;
+      await mkdir(trashDir);
+      try {
+        for (const name of [
+          ...names.filter(
+            (name) => name !== lockFileName && name !== manifestFileName,
+          ),
+          ...names.filter((name) => name === manifestFileName),
+        ]) {
+          await rename(join(this.baseDir, name), join(trashDir, name));
+        }
+      } finally {
+        await rm(trashDir, { recursive: true, force: true });
+      }
+      await this.changeLog.restart(seq);
+    });
+
+    // Stores without changes leave nothing behind
+    try {
+      await rmdir(this.baseDir);
+    } catch (error) {
+      const code = (error as NodeJS.ErrnoException).code;
+      /* v8 ignore start -- @preserve */
+      if (code !== 'ENOTEMPTY' && code !== 'EEXIST' && code !== 'ENOENT') {
+        throw error;
+      }
+      /* v8 ignore stop -- @preserve */
+    }
+    this.index.reset();
+    this._ready = undefined;
+    this._manifest = undefined;
+  }
+
+  /**
+   * Listen to changes made by this instance. Listeners are called once a
+   * change is done, while the store is still locked. Changes made by other
+   * instances are only found in the change log, see changesSince.
+   * @param event - The event to listen to
+   * @param listener - Called with the details of each event
+   */
+  on<E extends keyof BsFsEvents>(
+    event: E,
+    listener: (details: BsFsEvents[E]) => void,
+  ): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Stop listening to an event
+   * @param event - The event
+   * @param listener - The listener passed to on
+   */
+  off<E extends keyof BsFsEvents>(
+    event: E,
+    listener: (details: BsFsEvents[E]) => void,
+  ): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Iterate over the blobs added and deleted by all instances and
+   * processes, in the order they happened, up to the latest change. Pass
+   * the `seq` of the last change processed to resume, e.g. after a
+   * restart. Throws a ChangeLogTruncatedError if some of the changes
+   * were dropped already.
+   * @param seq - The sequence number of the last change seen, 0 for all
+   */
+  changesSince(seq: number): AsyncIterable<BsFsChange> {
+    return this.changeLog.since(seq);
+  }
+
+  /**
+   * Return the sequence number of the latest change, 0 if there is none.
+   * Changes after it can be read with changesSince.
+   */
+  async changeSeq(): Promise<number> {
+    return this.changeLog.seq();
+  }
+
+  /**
+   * Watch the store for blobs added and deleted by any instance or
+   * process. Unlike the events of on, this also reports changes made by
+   * other processes as they happen, e.g. to keep caches fresh. Close the
+   * watcher when done.
+   * @param options - Polling and debouncing
+   * @returns The started watcher
+   */
+  async watch(options: BsFsWatchOptions = {}): Promise<BsFsWatcher> {
+    const watcher = new BsFsWatcher(
+      this.baseDir,
+      {
+        list: async () =>
+          (await this.index.list()).entries.map(({ blobId }) => blobId),
+        exists: (blobId) => this.blobExists(blobId),
+      },
+      options,
+    );
+    await watcher.start();
+    return watcher;
+  }
+
+  /**
+   * Get the number of blobs in storage
+   */
+  async size(): Promise<number> {
+    return this.index.count();
+  }
+
+  /**
+   * Evict blobs until the store fits its quota again, e.g. after the quota
+   * was lowered. Retained blobs are kept. If the store wouldn't fit even
+   * without all other blobs, nothing is evicted.
+   * @returns The ids of the evicted blobs
+   */
+  async evict(): Promise<string[]> {
+    const quota = this.quota;
+    if (!quota) {
+      throw new Error('No quota is configured');
+    }
+
+    return this.exclusive(async () => {
+      const { count, bytes } = await this.index.totals();
+      const candidates = await this.evictionCandidates();
+      const victims =
+        chooseVictims(quota, { blobs: count, bytes }, candidates) ?? [];
+
+      for (const victim of victims) {
+        await this.removeBlob(victim.blobId);
+      }
+      return victims.map((victim) => victim.blobId);
+    });
+  }
+
+  /**
+   * Get the number and size of all blobs and the space taken on disk
+   */
+  async usage(): Promise<BsFsUsage> {
+    const { count, bytes } = await this.index.totals();
+
+    let diskBytes = 0;
+    await this.walkFiles(async (dir, name) => {
+      try {
+        diskBytes += (await stat(join(dir, name))).size;
+        /* v8 ignore start -- @preserve */
+      } catch {
+        // Removed concurrently
+      }
+      /* v8 ignore stop -- @preserve */
+    });
+
+    return { blobs: count, bytes, diskBytes };
   }
 }
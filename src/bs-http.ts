@@ -0,0 +1,365 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { BlobNotFoundError, BlobRangeError, BsHttpError } from './errors.ts';
+import { createdAtHeader } from './http-headers.ts';
+import { BsFsRange, resolveRange } from './range.ts';
+
+import type {
+  BlobProperties,
+  Bs,
+  DownloadBlobOptions,
+  ListBlobsOptions,
+  ListBlobsResult,
+} from '@rljson/bs';
+
+/**
+ * Options for a BsHttp client
+ */
+export interface BsHttpOptions {
+  /** Sent as `Authorization: Bearer <accessToken>` with every request */
+  accessToken?: string;
+
+  /**
+   * Requests failing with a network error or a 502, 503 or 504 are
+   * repeated this many times. Uploads of streams are never repeated.
+   * Defaults to 3.
+   */
+  retries?: number;
+
+  /**
+   * Milliseconds to wait before the first retry, doubled for every further
+   * one. Defaults to 100.
+   */
+  retryDelayMs?: number;
+}
+
+/**
+ * Options for reading blobs from a BsHttp
+ */
+export interface BsHttpDownloadOptions extends Omit<
+  DownloadBlobOptions,
+  'range'
+> {
+  /** Only read these bytes of the blob */
+  range?: BsFsRange;
+}
+
+/** Statuses telling that a request might succeed when repeated */
+const retryStatuses = [502, 503, 504];
+
+/**
+ * Options for a single request
+ */
+interface RequestOptions {
+  /** The request body */
+  body?: Buffer | string | ReadableStream;
+
+  /** Additional headers */
+  headers?: Record<string, string>;
+
+  /** Whether the request may be repeated. Defaults to true. */
+  retry?: boolean;
+}
+
+/**
+ * A blob as it is listed by the server
+ */
+interface ListedBlob {
+  blobId: string;
+  size: number;
+  createdAt: string;
+}
+
+/**
+ * Turn a range into the value of a Range header
+ * @param range - The range, must not be empty
+ */
+const rangeHeader = (range: BsFsRange): string => {
+  if ('suffix' in range) {
+    return `bytes=-${range.suffix}`;
+  }
+  return range.end === undefined
+    ? `bytes=${range.start}-`
+    : `bytes=${range.start}-${range.end - 1}`;
+};
+
+/**
+ * Check if a range selects no bytes at all, which HTTP can't express
+ * @param range - The range
+ */
+const isEmptyRange = (range: BsFsRange): boolean =>
+  'suffix' in range ? range.suffix === 0 : range.start === range.end;
+
+// .............................................................................
+/**
+ * Implements the Bs interface against a blob server, e.g. a BsFsServer.
+ * Apps can switch between local and remote storage without changes.
+ */
+export class BsHttp implements Bs {
+  private readonly baseUrl: string;
+  private readonly accessToken: string | undefined;
+  private readonly retries: number;
+  private readonly retryDelayMs: number;
+
+  /**
+   * Create a new BsHttp client
+   * @param baseUrl - The URL of the server, e.g. http://127.0.0.1:8080
+   * @param options - Additional options
+   */
+  constructor(baseUrl: string, options: BsHttpOptions = {}) {
+    this.baseUrl = baseUrl.replace(/\/+$/, '');
+    this.accessToken = options.accessToken;
+    this.retries = options.retries ?? 3;
+    this.retryDelayMs = options.retryDelayMs ?? 100;
+  }
+
+  async setBlob(
+    content: Buffer | string | ReadableStream,
+  ): Promise<BlobProperties> {
+    const isStream = !Buffer.isBuffer(content) && typeof content !== 'string';
+    const res = await this.request('POST', '/blobs', {
+      body: content,
+      retry: !isStream,
+    });
+    await this.check(res);
+    return this.toProperties(await res.json());
+  }
+
+  async getBlob(
+    blobId: string,
+    options?: BsHttpDownloadOptions,
+  ): Promise<{ content: Buffer; properties: BlobProperties }> {
+    const range = options?.range;
+    if (range && isEmptyRange(range)) {
+      const properties = await this.getBlobProperties(blobId);
+      resolveRange(blobId, range, properties.size);
+      return { content: Buffer.alloc(0), properties };
+    }
+
+    const { res, properties } = await this.download(blobId, range);
+    return { content: Buffer.from(await res.arrayBuffer()), properties };
+  }
+
+  async getBlobStream(
+    blobId: string,
+    options?: BsHttpDownloadOptions,
+  ): Promise<ReadableStream> {
+    const range = options?.range;
+    if (range && isEmptyRange(range)) {
+      await this.getBlob(blobId, options);
+      return new ReadableStream({ start: (controller) => controller.close() });
+    }
+
+    const { res } = await this.download(blobId, range);
+    return res.body as ReadableStream;
+  }
+
+  async deleteBlob(blobId: string): Promise<void> {
+    const res = await this.request('DELETE', this.blobPath(blobId));
+    await this.check(res, blobId);
+  }
+
+  async blobExists(blobId: string): Promise<boolean> {
+    const res = await this.request('HEAD', this.blobPath(blobId));
+    if (res.status === 404) {
+      return false;
+    }
+    await this.check(res, blobId);
+    return true;
+  }
+
+  async getBlobProperties(blobId: string): Promise<BlobProperties> {
+    const res = await this.request('HEAD', this.blobPath(blobId));
+    await this.check(res, blobId);
+    return this.propertiesOf(blobId, res);
+  }
+
+  async listBlobs(options?: ListBlobsOptions): Promise<ListBlobsResult> {
+    const query = new URLSearchParams();
+    for (const key of ['prefix', 'continuationToken', 'maxResults'] as const) {
+      if (options?.[key] !== undefined) {
+        query.set(key, String(options[key]));
+      }
+    }
+
+    const res = await this.request('GET', `/blobs?${query}`);
+    await this.check(res);
+    const { blobs, continuationToken } = (await res.json()) as {
+      blobs: ListedBlob[];
+      continuationToken?: string;
+    };
+    return {
+      blobs: blobs.map((blob) => this.toProperties(blob)),
+      continuationToken,
+    };
+  }
+
+  /**
+   * Ask the server for a signed URL granting access to a blob
+   * @param blobId - The id of the blob
+   * @param expiresIn - Seconds until the URL expires
+   * @param permissions - The operation the URL allows, defaults to 'read'
+   */
+  async generateSignedUrl(
+    blobId: string,
+    expiresIn: number,
+    permissions?: 'read' | 'delete',
+  ): Promise<string> {
+    const query = new URLSearchParams({
+      expiresIn: String(expiresIn),
+      permissions: permissions ?? 'read',
+    });
+    const res = await this.request(
+      'POST',
+      `${this.blobPath(blobId)}/signed-url?${query}`,
+    );
+    await this.check(res, blobId);
+    return ((await res.json()) as { url: string }).url;
+  }
+
+  // ...........................................................................
+  /**
+   * Send a request, repeating it if it fails temporarily
+   * @param method - The HTTP method
+   * @param path - The path and query, relative to the base URL
+   * @param init - Body, headers and retry behaviour of the request
+   */
+  private async request(
+    method: string,
+    path: string,
+    init: RequestOptions = {},
+  ): Promise<Response> {
+    const headers: Record<string, string> = { ...init.headers };
+    if (this.accessToken) {
+      headers['Authorization'] = `Bearer ${this.accessToken}`;
+    }
+    const retries = init.retry === false ? 0 : this.retries;
+
+    for (let attempt = 0; ; attempt++) {
+      try {
+        const res = await fetch(`${this.baseUrl}${path}`, {
+          method,
+          headers,
+          body: init.body as BodyInit | undefined,
+          duplex: 'half',
+        } as RequestInit);
+
+        if (!retryStatuses.includes(res.status) || attempt >= retries) {
+          return res;
+        }
+        await res.body?.cancel();
+      } catch (error) {
+        if (attempt >= retries) {
+          throw error;
+        }
+      }
+
+      await sleep(this.retryDelayMs * 2 ** attempt);
+    }
+  }
+
+  /**
+   * Throw the error a failed response reports
+   * @param res - The response
+   * @param blobId - The blob the request was about. A 404 throws a
+   * BlobNotFoundError then.
+   */
+  private async check(res: Response, blobId?: string): Promise<void> {
+    if (res.ok) {
+      return;
+    }
+
+    const body = await res.text();
+    let message = body || res.statusText;
+    try {
+      message = (JSON.parse(body) as { error: string }).error;
+    } catch {
+      // Keep the plain text
+    }
+
+    if (res.status === 404 && blobId !== undefined) {
+      throw new BlobNotFoundError(blobId);
+    }
+    throw new BsHttpError(res.status, message);
+  }
+
+  /**
+   * Start downloading a blob
+   * @param blobId - The id of the blob
+   * @param range - Only read these bytes, must not be empty
+   * @returns The response and the properties of the blob
+   */
+  private async download(
+    blobId: string,
+    range: BsFsRange | undefined,
+  ): Promise<{ res: Response; properties: BlobProperties }> {
+    const res = await this.request('GET', this.blobPath(blobId), {
+      headers: range ? { Range: rangeHeader(range) } : {},
+    });
+
+    if (res.status === 416) {
+      await res.body?.cancel();
+      const size = Number(res.headers.get('content-range')!.split('/')[1]);
+      throw new BlobRangeError(blobId, size, 'range lies beyond the blob');
+    }
+    await this.check(res, blobId);
+
+    const properties = this.propertiesOf(blobId, res);
+
+    // Servers clamp ranges, BsFs rejects them
+    if (range) {
+      try {
+        resolveRange(blobId, range, properties.size);
+      } catch (error) {
+        await res.body?.cancel();
+        throw error;
+      }
+    }
+
+    return { res, properties };
+  }
+
+  /**
+   * Read the properties of a blob from the headers of a response
+   * @param blobId - The id of the blob
+   * @param res - A response to GET or HEAD
+   */
+  private propertiesOf(blobId: string, res: Response): BlobProperties {
+    const contentRange = res.headers.get('content-range');
+    const size = contentRange
+      ? Number(contentRange.split('/')[1])
+      : Number(res.headers.get('content-length'));
+
+    return {
+      blobId,
+      size,
+      createdAt: new Date(res.headers.get(createdAtHeader)!),
+    };
+  }
+
+  /**
+   * Turn a blob listed by the server into blob properties
+   * @param blob - The blob as listed by the server
+   */
+  private toProperties(blob: ListedBlob): BlobProperties {
+    return {
+      blobId: blob.blobId,
+      size: blob.size,
+      createdAt: new Date(blob.createdAt),
+    };
+  }
+
+  /**
+   * The path of a blob on the server
+   * @param blobId - The id of the blob
+   */
+  private blobPath(blobId: string): string {
+    return `/blobs/${encodeURIComponent(blobId)}`;
+  }
+}
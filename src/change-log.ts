@@ -0,0 +1,335 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { randomUUID } from 'node:crypto';
+import {
+  appendFile,
+  FileHandle,
+  mkdir,
+  open,
+  rename,
+  stat,
+  writeFile,
+} from 'node:fs/promises';
+import { dirname, join } from 'node:path';
+
+import { ChangeLogTruncatedError } from './errors.ts';
+
+/**
+ * What happened to a blob
+ *
+ * - `added`: The blob was stored
+ * - `deleted`: The blob was deleted, collected, evicted or quarantined
+ */
+export type BsFsChangeType = 'added' | 'deleted';
+
+/**
+ * A change of the blobs of a store
+ */
+export interface BsFsChange {
+  /** Increases by one with every change of the store, starting at 1 */
+  seq: number;
+
+  /** What happened */
+  type: BsFsChangeType;
+
+  /** The id of the blob */
+  blobId: string;
+
+  /** When the change was recorded */
+  at: Date;
+}
+
+/**
+ * A single line of the change log. `cleared` records mark where the store
+ * was cleared and are not passed on as changes.
+ */
+interface ChangeRecord {
+  seq: number;
+  type: BsFsChangeType | 'cleared';
+  blobId: string;
+  at: string;
+}
+
+/**
+ * Options for the change log
+ */
+export interface ChangeLogOptions {
+  /**
+   * Once the log holds more than this many records, the older half is
+   * dropped. Defaults to 10000.
+   */
+  maxRecords?: number;
+}
+
+/**
+ * Parse a line of the change log
+ * @param line - The line
+ * @returns The record, or undefined if the line is damaged or incomplete
+ */
+const parseRecord = (line: string): ChangeRecord | undefined => {
+  try {
+    return JSON.parse(line);
+  } catch {
+    return undefined; // Damaged by a crash or being written right now
+  }
+};
+
+/**
+ * Iterate over the intact records of a log file
+ * @param filePath - The log file
+ */
+const readRecords = (filePath: string): AsyncIterable<ChangeRecord> => ({
+  async *[Symbol.asyncIterator]() {
+    let handle: FileHandle;
+    try {
+      handle = await open(filePath, 'r');
+    } catch {
+      return; // No changes yet
+    }
+
+    try {
+      for await (const line of handle.readLines({ autoClose: false })) {
+        const record = parseRecord(line);
+        if (record) {
+          yield record;
+        }
+      }
+    } finally {
+      await handle.close();
+    }
+  },
+});
+
+/**
+ * Convert a record of the log into a change
+ * @param record - The record
+ */
+const toChange = (record: ChangeRecord): BsFsChange => ({
+  ...record,
+  type: record.type as BsFsChangeType,
+  at: new Date(record.at),
+});
+
+/**
+ * A durable log of the blobs added to and deleted from a store.
+ *
+ * Changes are appended as JSON objects, one per line, with a sequence
+ * number increasing by one per change. Appending is only safe while
+ * holding the lock of the store, so that processes never assign the same
+ * number twice. Readers can resume after the last number they've seen,
+ * unless the log was trimmed or the store was cleared meanwhile.
+ */
+export class ChangeLog {
+  private readonly filePath: string;
+  private readonly maxRecords: number;
+
+  /** Identity of the log file read so far, empty if no log has been read */
+  private identity = '';
+
+  /** Number of bytes of the log file read so far */
+  private offset = 0;
+
+  /** Number of records in the log file */
+  private records = 0;
+
+  /** The sequence number of the latest change, 0 if there is none */
+  private lastSeq = 0;
+
+  /**
+   * Create a new ChangeLog
+   * @param filePath - The log file
+   * @param options - Additional options
+   */
+  constructor(filePath: string, options: ChangeLogOptions = {}) {
+    this.filePath = filePath;
+    this.maxRecords = options.maxRecords ?? 10000;
+  }
+
+  // ...........................................................................
+  /**
+   * Record a change. Callers must hold the lock of the store.
+   * @param type - What happened
+   * @param blobId - The id of the blob
+   * @returns The recorded change
+   */
+  async append(type: BsFsChangeType, blobId: string): Promise<BsFsChange> {
+    await this.refresh();
+    const record: ChangeRecord = {
+      seq: this.lastSeq + 1,
+      type,
+      blobId,
+      at: new Date().toISOString(),
+    };
+    await this.terminateTail();
+    await appendFile(this.filePath, JSON.stringify(record) + '\n');
+    await this.refresh();
+
+    if (this.records > this.maxRecords) {
+      await this.trim();
+    }
+    return toChange(record);
+  }
+
+  /**
+   * Return the sequence number of the latest change, 0 if there is none
+   */
+  async seq(): Promise<number> {
+    await this.refresh();
+    return this.lastSeq;
+  }
+
+  /**
+   * Iterate over the changes after the given sequence number, up to the
+   * latest change when the iteration reaches it. Throws a
+   * ChangeLogTruncatedError if changes after it were dropped already or
+   * the store was cleared after it.
+   * @param seq - The sequence number of the last change seen, 0 for all
+   */
+  since(seq: number): AsyncIterable<BsFsChange> {
+    if (!Number.isInteger(seq) || seq < 0) {
+      throw new Error(`Invalid sequence number: ${seq}`);
+    }
+    const filePath = this.filePath;
+
+    return {
+      async *[Symbol.asyncIterator]() {
+        let first = true;
+        for await (const record of readRecords(filePath)) {
+          // The deletions of a clear are not recorded one by one
+          if (record.type === 'cleared' && record.seq > seq) {
+            throw new ChangeLogTruncatedError(seq, record.seq + 1);
+          }
+          if (first && record.seq > seq + 1) {
+            throw new ChangeLogTruncatedError(seq, record.seq);
+          }
+          first = false;
+          if (record.seq > seq && record.type !== 'cleared') {
+            yield toChange(record);
+          }
+        }
+      },
+    };
+  }
+
+  /**
+   * Start a new log after the store was cleared, with a record marking
+   * the clear. Numbering continues after the given sequence number, so
+   * that readers behind it learn that they missed changes. Callers must
+   * hold the lock of the store.
+   * @param seq - The sequence number of the latest change before the clear
+   */
+  async restart(seq: number): Promise<void> {
+    this.reset();
+    if (seq === 0) {
+      return; // Nobody can be behind
+    }
+
+    const record: ChangeRecord = {
+      seq: seq + 1,
+      type: 'cleared',
+      blobId: '',
+      at: new Date().toISOString(),
+    };
+    await mkdir(dirname(this.filePath), { recursive: true });
+    await writeFile(this.filePath, JSON.stringify(record) + '\n');
+    await this.refresh();
+  }
+
+  /**
+   * Forget everything read so far
+   */
+  reset(): void {
+    this.identity = '';
+    this.offset = 0;
+    this.records = 0;
+    this.lastSeq = 0;
+  }
+
+  // ...........................................................................
+  /**
+   * Read records appended to the log since the last refresh
+   */
+  private async refresh(): Promise<void> {
+    let info;
+    try {
+      info = await stat(this.filePath);
+    } catch {
+      this.reset();
+      return;
+    }
+
+    // The log was replaced: Read it from the beginning
+    const identity = `${info.ino}/${info.birthtimeMs}`;
+    if (identity !== this.identity || info.size < this.offset) {
+      this.reset();
+      this.identity = identity;
+    }
+    if (info.size === this.offset) {
+      return;
+    }
+
+    const handle = await open(this.filePath, 'r');
+    let text: string;
+    try {
+      const buffer = Buffer.alloc(info.size - this.offset);
+      const { bytesRead } = await handle.read(
+        buffer,
+        0,
+        buffer.length,
+        this.offset,
+      );
+      text = buffer.subarray(0, bytesRead).toString('utf8');
+    } finally {
+      await handle.close();
+    }
+
+    // Only read complete lines, see BlobIndex
+    const lastNewline = text.lastIndexOf('\n');
+    if (lastNewline === -1) {
+      return;
+    }
+    this.offset += Buffer.byteLength(text.substring(0, lastNewline + 1));
+
+    for (const line of text.substring(0, lastNewline).split('\n')) {
+      const record = parseRecord(line);
+      if (record) {
+        this.records++;
+        this.lastSeq = record.seq;
+      }
+    }
+  }
+
+  /**
+   * Terminate an incomplete last line left by a crashed write, see
+   * BlobIndex
+   */
+  private async terminateTail(): Promise<void> {
+    const size = await stat(this.filePath).then(
+      (info) => info.size,
+      () => 0,
+    );
+    if (size > this.offset) {
+      await appendFile(this.filePath, '\n');
+    }
+  }
+
+  /**
+   * Atomically replace the log with its newer half
+   */
+  private async trim(): Promise<void> {
+    const kept: string[] = [];
+    for await (const record of readRecords(this.filePath)) {
+      kept.push(JSON.stringify(record));
+    }
+    kept.splice(0, kept.length - Math.ceil(this.maxRecords / 2));
+
+    const tempPath = join(dirname(this.filePath), `.${randomUUID()}.tmp`);
+    await writeFile(tempPath, kept.map((line) => line + '\n').join(''));
+    await rename(tempPath, this.filePath);
+    await this.refresh();
+  }
+}
@@ -0,0 +1,628 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { createReadStream, createWriteStream } from 'node:fs';
+import { stat } from 'node:fs/promises';
+import { basename } from 'node:path';
+import { Readable, Writable } from 'node:stream';
+import { finished, pipeline } from 'node:stream/promises';
+import { ReadableStream as NodeReadableStream } from 'node:stream/web';
+import { parseArgs, ParseArgsConfig } from 'node:util';
+
+import { BsFs, BsFsGcReport } from './bs-fs.ts';
+import { BsFsLayoutName, layouts } from './layout.ts';
+import { BsFsRange } from './range.ts';
+
+/**
+ * The streams the command line tool reads from and writes to
+ */
+export interface CliIo {
+  /** Read by `put` if no file is given */
+  stdin: Readable;
+
+  /** Receives the output of the commands */
+  stdout: Writable;
+
+  /** Receives errors and hints */
+  stderr: Writable;
+}
+
+type CliOptions = NonNullable<ParseArgsConfig['options']>;
+
+/**
+ * Everything a command needs to run
+ */
+interface CommandContext {
+  /** The store to work on */
+  bs: BsFs;
+
+  /** The directory of the store */
+  dir: string;
+
+  /** The positional arguments after the command name */
+  args: string[];
+
+  /** The parsed options */
+  values: Record<string, string | boolean | undefined>;
+
+  /** Whether to print JSON instead of text */
+  json: boolean;
+
+  /** The streams to use */
+  io: CliIo;
+}
+
+/**
+ * A subcommand of the command line tool
+ */
+interface Command {
+  /** Arguments and options, shown in the usage */
+  usage: string;
+
+  /** What the command does, shown in the usage */
+  description: string;
+
+  /** Options of the command besides the global ones */
+  options: CliOptions;
+
+  /**
+   * Returns the store to work on. Defaults to opening an existing store,
+   * which fails for directories that don't hold one.
+   */
+  store?: (context: Omit<CommandContext, 'bs'>) => Promise<BsFs>;
+
+  /** Runs the command and returns the exit code, 0 if omitted */
+  run: (context: CommandContext) => Promise<number | void>;
+}
+
+/**
+ * Thrown for invalid command lines, which exit with code 2
+ */
+class UsageError extends Error {}
+
+/** The directory of the store if `--dir` is not given */
+const defaultDir = './blobs';
+
+/** Options accepted by all commands */
+const globalOptions: CliOptions = {
+  dir: { type: 'string', short: 'd' },
+  json: { type: 'boolean' },
+  help: { type: 'boolean', short: 'h' },
+};
+
+/**
+ * Print the result of a command
+ * @param context - The context of the command
+ * @param json - The result printed with `--json`
+ * @param text - The result printed otherwise, one entry per line
+ */
+const print = (
+  context: CommandContext,
+  json: unknown,
+  text: string[],
+): void => {
+  const output = context.json ? [JSON.stringify(json, null, 2)] : text;
+  for (const line of output) {
+    context.io.stdout.write(`${line}\n`);
+  }
+};
+
+/**
+ * Return the only positional argument of a command
+ * @param context - The context of the command
+ * @param name - The name of the argument, used in errors
+ */
+const singleArg = (context: CommandContext, name: string): string => {
+  if (context.args.length !== 1) {
+    throw new UsageError(`Expected exactly one ${name}`);
+  }
+  return context.args[0]!;
+};
+
+/**
+ * Parse an option holding a non-negative integer
+ * @param context - The context of the command
+ * @param name - The name of the option
+ */
+const integerOption = (
+  context: CommandContext,
+  name: string,
+): number | undefined => {
+  const value = context.values[name] as string | undefined;
+  if (value === undefined) {
+    return undefined;
+  }
+  if (!/^\d+$/.test(value)) {
+    throw new UsageError(`--${name} must be a non-negative integer`);
+  }
+  return Number(value);
+};
+
+/**
+ * Parse an option holding a date
+ * @param context - The context of the command
+ * @param name - The name of the option
+ */
+const dateOption = (
+  context: CommandContext,
+  name: string,
+): Date | undefined => {
+  const value = context.values[name] as string | undefined;
+  if (value === undefined) {
+    return undefined;
+  }
+  const date = new Date(value);
+  if (isNaN(date.getTime())) {
+    throw new UsageError(`--${name} must be a date, e.g. 2026-01-31`);
+  }
+  return date;
+};
+
+/**
+ * Check the name of a layout
+ * @param name - The name to check
+ */
+const layoutName = (name: string): BsFsLayoutName => {
+  if (!Object.keys(layouts).includes(name)) {
+    throw new UsageError(`Unknown layout: ${name}`);
+  }
+  return name as BsFsLayoutName;
+};
+
+/**
+ * Build the range selected by `--start`, `--end` and `--suffix`
+ * @param context - The context of the command
+ */
+const rangeOption = (context: CommandContext): BsFsRange | undefined => {
+  const start = integerOption(context, 'start');
+  const end = integerOption(context, 'end');
+  const suffix = integerOption(context, 'suffix');
+
+  if (suffix !== undefined) {
+    if (start !== undefined || end !== undefined) {
+      throw new UsageError(
+        '--suffix can not be combined with --start or --end',
+      );
+    }
+    return { suffix };
+  }
+  if (start === undefined && end === undefined) {
+    return undefined;
+  }
+  return { start: start ?? 0, end };
+};
+
+/**
+ * Read blob ids separated by whitespace, e.g. one per line
+ * @param context - The context of the command
+ * @param file - The file holding the ids, or - for stdin
+ */
+const readRoots = async (
+  context: CommandContext,
+  file: string,
+): Promise<string[]> => {
+  const source = file === '-' ? context.io.stdin : createReadStream(file);
+  const text = Buffer.concat(await source.toArray()).toString('utf8');
+  return text.split(/\s+/).filter((blobId) => blobId !== '');
+};
+
+// .............................................................................
+const commands: Record<string, Command> = {
+  init: {
+    usage: 'init [--layout l]',
+    description: 'Create a store in an empty directory, in the legacy layout',
+    options: { layout: { type: 'string' } },
+    store: async (context) => {
+      if (context.args.length > 0) {
+        throw new UsageError('Expected no arguments');
+      }
+      const layout = context.values['layout'];
+      return BsFs.create(context.dir, {
+        layout: typeof layout === 'string' ? layoutName(layout) : undefined,
+      });
+    },
+    run: async (context) => {
+      print(context, { dir: context.dir }, [
+        `Created a store in ${context.dir}`,
+      ]);
+    },
+  },
+
+  put: {
+    usage: 'put [file] [--type t] [--name n] [--tag t]...',
+    description: 'Store a file, or stdin if omitted or -, and print its id',
+    options: {
+      type: { type: 'string' },
+      name: { type: 'string' },
+      tag: { type: 'string', multiple: true },
+    },
+    run: async (context) => {
+      if (context.args.length > 1) {
+        throw new UsageError('Expected at most one file');
+      }
+      const file = context.args[0];
+      const fromStdin = file === undefined || file === '-';
+      const source = fromStdin ? context.io.stdin : createReadStream(file);
+
+      const properties = await context.bs.setBlob(
+        Readable.toWeb(source) as ReadableStream,
+        {
+          contentType: context.values['type'] as string | undefined,
+          filename:
+            (context.values['name'] as string | undefined) ??
+            (fromStdin ? undefined : basename(file)),
+          tags: context.values['tag'] as string[] | undefined,
+        },
+      );
+      print(context, properties, [properties.blobId]);
+    },
+  },
+
+  get: {
+    usage: 'get <blobId> [--out file] [--start n] [--end n] [--suffix n]',
+    description: 'Write a blob or a range of it to stdout or a file',
+    options: {
+      out: { type: 'string', short: 'o' },
+      start: { type: 'string' },
+      end: { type: 'string' },
+      suffix: { type: 'string' },
+    },
+    run: async (context) => {
+      const blobId = singleArg(context, 'blob id');
+      const range = rangeOption(context);
+      const out = context.values['out'] as string | undefined;
+      if (context.json && out === undefined) {
+        throw new UsageError('--json requires --out, as stdout takes the blob');
+      }
+
+      const stream = await context.bs.getBlobStream(
+        blobId,
+        range ? { range } : undefined,
+      );
+      const source = Readable.fromWeb(stream as NodeReadableStream);
+
+      if (out === undefined) {
+        await pipeline(source, context.io.stdout, { end: false });
+        return;
+      }
+
+      await pipeline(source, createWriteStream(out));
+      const { size } = await stat(out);
+      print(context, { blobId, file: out, bytes: size }, []);
+    },
+  },
+
+  stat: {
+    usage: 'stat <blobId>',
+    description: 'Print the size, creation time and metadata of a blob',
+    options: {},
+    run: async (context) => {
+      const blobId = singleArg(context, 'blob id');
+      const properties = await context.bs.getBlobProperties(blobId);
+      const { contentType, filename, tags } = properties;
+      print(context, properties, [
+        `blobId     ${properties.blobId}`,
+        `size       ${properties.size}`,
+        `createdAt  ${properties.createdAt.toISOString()}`,
+        ...(contentType !== undefined ? [`type       ${contentType}`] : []),
+        ...(filename !== undefined ? [`filename   ${filename}`] : []),
+        ...(tags ? [`tags       ${tags.join(' ')}`] : []),
+      ]);
+    },
+  },
+
+  ls: {
+    usage: 'ls [--prefix p] [--tag t] [--limit n] [--token t]',
+    description: 'List blobs with their size and creation time',
+    options: {
+      prefix: { type: 'string' },
+      tag: { type: 'string' },
+      limit: { type: 'string' },
+      token: { type: 'string' },
+    },
+    run: async (context) => {
+      if (context.args.length > 0) {
+        throw new UsageError('Expected no arguments');
+      }
+      const result = await context.bs.listBlobs({
+        prefix: context.values['prefix'] as string | undefined,
+        tag: context.values['tag'] as string | undefined,
+        maxResults: integerOption(context, 'limit'),
+        continuationToken: context.values['token'] as string | undefined,
+      });
+
+      print(
+        context,
+        result,
+        result.blobs.map(
+          (blob) =>
+            `${blob.blobId}  ${blob.size}  ${blob.createdAt.toISOString()}`,
+        ),
+      );
+      if (!context.json && result.continuationToken) {
+        context.io.stderr.write(
+          `More blobs follow, continue with --token ${result.continuationToken}\n`,
+        );
+      }
+    },
+  },
+
+  rm: {
+    usage: 'rm <blobId>...',
+    description: 'Delete blobs',
+    options: {},
+    run: async (context) => {
+      if (context.args.length === 0) {
+        throw new UsageError('Expected at least one blob id');
+      }
+      for (const blobId of context.args) {
+        await context.bs.deleteBlob(blobId);
+      }
+      print(context, { deleted: context.args }, []);
+    },
+  },
+
+  du: {
+    usage: 'du',
+    description: 'Print the number and size of all blobs',
+    options: {},
+    run: async (context) => {
+      const usage = await context.bs.usage();
+      print(context, usage, [
+        `${usage.blobs} blobs, ${usage.bytes} bytes, ` +
+          `${usage.diskBytes} bytes on disk`,
+      ]);
+    },
+  },
+
+  verify: {
+    usage: 'verify [--repair]',
+    description: 'Check all blobs, exit with 1 if issues remain unrepaired',
+    options: { repair: { type: 'boolean' } },
+    run: async (context) => {
+      if (context.values['repair']) {
+        const report = await context.bs.repair();
+        print(context, report, [
+          ...report.repaired.map(
+            ({ issue, action }) =>
+              `${action}  ${issue.kind}  ${issue.blobId}  ${issue.message}`,
+          ),
+          `Checked ${report.checked} blobs, ` +
+            `repaired ${report.repaired.length} issues`,
+        ]);
+        return;
+      }
+
+      const report = await context.bs.verify();
+      print(context, report, [
+        ...report.issues.map(
+          (issue) => `${issue.kind}  ${issue.blobId}  ${issue.message}`,
+        ),
+        `Checked ${report.checked} blobs, found ${report.issues.length} issues`,
+      ]);
+      return report.issues.length > 0 ? 1 : 0;
+    },
+  },
+
+  export: {
+    usage: 'export [--out file] [--prefix p] [--since date]',
+    description: 'Write blobs as a tar archive to stdout or a file',
+    options: {
+      out: { type: 'string', short: 'o' },
+      prefix: { type: 'string' },
+      since: { type: 'string' },
+    },
+    run: async (context) => {
+      if (context.args.length > 0) {
+        throw new UsageError('Expected no arguments');
+      }
+      const out = context.values['out'] as string | undefined;
+      if (context.json && out === undefined) {
+        throw new UsageError(
+          '--json requires --out, as stdout takes the archive',
+        );
+      }
+      const options = {
+        prefix: context.values['prefix'] as string | undefined,
+        since: dateOption(context, 'since'),
+      };
+
+      if (out === undefined) {
+        await context.bs.exportArchive(context.io.stdout, options);
+        return;
+      }
+
+      const file = createWriteStream(out);
+      const report = await context.bs.exportArchive(file, options);
+      await finished(file.end());
+      print(context, { file: out, ...report }, [
+        `Exported ${report.exported} blobs, ${report.bytes} bytes`,
+      ]);
+    },
+  },
+
+  import: {
+    usage: 'import [file]',
+    description:
+      'Add the blobs of an archive, or of stdin if omitted or -, ' +
+      'exit with 1 if blobs are invalid',
+    options: {},
+    run: async (context) => {
+      if (context.args.length > 1) {
+        throw new UsageError('Expected at most one file');
+      }
+      const file = context.args[0];
+      const source =
+        file === undefined || file === '-'
+          ? context.io.stdin
+          : createReadStream(file);
+
+      const report = await context.bs.importArchive(source);
+      print(context, report, [
+        ...report.invalid.map((blobId) => `invalid  ${blobId}`),
+        `Imported ${report.imported.length} blobs, ` +
+          `skipped ${report.skipped.length} existing, ` +
+          `${report.invalid.length} invalid`,
+      ]);
+      return report.invalid.length > 0 ? 1 : 0;
+    },
+  },
+
+  migrate: {
+    usage: 'migrate <layout>',
+    description: 'Move all blobs into the legacy, sharded or flat layout',
+    options: {},
+    run: async (context) => {
+      const layout = layoutName(singleArg(context, 'layout'));
+
+      const report = await context.bs.migrateLayout(layout);
+      print(context, report, [
+        `Moved ${report.moved} of ${report.checked} blobs`,
+      ]);
+    },
+  },
+
+  gc: {
+    usage: 'gc [--max-age ms] [--roots file] [--grace ms] [--dry-run]',
+    description:
+      'Remove stale temp files and, given --roots, unreferenced blobs',
+    options: {
+      'max-age': { type: 'string' },
+      roots: { type: 'string' },
+      grace: { type: 'string' },
+      'dry-run': { type: 'boolean' },
+    },
+    run: async (context) => {
+      const rootsFile = context.values['roots'] as string | undefined;
+      const dryRun = context.values['dry-run'] === true;
+      const gracePeriodMs = integerOption(context, 'grace');
+      if (rootsFile === undefined && (dryRun || gracePeriodMs !== undefined)) {
+        throw new UsageError('--dry-run and --grace require --roots');
+      }
+
+      const result: { removedTempFiles?: number; blobs?: BsFsGcReport } = {};
+      const text: string[] = [];
+
+      if (!dryRun) {
+        result.removedTempFiles = await context.bs.sweepTempFiles(
+          integerOption(context, 'max-age'),
+        );
+        text.push(`Removed ${result.removedTempFiles} temp files`);
+      }
+
+      if (rootsFile !== undefined) {
+        const report = await context.bs.gc({
+          roots: await readRoots(context, rootsFile),
+          gracePeriodMs,
+          dryRun,
+        });
+        result.blobs = report;
+        text.push(
+          ...report.deleted,
+          `${dryRun ? 'Would delete' : 'Deleted'} ${report.deleted.length} ` +
+            `unreferenced blobs, ${report.deletedBytes} bytes`,
+        );
+      }
+
+      print(context, result, text);
+    },
+  },
+};
+
+/**
+ * The help text of the tool or of a single command
+ * @param name - The name of the command, if any
+ */
+const usage = (name?: string): string => {
+  if (name !== undefined) {
+    const command = commands[name]!;
+    return `Usage: bs-fs ${command.usage} [--dir dir] [--json]\n\n${command.description}\n`;
+  }
+
+  const width = Math.max(
+    ...Object.values(commands).map((command) => command.usage.length),
+  );
+  return [
+    'Usage: bs-fs <command> [--dir dir] [--json]',
+    '',
+    'Commands:',
+    ...Object.values(commands).map(
+      (command) => `  ${command.usage.padEnd(width)}  ${command.description}`,
+    ),
+    '',
+    'Options:',
+    `  -d, --dir <dir>  The directory of the store, defaults to ${defaultDir}`,
+    '  --json           Print results as JSON',
+    '  -h, --help       Show this help',
+    '',
+  ].join('\n');
+};
+
+// .............................................................................
+/**
+ * Run the `bs-fs` command line tool
+ * @param argv - The arguments, without node and the script
+ * @param io - The streams to use
+ * @returns The exit code: 0 on success, 1 on failure, 2 on invalid usage
+ */
+export const runCli = async (argv: string[], io: CliIo): Promise<number> => {
+  try {
+    // The command is the first positional argument
+    const { tokens } = parseArgs({
+      args: argv,
+      options: globalOptions,
+      allowPositionals: true,
+      strict: false,
+      tokens: true,
+    });
+    const commandToken = tokens.find((token) => token.kind === 'positional');
+    const name = commandToken?.value;
+
+    if (name !== undefined && !Object.keys(commands).includes(name)) {
+      throw new UsageError(`Unknown command: ${name}`);
+    }
+
+    const { values, positionals } = parseArgs({
+      args: argv.filter((_, i) => i !== commandToken?.index),
+      options: { ...globalOptions, ...(name ? commands[name]!.options : {}) },
+      allowPositionals: true,
+    });
+
+    if (values.help) {
+      io.stdout.write(usage(name));
+      return 0;
+    }
+    if (name === undefined) {
+      io.stderr.write(usage());
+      return 2;
+    }
+
+    // Commands work on existing stores, unless they create one
+    const command = commands[name]!;
+    const dir = typeof values.dir === 'string' ? values.dir : defaultDir;
+    const context = {
+      dir,
+      args: positionals,
+      values: values as CommandContext['values'],
+      json: values.json === true,
+      io,
+    };
+    const store = command.store ?? (() => BsFs.open(dir));
+    const code = await command.run({ ...context, bs: await store(context) });
+    return code ?? 0;
+  } catch (error) {
+    const { message, code } = error as NodeJS.ErrnoException;
+    const isUsageError =
+      error instanceof UsageError || code?.startsWith('ERR_PARSE_ARGS');
+
+    io.stderr.write(`bs-fs: ${message}\n`);
+    if (isUsageError) {
+      io.stderr.write(`Run 'bs-fs --help' for usage\n`);
+      return 2;
+    }
+    return 1;
+  }
+};
@@ -0,0 +1,225 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { pipeline, Readable, Transform } from 'node:stream';
+import * as zlib from 'node:zlib';
+
+import { sniffFormat } from './mime.ts';
+
+/**
+ * A codec used to compress payloads on disk
+ */
+export type BsFsCodec = 'gzip' | 'brotli' | 'zstd';
+
+/**
+ * Options for compressing payloads on disk
+ */
+export interface BsFsCompressionOptions {
+  /** The codec used for new blobs */
+  codec: BsFsCodec;
+
+  /**
+   * Blobs smaller than this many bytes are stored uncompressed.
+   * Defaults to 1024.
+   */
+  minSize?: number;
+
+  /**
+   * Store content uncompressed that looks compressed already, e.g. images
+   * or archives. Defaults to true.
+   */
+  sniff?: boolean;
+
+  /**
+   * The compression level of the codec. Defaults to 6 for gzip, 5 for
+   * brotli and 3 for zstd.
+   */
+  level?: number;
+}
+
+/**
+ * Compression options with all defaults applied
+ */
+export type ResolvedCompression = Required<BsFsCompressionOptions>;
+
+/** All codecs, in the order they are tried when a codec is unknown */
+export const codecs: BsFsCodec[] = ['gzip', 'brotli', 'zstd'];
+
+const defaultLevels: Record<BsFsCodec, number> = {
+  gzip: 6,
+  brotli: 5,
+  zstd: 3,
+};
+
+/**
+ * Check whether the runtime supports a codec.
+ * zstd needs Node.js 22.15 or newer.
+ * @param codec - The codec to check
+ */
+export const isCodecSupported = (codec: BsFsCodec): boolean =>
+  codec !== 'zstd' || typeof zlib.createZstdCompress === 'function';
+
+/**
+ * Apply defaults to compression options and check the codec.
+ * Throws if the codec is unknown or not supported by the runtime.
+ * @param compression - A codec or compression options
+ */
+export const resolveCompression = (
+  compression: BsFsCodec | BsFsCompressionOptions | undefined,
+): ResolvedCompression | undefined => {
+  if (compression === undefined) {
+    return undefined;
+  }
+
+  const options =
+    typeof compression === 'string' ? { codec: compression } : compression;
+  const { codec } = options;
+
+  if (!codecs.includes(codec)) {
+    throw new Error(`Unknown compression codec: ${codec}`);
+  }
+
+  /* v8 ignore next 3 -- @preserve */
+  if (!isCodecSupported(codec)) {
+    throw new Error(`Compression codec ${codec} needs Node.js 22.15 or newer`);
+  }
+
+  return {
+    codec,
+    minSize: options.minSize ?? 1024,
+    sniff: options.sniff ?? true,
+    level: options.level ?? defaultLevels[codec],
+  };
+};
+
+/**
+ * Check whether content starts like a compressed file format
+ * @param head - The first bytes of the content
+ */
+export const looksCompressed = (head: Uint8Array): boolean =>
+  sniffFormat(head)?.compressed ?? false;
+
+/**
+ * Decide on the codec for new content
+ * @param compression - The compression options, if compression is enabled
+ * @param head - The first bytes of the content, at least `minSize` and
+ * `magicLength` bytes unless the content is shorter
+ * @param complete - True if head is the complete content
+ * @returns The codec, or undefined to store the content uncompressed
+ */
+export const chooseCodec = (
+  compression: ResolvedCompression | undefined,
+  head: Uint8Array,
+  complete: boolean,
+): BsFsCodec | undefined => {
+  if (!compression) {
+    return undefined;
+  }
+
+  if (complete && head.length < compression.minSize) {
+    return undefined;
+  }
+
+  if (compression.sniff && looksCompressed(head)) {
+    return undefined;
+  }
+
+  return compression.codec;
+};
+
+/**
+ * Create a stream compressing its input
+ * @param codec - The codec to use
+ * @param level - The compression level
+ */
+export const createEncoder = (codec: BsFsCodec, level: number): Transform => {
+  switch (codec) {
+    case 'gzip':
+      return zlib.createGzip({ level });
+    case 'brotli':
+      return zlib.createBrotliCompress({
+        params: { [zlib.constants.BROTLI_PARAM_QUALITY]: level },
+      });
+    case 'zstd':
+      return zlib.createZstdCompress({
+        params: { [zlib.constants.ZSTD_c_compressionLevel]: level },
+      });
+  }
+};
+
+/**
+ * Create a stream decompressing its input
+ * @param codec - The codec the input was compressed with
+ */
+export const createDecoder = (codec: BsFsCodec): Transform => {
+  switch (codec) {
+    case 'gzip':
+      return zlib.createGunzip();
+    case 'brotli':
+      return zlib.createBrotliDecompress();
+    case 'zstd':
+      return zlib.createZstdDecompress();
+  }
+};
+
+/**
+ * Run a buffer through a transform stream
+ * @param transform - The stream to use
+ * @param buffer - The input
+ */
+const transformBuffer = async (
+  transform: Transform,
+  buffer: Buffer,
+): Promise<Buffer> => {
+  const chunks: Buffer[] = [];
+  transform.end(buffer);
+  for await (const chunk of transform) {
+    chunks.push(chunk);
+  }
+  return Buffer.concat(chunks);
+};
+
+/**
+ * Compress a buffer
+ * @param codec - The codec to use
+ * @param level - The compression level
+ * @param buffer - The content to compress
+ */
+export const encodeBuffer = (
+  codec: BsFsCodec,
+  level: number,
+  buffer: Buffer,
+): Promise<Buffer> => transformBuffer(createEncoder(codec, level), buffer);
+
+/**
+ * Decompress a buffer
+ * @param codec - The codec the buffer was compressed with
+ * @param buffer - The compressed content
+ */
+export const decodeBuffer = (
+  codec: BsFsCodec,
+  buffer: Buffer,
+): Promise<Buffer> => transformBuffer(createDecoder(codec), buffer);
+
+/**
+ * Compress a stream. Errors of the source are forwarded to the result.
+ * @param source - The content to compress
+ * @param codec - The codec to use
+ * @param level - The compression level
+ */
+export const encodeStream = (
+  source: Readable,
+  codec: BsFsCodec,
+  level: number,
+): Readable => pipeline(source, createEncoder(codec, level), () => undefined);
+
+/**
+ * Decompress a stream. Errors of the source are forwarded to the result.
+ * @param source - The compressed content
+ * @param codec - The codec the content was compressed with
+ */
+export const decodeStream = (source: Readable, codec: BsFsCodec): Readable =>
+  pipeline(source, createDecoder(codec), () => undefined);
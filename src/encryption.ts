@@ -0,0 +1,659 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { createCipheriv, createDecipheriv, randomBytes } from 'node:crypto';
+import { open } from 'node:fs/promises';
+import { pipeline, Readable, Transform } from 'node:stream';
+
+import type { BsFsBlobMetadata } from './blob-metadata.ts';
+import { BlobDecryptionError } from './errors.ts';
+
+/**
+ * Provides the keys used to encrypt payloads
+ */
+export interface BsFsKeyProvider {
+  /** The id of the key new payloads are encrypted with */
+  currentKeyId(): string | Promise<string>;
+
+  /**
+   * Return the 256 bit key with the given id
+   * @param keyId - The id of the key
+   */
+  getKey(keyId: string): Buffer | Promise<Buffer>;
+}
+
+/**
+ * Options for encrypting payloads and metadata on disk
+ */
+export interface BsFsEncryptionOptions {
+  /** Provides the keys */
+  keyProvider: BsFsKeyProvider;
+
+  /**
+   * Payloads are encrypted in chunks of this many bytes. Range reads
+   * decrypt only the chunks they need. Defaults to 64 KiB.
+   */
+  chunkSize?: number;
+}
+
+/**
+ * Encryption options with all defaults applied
+ */
+export type ResolvedEncryption = Required<BsFsEncryptionOptions>;
+
+/**
+ * A key provider holding a fixed set of keys in memory
+ */
+export class StaticKeyProvider implements BsFsKeyProvider {
+  private readonly keys: Record<string, Buffer>;
+  private readonly keyId: string;
+
+  /**
+   * Create a new StaticKeyProvider
+   * @param keys - The keys by their ids
+   * @param keyId - The id of the key new payloads are encrypted with
+   */
+  constructor(keys: Record<string, Buffer>, keyId: string) {
+    this.keys = keys;
+    this.keyId = keyId;
+  }
+
+  currentKeyId(): string {
+    return this.keyId;
+  }
+
+  getKey(keyId: string): Buffer {
+    const key = this.keys[keyId];
+    if (!key) {
+      throw new Error(`Unknown key: ${keyId}`);
+    }
+    return key;
+  }
+}
+
+// .............................................................................
+// Payload format
+//
+// header: 'BSFE' | version (1) | chunk size (4) | nonce (12) |
+//         key id length (1) | key id
+// chunks: ciphertext | tag (16), all but the last one holding chunk size
+//         bytes of plaintext
+//
+// Each chunk is authenticated together with the header, its index and
+// whether it is the last one, so that chunks can't be reordered, dropped
+// or mixed between payloads.
+
+const magic = Buffer.from('BSFE');
+const version = 1;
+const nonceLength = 12;
+const tagLength = 16;
+const fixedHeaderLength = magic.length + 1 + 4 + nonceLength + 1;
+const maxHeaderLength = fixedHeaderLength + 255;
+
+/**
+ * The header of an encrypted payload
+ */
+interface Header {
+  chunkSize: number;
+  nonce: Buffer;
+  keyId: string;
+
+  /** The encoded header */
+  bytes: Buffer;
+}
+
+/**
+ * Encode the header of a new payload
+ * @param chunkSize - The chunk size
+ * @param keyId - The id of the key
+ */
+const createHeader = (chunkSize: number, keyId: string): Header => {
+  const keyIdBytes = Buffer.from(keyId, 'utf8');
+  if (keyIdBytes.length > 255) {
+    throw new Error(`Key id is longer than 255 bytes: ${keyId}`);
+  }
+
+  const nonce = randomBytes(nonceLength);
+  const fixed = Buffer.alloc(fixedHeaderLength);
+  magic.copy(fixed, 0);
+  fixed.writeUInt8(version, 4);
+  fixed.writeUInt32BE(chunkSize, 5);
+  nonce.copy(fixed, 9);
+  fixed.writeUInt8(keyIdBytes.length, 9 + nonceLength);
+
+  return { chunkSize, nonce, keyId, bytes: Buffer.concat([fixed, keyIdBytes]) };
+};
+
+/**
+ * Decode the header at the beginning of a payload
+ * @param data - The first bytes of the payload
+ * @param blobId - The id of the blob, used in error messages
+ * @returns The header, or undefined if data is too short to hold it
+ */
+const parseHeader = (data: Buffer, blobId: string): Header | undefined => {
+  if (data.length < fixedHeaderLength) {
+    return undefined;
+  }
+
+  if (!data.subarray(0, magic.length).equals(magic)) {
+    throw new BlobDecryptionError(blobId, 'payload is not encrypted');
+  }
+
+  if (data.readUInt8(4) !== version) {
+    throw new BlobDecryptionError(blobId, 'unknown payload version');
+  }
+
+  const length = fixedHeaderLength + data.readUInt8(9 + nonceLength);
+  if (data.length < length) {
+    return undefined;
+  }
+
+  return {
+    chunkSize: data.readUInt32BE(5),
+    nonce: Buffer.from(data.subarray(9, 9 + nonceLength)),
+    keyId: data.subarray(fixedHeaderLength, length).toString('utf8'),
+    bytes: Buffer.from(data.subarray(0, length)),
+  };
+};
+
+/**
+ * Read the header of a payload file
+ * @param path - The payload file
+ * @param blobId - The id of the blob, used in error messages
+ */
+const readHeader = async (path: string, blobId: string): Promise<Header> => {
+  const handle = await open(path, 'r');
+  try {
+    const data = Buffer.alloc(maxHeaderLength);
+    const { bytesRead } = await handle.read(data, 0, data.length, 0);
+    const header = parseHeader(data.subarray(0, bytesRead), blobId);
+    if (!header) {
+      throw new BlobDecryptionError(blobId, 'payload is too short');
+    }
+    return header;
+  } finally {
+    await handle.close();
+  }
+};
+
+/**
+ * Return the id of the key a payload file is encrypted with
+ * @param path - The payload file
+ * @returns The key id, or undefined if the payload is not encrypted
+ */
+export const readKeyId = async (path: string): Promise<string | undefined> => {
+  try {
+    return (await readHeader(path, '')).keyId;
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Fetch a key from a key provider and check it
+ * @param keyProvider - The key provider
+ * @param keyId - The id of the key
+ */
+export const resolveKey = async (
+  keyProvider: BsFsKeyProvider,
+  keyId: string,
+): Promise<Buffer> => {
+  const key = await keyProvider.getKey(keyId);
+  if (key.length !== 32) {
+    throw new Error(`Key ${keyId} is not 32 bytes long`);
+  }
+  return key;
+};
+
+/**
+ * Fetch the current key from a key provider
+ * @param keyProvider - The key provider
+ */
+export const currentKey = async (
+  keyProvider: BsFsKeyProvider,
+): Promise<{ keyId: string; key: Buffer }> => {
+  const keyId = await keyProvider.currentKeyId();
+  return { keyId, key: await resolveKey(keyProvider, keyId) };
+};
+
+/**
+ * Apply defaults to encryption options and check them
+ * @param encryption - The encryption options
+ */
+export const resolveEncryption = (
+  encryption: BsFsEncryptionOptions | undefined,
+): ResolvedEncryption | undefined => {
+  if (encryption === undefined) {
+    return undefined;
+  }
+
+  const chunkSize = encryption.chunkSize ?? 64 * 1024;
+  if (
+    !Number.isInteger(chunkSize) ||
+    chunkSize < 1 ||
+    chunkSize > 2 ** 32 - 1
+  ) {
+    throw new Error(`Invalid encryption chunk size: ${chunkSize}`);
+  }
+
+  return { keyProvider: encryption.keyProvider, chunkSize };
+};
+
+/**
+ * Compute the data authenticated together with a chunk
+ * @param header - The header of the payload
+ * @param index - The index of the chunk
+ * @param final - True for the last chunk
+ */
+const chunkAad = (header: Header, index: number, final: boolean): Buffer => {
+  const position = Buffer.alloc(5);
+  position.writeUInt32BE(index, 0);
+  position.writeUInt8(final ? 1 : 0, 4);
+  return Buffer.concat([header.bytes, position]);
+};
+
+/**
+ * Compute the nonce of a chunk from the nonce of the payload
+ * @param header - The header of the payload
+ * @param index - The index of the chunk
+ */
+const chunkNonce = (header: Header, index: number): Buffer => {
+  const nonce = Buffer.from(header.nonce);
+  nonce.writeUInt32BE((nonce.readUInt32BE(8) ^ index) >>> 0, 8);
+  return nonce;
+};
+
+/**
+ * Encrypt a single chunk
+ * @param key - The key
+ * @param header - The header of the payload
+ * @param index - The index of the chunk
+ * @param final - True for the last chunk
+ * @param plaintext - The content of the chunk
+ */
+const encryptChunk = (
+  key: Buffer,
+  header: Header,
+  index: number,
+  final: boolean,
+  plaintext: Buffer,
+): Buffer => {
+  const cipher = createCipheriv('aes-256-gcm', key, chunkNonce(header, index));
+  cipher.setAAD(chunkAad(header, index, final));
+  return Buffer.concat([
+    cipher.update(plaintext),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+};
+
+/**
+ * Decrypt and authenticate a single chunk
+ * @param key - The key
+ * @param header - The header of the payload
+ * @param blobId - The id of the blob, used in error messages
+ * @param index - The index of the chunk
+ * @param final - True for the last chunk
+ * @param data - The ciphertext and tag of the chunk
+ */
+const decryptChunk = (
+  key: Buffer,
+  header: Header,
+  blobId: string,
+  index: number,
+  final: boolean,
+  data: Buffer,
+): Buffer => {
+  if (data.length < tagLength) {
+    throw new BlobDecryptionError(blobId, 'payload is truncated');
+  }
+
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    key,
+    chunkNonce(header, index),
+  );
+  decipher.setAAD(chunkAad(header, index, final));
+  decipher.setAuthTag(data.subarray(data.length - tagLength));
+
+  try {
+    return Buffer.concat([
+      decipher.update(data.subarray(0, data.length - tagLength)),
+      decipher.final(),
+    ]);
+  } catch {
+    throw new BlobDecryptionError(
+      blobId,
+      `chunk ${index} fails authentication`,
+    );
+  }
+};
+
+/**
+ * Encrypt a buffer
+ * @param key - The key
+ * @param keyId - The id of the key
+ * @param chunkSize - The chunk size
+ * @param plaintext - The content to encrypt
+ */
+export const encryptBuffer = (
+  key: Buffer,
+  keyId: string,
+  chunkSize: number,
+  plaintext: Buffer,
+): Buffer => {
+  const header = createHeader(chunkSize, keyId);
+  const chunkCount = Math.max(1, Math.ceil(plaintext.length / chunkSize));
+  const parts = [header.bytes];
+  for (let index = 0; index < chunkCount; index++) {
+    const chunk = plaintext.subarray(
+      index * chunkSize,
+      (index + 1) * chunkSize,
+    );
+    parts.push(
+      encryptChunk(key, header, index, index === chunkCount - 1, chunk),
+    );
+  }
+  return Buffer.concat(parts);
+};
+
+// .............................................................................
+// Metadata format
+//
+// The content type, filename and tags of a blob are encrypted together as
+// JSON, authenticated together with the blob id and the key id, so that
+// sealed metadata can't be moved to another blob.
+
+/**
+ * Metadata fields encrypted with a key of the key provider
+ */
+export interface SealedMetadata {
+  /** The id of the key */
+  keyId: string;
+
+  /** Base64 of nonce, ciphertext and tag */
+  data: string;
+}
+
+/**
+ * Check whether a value read from disk is sealed metadata
+ * @param value - The value to check
+ */
+export const isSealedMetadata = (value: unknown): value is SealedMetadata =>
+  typeof value === 'object' &&
+  value !== null &&
+  typeof (value as SealedMetadata).keyId === 'string' &&
+  typeof (value as SealedMetadata).data === 'string';
+
+/**
+ * Compute the data authenticated together with sealed metadata
+ * @param blobId - The id of the blob
+ * @param keyId - The id of the key
+ */
+const metadataAad = (blobId: string, keyId: string): Buffer =>
+  Buffer.from(JSON.stringify(['bs-fs metadata', blobId, keyId]));
+
+/**
+ * Encrypt the metadata fields of a blob
+ * @param key - The key
+ * @param keyId - The id of the key
+ * @param blobId - The id of the blob
+ * @param metadata - The fields to encrypt
+ */
+export const sealMetadata = (
+  key: Buffer,
+  keyId: string,
+  blobId: string,
+  metadata: BsFsBlobMetadata,
+): SealedMetadata => {
+  const nonce = randomBytes(nonceLength);
+  const cipher = createCipheriv('aes-256-gcm', key, nonce);
+  cipher.setAAD(metadataAad(blobId, keyId));
+  const data = Buffer.concat([
+    nonce,
+    cipher.update(JSON.stringify(metadata)),
+    cipher.final(),
+    cipher.getAuthTag(),
+  ]);
+  return { keyId, data: data.toString('base64') };
+};
+
+/**
+ * Decrypt and authenticate the metadata fields of a blob
+ * @param keyProvider - Provides the key named by the sealed metadata
+ * @param blobId - The id of the blob
+ * @param sealed - The sealed metadata
+ */
+export const openMetadata = async (
+  keyProvider: BsFsKeyProvider,
+  blobId: string,
+  sealed: SealedMetadata,
+): Promise<BsFsBlobMetadata> => {
+  const key = await resolveKey(keyProvider, sealed.keyId);
+  const data = Buffer.from(sealed.data, 'base64');
+  if (data.length < nonceLength + tagLength) {
+    throw new BlobDecryptionError(blobId, 'metadata is truncated');
+  }
+
+  const decipher = createDecipheriv(
+    'aes-256-gcm',
+    key,
+    data.subarray(0, nonceLength),
+  );
+  decipher.setAAD(metadataAad(blobId, sealed.keyId));
+  decipher.setAuthTag(data.subarray(data.length - tagLength));
+  try {
+    const plaintext = Buffer.concat([
+      decipher.update(data.subarray(nonceLength, data.length - tagLength)),
+      decipher.final(),
+    ]);
+    return JSON.parse(plaintext.toString('utf8'));
+  } catch {
+    throw new BlobDecryptionError(blobId, 'metadata fails authentication');
+  }
+};
+
+/**
+ * Create a stream encrypting its input
+ * @param key - The key
+ * @param keyId - The id of the key
+ * @param chunkSize - The chunk size
+ */
+export const createEncryptor = (
+  key: Buffer,
+  keyId: string,
+  chunkSize: number,
+): Transform => {
+  const header = createHeader(chunkSize, keyId);
+  let pending = Buffer.alloc(0);
+  let index = 0;
+
+  return new Transform({
+    construct(callback) {
+      this.push(header.bytes);
+      callback();
+    },
+
+    transform(chunk: Buffer, _encoding, callback) {
+      pending = Buffer.concat([pending, chunk]);
+
+      // Keep at least one byte back: Only the last chunk is final
+      while (pending.length > chunkSize) {
+        this.push(
+          encryptChunk(
+            key,
+            header,
+            index++,
+            false,
+            pending.subarray(0, chunkSize),
+          ),
+        );
+        pending = pending.subarray(chunkSize);
+      }
+      callback();
+    },
+
+    flush(callback) {
+      this.push(encryptChunk(key, header, index, true, pending));
+      callback();
+    },
+  });
+};
+
+/**
+ * Create a stream decrypting its input
+ * @param keyProvider - Provides the key named in the header
+ * @param blobId - The id of the blob, used in error messages
+ */
+export const createDecryptor = (
+  keyProvider: BsFsKeyProvider,
+  blobId: string,
+): Transform => {
+  let pending = Buffer.alloc(0);
+  let header: Header | undefined;
+  let key: Buffer;
+  let index = 0;
+
+  return new Transform({
+    transform(chunk: Buffer, _encoding, callback) {
+      pending = Buffer.concat([pending, chunk]);
+
+      const run = async () => {
+        if (!header) {
+          header = parseHeader(pending, blobId);
+          if (!header) {
+            return;
+          }
+          key = await resolveKey(keyProvider, header.keyId);
+          pending = pending.subarray(header.bytes.length);
+        }
+
+        // Keep at least one byte back: Only the last chunk is final
+        const length = header.chunkSize + tagLength;
+        while (pending.length > length) {
+          this.push(
+            decryptChunk(
+              key,
+              header,
+              blobId,
+              index++,
+              false,
+              pending.subarray(0, length),
+            ),
+          );
+          pending = pending.subarray(length);
+        }
+      };
+
+      run().then(() => callback(), callback);
+    },
+
+    flush(callback) {
+      if (!header) {
+        callback(new BlobDecryptionError(blobId, 'payload is too short'));
+        return;
+      }
+
+      try {
+        this.push(decryptChunk(key, header, blobId, index, true, pending));
+        callback();
+      } catch (err) {
+        callback(err as Error);
+      }
+    },
+  });
+};
+
+/**
+ * Encrypt a stream. Errors of the source are forwarded to the result.
+ * @param source - The content to encrypt
+ * @param key - The key
+ * @param keyId - The id of the key
+ * @param chunkSize - The chunk size
+ */
+export const encryptStream = (
+  source: Readable,
+  key: Buffer,
+  keyId: string,
+  chunkSize: number,
+): Readable =>
+  pipeline(source, createEncryptor(key, keyId, chunkSize), () => undefined);
+
+/**
+ * Decrypt a stream. Errors of the source are forwarded to the result.
+ * @param source - The encrypted content
+ * @param keyProvider - Provides the key named in the header
+ * @param blobId - The id of the blob, used in error messages
+ */
+export const decryptStream = (
+  source: Readable,
+  keyProvider: BsFsKeyProvider,
+  blobId: string,
+): Readable =>
+  pipeline(source, createDecryptor(keyProvider, blobId), () => undefined);
+
+/**
+ * Decrypt only the chunks of a payload file that overlap a range
+ * @param path - The payload file
+ * @param keyProvider - Provides the key named in the header
+ * @param blobId - The id of the blob, used in error messages
+ * @param size - The size of the plaintext
+ * @param start - The offset of the first byte
+ * @param end - The offset after the last byte
+ * @returns The plaintext of the range, chunk by chunk
+ */
+export const decryptRange = (
+  path: string,
+  keyProvider: BsFsKeyProvider,
+  blobId: string,
+  size: number,
+  start: number,
+  end: number,
+): AsyncIterable<Uint8Array> => ({
+  async *[Symbol.asyncIterator]() {
+    if (start === end) {
+      return;
+    }
+
+    const header = await readHeader(path, blobId);
+    const key = await resolveKey(keyProvider, header.keyId);
+    const { chunkSize } = header;
+    const chunkCount = Math.max(1, Math.ceil(size / chunkSize));
+    const first = Math.floor(start / chunkSize);
+    const last = Math.floor((end - 1) / chunkSize);
+
+    const handle = await open(path, 'r');
+    try {
+      for (let index = first; index <= last; index++) {
+        const offset = index * chunkSize;
+        const data = Buffer.alloc(
+          Math.min(chunkSize, size - offset) + tagLength,
+        );
+        const { bytesRead } = await handle.read(
+          data,
+          0,
+          data.length,
+          header.bytes.length + index * (chunkSize + tagLength),
+        );
+
+        const plaintext = decryptChunk(
+          key,
+          header,
+          blobId,
+          index,
+          index === chunkCount - 1,
+          data.subarray(0, bytesRead),
+        );
+        yield plaintext.subarray(
+          Math.max(start - offset, 0),
+          Math.min(end - offset, plaintext.length),
+        );
+      }
+    } finally {
+      await handle.close();
+    }
+  },
+});
@@ -0,0 +1,276 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+// .............................................................................
+/**
+ * Thrown when a blob doesn't exist
+ */
+export class BlobNotFoundError extends Error {
+  /**
+   * Create a new BlobNotFoundError
+   * @param blobId - The id of the blob
+   */
+  constructor(readonly blobId: string) {
+    super(`Blob not found: ${blobId}`);
+    this.name = 'BlobNotFoundError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when deleting a blob that owners still retain
+ */
+export class BlobReferencedError extends Error {
+  /**
+   * Create a new BlobReferencedError
+   * @param blobId - The id of the blob
+   * @param refCount - The number of owners retaining the blob
+   */
+  constructor(
+    readonly blobId: string,
+    readonly refCount: number,
+  ) {
+    super(`Blob is still referenced: ${blobId} (${refCount} owners)`);
+    this.name = 'BlobReferencedError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when releasing a blob that no owner retains
+ */
+export class BlobNotRetainedError extends Error {
+  /**
+   * Create a new BlobNotRetainedError
+   * @param blobId - The id of the blob
+   */
+  constructor(readonly blobId: string) {
+    super(`Blob is not retained: ${blobId}`);
+    this.name = 'BlobNotRetainedError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when a new blob doesn't fit into the quota of a store
+ */
+export class QuotaExceededError extends Error {
+  /**
+   * Create a new QuotaExceededError
+   * @param blobId - The id of the new blob
+   * @param size - The size of the new blob in bytes
+   * @param limit - The limit that would be exceeded
+   * @param max - The value of the limit
+   */
+  constructor(
+    readonly blobId: string,
+    readonly size: number,
+    readonly limit: 'maxBytes' | 'maxBlobs',
+    readonly max: number,
+  ) {
+    super(
+      `Quota exceeded: blob ${blobId} (${size} bytes) doesn't fit ` +
+        `within ${limit} ${max}`,
+    );
+    this.name = 'QuotaExceededError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when a lock shared by processes can't be acquired in time
+ */
+export class LockTimeoutError extends Error {
+  /**
+   * Create a new LockTimeoutError
+   * @param path - The path of the lock file
+   * @param timeoutMs - How long acquiring the lock was tried
+   */
+  constructor(
+    readonly path: string,
+    readonly timeoutMs: number,
+  ) {
+    super(`Timed out after ${timeoutMs} ms waiting for lock: ${path}`);
+    this.name = 'LockTimeoutError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when a requested byte range lies outside of a blob
+ */
+export class BlobRangeError extends Error {
+  /**
+   * Create a new BlobRangeError
+   * @param blobId - The id of the blob
+   * @param size - The size of the blob in bytes
+   * @param message - Describes what is wrong with the range
+   */
+  constructor(
+    readonly blobId: string,
+    readonly size: number,
+    message: string,
+  ) {
+    super(
+      `Range not satisfiable for blob ${blobId} (${size} bytes): ${message}`,
+    );
+    this.name = 'BlobRangeError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when the content of a blob doesn't hash to its blob id anymore,
+ * e.g. because of bit rot on the storage medium
+ */
+export class BlobIntegrityError extends Error {
+  /**
+   * Create a new BlobIntegrityError
+   * @param blobId - The id of the blob
+   * @param actualBlobId - The id the content actually hashes to
+   */
+  constructor(
+    readonly blobId: string,
+    readonly actualBlobId: string,
+  ) {
+    super(`Blob is corrupt: ${blobId} (content hashes to ${actualBlobId})`);
+    this.name = 'BlobIntegrityError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when an encrypted payload can't be decrypted, e.g. because it was
+ * tampered with or is encrypted with a different key
+ */
+export class BlobDecryptionError extends Error {
+  /**
+   * Create a new BlobDecryptionError
+   * @param blobId - The id of the blob
+   * @param reason - Why decryption failed
+   */
+  constructor(
+    readonly blobId: string,
+    readonly reason: string,
+  ) {
+    super(`Blob can't be decrypted: ${blobId} (${reason})`);
+    this.name = 'BlobDecryptionError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when a signed URL is malformed or its signature doesn't match,
+ * e.g. because it was tampered with
+ */
+export class SignedUrlError extends Error {
+  /**
+   * Create a new SignedUrlError
+   * @param url - The URL
+   * @param reason - Why the URL is not accepted
+   */
+  constructor(
+    readonly url: string,
+    readonly reason: string,
+  ) {
+    super(`Signed URL is not valid: ${reason}`);
+    this.name = 'SignedUrlError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when a correctly signed URL has expired
+ */
+export class SignedUrlExpiredError extends SignedUrlError {
+  /**
+   * Create a new SignedUrlExpiredError
+   * @param url - The URL
+   * @param expires - Milliseconds since epoch when the URL expired
+   */
+  constructor(
+    url: string,
+    readonly expires: number,
+  ) {
+    super(url, `expired at ${new Date(expires).toISOString()}`);
+    this.name = 'SignedUrlExpiredError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when a blob server answers a request with an error
+ */
+export class BsHttpError extends Error {
+  /**
+   * Create a new BsHttpError
+   * @param status - The HTTP status code
+   * @param message - The error reported by the server
+   */
+  constructor(
+    readonly status: number,
+    message: string,
+  ) {
+    super(message);
+    this.name = 'BsHttpError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when an archive to import is malformed or truncated
+ */
+export class ArchiveError extends Error {
+  /**
+   * Create a new ArchiveError
+   * @param reason - What is wrong with the archive
+   */
+  constructor(readonly reason: string) {
+    super(`Archive is not valid: ${reason}`);
+    this.name = 'ArchiveError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when a store can't be created or opened, e.g. because its manifest
+ * is missing, written by a newer version or needs options not given
+ */
+export class IncompatibleStoreError extends Error {
+  /**
+   * Create a new IncompatibleStoreError
+   * @param baseDir - The base directory of the store
+   * @param reason - Why the store can't be used
+   */
+  constructor(
+    readonly baseDir: string,
+    readonly reason: string,
+  ) {
+    super(`Incompatible store at ${baseDir}: ${reason}`);
+    this.name = 'IncompatibleStoreError';
+  }
+}
+
+// .............................................................................
+/**
+ * Thrown when reading changes that were dropped from the change log already
+ */
+export class ChangeLogTruncatedError extends Error {
+  /**
+   * Create a new ChangeLogTruncatedError
+   * @param seq - The sequence number changes were asked for after
+   * @param oldestSeq - The sequence number of the oldest change kept
+   */
+  constructor(
+    readonly seq: number,
+    readonly oldestSeq: number,
+  ) {
+    super(
+      `Changes after ${seq} are gone, the change log starts at ${oldestSeq}`,
+    );
+    this.name = 'ChangeLogTruncatedError';
+  }
+}
@@ -7,7 +7,7 @@
 import { BsFs } from './bs-fs.ts';
 
 
-export const example = () => {
+export const example = async () => {
   // Print methods
   const l = console.log;
   const h1 = (text: string) => l(`${text}`);
@@ -16,12 +16,35 @@ export const example = () => {
 
   // Example
   h1('BsFs.example');
-  h2('Returns an instance of the BsFs.');
-  const example = BsFs.example;
-  p(JSON.stringify(example, null, 2));
+  h2('Returns an instance of the BsFs operating on a temp directory.');
+  const bs = BsFs.example;
+
+  h1('bs.setBlob(content)');
+  h2('Stores content and returns its content-addressed properties.');
+  const { blobId, size } = await bs.setBlob('Hello, World!');
+  p(JSON.stringify({ blobId, size }, null, 2));
+
+  h1('bs.setBlob(sameContent)');
+  h2('Storing the same content again returns the same blobId.');
+  const duplicate = await bs.setBlob(Buffer.from('Hello, World!'));
+  p(`${duplicate.blobId === blobId}`);
+
+  h1('bs.getBlob(blobId)');
+  h2('Reads the content back.');
+  const { content } = await bs.getBlob(blobId);
+  p(content.toString('utf8'));
+
+  h1('bs.listBlobs()');
+  h2('Lists all stored blobs, sorted by blobId.');
+  await bs.setBlob('Another blob');
+  const { blobs } = await bs.listBlobs();
+  p(JSON.stringify(blobs.map((b) => b.blobId), null, 2));
+
+  // Cleanup
+  await bs.clear();
 };
 
 /*
 // Run via "npx vite-node src/example.ts"
-example();
+await example();
 */
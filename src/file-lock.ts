@@ -0,0 +1,221 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { randomUUID } from 'node:crypto';
+import {
+  link,
+  mkdir,
+  readFile,
+  rename,
+  stat,
+  unlink,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { dirname } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+
+import { LockTimeoutError } from './errors.ts';
+
+/**
+ * Options for a file lock
+ */
+export interface FileLockOptions {
+  /**
+   * A lock not refreshed for this many milliseconds is treated as left
+   * behind by a crashed process and broken. Defaults to 10 seconds.
+   */
+  staleMs?: number;
+
+  /**
+   * Waiting for the lock fails with a LockTimeoutError after this many
+   * milliseconds. Defaults to one minute.
+   */
+  timeoutMs?: number;
+}
+
+/**
+ * The content of a lock file
+ */
+interface LockOwner {
+  pid: number;
+  hostname: string;
+  token: string;
+  acquiredAt: string;
+}
+
+/**
+ * An advisory lock shared by all processes using the same lock file.
+ *
+ * The lock is held while the lock file exists. Its owner refreshes the
+ * modification time of the file regularly, so that locks of crashed
+ * processes can be detected and broken: either by their age or, on the
+ * same host, because the owning process is gone.
+ */
+export class FileLock {
+  private readonly staleMs: number;
+  private readonly timeoutMs: number;
+
+  /**
+   * Create a new FileLock
+   * @param path - The path of the lock file
+   * @param options - Additional options
+   */
+  constructor(
+    readonly path: string,
+    options: FileLockOptions = {},
+  ) {
+    this.staleMs = options.staleMs ?? 10 * 1000;
+    this.timeoutMs = options.timeoutMs ?? 60 * 1000;
+  }
+
+  /**
+   * Run a function while holding the lock
+   * @param fn - The function to run
+   */
+  async run<T>(fn: () => Promise<T>): Promise<T> {
+    const token = await this.acquire();
+
+    const heartbeat = setInterval(() => {
+      const now = new Date();
+      /* v8 ignore next -- @preserve */
+      utimes(this.path, now, now).catch(() => undefined);
+    }, this.staleMs / 3);
+    heartbeat.unref();
+
+    try {
+      return await fn();
+    } finally {
+      clearInterval(heartbeat);
+      await this.release(token);
+    }
+  }
+
+  /**
+   * Create the lock file, waiting for other owners to release it
+   * @returns The token identifying this owner
+   */
+  private async acquire(): Promise<string> {
+    const owner: LockOwner = {
+      pid: process.pid,
+      hostname: hostname(),
+      token: randomUUID(),
+      acquiredAt: new Date().toISOString(),
+    };
+    const deadline = Date.now() + this.timeoutMs;
+
+    for (let attempt = 0; ; attempt++) {
+      await mkdir(dirname(this.path), { recursive: true });
+      try {
+        await writeFile(this.path, JSON.stringify(owner), { flag: 'wx' });
+        return owner.token;
+      } catch (error) {
+        // The directory might have been removed by another process meanwhile
+        const code = (error as NodeJS.ErrnoException).code;
+        if (code !== 'EEXIST' && code !== 'ENOENT') {
+          throw error;
+        }
+      }
+
+      if (await this.breakIfStale()) {
+        continue;
+      }
+      if (Date.now() >= deadline) {
+        throw new LockTimeoutError(this.path, this.timeoutMs);
+      }
+
+      // Back off with jitter, so that waiting processes don't run in step
+      await sleep(Math.min(2 ** attempt, 100) * (0.5 + Math.random()));
+    }
+  }
+
+  /**
+   * Remove the lock file if its owner is gone
+   * @returns True if the lock file is gone now
+   */
+  private async breakIfStale(): Promise<boolean> {
+    let info;
+    try {
+      info = await stat(this.path);
+      /* v8 ignore start -- @preserve */
+    } catch {
+      // Released meanwhile
+      return true;
+    }
+    /* v8 ignore stop -- @preserve */
+
+    const stale =
+      Date.now() - info.mtimeMs > this.staleMs || (await this.ownerIsDead());
+    if (!stale) {
+      return false;
+    }
+
+    // Move the file away first, so that only one process breaks the lock
+    const brokenPath = `${this.path}.${randomUUID()}.broken`;
+    try {
+      await rename(this.path, brokenPath);
+      /* v8 ignore start -- @preserve */
+    } catch {
+      // Broken or released by another process meanwhile
+      return true;
+    }
+    /* v8 ignore stop -- @preserve */
+
+    // Another process might have broken the lock and acquired it between
+    // stat and rename. Give that lock back.
+    const broken = await stat(brokenPath);
+    /* v8 ignore start -- @preserve */
+    if (broken.ino !== info.ino || broken.mtimeMs !== info.mtimeMs) {
+      await link(brokenPath, this.path).catch(() => undefined);
+    }
+    /* v8 ignore stop -- @preserve */
+    await unlink(brokenPath);
+    return true;
+  }
+
+  /**
+   * Check whether the lock file belongs to a process on this host that
+   * doesn't run anymore
+   */
+  private async ownerIsDead(): Promise<boolean> {
+    let owner: LockOwner;
+    try {
+      owner = JSON.parse(await readFile(this.path, 'utf8'));
+    } catch {
+      // Released or just being written
+      return false;
+    }
+
+    if (owner?.hostname !== hostname() || typeof owner.pid !== 'number') {
+      return false;
+    }
+
+    try {
+      process.kill(owner.pid, 0);
+      return false;
+    } catch (error) {
+      // EPERM means the process runs under another user
+      return (error as NodeJS.ErrnoException).code === 'ESRCH';
+    }
+  }
+
+  /**
+   * Remove the lock file unless another process broke and took over the
+   * lock meanwhile
+   * @param token - The token identifying this owner
+   */
+  private async release(token: string): Promise<void> {
+    try {
+      const owner: LockOwner = JSON.parse(await readFile(this.path, 'utf8'));
+      if (owner.token === token) {
+        await unlink(this.path);
+      }
+    } catch {
+      // Broken or removed together with the store
+    }
+  }
+}
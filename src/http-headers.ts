@@ -0,0 +1,11 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+// HTTP headers shared by BsFsServer and BsHttp. They live apart from both,
+// so that the client doesn't load the server and the file system with it.
+
+/** The response header holding the creation time of a blob */
+export const createdAtHeader = 'X-Blob-Created-At';
@@ -4,4 +4,79 @@
 // Use of this source code is governed by terms that can be
 // found in the LICENSE file in the root of this package.
 
+export { BsCached } from './bs-cached.ts';
+export type { BsCachedOptions, BsCachedStats } from './bs-cached.ts';
 export { BsFs } from './bs-fs.ts';
+export type {
+  BsFsDownloadOptions,
+  BsFsEvents,
+  BsFsExportOptions,
+  BsFsExportReport,
+  BsFsGcOptions,
+  BsFsGcReport,
+  BsFsGcRoots,
+  BsFsIssue,
+  BsFsImportReport,
+  BsFsIssueKind,
+  BsFsListBlobsOptions,
+  BsFsListBlobsResult,
+  BsFsMigrateLayoutOptions,
+  BsFsMigrateLayoutReport,
+  BsFsOptions,
+  BsFsRepairAction,
+  BsFsRepairReport,
+  BsFsRotateKeysOptions,
+  BsFsRotateKeysReport,
+  BsFsUsage,
+  BsFsVerifyReport,
+} from './bs-fs.ts';
+export type { BsFsBlobMetadata, BsFsBlobProperties } from './blob-metadata.ts';
+export type { BsFsChange, BsFsChangeType } from './change-log.ts';
+export { BsFsServer } from './bs-fs-server.ts';
+export type { BsFsServerOptions } from './bs-fs-server.ts';
+export { BsHttp } from './bs-http.ts';
+export type { BsHttpDownloadOptions, BsHttpOptions } from './bs-http.ts';
+export { BlobHasher } from './blob-hasher.ts';
+export type { BsFsCodec, BsFsCompressionOptions } from './compression.ts';
+export { StaticKeyProvider } from './encryption.ts';
+export type { BsFsEncryptionOptions, BsFsKeyProvider } from './encryption.ts';
+export {
+  ArchiveError,
+  BlobDecryptionError,
+  BlobIntegrityError,
+  BlobNotFoundError,
+  BlobNotRetainedError,
+  BlobRangeError,
+  BlobReferencedError,
+  ChangeLogTruncatedError,
+  IncompatibleStoreError,
+  LockTimeoutError,
+  QuotaExceededError,
+  BsHttpError,
+  SignedUrlError,
+  SignedUrlExpiredError,
+} from './errors.ts';
+export type {
+  BsFsEvictionCandidate,
+  BsFsEvictionPolicy,
+  BsFsQuotaLimit,
+  BsFsQuotaOptions,
+} from './quota.ts';
+export type {
+  BsFsLayoutName,
+  BsFsLayoutOptions,
+  BsFsPayloadExtension,
+} from './layout.ts';
+export type { LruCacheStats } from './lru-cache.ts';
+export type { BsFsFeature } from './manifest.ts';
+export type { BsFsRange } from './range.ts';
+export type { BsFsSignedUrlGrant } from './signed-url.ts';
+export { syncBs } from './sync.ts';
+export type {
+  BsSyncDirection,
+  BsSyncOptions,
+  BsSyncProgress,
+  BsSyncReport,
+} from './sync.ts';
+export { BsFsWatcher } from './watcher.ts';
+export type { BsFsWatchEvents, BsFsWatchOptions } from './watcher.ts';
@@ -0,0 +1,166 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { join } from 'node:path';
+
+/**
+ * The suffix of payload files
+ */
+export type BsFsPayloadExtension = '.txt' | '.bin';
+
+/**
+ * A predefined layout:
+ *
+ * - `legacy`: Four levels of two characters, `.txt` payloads. The layout
+ *   of stores created before layouts were configurable.
+ * - `sharded`: Two levels of two characters, `.bin` payloads
+ * - `flat`: All files directly in the base directory, `.bin` payloads
+ */
+export type BsFsLayoutName = 'legacy' | 'sharded' | 'flat';
+
+/**
+ * Options for placing blob files below the base directory. The directories
+ * of a blob are named after the first characters of its id.
+ */
+export interface BsFsLayoutOptions {
+  /** The number of directory levels, 0 for none. Defaults to 2. */
+  depth?: number;
+
+  /** The number of characters per directory level. Defaults to 2. */
+  width?: number;
+
+  /** The suffix of payload files. Defaults to `.bin`. */
+  extension?: BsFsPayloadExtension;
+}
+
+/**
+ * Layout options with all defaults applied
+ */
+export type ResolvedLayout = Required<BsFsLayoutOptions>;
+
+/**
+ * The files of a blob
+ */
+export interface BlobPaths {
+  /** The payload */
+  filePath: string;
+
+  /** The metadata */
+  metaPath: string;
+
+  /** The directory holding both */
+  dir: string;
+}
+
+/** Suffix of metadata files */
+export const metaSuffix = '.meta.json';
+
+/**
+ * The characters of blob ids. Other ids, e.g. with `/` or `..`, could
+ * place files outside the base directory.
+ */
+export const blobIdPattern = /^[\w-]+$/;
+
+/** All payload suffixes, so that payloads of any layout are recognized */
+export const payloadExtensions: BsFsPayloadExtension[] = ['.txt', '.bin'];
+
+/** The predefined layouts */
+export const layouts: Record<BsFsLayoutName, ResolvedLayout> = {
+  legacy: { depth: 4, width: 2, extension: '.txt' },
+  sharded: { depth: 2, width: 2, extension: '.bin' },
+  flat: { depth: 0, width: 2, extension: '.bin' },
+};
+
+/** Directories take at most this many characters of the blob id */
+const maxPrefixLength = 16;
+
+/**
+ * Apply defaults to layout options and check them.
+ * Throws if the name is unknown or the options are invalid.
+ * @param layout - A predefined layout or layout options
+ */
+export const resolveLayout = (
+  layout: BsFsLayoutName | BsFsLayoutOptions,
+): ResolvedLayout => {
+  if (typeof layout === 'string') {
+    if (!Object.keys(layouts).includes(layout)) {
+      throw new Error(`Unknown layout: ${layout}`);
+    }
+    return { ...layouts[layout] };
+  }
+
+  const resolved = { ...layouts.sharded, ...layout };
+  const { depth, width, extension } = resolved;
+  if (
+    !Number.isInteger(depth) ||
+    !Number.isInteger(width) ||
+    depth < 0 ||
+    width < 1 ||
+    depth * width > maxPrefixLength ||
+    !payloadExtensions.includes(extension)
+  ) {
+    throw new Error(`Invalid layout: ${JSON.stringify(layout)}`);
+  }
+  return { depth, width, extension };
+};
+
+/**
+ * Check whether two layouts place files alike
+ * @param a - The first layout
+ * @param b - The second layout
+ */
+export const sameLayout = (a: ResolvedLayout, b: ResolvedLayout): boolean =>
+  a.extension === b.extension &&
+  a.depth === b.depth &&
+  (a.depth === 0 || a.width === b.width);
+
+/**
+ * Return the directory names of a blob, from the top level down. Ids too
+ * short to fill a level get fewer levels.
+ * @param layout - The layout
+ * @param blobId - The id of the blob
+ */
+export const layoutDirs = (
+  layout: ResolvedLayout,
+  blobId: string,
+): string[] => {
+  const { depth, width } = layout;
+  const dirs: string[] = [];
+  for (let i = 0; i < depth && (i + 1) * width <= blobId.length; i++) {
+    dirs.push(blobId.substring(i * width, (i + 1) * width));
+  }
+  return dirs;
+};
+
+/**
+ * Return where a layout places the files of a blob
+ * Example: abc123def456 -\> ab/c1/23/de/abc123def456.txt in the legacy layout
+ * @param baseDir - The base directory of the store
+ * @param layout - The layout
+ * @param blobId - The id of the blob
+ */
+export const layoutPaths = (
+  baseDir: string,
+  layout: ResolvedLayout,
+  blobId: string,
+): BlobPaths => {
+  const dir = join(baseDir, ...layoutDirs(layout, blobId));
+  return {
+    filePath: join(dir, `${blobId}${layout.extension}`),
+    metaPath: join(dir, `${blobId}${metaSuffix}`),
+    dir,
+  };
+};
+
+/**
+ * Check whether a layout may place blobs below a directory, given by its
+ * names relative to the base directory
+ * @param layout - The layout
+ * @param dirs - The directory names, from the top level down
+ */
+export const usesDir = (layout: ResolvedLayout, dirs: string[]): boolean =>
+  dirs.length <= layout.depth &&
+  dirs.every((dir) => dir.length === layout.width);
@@ -0,0 +1,159 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+/**
+ * How well a cache is doing
+ */
+export interface LruCacheStats {
+  /** Lookups that found an entry */
+  hits: number;
+
+  /** Lookups that found no entry or an expired one */
+  misses: number;
+
+  /** The number of entries held */
+  entries: number;
+
+  /** The total size of the entries held */
+  size: number;
+}
+
+/**
+ * Options for a cache
+ */
+export interface LruCacheOptions<V> {
+  /** The maximum total size of the entries */
+  maxSize: number;
+
+  /** Return the size of an entry. Defaults to 1 per entry. */
+  sizeOf?: (value: V) => number;
+
+  /** Entries expire after this many milliseconds. Defaults to never. */
+  ttlMs?: number;
+}
+
+/**
+ * An entry of the cache
+ */
+interface Entry<V> {
+  value: V;
+  size: number;
+  expiresAt: number;
+}
+
+/**
+ * Holds values up to a maximum total size and drops the least recently
+ * used ones to make room for new ones
+ */
+export class LruCache<V> {
+  private readonly maxSize: number;
+  private readonly sizeOf: (value: V) => number;
+  private readonly ttlMs: number;
+
+  /** Ordered from the least to the most recently used entry */
+  private readonly entries = new Map<string, Entry<V>>();
+  private size = 0;
+  private hits = 0;
+  private misses = 0;
+
+  /**
+   * Create a new cache
+   * @param options - Size limit, sizes and expiry of the entries
+   */
+  constructor(options: LruCacheOptions<V>) {
+    this.maxSize = options.maxSize;
+    this.sizeOf = options.sizeOf ?? (() => 1);
+    this.ttlMs = options.ttlMs ?? Infinity;
+  }
+
+  /**
+   * Return the value of a key and mark it as recently used
+   * @param key - The key
+   * @returns The value, or undefined if missing or expired
+   */
+  get(key: string): V | undefined {
+    const entry = this.entries.get(key);
+    if (!entry || entry.expiresAt <= Date.now()) {
+      if (entry) {
+        this.delete(key);
+      }
+      this.misses++;
+      return undefined;
+    }
+
+    // Move the entry to the end
+    this.entries.delete(key);
+    this.entries.set(key, entry);
+    this.hits++;
+    return entry.value;
+  }
+
+  /**
+   * Check whether a key has a value, without counting a lookup
+   * @param key - The key
+   */
+  has(key: string): boolean {
+    const entry = this.entries.get(key);
+    return !!entry && entry.expiresAt > Date.now();
+  }
+
+  /**
+   * Store the value of a key. Values larger than the whole cache are not
+   * stored.
+   * @param key - The key
+   * @param value - The value
+   */
+  set(key: string, value: V): void {
+    this.delete(key);
+    const size = this.sizeOf(value);
+    if (size > this.maxSize) {
+      return;
+    }
+
+    // Drop the least recently used entries until the value fits
+    for (const [oldKey] of this.entries) {
+      if (this.size + size <= this.maxSize) {
+        break;
+      }
+      this.delete(oldKey);
+    }
+
+    this.entries.set(key, { value, size, expiresAt: Date.now() + this.ttlMs });
+    this.size += size;
+  }
+
+  /**
+   * Drop the value of a key
+   * @param key - The key
+   */
+  delete(key: string): void {
+    const entry = this.entries.get(key);
+    if (entry) {
+      this.entries.delete(key);
+      this.size -= entry.size;
+    }
+  }
+
+  /**
+   * Drop all values
+   */
+  clear(): void {
+    this.entries.clear();
+    this.size = 0;
+  }
+
+  /**
+   * Return the lookups counted so far and the current content
+   */
+  stats(): LruCacheStats {
+    return {
+      hits: this.hits,
+      misses: this.misses,
+      entries: this.entries.size,
+      size: this.size,
+    };
+  }
+}
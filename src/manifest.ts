@@ -0,0 +1,146 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { IncompatibleStoreError } from './errors.ts';
+import { ResolvedLayout, resolveLayout } from './layout.ts';
+
+/**
+ * A feature new payloads may be written with. Readers need to support all
+ * features of a store.
+ *
+ * - `compression`: Payloads may be compressed
+ * - `encryption`: Payloads may be encrypted
+ */
+export type BsFsFeature = 'compression' | 'encryption';
+
+/**
+ * The content of the manifest, telling how to read a store
+ */
+export interface StoreManifest {
+  /** Marks the file as the manifest of a BsFs store */
+  format: 'bs-fs';
+
+  /** The version of the store format */
+  version: number;
+
+  /** How blob ids are derived from the content */
+  hashAlgorithm: string;
+
+  /** The layout of new blobs */
+  layout: ResolvedLayout;
+
+  /** The layout blobs are moved away from, while a migration is running */
+  previousLayout?: ResolvedLayout;
+
+  /** The features payloads were written with, sorted */
+  features: BsFsFeature[];
+}
+
+/** Name of the manifest inside the base directory */
+export const manifestFileName = 'bs-fs.manifest.json';
+
+/** The version of the store format written and read by this package */
+export const formatVersion = 1;
+
+/** Blob ids are the first 22 characters of the base64url SHA-256 hash */
+export const hashAlgorithm = 'sha256';
+
+/** All features this package supports */
+const knownFeatures: BsFsFeature[] = ['compression', 'encryption'];
+
+/**
+ * Create the manifest of a new store
+ * @param layout - The layout of new blobs
+ * @param features - The features payloads are written with
+ */
+export const newManifest = (
+  layout: ResolvedLayout,
+  features: BsFsFeature[],
+): StoreManifest => ({
+  format: 'bs-fs',
+  version: formatVersion,
+  hashAlgorithm,
+  layout,
+  features: [...new Set(features)].sort(),
+});
+
+/**
+ * Return the features missing in a manifest
+ * @param manifest - The manifest
+ * @param features - The features to look for
+ */
+export const missingFeatures = (
+  manifest: StoreManifest,
+  features: BsFsFeature[],
+): BsFsFeature[] =>
+  features.filter((feature) => !manifest.features.includes(feature));
+
+/**
+ * Parse and check a manifest. Throws an IncompatibleStoreError if it is
+ * invalid or describes a store this package can't read.
+ * @param baseDir - The base directory of the store, for error messages
+ * @param content - The content of the manifest file
+ */
+export const parseManifest = (
+  baseDir: string,
+  content: string,
+): StoreManifest => {
+  const invalid = () =>
+    new IncompatibleStoreError(baseDir, 'the manifest is not valid');
+
+  let parsed: Partial<StoreManifest> | null;
+  try {
+    parsed = JSON.parse(content);
+  } catch {
+    throw invalid();
+  }
+  if (
+    parsed?.format !== 'bs-fs' ||
+    !Number.isInteger(parsed.version) ||
+    parsed.version! < 1 ||
+    !parsed.layout
+  ) {
+    throw invalid();
+  }
+
+  const { version, hashAlgorithm: hash, features } = parsed;
+  if (version! > formatVersion) {
+    throw new IncompatibleStoreError(
+      baseDir,
+      `format version ${version} is newer than the supported version ` +
+        `${formatVersion}`,
+    );
+  }
+  if (hash !== hashAlgorithm) {
+    throw new IncompatibleStoreError(
+      baseDir,
+      `unsupported hash algorithm ${hash}`,
+    );
+  }
+  if (!Array.isArray(features)) {
+    throw invalid();
+  }
+  const unknown = features.filter(
+    (feature) => !knownFeatures.includes(feature),
+  );
+  if (unknown.length > 0) {
+    throw new IncompatibleStoreError(
+      baseDir,
+      `unsupported features ${unknown.join(', ')}`,
+    );
+  }
+
+  try {
+    return {
+      ...newManifest(resolveLayout(parsed.layout), features),
+      previousLayout: parsed.previousLayout
+        ? resolveLayout(parsed.previousLayout)
+        : undefined,
+    };
+  } catch {
+    throw invalid();
+  }
+};
@@ -0,0 +1,288 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+/**
+ * A file format recognized by its leading bytes
+ */
+export interface SniffedFormat {
+  /** The media type of the format */
+  contentType: string;
+
+  /** True if the format is compressed already */
+  compressed: boolean;
+}
+
+/** Number of leading bytes needed to recognize a format by its signature */
+export const magicLength = 12;
+
+/**
+ * Number of leading bytes sniffed for text. JSON is only recognized in
+ * content no longer than this.
+ */
+export const mimeSniffLength = 64 * 1024;
+
+/**
+ * Check whether bytes appear at an offset
+ * @param head - The first bytes of the content
+ * @param offset - The offset of the bytes
+ * @param bytes - The bytes
+ */
+const hasBytes = (head: Uint8Array, offset: number, bytes: number[]) =>
+  bytes.every((byte, i) => head[offset + i] === byte);
+
+/**
+ * A signature of a file format
+ */
+interface Signature extends SniffedFormat {
+  /** The offset of the magic bytes */
+  offset: number;
+
+  /** The magic bytes */
+  bytes: number[];
+
+  /** Checks more of the head, if the magic bytes are short */
+  check?: (head: Uint8Array) => boolean;
+}
+
+/**
+ * Signatures of file formats
+ */
+const signatures: Signature[] = [
+  {
+    offset: 0,
+    bytes: [0x1f, 0x8b],
+    contentType: 'application/gzip',
+    compressed: true,
+  },
+  {
+    offset: 0,
+    bytes: [0x28, 0xb5, 0x2f, 0xfd],
+    contentType: 'application/zstd',
+    compressed: true,
+  },
+  {
+    offset: 0,
+    bytes: [0x42, 0x5a, 0x68],
+    // The block size from 1 to 9 and the magic of the first block
+    check: (head) =>
+      head[3]! >= 0x31 &&
+      head[3]! <= 0x39 &&
+      hasBytes(head, 4, [0x31, 0x41, 0x59, 0x26, 0x53, 0x59]),
+    contentType: 'application/x-bzip2',
+    compressed: true,
+  },
+  {
+    offset: 0,
+    bytes: [0xfd, 0x37, 0x7a, 0x58, 0x5a, 0x00],
+    contentType: 'application/x-xz',
+    compressed: true,
+  },
+  {
+    offset: 0,
+    bytes: [0x37, 0x7a, 0xbc, 0xaf, 0x27, 0x1c],
+    contentType: 'application/x-7z-compressed',
+    compressed: true,
+  },
+  {
+    // Also docx, xlsx, jar and other zip based formats
+    offset: 0,
+    bytes: [0x50, 0x4b, 0x03, 0x04],
+    contentType: 'application/zip',
+    compressed: true,
+  },
+  {
+    offset: 0,
+    bytes: [0x89, 0x50, 0x4e, 0x47],
+    contentType: 'image/png',
+    compressed: true,
+  },
+  {
+    offset: 0,
+    bytes: [0xff, 0xd8, 0xff],
+    contentType: 'image/jpeg',
+    compressed: true,
+  },
+  {
+    offset: 0,
+    bytes: [0x47, 0x49, 0x46, 0x38],
+    contentType: 'image/gif',
+    compressed: true,
+  },
+  {
+    offset: 0,
+    bytes: [0x52, 0x49, 0x46, 0x46],
+    check: (head) => hasBytes(head, 8, [0x57, 0x45, 0x42, 0x50]),
+    contentType: 'image/webp',
+    compressed: true,
+  },
+  {
+    // Also mov and heic
+    offset: 4,
+    bytes: [0x66, 0x74, 0x79, 0x70],
+    contentType: 'video/mp4',
+    compressed: true,
+  },
+  {
+    // Also mkv
+    offset: 0,
+    bytes: [0x1a, 0x45, 0xdf, 0xa3],
+    contentType: 'video/webm',
+    compressed: true,
+  },
+  {
+    offset: 0,
+    bytes: [0x4f, 0x67, 0x67, 0x53],
+    contentType: 'audio/ogg',
+    compressed: true,
+  },
+  {
+    offset: 0,
+    bytes: [0x49, 0x44, 0x33],
+    // ID3v2.2 to 2.4, no unknown flags and a size of 7 bit bytes
+    check: (head) =>
+      head[3]! >= 2 &&
+      head[3]! <= 4 &&
+      head[4]! !== 0xff &&
+      (head[5]! & 0x0f) === 0 &&
+      [6, 7, 8, 9].every((i) => head[i]! < 0x80),
+    contentType: 'audio/mpeg',
+    compressed: true,
+  },
+  {
+    offset: 0,
+    bytes: [0x25, 0x50, 0x44, 0x46, 0x2d],
+    contentType: 'application/pdf',
+    compressed: false,
+  },
+  {
+    offset: 0,
+    bytes: [0x00, 0x61, 0x73, 0x6d],
+    contentType: 'application/wasm',
+    compressed: false,
+  },
+];
+
+/** Control characters that appear in text: tab, line feeds, escape */
+const textControls = new Set([0x09, 0x0a, 0x0b, 0x0c, 0x0d, 0x1b]);
+
+// .............................................................................
+/**
+ * Decode content as UTF-8 text
+ * @param bytes - The content, or its first bytes
+ * @param complete - True if bytes is the complete content, otherwise a
+ * character cut off at the end is ignored
+ * @returns The text, or undefined if the content is not text
+ */
+const decodeText = (
+  bytes: Uint8Array,
+  complete: boolean,
+): string | undefined => {
+  const length = complete ? bytes.length : completeLength(bytes);
+  for (let i = 0; i < length; i++) {
+    const byte = bytes[i]!;
+    if ((byte < 0x20 && !textControls.has(byte)) || byte === 0x7f) {
+      return undefined;
+    }
+  }
+
+  try {
+    return new TextDecoder('utf-8', { fatal: true }).decode(
+      bytes.subarray(0, length),
+    );
+  } catch {
+    return undefined;
+  }
+};
+
+/**
+ * Return the length of UTF-8 bytes without a character cut off at the end
+ * @param bytes - The bytes
+ */
+const completeLength = (bytes: Uint8Array): number => {
+  // Find the first byte of the last character
+  let start = bytes.length - 1;
+  while (
+    start > 0 &&
+    bytes.length - start < 4 &&
+    (bytes[start]! & 0xc0) === 0x80
+  ) {
+    start--;
+  }
+
+  const lead = bytes[start]!;
+  const needed = lead >= 0xf0 ? 4 : lead >= 0xe0 ? 3 : lead >= 0xc0 ? 2 : 1;
+  return bytes.length - start < needed ? start : bytes.length;
+};
+
+/**
+ * Check whether text is a JSON object or array
+ * @param text - The text to check
+ */
+const isJson = (text: string): boolean => {
+  const start = text.trimStart()[0];
+  if (start !== '{' && start !== '[') {
+    return false;
+  }
+
+  try {
+    JSON.parse(text);
+    return true;
+  } catch {
+    return false;
+  }
+};
+
+// .............................................................................
+/**
+ * Recognize a file format by its signature
+ * @param head - The first bytes of the content, at least `magicLength`
+ * bytes unless the content is shorter
+ */
+export const sniffFormat = (head: Uint8Array): SniffedFormat | undefined => {
+  const signature = signatures.find(
+    ({ offset, bytes, check }) =>
+      hasBytes(head, offset, bytes) && (!check || check(head)),
+  );
+  return (
+    signature && {
+      contentType: signature.contentType,
+      compressed: signature.compressed,
+    }
+  );
+};
+
+/**
+ * Detect the media type of content from its first bytes: known formats by
+ * their signature, then UTF-8 text, which is JSON if it parses as an
+ * object or array.
+ * @param head - The first bytes of the content, at least
+ * `mimeSniffLength` bytes unless the content is shorter
+ * @param complete - True if head is the complete content
+ * @returns The media type, or undefined for empty and unknown content
+ */
+export const sniffContentType = (
+  head: Uint8Array,
+  complete: boolean,
+): string | undefined => {
+  if (head.length === 0) {
+    return undefined;
+  }
+
+  const format = sniffFormat(head);
+  if (format) {
+    return format.contentType;
+  }
+
+  const whole = complete && head.length <= mimeSniffLength;
+  const text = decodeText(head.subarray(0, mimeSniffLength), whole);
+  if (text === undefined) {
+    return undefined;
+  }
+
+  return whole && isJson(text)
+    ? 'application/json'
+    : 'text/plain; charset=utf-8';
+};
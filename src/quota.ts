@@ -0,0 +1,185 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+/**
+ * A blob that might be evicted to make room for new ones
+ */
+export interface BsFsEvictionCandidate {
+  /** The id of the blob */
+  blobId: string;
+
+  /** The size of the blob in bytes */
+  size: number;
+
+  /** When the blob was stored */
+  createdAt: Date;
+
+  /** When the blob was last read, its creation date if it never was */
+  lastAccessedAt: Date;
+}
+
+/**
+ * Decides which blobs are evicted first:
+ *
+ * - `lru`: The least recently read blobs
+ * - `oldest`: The blobs stored first
+ * - `largest`: The largest blobs
+ *
+ * A function sorts candidates like `Array.prototype.sort`, blobs sorted
+ * first are evicted first.
+ */
+export type BsFsEvictionPolicy =
+  | 'lru'
+  | 'oldest'
+  | 'largest'
+  | ((a: BsFsEvictionCandidate, b: BsFsEvictionCandidate) => number);
+
+/**
+ * Options for limiting the size of a store
+ */
+export interface BsFsQuotaOptions {
+  /** The maximum total size of all blobs in bytes */
+  maxBytes?: number;
+
+  /** The maximum number of blobs */
+  maxBlobs?: number;
+
+  /**
+   * What happens if a new blob doesn't fit: `evict` deletes blobs chosen
+   * by the eviction policy, `reject` throws a QuotaExceededError.
+   * Defaults to `evict`.
+   */
+  mode?: 'evict' | 'reject';
+
+  /** The blobs evicted first. Defaults to `lru`. */
+  eviction?: BsFsEvictionPolicy;
+
+  /**
+   * Reads are recorded at most once per this many milliseconds and blob,
+   * as each record rewrites the metadata. Defaults to one minute.
+   */
+  accessTimeResolutionMs?: number;
+}
+
+/**
+ * A limit of a quota
+ */
+export type BsFsQuotaLimit = 'maxBytes' | 'maxBlobs';
+
+/**
+ * Quota options with all defaults applied
+ */
+export interface ResolvedQuota {
+  maxBytes: number;
+  maxBlobs: number;
+  mode: 'evict' | 'reject';
+
+  /** Sorts the blobs evicted first to the front */
+  compare: (a: BsFsEvictionCandidate, b: BsFsEvictionCandidate) => number;
+
+  /** Whether the eviction policy needs reads to be recorded */
+  tracksAccess: boolean;
+
+  accessTimeResolutionMs: number;
+}
+
+/**
+ * The number and total size of blobs
+ */
+export interface QuotaUsage {
+  blobs: number;
+  bytes: number;
+}
+
+const policies: Record<
+  'lru' | 'oldest' | 'largest',
+  (a: BsFsEvictionCandidate, b: BsFsEvictionCandidate) => number
+> = {
+  lru: (a, b) => a.lastAccessedAt.getTime() - b.lastAccessedAt.getTime(),
+  oldest: (a, b) => a.createdAt.getTime() - b.createdAt.getTime(),
+  largest: (a, b) => b.size - a.size,
+};
+
+/**
+ * Apply defaults to quota options and check them.
+ * Throws if no limit is given or the eviction policy is unknown.
+ * @param quota - The quota options
+ */
+export const resolveQuota = (
+  quota: BsFsQuotaOptions | undefined,
+): ResolvedQuota | undefined => {
+  if (quota === undefined) {
+    return undefined;
+  }
+
+  if (quota.maxBytes === undefined && quota.maxBlobs === undefined) {
+    throw new Error('A quota needs maxBytes or maxBlobs');
+  }
+
+  const eviction = quota.eviction ?? 'lru';
+  const compare =
+    typeof eviction === 'function' ? eviction : policies[eviction];
+  if (!compare) {
+    throw new Error(`Unknown eviction policy: ${eviction}`);
+  }
+
+  const mode = quota.mode ?? 'evict';
+  return {
+    maxBytes: quota.maxBytes ?? Infinity,
+    maxBlobs: quota.maxBlobs ?? Infinity,
+    mode,
+    compare,
+    tracksAccess:
+      mode === 'evict' && eviction !== 'oldest' && eviction !== 'largest',
+    accessTimeResolutionMs: quota.accessTimeResolutionMs ?? 60 * 1000,
+  };
+};
+
+/**
+ * Return the limit a store exceeds, if any
+ * @param quota - The quota
+ * @param usage - The usage of the store
+ */
+export const exceededLimit = (
+  quota: ResolvedQuota,
+  usage: QuotaUsage,
+): BsFsQuotaLimit | undefined => {
+  if (usage.blobs > quota.maxBlobs) {
+    return 'maxBlobs';
+  }
+  if (usage.bytes > quota.maxBytes) {
+    return 'maxBytes';
+  }
+  return undefined;
+};
+
+/**
+ * Choose the blobs to evict so that a store fits its quota
+ * @param quota - The quota
+ * @param usage - The usage of the store, including blobs to be added
+ * @param candidates - The blobs that may be evicted
+ * @returns The blobs to evict, or undefined if evicting all candidates
+ * isn't enough
+ */
+export const chooseVictims = (
+  quota: ResolvedQuota,
+  usage: QuotaUsage,
+  candidates: BsFsEvictionCandidate[],
+): BsFsEvictionCandidate[] | undefined => {
+  let { blobs, bytes } = usage;
+  const victims: BsFsEvictionCandidate[] = [];
+
+  for (const candidate of [...candidates].sort(quota.compare)) {
+    if (!exceededLimit(quota, { blobs, bytes })) {
+      break;
+    }
+    victims.push(candidate);
+    blobs--;
+    bytes -= candidate.size;
+  }
+
+  return exceededLimit(quota, { blobs, bytes }) ? undefined : victims;
+};
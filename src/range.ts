@@ -0,0 +1,95 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { BlobRangeError } from './errors.ts';
+
+/**
+ * A byte range of a blob.
+ *
+ * - `{ start, end }` selects the bytes from `start` up to, but excluding,
+ *   `end`. Without `end`, the range extends to the end of the blob.
+ * - `{ suffix }` selects the last `suffix` bytes of the blob.
+ */
+export type BsFsRange = { start: number; end?: number } | { suffix: number };
+
+/**
+ * Convert a range into absolute start and exclusive end offsets.
+ * Throws a BlobRangeError if the range doesn't fit into the blob.
+ * @param blobId - The id of the blob, used in error messages
+ * @param range - The requested range
+ * @param size - The size of the blob in bytes
+ * @returns The absolute offsets
+ */
+export const resolveRange = (
+  blobId: string,
+  range: BsFsRange,
+  size: number,
+): { start: number; end: number } => {
+  const fail = (message: string): never => {
+    throw new BlobRangeError(blobId, size, message);
+  };
+
+  const isOffset = (n: number) => Number.isInteger(n) && n >= 0;
+
+  if ('suffix' in range) {
+    if (!isOffset(range.suffix)) {
+      fail(`suffix ${range.suffix} is not a non-negative integer`);
+    }
+    // Like HTTP, a suffix longer than the blob selects the whole blob
+    return { start: Math.max(0, size - range.suffix), end: size };
+  }
+
+  const { start } = range;
+  const end = range.end ?? size;
+
+  if (!isOffset(start) || !isOffset(end)) {
+    fail(`start ${start} and end ${end} must be non-negative integers`);
+  }
+
+  if (start > size) {
+    fail(`start ${start} lies beyond the end of the blob`);
+  }
+
+  if (end > size) {
+    fail(`end ${end} lies beyond the end of the blob`);
+  }
+
+  if (end < start) {
+    fail(`end ${end} lies before start ${start}`);
+  }
+
+  return { start, end };
+};
+
+/**
+ * Pass on only the bytes between start and end of a stream of chunks.
+ * Stops reading the source as soon as end is reached.
+ * @param source - The chunks of the complete content
+ * @param start - The offset of the first byte
+ * @param end - The offset after the last byte
+ * @returns The parts of the chunks that lie within the range
+ */
+export const sliceRange = (
+  source: AsyncIterable<Uint8Array>,
+  start: number,
+  end: number,
+): AsyncIterable<Uint8Array> => ({
+  async *[Symbol.asyncIterator]() {
+    let offset = 0;
+    for await (const chunk of source) {
+      const from = Math.max(start - offset, 0);
+      const to = Math.min(end - offset, chunk.length);
+      if (from < to) {
+        yield chunk.subarray(from, to);
+      }
+
+      offset += chunk.length;
+      if (offset >= end) {
+        break;
+      }
+    }
+  },
+});
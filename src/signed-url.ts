@@ -0,0 +1,149 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { createHmac, randomBytes, timingSafeEqual } from 'node:crypto';
+
+import { SignedUrlError, SignedUrlExpiredError } from './errors.ts';
+
+/**
+ * What a signed URL grants access to
+ */
+export interface BsFsSignedUrlGrant {
+  /** The blob the URL is valid for */
+  blobId: string;
+
+  /** The operation the URL allows */
+  permissions: 'read' | 'delete';
+
+  /** Milliseconds since epoch after which the URL is no longer valid */
+  expires: number;
+}
+
+/** The scheme of signed URLs */
+const scheme = 'fs://';
+
+/** The operations a signed URL can allow */
+const permissions: ReadonlyArray<BsFsSignedUrlGrant['permissions']> = [
+  'read',
+  'delete',
+];
+
+// .............................................................................
+/**
+ * Check and normalize the configured secrets. Without secrets, a random
+ * secret is created, so URLs are only valid for the current process.
+ * @param secrets - The configured secrets, the first one signs new URLs
+ * @returns The secrets as buffers
+ */
+export const resolveSecrets = (
+  secrets: ReadonlyArray<string | Buffer> | undefined,
+): Buffer[] => {
+  if (!secrets) {
+    return [randomBytes(32)];
+  }
+
+  if (secrets.length === 0) {
+    throw new Error('At least one signed URL secret is required');
+  }
+
+  return secrets.map((secret) => {
+    const bytes = Buffer.from(secret);
+    if (bytes.length === 0) {
+      throw new Error('Signed URL secrets must not be empty');
+    }
+    return bytes;
+  });
+};
+
+/**
+ * Calculate the signature of a grant
+ * @param secret - The secret to sign with
+ * @param grant - The grant to sign
+ */
+const sign = (secret: Buffer, grant: BsFsSignedUrlGrant): Buffer =>
+  createHmac('sha256', secret)
+    .update(`${grant.blobId}\n${grant.expires}\n${grant.permissions}`)
+    .digest();
+
+// .............................................................................
+/**
+ * Create a URL granting access to a blob
+ * @param secret - The secret to sign the URL with
+ * @param grant - What the URL grants access to
+ */
+export const createSignedUrl = (
+  secret: Buffer,
+  grant: BsFsSignedUrlGrant,
+): string => {
+  const query = new URLSearchParams({
+    expires: String(grant.expires),
+    permissions: grant.permissions,
+    signature: sign(secret, grant).toString('base64url'),
+  });
+  return `${scheme}${encodeURIComponent(grant.blobId)}?${query}`;
+};
+
+/**
+ * Check the signature and expiry of a signed URL
+ * @param url - The URL to check
+ * @param secrets - The secrets URLs may be signed with
+ * @param now - The current time in milliseconds since epoch
+ * @returns What the URL grants access to
+ */
+export const verifySignedUrl = (
+  url: string,
+  secrets: ReadonlyArray<Buffer>,
+  now: number = Date.now(),
+): BsFsSignedUrlGrant => {
+  const queryStart = url.indexOf('?');
+  if (!url.startsWith(scheme) || queryStart < 0) {
+    throw new SignedUrlError(url, 'malformed URL');
+  }
+
+  const query = new URLSearchParams(url.substring(queryStart + 1));
+  const expires = Number(query.get('expires'));
+  const permission = query.get('permissions');
+  const signature = Buffer.from(query.get('signature') ?? '', 'base64url');
+
+  let blobId: string;
+  try {
+    blobId = decodeURIComponent(url.substring(scheme.length, queryStart));
+  } catch {
+    throw new SignedUrlError(url, 'malformed URL');
+  }
+
+  if (
+    !blobId ||
+    !Number.isSafeInteger(expires) ||
+    !permissions.includes(permission as BsFsSignedUrlGrant['permissions'])
+  ) {
+    throw new SignedUrlError(url, 'malformed URL');
+  }
+
+  const grant: BsFsSignedUrlGrant = {
+    blobId,
+    permissions: permission as BsFsSignedUrlGrant['permissions'],
+    expires,
+  };
+
+  const valid = secrets.some((secret) => {
+    const expected = sign(secret, grant);
+    return (
+      expected.length === signature.length &&
+      timingSafeEqual(expected, signature)
+    );
+  });
+  if (!valid) {
+    throw new SignedUrlError(url, 'invalid signature');
+  }
+
+  // Only signed URLs reveal whether they expired
+  if (expires <= now) {
+    throw new SignedUrlExpiredError(url, expires);
+  }
+
+  return grant;
+};
@@ -0,0 +1,321 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { pickMetadata } from './blob-metadata.ts';
+import { BsCached } from './bs-cached.ts';
+import { BsFs } from './bs-fs.ts';
+
+import type { BlobProperties, Bs } from '@rljson/bs';
+
+/**
+ * Which way blobs are copied
+ *
+ * - `oneWay`: From the source to the target
+ * - `twoWay`: Both ways, so that both stores end up with the same blobs
+ */
+export type BsSyncDirection = 'oneWay' | 'twoWay';
+
+/**
+ * Options for syncing two stores
+ */
+export interface BsSyncOptions {
+  /** Which way blobs are copied. Defaults to `oneWay`. */
+  direction?: BsSyncDirection;
+
+  /** Only sync blobs whose id starts with this prefix */
+  prefix?: string;
+
+  /**
+   * Propagate deletions. One-way syncs delete target blobs missing in the
+   * source. Two-way syncs delete blobs on one side that were deleted on
+   * the other side since the last sync, which needs the `baseline`.
+   * Defaults to false.
+   */
+  deletePropagation?: boolean;
+
+  /**
+   * The blob ids both stores held after the last two-way sync, as
+   * reported by it. Needed to tell deleted blobs from added ones.
+   */
+  baseline?: Iterable<string>;
+
+  /** The number of blobs copied or deleted at a time. Defaults to 4. */
+  concurrency?: number;
+
+  /** Called after each blob copied or deleted */
+  onProgress?: (progress: BsSyncProgress) => void;
+
+  /** Stops the sync before the next blob once aborted */
+  signal?: AbortSignal;
+}
+
+/**
+ * A blob copied or deleted by a sync
+ */
+export interface BsSyncProgress {
+  /** What was done */
+  action: 'copied' | 'deleted';
+
+  /** The id of the blob */
+  blobId: string;
+
+  /** The store that received or lost the blob */
+  store: 'source' | 'target';
+
+  /** The number of blobs copied or deleted so far, including this one */
+  done: number;
+
+  /** The number of blobs to copy or delete in total */
+  total: number;
+}
+
+/**
+ * The result of syncing two stores
+ */
+export interface BsSyncReport {
+  /** The ids of the blobs copied from the source to the target */
+  copiedToTarget: string[];
+
+  /** The ids of the blobs copied from the target to the source */
+  copiedToSource: string[];
+
+  /** The ids of the blobs deleted from the target */
+  deletedFromTarget: string[];
+
+  /** The ids of the blobs deleted from the source */
+  deletedFromSource: string[];
+
+  /** The total size of the copied blobs */
+  bytes: number;
+
+  /**
+   * The ids of the blobs both stores hold now, to be passed as `baseline`
+   * to the next two-way sync
+   */
+  baseline: string[];
+}
+
+/**
+ * A change planned by a sync
+ */
+interface SyncChange {
+  action: BsSyncProgress['action'];
+  blob: BlobProperties;
+
+  /** The store to change */
+  store: BsSyncProgress['store'];
+}
+
+// .............................................................................
+/**
+ * Collect the properties of all blobs of a store, page by page
+ * @param bs - The store
+ * @param prefix - Only collect blobs whose id starts with this prefix
+ */
+const listAll = async (
+  bs: Bs,
+  prefix: string | undefined,
+): Promise<Map<string, BlobProperties>> => {
+  const blobs = new Map<string, BlobProperties>();
+  let continuationToken: string | undefined;
+  do {
+    const page = await bs.listBlobs({ prefix, continuationToken });
+    for (const blob of page.blobs) {
+      blobs.set(blob.blobId, blob);
+    }
+    continuationToken = page.continuationToken;
+  } while (continuationToken);
+  return blobs;
+};
+
+/**
+ * Copy a blob from one store to another. The content is streamed, the
+ * metadata of BsFs blobs is copied along to a BsFs, also through a
+ * BsCached.
+ * @param from - The store holding the blob
+ * @param to - The store to copy the blob to
+ * @param blob - The blob as listed by `from`
+ */
+const copyBlob = async (
+  from: Bs,
+  to: Bs,
+  blob: BlobProperties,
+): Promise<void> => {
+  const stream = await from.getBlobStream(blob.blobId);
+  if (to instanceof BsFs || to instanceof BsCached) {
+    await to.setBlob(stream, pickMetadata(blob));
+  } else {
+    await to.setBlob(stream);
+  }
+};
+
+/**
+ * Check whether a blob is gone from a store, e.g. after a copy or delete
+ * failed. Works with any Bs, unlike matching its not found errors.
+ * @param bs - The store
+ * @param blobId - The id of the blob
+ * @returns False also if the store can't be asked
+ */
+const isGone = async (bs: Bs, blobId: string): Promise<boolean> => {
+  try {
+    return !(await bs.blobExists(blobId));
+  } catch {
+    return false;
+  }
+};
+
+/**
+ * Run tasks with limited concurrency. Stops starting tasks once one fails
+ * and throws its error after the running ones are done.
+ * @param tasks - The tasks
+ * @param concurrency - The number of tasks running at a time
+ * @param signal - Stops starting tasks once aborted
+ */
+const runAll = async (
+  tasks: (() => Promise<void>)[],
+  concurrency: number,
+  signal: AbortSignal | undefined,
+): Promise<void> => {
+  let next = 0;
+  const errors: unknown[] = [];
+
+  const worker = async () => {
+    while (next < tasks.length && errors.length === 0) {
+      const task = tasks[next++]!;
+      try {
+        signal?.throwIfAborted();
+        await task();
+      } catch (error) {
+        errors.push(error);
+      }
+    }
+  };
+
+  await Promise.all(
+    Array.from({ length: Math.min(concurrency, tasks.length) }, worker),
+  );
+  if (errors.length > 0) {
+    throw errors[0];
+  }
+};
+
+/**
+ * Reconcile the blobs of two stores, e.g. of a laptop and a server. Works
+ * with any Bs. As blobs are content-addressed, they never conflict: Only
+ * blobs missing on one side are copied and, if enabled, deleted.
+ * Blobs deleted or added while syncing are skipped.
+ * @param source - The store to copy from
+ * @param target - The store to copy to, both ways for two-way syncs
+ * @param options - Direction, scope and deletion behaviour
+ */
+export const syncBs = async (
+  source: Bs,
+  target: Bs,
+  options: BsSyncOptions = {},
+): Promise<BsSyncReport> => {
+  const direction = options.direction ?? 'oneWay';
+  const concurrency = options.concurrency ?? 4;
+  if (!Number.isInteger(concurrency) || concurrency < 1) {
+    throw new Error(`Invalid concurrency: ${concurrency}`);
+  }
+  if (
+    direction === 'twoWay' &&
+    options.deletePropagation &&
+    options.baseline === undefined
+  ) {
+    throw new Error('Two-way delete propagation needs a baseline');
+  }
+
+  // Diff
+  const sourceBlobs = await listAll(source, options.prefix);
+  const targetBlobs = await listAll(target, options.prefix);
+  const baseline = new Set(options.deletePropagation ? options.baseline : []);
+  const changes: SyncChange[] = [];
+
+  for (const blob of sourceBlobs.values()) {
+    if (targetBlobs.has(blob.blobId)) {
+      continue;
+    }
+    const deleted = direction === 'twoWay' && baseline.has(blob.blobId);
+    changes.push(
+      deleted
+        ? { action: 'deleted', blob, store: 'source' }
+        : { action: 'copied', blob, store: 'target' },
+    );
+  }
+
+  for (const blob of targetBlobs.values()) {
+    if (sourceBlobs.has(blob.blobId)) {
+      continue;
+    }
+    if (direction === 'twoWay' && !baseline.has(blob.blobId)) {
+      changes.push({ action: 'copied', blob, store: 'source' });
+    } else if (direction === 'twoWay' || options.deletePropagation) {
+      changes.push({ action: 'deleted', blob, store: 'target' });
+    }
+  }
+
+  // Apply
+  const report: BsSyncReport = {
+    copiedToTarget: [],
+    copiedToSource: [],
+    deletedFromTarget: [],
+    deletedFromSource: [],
+    bytes: 0,
+    baseline: [],
+  };
+  const shared = new Set(
+    [...sourceBlobs.keys()].filter((blobId) => targetBlobs.has(blobId)),
+  );
+  let done = 0;
+
+  const apply = async ({ action, blob, store }: SyncChange) => {
+    const { blobId } = blob;
+    const [from, to] = store === 'target' ? [source, target] : [target, source];
+    try {
+      if (action === 'copied') {
+        await copyBlob(from, to, blob);
+      } else {
+        await to.deleteBlob(blobId);
+      }
+    } catch (error) {
+      // Deleted meanwhile
+      if (await isGone(action === 'copied' ? from : to, blobId)) {
+        return;
+      }
+      throw error;
+    }
+
+    if (action === 'copied') {
+      shared.add(blobId);
+      report.bytes += blob.size;
+      (store === 'target' ? report.copiedToTarget : report.copiedToSource).push(
+        blobId,
+      );
+    } else {
+      (store === 'target'
+        ? report.deletedFromTarget
+        : report.deletedFromSource
+      ).push(blobId);
+    }
+    options.onProgress?.({
+      action,
+      blobId,
+      store,
+      done: ++done,
+      total: changes.length,
+    });
+  };
+
+  await runAll(
+    changes.map((change) => () => apply(change)),
+    concurrency,
+    options.signal,
+  );
+
+  report.baseline = [...shared].sort();
+  return report;
+};
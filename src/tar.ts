@@ -0,0 +1,266 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { ArchiveError } from './errors.ts';
+
+/**
+ * A file in a tar archive
+ */
+export interface TarEntry {
+  /** The path of the file inside the archive */
+  name: string;
+
+  /** The size of the file in bytes */
+  size: number;
+
+  /** The modification time of the file */
+  mtime: Date;
+}
+
+/**
+ * A file read from a tar archive
+ */
+export interface TarFile extends TarEntry {
+  /**
+   * The content of the file. Must be consumed, if at all, before the next
+   * file is read.
+   */
+  content: AsyncIterable<Buffer>;
+}
+
+/** Tar archives are written in blocks of this many bytes */
+export const tarBlockSize = 512;
+
+/** Offset and length of a header field */
+type Field = readonly [number, number];
+
+/** The header fields used */
+const fields = {
+  name: [0, 100],
+  mode: [100, 8],
+  uid: [108, 8],
+  gid: [116, 8],
+  size: [124, 12],
+  mtime: [136, 12],
+  checksum: [148, 8],
+  type: [156, 1],
+  magic: [257, 6],
+  version: [263, 2],
+  prefix: [345, 155],
+} satisfies Record<string, Field>;
+
+/** Type flags of regular files */
+const fileTypes = new Set(['0', '\0']);
+
+// .............................................................................
+/**
+ * Write a number into a header field: as octal digits if it fits, else
+ * big-endian with the highest bit set, as GNU tar does for large files
+ * @param header - The header
+ * @param field - The field to write
+ * @param value - The non-negative number
+ */
+const writeNumber = (header: Buffer, field: Field, value: number): void => {
+  const [offset, length] = field;
+  const octal = value.toString(8);
+  if (octal.length < length) {
+    header.write(octal.padStart(length - 1, '0'), offset, 'ascii');
+    return;
+  }
+
+  header[offset] = 0x80;
+  for (let i = offset + length - 1; i > offset && value > 0; i--) {
+    header[i] = value % 256;
+    value = Math.floor(value / 256);
+  }
+};
+
+/**
+ * Read a number from a header field, see writeNumber
+ * @param header - The header
+ * @param field - The field to read
+ */
+const readNumber = (header: Buffer, field: Field): number => {
+  const [offset, length] = field;
+  if (header[offset]! & 0x80) {
+    let value = header[offset]! & 0x7f;
+    for (let i = offset + 1; i < offset + length; i++) {
+      value = value * 256 + header[i]!;
+    }
+    return value;
+  }
+
+  const text = readString(header, field).trim();
+  return text === '' ? 0 : parseInt(text, 8);
+};
+
+/**
+ * Read a NUL terminated string from a header field
+ * @param header - The header
+ * @param field - The field to read
+ */
+const readString = (header: Buffer, field: Field): string => {
+  const [offset, length] = field;
+  const bytes = header.subarray(offset, offset + length);
+  const end = bytes.indexOf(0);
+  return bytes.toString('utf8', 0, end === -1 ? length : end);
+};
+
+/**
+ * Compute the checksum of a header, counting its checksum field as spaces
+ * @param header - The header
+ */
+const checksum = (header: Buffer): number => {
+  const [offset, length] = fields.checksum;
+  let sum = 8 * 0x20;
+  for (let i = 0; i < header.length; i++) {
+    if (i < offset || i >= offset + length) {
+      sum += header[i]!;
+    }
+  }
+  return sum;
+};
+
+// .............................................................................
+/**
+ * Create the ustar header of a regular file
+ * @param entry - The file
+ */
+export const createTarHeader = (entry: TarEntry): Buffer => {
+  if (Buffer.byteLength(entry.name) > fields.name[1]) {
+    throw new Error(`Name too long for a tar archive: ${entry.name}`);
+  }
+
+  const header = Buffer.alloc(tarBlockSize);
+  header.write(entry.name, fields.name[0], 'utf8');
+  writeNumber(header, fields.mode, 0o644);
+  writeNumber(header, fields.uid, 0);
+  writeNumber(header, fields.gid, 0);
+  writeNumber(header, fields.size, entry.size);
+  writeNumber(header, fields.mtime, Math.floor(entry.mtime.getTime() / 1000));
+  header.write('0', fields.type[0], 'ascii');
+  header.write('ustar\0', fields.magic[0], 'ascii');
+  header.write('00', fields.version[0], 'ascii');
+
+  const sum = checksum(header).toString(8).padStart(6, '0');
+  header.write(`${sum}\0 `, fields.checksum[0], 'ascii');
+  return header;
+};
+
+/**
+ * Return the zeros filling up the last block of a file
+ * @param size - The size of the file
+ */
+export const tarPadding = (size: number): Buffer =>
+  Buffer.alloc((tarBlockSize - (size % tarBlockSize)) % tarBlockSize);
+
+/**
+ * Return the two empty blocks ending an archive
+ */
+export const tarTrailer = (): Buffer => Buffer.alloc(2 * tarBlockSize);
+
+/**
+ * Parse the header of a file
+ * @param header - The header block
+ * @returns The file and its type flag, or undefined for an empty block
+ * ending the archive
+ */
+const parseTarHeader = (
+  header: Buffer,
+): (TarEntry & { type: string }) | undefined => {
+  if (header.every((byte) => byte === 0)) {
+    return undefined;
+  }
+
+  if (!readString(header, fields.magic).startsWith('ustar')) {
+    throw new ArchiveError('not a ustar archive');
+  }
+  if (readNumber(header, fields.checksum) !== checksum(header)) {
+    throw new ArchiveError('header checksum mismatch');
+  }
+
+  const prefix = readString(header, fields.prefix);
+  const name = readString(header, fields.name);
+  return {
+    name: prefix ? `${prefix}/${name}` : name,
+    size: readNumber(header, fields.size),
+    mtime: new Date(readNumber(header, fields.mtime) * 1000),
+    type: String.fromCharCode(header[fields.type[0]]!),
+  };
+};
+
+/**
+ * Read the regular files of a tar archive one after another. Directories,
+ * links and extended headers are skipped.
+ * @param source - The archive
+ */
+export const readTar = (
+  source: AsyncIterable<Uint8Array>,
+): AsyncIterable<TarFile> => ({
+  async *[Symbol.asyncIterator]() {
+    const iterator = source[Symbol.asyncIterator]();
+    let pending = Buffer.alloc(0);
+
+    // Make sure the next chunk of the archive is pending
+    const pull = async (): Promise<boolean> => {
+      while (pending.length === 0) {
+        const { done, value } = await iterator.next();
+        if (done) {
+          return false;
+        }
+        pending = Buffer.from(value);
+      }
+      return true;
+    };
+
+    // Read up to length bytes of the archive, chunk by chunk
+    const read = async function* (length: number) {
+      while (length > 0) {
+        if (!(await pull())) {
+          throw new ArchiveError('unexpected end of archive');
+        }
+        const chunk = pending.subarray(0, length);
+        pending = pending.subarray(chunk.length);
+        length -= chunk.length;
+        yield chunk;
+      }
+    };
+
+    // Read past length bytes of the archive
+    const skip = async (length: number): Promise<void> => {
+      const chunks = read(length);
+      while (!(await chunks.next()).done) {
+        // Discard
+      }
+    };
+
+    while (await pull()) {
+      const blocks: Buffer[] = [];
+      for await (const chunk of read(tarBlockSize)) {
+        blocks.push(chunk);
+      }
+      const header = parseTarHeader(Buffer.concat(blocks));
+      if (!header) {
+        return;
+      }
+
+      const { type, ...entry } = header;
+      let remaining = entry.size;
+      if (fileTypes.has(type)) {
+        const content = async function* () {
+          for await (const chunk of read(remaining)) {
+            remaining -= chunk.length;
+            yield chunk;
+          }
+        };
+        yield { ...entry, content: content() };
+      }
+
+      // Skip what wasn't read of the file, and its padding
+      await skip(remaining + tarPadding(entry.size).length);
+    }
+  },
+});
@@ -0,0 +1,341 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { EventEmitter } from 'node:events';
+import { FSWatcher, watch } from 'node:fs';
+import { readdir } from 'node:fs/promises';
+import { basename, dirname, join, sep } from 'node:path';
+
+import { metaSuffix } from './layout.ts';
+
+/**
+ * Options for watching a store
+ */
+export interface BsFsWatchOptions {
+  /**
+   * Poll instead of using fs.watch. Watchers poll anyway where fs.watch
+   * isn't available or the base directory doesn't exist yet.
+   * Defaults to false.
+   */
+  poll?: boolean;
+
+  /** How often to poll, in milliseconds. Defaults to 1000. */
+  pollIntervalMs?: number;
+
+  /**
+   * Changes are collected for this many milliseconds before they are
+   * checked and reported, so that bursts cause one event per blob.
+   * Defaults to 50.
+   */
+  debounceMs?: number;
+}
+
+/**
+ * The events of a watcher and the value passed to their listeners
+ */
+export interface BsFsWatchEvents {
+  /** A blob appeared */
+  blobAdded: { blobId: string };
+
+  /** A blob vanished */
+  blobDeleted: { blobId: string };
+
+  /** Watching or checking a change failed */
+  error: Error;
+}
+
+/**
+ * How a watcher learns about the blobs of a store
+ */
+export interface WatchSource {
+  /** Return the ids of all blobs */
+  list: () => Promise<string[]>;
+
+  /** Check whether a blob exists */
+  exists: (blobId: string) => Promise<boolean>;
+}
+
+/** Blob directories are named after blob id prefixes */
+const dirPattern = /^[\w-]+$/;
+
+/**
+ * Check whether a path below the base directory may hold blobs, i.e.
+ * whether all its directories are named like blob id prefixes
+ * @param path - The path relative to the base directory
+ */
+const inBlobDir = (path: string): boolean =>
+  dirname(path)
+    .split(sep)
+    .every((name) => name === '.' || dirPattern.test(name));
+
+/**
+ * Return the id of the blob whose metadata file changed. Temp files, which
+ * start with a dot, and files outside blob directories are ignored.
+ * @param path - The path relative to the base directory
+ */
+const changedBlob = (path: string): string | undefined => {
+  const name = basename(path);
+  if (!name.endsWith(metaSuffix) || name.startsWith('.') || !inBlobDir(path)) {
+    return undefined;
+  }
+  return name.slice(0, -metaSuffix.length);
+};
+
+/**
+ * Check whether a changed path is a blob directory, whose files might not
+ * have been reported when it was just created
+ * @param path - The path relative to the base directory
+ */
+const isBlobDir = (path: string): boolean =>
+  dirPattern.test(basename(path)) && inBlobDir(path);
+
+/**
+ * Reports blobs added to and deleted from a store by any process.
+ *
+ * Changes of metadata files are collected for a short while, then the
+ * blobs concerned are checked and compared with the blobs known so far.
+ * So events are only emitted for actual changes, not for metadata updates
+ * or blobs moved by a layout migration. Polling compares the complete
+ * list of blobs instead.
+ */
+export class BsFsWatcher {
+  private readonly baseDir: string;
+  private readonly source: WatchSource;
+  private readonly poll: boolean;
+  private readonly pollIntervalMs: number;
+  private readonly debounceMs: number;
+  private readonly events = new EventEmitter();
+
+  /** The blobs that existed at the last check */
+  private readonly known = new Set<string>();
+
+  /** Blobs and directories changed since the last check */
+  private changedBlobs = new Set<string>();
+  private changedDirs = new Set<string>();
+
+  private fsWatcher: FSWatcher | undefined;
+  private timer: NodeJS.Timeout | undefined;
+  private pollTimer: NodeJS.Timeout | undefined;
+  private queue: Promise<void> = Promise.resolve();
+  private closed = false;
+
+  /**
+   * Create a new watcher. Call start to begin watching.
+   * @param baseDir - The base directory of the store
+   * @param source - Lists and checks the blobs of the store
+   * @param options - Polling and debouncing
+   */
+  constructor(
+    baseDir: string,
+    source: WatchSource,
+    options: BsFsWatchOptions = {},
+  ) {
+    this.baseDir = baseDir;
+    this.source = source;
+    this.poll = options.poll ?? false;
+    this.pollIntervalMs = options.pollIntervalMs ?? 1000;
+    this.debounceMs = options.debounceMs ?? 50;
+  }
+
+  // ...........................................................................
+  /**
+   * Start watching. Resolves once the blobs existing now are known, so
+   * that only later changes are reported.
+   */
+  async start(): Promise<void> {
+    if (!this.poll) {
+      try {
+        this.fsWatcher = watch(
+          this.baseDir,
+          { recursive: true },
+          (_, filename) => this.changed(filename),
+        );
+        this.fsWatcher.on('error', (error) => this.fail(error));
+      } catch {
+        // Not supported on this platform, or the directory is missing
+      }
+    }
+    if (!this.fsWatcher) {
+      this.schedulePoll();
+    }
+
+    try {
+      await this.enqueue(async () => {
+        for (const blobId of await this.source.list()) {
+          this.known.add(blobId);
+        }
+      });
+    } catch (error) {
+      this.close();
+      throw error;
+    }
+  }
+
+  /**
+   * How changes are detected
+   */
+  get mode(): 'watch' | 'poll' {
+    return this.fsWatcher ? 'watch' : 'poll';
+  }
+
+  /**
+   * Listen to an event
+   * @param event - The event to listen to
+   * @param listener - Called with the details of each event
+   */
+  on<E extends keyof BsFsWatchEvents>(
+    event: E,
+    listener: (details: BsFsWatchEvents[E]) => void,
+  ): this {
+    this.events.on(event, listener);
+    return this;
+  }
+
+  /**
+   * Stop listening to an event
+   * @param event - The event
+   * @param listener - The listener passed to on
+   */
+  off<E extends keyof BsFsWatchEvents>(
+    event: E,
+    listener: (details: BsFsWatchEvents[E]) => void,
+  ): this {
+    this.events.off(event, listener);
+    return this;
+  }
+
+  /**
+   * Stop watching. No events are emitted afterwards.
+   */
+  close(): void {
+    this.closed = true;
+    this.fsWatcher?.close();
+    clearTimeout(this.timer);
+    clearTimeout(this.pollTimer);
+  }
+
+  // ...........................................................................
+  /**
+   * Note a path reported by fs.watch and check it after the debounce time
+   * @param filename - The path relative to the base directory
+   */
+  private changed(filename: string | null): void {
+    const blobId = filename ? changedBlob(filename) : undefined;
+    if (blobId) {
+      this.changedBlobs.add(blobId);
+    } else if (filename === null || isBlobDir(filename)) {
+      this.changedDirs.add(filename ?? '');
+    } else {
+      return;
+    }
+
+    this.timer ??= setTimeout(() => {
+      this.timer = undefined;
+      const blobIds = this.changedBlobs;
+      const dirs = this.changedDirs;
+      this.changedBlobs = new Set();
+      this.changedDirs = new Set();
+      this.enqueue(() => this.check(blobIds, dirs)).catch((error) =>
+        this.fail(error),
+      );
+    }, this.debounceMs);
+  }
+
+  /**
+   * Compare all blobs after the poll interval, and again after that
+   */
+  private schedulePoll(): void {
+    this.pollTimer = setTimeout(() => {
+      this.enqueue(() => this.compareAll())
+        .catch((error) => this.fail(error))
+        .finally(() => {
+          if (!this.closed) {
+            this.schedulePoll();
+          }
+        });
+    }, this.pollIntervalMs);
+  }
+
+  /**
+   * Run checks one after another
+   * @param fn - The check
+   */
+  private enqueue(fn: () => Promise<void>): Promise<void> {
+    const result = this.queue.then(fn);
+    this.queue = result.catch(() => undefined);
+    return result;
+  }
+
+  /**
+   * Check changed blobs and all blobs below changed directories
+   * @param blobIds - The blobs whose metadata changed
+   * @param dirs - The directories that changed
+   */
+  private async check(blobIds: Set<string>, dirs: Set<string>): Promise<void> {
+    for (const dir of dirs) {
+      let paths: string[];
+      try {
+        paths = await readdir(join(this.baseDir, dir), { recursive: true });
+      } catch {
+        continue; // Removed meanwhile
+      }
+      for (const path of paths) {
+        const blobId = changedBlob(join(dir, path));
+        if (blobId) {
+          blobIds.add(blobId);
+        }
+      }
+    }
+
+    for (const blobId of blobIds) {
+      await this.update(blobId);
+    }
+  }
+
+  /**
+   * Compare all blobs of the store with the known ones
+   */
+  private async compareAll(): Promise<void> {
+    const current = new Set(await this.source.list());
+    const candidates = [
+      ...[...this.known].filter((blobId) => !current.has(blobId)),
+      ...[...current].filter((blobId) => !this.known.has(blobId)),
+    ];
+    for (const blobId of candidates) {
+      await this.update(blobId);
+    }
+  }
+
+  /**
+   * Check whether a blob exists and report if that changed
+   * @param blobId - The id of the blob
+   */
+  private async update(blobId: string): Promise<void> {
+    const exists = await this.source.exists(blobId);
+    if (this.closed || exists === this.known.has(blobId)) {
+      return;
+    }
+
+    if (exists) {
+      this.known.add(blobId);
+      this.events.emit('blobAdded', { blobId });
+    } else {
+      this.known.delete(blobId);
+      this.events.emit('blobDeleted', { blobId });
+    }
+  }
+
+  /**
+   * Report an error to the error listeners. Without listeners the error is
+   * dropped, as an unheard 'error' event would throw in a timer callback.
+   * @param error - The error
+   */
+  private fail(error: Error): void {
+    if (!this.closed && this.events.listenerCount('error') > 0) {
+      this.events.emit('error', error);
+    }
+  }
+}
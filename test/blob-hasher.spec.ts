@@ -0,0 +1,45 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { hshBuffer } from '@rljson/hash';
+
+import { describe, expect, it } from 'vitest';
+
+import { BlobHasher } from '../src/blob-hasher.ts';
+
+describe('BlobHasher', () => {
+  it('should match hshBuffer for empty content', () => {
+    const hasher = new BlobHasher();
+    expect(hasher.digest()).toBe(hshBuffer(Buffer.alloc(0)));
+    expect(hasher.size).toBe(0);
+  });
+
+  it('should match hshBuffer for a single chunk', () => {
+    const content = Buffer.from('Hello, World!');
+    const hasher = new BlobHasher().update(content);
+
+    expect(hasher.size).toBe(13);
+    expect(hasher.digest()).toBe(hshBuffer(content));
+  });
+
+  it('should match hshBuffer regardless of chunk boundaries', () => {
+    const content = Buffer.from('0123456789abcdefghijklmnopqrstuvwxyz');
+    const expected = hshBuffer(content);
+
+    for (const chunkSize of [1, 3, 7, 36]) {
+      const hasher = new BlobHasher();
+      for (let i = 0; i < content.length; i += chunkSize) {
+        hasher.update(content.subarray(i, i + chunkSize));
+      }
+      expect(hasher.digest()).toBe(expected);
+      expect(hasher.size).toBe(content.length);
+    }
+  });
+
+  it('should produce 22 character ids', () => {
+    expect(new BlobHasher().update(Buffer.from('x')).digest()).toHaveLength(22);
+  });
+});
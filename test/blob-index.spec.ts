@@ -0,0 +1,399 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { appendFile, mkdir, readFile, rm, stat } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  BlobIndex,
+  BlobIndexEntry,
+  compareBlobIds,
+} from '../src/blob-index.ts';
+
+describe('BlobIndex', () => {
+  const testDir = './test-blob-index';
+  const logPath = join(testDir, 'index.log');
+
+  let scanned: BlobIndexEntry[];
+  let scans: number;
+  const scan = async () => {
+    scans++;
+    return scanned;
+  };
+
+  const entry = (blobId: string, size = 1): BlobIndexEntry => ({
+    blobId,
+    size,
+    createdAt: '2026-01-01T00:00:00.000Z',
+  });
+
+  const ids = (entries: BlobIndexEntry[]) => entries.map((e) => e.blobId);
+
+  const logLines = async () =>
+    (await readFile(logPath, 'utf8')).split('\n').filter((l) => l);
+
+  let index: BlobIndex;
+
+  beforeEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(testDir, { recursive: true });
+    scanned = [];
+    scans = 0;
+    index = new BlobIndex(logPath, scan);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('compareBlobIds', () => {
+    it('should sort like localeCompare', () => {
+      const blobIds = ['wUtA', 'CLJc', 'wgDs', '565Y', 'mxtL', 'a-b', 'a_b'];
+      expect([...blobIds].sort(compareBlobIds)).toEqual(
+        [...blobIds].sort((a, b) => a.localeCompare(b)),
+      );
+    });
+  });
+
+  describe('add, get and remove', () => {
+    it('should add and remove entries', async () => {
+      await index.add(entry('b'));
+      await index.add(entry('a'));
+      expect(await index.count()).toBe(2);
+      expect(await index.get('a')).toEqual(entry('a'));
+
+      await index.remove('a');
+      expect(await index.count()).toBe(1);
+      expect(await index.get('a')).toBeUndefined();
+    });
+
+    it('should ignore duplicate adds and unknown removes', async () => {
+      await index.add(entry('a'));
+      await index.add(entry('a'));
+      await index.remove('unknown');
+
+      expect(await logLines()).toHaveLength(1);
+    });
+
+    it('should update existing entries only', async () => {
+      await index.add(entry('a', 5));
+      await index.update({ ...entry('a', 5), tags: ['x'] });
+      await index.update(entry('unknown'));
+
+      expect(await index.get('a')).toEqual({ ...entry('a', 5), tags: ['x'] });
+      expect(await index.get('unknown')).toBeUndefined();
+      expect(await index.totals()).toEqual({ count: 1, bytes: 5 });
+      expect(await new BlobIndex(logPath, scan).get('a')).toEqual({
+        ...entry('a', 5),
+        tags: ['x'],
+      });
+    });
+
+    it('should persist entries in the log', async () => {
+      await index.add(entry('a', 5));
+      await index.add(entry('b'));
+      await index.remove('b');
+
+      const reopened = new BlobIndex(logPath, scan);
+      expect(await reopened.count()).toBe(1);
+      expect(await reopened.get('a')).toEqual(entry('a', 5));
+      expect(scans).toBe(1); // Only the very first open scanned
+    });
+
+    it('should keep track of the total size', async () => {
+      expect(await index.totals()).toEqual({ count: 0, bytes: 0 });
+
+      await index.add(entry('a', 5));
+      await index.add(entry('b', 7));
+      await index.remove('a');
+      expect(await index.totals()).toEqual({ count: 1, bytes: 7 });
+
+      // Records replayed by other instances, in bulk and one by one
+      await appendFile(
+        logPath,
+        JSON.stringify({ op: 'add', ...entry('b', 7) }) + '\n',
+      );
+      expect(await index.totals()).toEqual({ count: 1, bytes: 7 });
+      expect(await new BlobIndex(logPath, scan).totals()).toEqual({
+        count: 1,
+        bytes: 7,
+      });
+    });
+  });
+
+  describe('list', () => {
+    beforeEach(async () => {
+      for (const blobId of ['ab1', 'AB2', 'abc', 'Ab', 'b', 'aa', 'ac']) {
+        await index.add(entry(blobId));
+      }
+    });
+
+    it('should list all entries in listing order', async () => {
+      const { entries, continuationToken } = await index.list();
+
+      expect(ids(entries)).toEqual(
+        ['ab1', 'AB2', 'abc', 'Ab', 'b', 'aa', 'ac'].sort(compareBlobIds),
+      );
+      expect(continuationToken).toBeUndefined();
+    });
+
+    it('should list exactly the entries with a prefix', async () => {
+      const { entries } = await index.list({ prefix: 'ab' });
+      expect(ids(entries)).toEqual(['ab1', 'abc']);
+
+      const upper = await index.list({ prefix: 'A' });
+      expect(ids(upper.entries)).toEqual(['Ab', 'AB2']);
+
+      const none = await index.list({ prefix: 'x' });
+      expect(none.entries).toEqual([]);
+    });
+
+    it('should paginate', async () => {
+      const all = ids((await index.list()).entries);
+
+      const page1 = await index.list({ maxResults: 3 });
+      expect(ids(page1.entries)).toEqual(all.slice(0, 3));
+      expect(page1.continuationToken).toBe(all[2]);
+
+      const page2 = await index.list({
+        maxResults: 3,
+        continuationToken: page1.continuationToken,
+      });
+      expect(ids(page2.entries)).toEqual(all.slice(3, 6));
+
+      const page3 = await index.list({
+        maxResults: 3,
+        continuationToken: page2.continuationToken,
+      });
+      expect(ids(page3.entries)).toEqual(all.slice(6));
+      expect(page3.continuationToken).toBeUndefined();
+    });
+
+    it('should paginate within a prefix', async () => {
+      const page1 = await index.list({ prefix: 'a', maxResults: 3 });
+      const page2 = await index.list({
+        prefix: 'a',
+        maxResults: 3,
+        continuationToken: page1.continuationToken,
+      });
+
+      expect([...ids(page1.entries), ...ids(page2.entries)]).toEqual([
+        'aa',
+        'ab1',
+        'abc',
+        'ac',
+      ]);
+      expect(page1.continuationToken).toBe('abc');
+      expect(page2.continuationToken).toBeUndefined();
+    });
+
+    it('should continue after a token that was deleted', async () => {
+      const all = ids((await index.list()).entries);
+      await index.remove(all[2]!);
+
+      const { entries } = await index.list({ continuationToken: all[2] });
+      expect(ids(entries)).toEqual(all.slice(3));
+    });
+
+    it('should filter by tag', async () => {
+      await index.update({ ...entry('ab1'), tags: ['x', 'y'] });
+      await index.update({ ...entry('abc'), tags: ['x'] });
+      await index.update({ ...entry('b'), tags: ['x'] });
+
+      const page1 = await index.list({ tag: 'x', maxResults: 2 });
+      expect(ids(page1.entries)).toEqual(['ab1', 'abc']);
+      const page2 = await index.list({
+        tag: 'x',
+        continuationToken: page1.continuationToken,
+      });
+      expect(ids(page2.entries)).toEqual(['b']);
+
+      const withPrefix = await index.list({ tag: 'x', prefix: 'ab' });
+      expect(ids(withPrefix.entries)).toEqual(['ab1', 'abc']);
+      expect((await index.list({ tag: 'z' })).entries).toEqual([]);
+    });
+
+    it('should skip ids differing from a prefix in case only', async () => {
+      for (const blobId of ['aB3', 'AB4', 'ab5']) {
+        await index.add(entry(blobId));
+      }
+
+      const page1 = await index.list({ prefix: 'ab', maxResults: 2 });
+      expect(ids(page1.entries)).toEqual(['ab1', 'ab5']);
+      const page2 = await index.list({
+        prefix: 'ab',
+        maxResults: 2,
+        continuationToken: page1.continuationToken,
+      });
+      expect(ids(page2.entries)).toEqual(['abc']);
+      expect(page2.continuationToken).toBeUndefined();
+
+      // No token if only other cases follow
+      const last = await index.list({ prefix: 'AB', maxResults: 2 });
+      expect(ids(last.entries)).toEqual(['AB2', 'AB4']);
+      expect(last.continuationToken).toBeUndefined();
+    });
+
+    it('should follow changed tags', async () => {
+      await index.update({ ...entry('ab1'), tags: ['x'] });
+      await index.update({ ...entry('b'), tags: ['x', 'x'] });
+      await index.update({ ...entry('ab1'), tags: ['y'] });
+      await index.remove('b');
+
+      expect((await index.list({ tag: 'x' })).entries).toEqual([]);
+      expect(ids((await index.list({ tag: 'y' })).entries)).toEqual(['ab1']);
+
+      // Also when reading the log anew
+      await index.update({ ...entry('aa'), tags: ['y'] });
+      const other = new BlobIndex(logPath, scan);
+      expect(ids((await other.list({ tag: 'y' })).entries)).toEqual([
+        'aa',
+        'ab1',
+      ]);
+      expect((await other.list({ tag: 'x' })).entries).toEqual([]);
+    });
+
+    it('should return an empty page for maxResults 0', async () => {
+      const { entries, continuationToken } = await index.list({
+        maxResults: 0,
+      });
+      expect(entries).toEqual([]);
+      expect(continuationToken).toBeUndefined();
+    });
+  });
+
+  describe('refresh', () => {
+    it('should see records appended by other instances', async () => {
+      const other = new BlobIndex(logPath, scan);
+      await index.add(entry('a'));
+      expect(await other.count()).toBe(1);
+
+      await other.add(entry('b'));
+      await other.remove('a');
+
+      expect(ids((await index.list()).entries)).toEqual(['b']);
+    });
+
+    it('should ignore an incomplete last line', async () => {
+      await index.add(entry('a'));
+      await appendFile(logPath, '{"op":"add","blobId":"b"');
+
+      expect(await index.count()).toBe(1);
+
+      await appendFile(logPath, ',"size":1,"createdAt":"x"}\n');
+      expect(await index.count()).toBe(2);
+    });
+
+    it('should not glue records onto an incomplete last line', async () => {
+      await index.add(entry('a'));
+      await appendFile(logPath, '{"op":"add","blobId":"xx');
+
+      // Left behind by a crashed write
+      await index.add(entry('b'));
+      expect(await index.count()).toBe(2);
+
+      const reopened = new BlobIndex(logPath, scan);
+      expect(ids((await reopened.list()).entries)).toEqual(['a', 'b']);
+      expect(await logLines()).toHaveLength(3);
+    });
+
+    it('should skip damaged lines', async () => {
+      await index.add(entry('a'));
+      await appendFile(logPath, 'garbage\n');
+      await index.add(entry('b'));
+
+      const reopened = new BlobIndex(logPath, scan);
+      expect(ids((await reopened.list()).entries)).toEqual(['a', 'b']);
+    });
+
+    it('should ignore removals of unknown blobs', async () => {
+      await index.add(entry('a'));
+      await appendFile(logPath, '{"op":"del","blobId":"unknown"}\n');
+
+      expect(ids((await index.list()).entries)).toEqual(['a']);
+    });
+
+    it('should re-read a replaced log', async () => {
+      await index.add(entry('a'));
+
+      const other = new BlobIndex(logPath, scan);
+      scanned = [entry('x'), entry('y')];
+      await other.rebuild();
+
+      expect(ids((await index.list()).entries)).toEqual(['x', 'y']);
+    });
+  });
+
+  describe('compaction', () => {
+    it('should compact the log once it is mostly outdated', async () => {
+      const small = new BlobIndex(logPath, scan, { compactThreshold: 4 });
+
+      await small.add(entry('a'));
+      await small.add(entry('b'));
+      await small.remove('a');
+      await small.add(entry('c'));
+      expect(await logLines()).toHaveLength(4);
+
+      await small.remove('b');
+      expect(await logLines()).toEqual([
+        JSON.stringify({ op: 'add', ...entry('c') }),
+      ]);
+
+      expect(ids((await small.list()).entries)).toEqual(['c']);
+      expect(ids((await index.list()).entries)).toEqual(['c']);
+    });
+  });
+
+  describe('rebuild', () => {
+    it('should rebuild a missing log by scanning', async () => {
+      scanned = [entry('b', 2), entry('a', 1)];
+
+      expect(ids((await index.list()).entries)).toEqual(['a', 'b']);
+      expect(await logLines()).toHaveLength(2);
+      expect(scans).toBe(1);
+    });
+
+    it('should rebuild a log that vanished after loading', async () => {
+      await index.add(entry('a'));
+      await rm(logPath);
+
+      scanned = [entry('a'), entry('b')];
+      expect(await index.count()).toBe(2);
+    });
+
+    it('should not create a log for an empty store', async () => {
+      expect(await index.count()).toBe(0);
+      await expect(stat(logPath)).rejects.toThrow();
+    });
+
+    it('should remove the log when rebuilding an empty store', async () => {
+      await index.add(entry('a'));
+      await index.rebuild();
+
+      expect(await index.count()).toBe(0);
+      await expect(stat(logPath)).rejects.toThrow();
+    });
+  });
+
+  describe('reset', () => {
+    it('should forget all entries', async () => {
+      await index.add(entry('a'));
+      await rm(logPath);
+      index.reset();
+
+      expect(await index.count()).toBe(0);
+    });
+  });
+
+  describe('errors', () => {
+    it('should keep working after a failed operation', async () => {
+      const broken = new BlobIndex(join(testDir, 'missing', 'index.log'), scan);
+      await expect(broken.add(entry('a'))).rejects.toThrow();
+      expect(await broken.count()).toBe(0);
+    });
+  });
+});
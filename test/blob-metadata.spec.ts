@@ -0,0 +1,90 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  BsFsBlobMetadata,
+  mergeMetadata,
+  normalizeMetadata,
+  pickMetadata,
+  sameMetadata,
+} from '../src/blob-metadata.ts';
+
+describe('blob metadata', () => {
+  describe('normalizeMetadata', () => {
+    it('should sort tags and drop empty ones', () => {
+      expect(
+        normalizeMetadata({
+          contentType: 'text/plain',
+          filename: 'a.txt',
+          tags: ['b', 'a', 'b'],
+        }),
+      ).toEqual({
+        contentType: 'text/plain',
+        filename: 'a.txt',
+        tags: ['a', 'b'],
+      });
+      expect(normalizeMetadata({ tags: [] })).toEqual({});
+      expect(normalizeMetadata({})).toEqual({});
+    });
+
+    it('should reject fields of the wrong type', () => {
+      for (const [metadata, message] of [
+        [{ contentType: 1 }, 'contentType must be a string'],
+        [{ filename: null }, 'filename must be a string'],
+        [{ tags: 'a' }, 'tags must be an array of strings'],
+        [{ tags: ['a', 1] }, 'tags must be an array of strings'],
+      ] as const) {
+        expect(() =>
+          normalizeMetadata(metadata as unknown as BsFsBlobMetadata),
+        ).toThrow(`Invalid blob metadata: ${message}`);
+      }
+    });
+  });
+
+  describe('mergeMetadata', () => {
+    it('should merge tags and prefer given fields', () => {
+      expect(
+        mergeMetadata(
+          { contentType: 'text/plain', filename: 'a.txt', tags: ['a', 'b'] },
+          { filename: 'b.txt', tags: ['c', 'a'] },
+        ),
+      ).toEqual({
+        contentType: 'text/plain',
+        filename: 'b.txt',
+        tags: ['a', 'b', 'c'],
+      });
+      expect(mergeMetadata({}, {})).toEqual({});
+    });
+  });
+
+  describe('sameMetadata', () => {
+    it('should compare all fields', () => {
+      const metadata = { contentType: 'a', filename: 'b', tags: ['c'] };
+      expect(sameMetadata(metadata, { ...metadata })).toBe(true);
+      expect(sameMetadata({}, { tags: [] })).toBe(true);
+      expect(sameMetadata(metadata, { ...metadata, contentType: 'x' })).toBe(
+        false,
+      );
+      expect(sameMetadata(metadata, { ...metadata, filename: 'x' })).toBe(
+        false,
+      );
+      expect(sameMetadata(metadata, { ...metadata, tags: ['c', 'd'] })).toBe(
+        false,
+      );
+    });
+  });
+
+  describe('pickMetadata', () => {
+    it('should keep valid fields only', () => {
+      expect(
+        pickMetadata({ contentType: 1, filename: 'a', tags: ['b', 2] }),
+      ).toEqual({ filename: 'a', tags: ['b'] });
+      expect(pickMetadata({ tags: 'a' })).toEqual({});
+    });
+  });
+});
@@ -0,0 +1,41 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { BsTestSetup } from '@rljson/bs';
+
+import { BsCached } from '../src/bs-cached.ts';
+import { BsFs } from '../src/bs-fs.ts';
+
+import { runBsConformanceTests } from './bs-conformance.spec.ts';
+
+// .............................................................................
+/**
+ * Runs the conformance tests against a BsCached layered over a BsFs
+ */
+class BsCachedTestSetup implements BsTestSetup {
+  private readonly store = new BsFs('./test-blobs-cached');
+  bs = new BsCached(this.store);
+
+  async beforeAll(): Promise<void> {
+    // Nothing to set up
+  }
+
+  async beforeEach(): Promise<void> {
+    await this.store.clear();
+    this.bs.invalidate();
+  }
+
+  async afterEach(): Promise<void> {
+    // Nothing to clean up
+  }
+
+  async afterAll(): Promise<void> {
+    await this.store.clear();
+  }
+}
+
+// Importing the conformance tests runs them for BsFs as well
+runBsConformanceTests(() => new BsCachedTestSetup());
@@ -0,0 +1,403 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { rm } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BsCached } from '../src/bs-cached.ts';
+import { BsFs } from '../src/bs-fs.ts';
+import { BlobRangeError } from '../src/errors.ts';
+
+import type { Bs } from '@rljson/bs';
+
+describe('BsCached', () => {
+  let store: BsFs;
+  let bs: BsCached;
+  const testDir = './test-bs-cached';
+
+  const read = async (stream: ReadableStream) =>
+    Buffer.from(await new Response(stream).arrayBuffer()).toString();
+
+  beforeEach(async () => {
+    store = new BsFs(testDir);
+    await store.clear();
+    bs = new BsCached(store);
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('content', () => {
+    it('should read blobs once', async () => {
+      const { blobId } = await bs.setBlob('Icon');
+      const getBlob = vi.spyOn(store, 'getBlob');
+
+      const first = await bs.getBlob(blobId);
+      const second = await bs.getBlob(blobId);
+      expect(second.content.toString()).toBe('Icon');
+      expect(second.properties).toEqual(first.properties);
+      expect(getBlob).toHaveBeenCalledOnce();
+      expect(bs.stats().content).toEqual({
+        hits: 1,
+        misses: 1,
+        entries: 1,
+        size: 4,
+      });
+    });
+
+    it('should not be changed by callers', async () => {
+      const { blobId } = await store.setBlob('Icon', { tags: ['t'] });
+      const { content, properties } = await bs.getBlob(blobId);
+      content.write('XXXX');
+      properties.size = 0;
+      (properties as { tags: string[] }).tags.push('u');
+
+      const cached = await bs.getBlob(blobId);
+      cached.content.write('YYYY');
+      (cached.properties.createdAt as Date).setTime(0);
+
+      const again = await bs.getBlob(blobId);
+      expect(again.content.toString()).toBe('Icon');
+      expect(again.properties).toMatchObject({ size: 4, tags: ['t'] });
+      expect(again.properties.createdAt.getTime()).not.toBe(0);
+    });
+
+    it('should serve ranges from cached content', async () => {
+      const { blobId } = await bs.setBlob('0123456789');
+
+      // Range reads of uncached blobs don't fill the cache
+      const uncached = await bs.getBlob(blobId, {
+        range: { start: 2, end: 5 },
+      });
+      expect(uncached.content.toString()).toBe('234');
+      expect(bs.stats().content.entries).toBe(0);
+
+      await bs.getBlob(blobId);
+      const getBlob = vi.spyOn(store, 'getBlob');
+      const cached = await bs.getBlob(blobId, { range: { start: 2, end: 5 } });
+      expect(cached.content.toString()).toBe('234');
+      expect(cached.properties.size).toBe(10);
+      expect(
+        (await bs.getBlob(blobId, { range: { suffix: 3 } })).content.toString(),
+      ).toBe('789');
+      await expect(
+        bs.getBlob(blobId, { range: { start: 5, end: 11 } }),
+      ).rejects.toThrow(BlobRangeError);
+      expect(getBlob).not.toHaveBeenCalled();
+    });
+
+    it('should stream cached content', async () => {
+      const { blobId } = await bs.setBlob('0123456789');
+
+      // Streams of uncached blobs don't fill the cache
+      expect(await read(await bs.getBlobStream(blobId))).toBe('0123456789');
+      expect(bs.stats().content).toMatchObject({ misses: 1, entries: 0 });
+
+      await bs.getBlob(blobId);
+      const getBlobStream = vi.spyOn(store, 'getBlobStream');
+      expect(await read(await bs.getBlobStream(blobId))).toBe('0123456789');
+      expect(
+        await read(await bs.getBlobStream(blobId, { range: { start: 7 } })),
+      ).toBe('789');
+      expect(
+        await read(
+          await bs.getBlobStream(blobId, { range: { start: 3, end: 3 } }),
+        ),
+      ).toBe('');
+      await expect(
+        bs.getBlobStream(blobId, { range: { start: 11 } }),
+      ).rejects.toThrow(BlobRangeError);
+      expect(getBlobStream).not.toHaveBeenCalled();
+    });
+
+    it('should hold at most the configured bytes', async () => {
+      bs = new BsCached(store, { maxContentBytes: 10 });
+      const a = await bs.setBlob('aaaa');
+      const b = await bs.setBlob('bbbb');
+      const large = await bs.setBlob('c'.repeat(11));
+
+      for (const { blobId } of [a, b, large]) {
+        await bs.getBlob(blobId);
+      }
+      expect(bs.stats().content).toMatchObject({ entries: 2, size: 8 });
+
+      // The least recently used blob makes room
+      await bs.getBlob(a.blobId);
+      const d = await bs.setBlob('dddd');
+      await bs.getBlob(d.blobId);
+      const getBlob = vi.spyOn(store, 'getBlob');
+      await bs.getBlob(a.blobId);
+      await bs.getBlob(b.blobId);
+      expect(getBlob.mock.calls.map(([blobId]) => blobId)).toEqual([b.blobId]);
+    });
+  });
+
+  describe('properties', () => {
+    it('should be cached when blobs are stored or read', async () => {
+      const { blobId } = await bs.setBlob('Stored');
+      const getBlobProperties = vi.spyOn(store, 'getBlobProperties');
+
+      expect((await bs.getBlobProperties(blobId)).size).toBe(6);
+      expect(getBlobProperties).not.toHaveBeenCalled();
+
+      bs.invalidate(blobId);
+      await bs.getBlobProperties(blobId);
+      await bs.getBlobProperties(blobId);
+      expect(getBlobProperties).toHaveBeenCalledOnce();
+      expect(bs.stats().properties).toMatchObject({ hits: 2, misses: 1 });
+    });
+
+    it('should hold at most the configured bytes', async () => {
+      const { blobId } = await store.setBlob('Stored');
+      const json = JSON.stringify(await store.getBlobProperties(blobId));
+
+      bs = new BsCached(store, { maxPropertiesBytes: json.length });
+      await bs.getBlobProperties(blobId);
+      await bs.setBlob('Other');
+      expect(bs.stats().properties).toEqual({
+        hits: 0,
+        misses: 1,
+        entries: 1,
+        size: json.length,
+      });
+    });
+
+    it('should follow blobs stored again with other metadata', async () => {
+      const { blobId } = await bs.setBlob('Tagged');
+      await store.setBlob('Tagged', { tags: ['t'] });
+      expect(await bs.getBlobProperties(blobId)).toMatchObject({
+        tags: ['t'],
+      });
+
+      // Blobs not cached aren't added
+      const other = await store.setBlob('Other');
+      await store.setBlob('Other', { tags: ['t'] });
+      expect(bs.stats().properties.entries).toBe(1);
+      expect(await bs.getBlobProperties(other.blobId)).toMatchObject({
+        tags: ['t'],
+      });
+    });
+  });
+
+  describe('blobExists', () => {
+    it('should remember missing blobs for a while', async () => {
+      bs = new BsCached(store, { missingTtlMs: 100 });
+      const blobExists = vi.spyOn(store, 'blobExists');
+
+      expect(await bs.blobExists('missing')).toBe(false);
+      expect(await bs.blobExists('missing')).toBe(false);
+      expect(blobExists).toHaveBeenCalledOnce();
+      expect(bs.stats().missing).toEqual({
+        hits: 1,
+        misses: 1,
+        entries: 1,
+        size: 1,
+      });
+
+      await new Promise((resolve) => setTimeout(resolve, 110));
+      expect(await bs.blobExists('missing')).toBe(false);
+      expect(blobExists).toHaveBeenCalledTimes(2);
+    });
+
+    it('should ask for existing blobs every time', async () => {
+      const { blobId } = await bs.setBlob('Existing');
+      const blobExists = vi.spyOn(store, 'blobExists');
+      expect(await bs.blobExists(blobId)).toBe(true);
+      expect(await bs.blobExists(blobId)).toBe(true);
+      expect(blobExists).toHaveBeenCalledTimes(2);
+    });
+
+    it('should forget missing blobs once they are stored', async () => {
+      const a = await store.setBlob('A');
+      const b = await store.setBlob('B');
+      await store.clear();
+      expect(await bs.blobExists(a.blobId)).toBe(false);
+      expect(await bs.blobExists(b.blobId)).toBe(false);
+
+      // Through the cache and directly
+      await bs.setBlob('A');
+      await store.setBlob('B');
+      expect(await bs.blobExists(a.blobId)).toBe(true);
+      expect(await bs.blobExists(b.blobId)).toBe(true);
+    });
+  });
+
+  describe('access', () => {
+    const pause = () => new Promise((resolve) => setTimeout(resolve, 5));
+
+    it('should pass cache hits on once per interval', async () => {
+      bs = new BsCached(store, { touchIntervalMs: 100 });
+      const { blobId } = await bs.setBlob('Read');
+      await bs.getBlob(blobId);
+      const touchBlob = vi.spyOn(store, 'touchBlob');
+
+      await bs.getBlob(blobId);
+      await bs.getBlobStream(blobId);
+      expect(touchBlob).not.toHaveBeenCalled();
+
+      await new Promise((resolve) => setTimeout(resolve, 110));
+      await bs.getBlobStream(blobId);
+      await bs.getBlob(blobId);
+      expect(touchBlob).toHaveBeenCalledOnce();
+    });
+
+    it('should keep blobs read from the cache under an lru quota', async () => {
+      store = new BsFs(testDir, {
+        quota: { maxBlobs: 2, eviction: 'lru', accessTimeResolutionMs: 0 },
+      });
+      bs = new BsCached(store, { touchIntervalMs: 0 });
+      const a = await bs.setBlob('a');
+      const b = await bs.setBlob('b');
+      await pause();
+      await bs.getBlob(a.blobId);
+      await pause();
+      await store.getBlob(b.blobId);
+      await pause();
+
+      // Served from the cache, but a was read last
+      await bs.getBlob(a.blobId);
+      await bs.setBlob('c');
+      expect(await store.blobExists(a.blobId)).toBe(true);
+      expect(await store.blobExists(b.blobId)).toBe(false);
+    });
+
+    it('should serve blobs deleted meanwhile', async () => {
+      store = new BsFs(testDir, {
+        quota: { maxBlobs: 2, eviction: 'lru', accessTimeResolutionMs: 0 },
+      });
+      bs = new BsCached(store, { touchIntervalMs: 0 });
+      const { blobId } = await bs.setBlob('Gone');
+      await bs.getBlob(blobId);
+
+      // By another instance
+      await new BsFs(testDir).deleteBlob(blobId);
+      expect((await bs.getBlob(blobId)).content.toString()).toBe('Gone');
+    });
+  });
+
+  describe('invalidation', () => {
+    it('should drop deleted blobs', async () => {
+      const { blobId } = await bs.setBlob('Deleted');
+      await bs.getBlob(blobId);
+
+      const blobExists = vi.spyOn(store, 'blobExists');
+      await bs.deleteBlob(blobId);
+      await expect(bs.getBlob(blobId)).rejects.toThrow('Blob not found');
+      await expect(bs.getBlobProperties(blobId)).rejects.toThrow(
+        'Blob not found',
+      );
+      expect(await bs.blobExists(blobId)).toBe(false);
+      expect(blobExists).not.toHaveBeenCalled();
+    });
+
+    it('should keep blobs that failed to delete', async () => {
+      const { blobId } = await bs.setBlob('Retained');
+      await store.retain(blobId);
+      await bs.getBlob(blobId);
+
+      await expect(bs.deleteBlob(blobId)).rejects.toThrow('referenced');
+      expect(bs.stats().content.entries).toBe(1);
+    });
+
+    it('should drop blobs collected by the store', async () => {
+      const { blobId } = await bs.setBlob('Collected');
+      await bs.getBlob(blobId);
+
+      await store.gc({ gracePeriodMs: 0 });
+      expect(bs.stats().content.entries).toBe(0);
+      await expect(bs.getBlob(blobId)).rejects.toThrow('Blob not found');
+    });
+
+    it('should drop blobs on request', async () => {
+      const a = await bs.setBlob('A');
+      const b = await bs.setBlob('B');
+      await bs.getBlob(a.blobId);
+      await bs.getBlob(b.blobId);
+
+      await store.setBlobMetadata(a.blobId, { filename: 'a.txt' });
+      bs.invalidate(a.blobId);
+      expect((await bs.getBlob(a.blobId)).properties).toMatchObject({
+        filename: 'a.txt',
+      });
+      expect(bs.stats().content).toMatchObject({ misses: 3, entries: 2 });
+
+      bs.invalidate();
+      expect(bs.stats()).toMatchObject({
+        content: { entries: 0, size: 0 },
+        properties: { entries: 0, size: 0 },
+        missing: { entries: 0, size: 0 },
+      });
+    });
+
+    it('should not cache reads started before', async () => {
+      const { blobId } = await bs.setBlob('Raced');
+      bs.invalidate();
+
+      const reads = [
+        bs.getBlob(blobId),
+        bs.getBlobProperties(blobId),
+        bs.blobExists('missing'),
+      ];
+      bs.invalidate(blobId);
+      await Promise.all(reads);
+      expect(bs.stats()).toMatchObject({
+        content: { entries: 0 },
+        properties: { entries: 0 },
+        missing: { entries: 0 },
+      });
+    });
+  });
+
+  it('should stop following the store once closed', async () => {
+    const { blobId } = await bs.setBlob('Closed');
+    await bs.getBlob(blobId);
+    bs.close();
+    expect(bs.stats().content.entries).toBe(0);
+
+    // Deletions aren't seen anymore
+    await bs.getBlob(blobId);
+    await store.deleteBlob(blobId);
+    expect((await bs.getBlob(blobId)).content.toString()).toBe('Closed');
+    bs.close();
+
+    // Other stores have nothing to stop following
+    new BsCached(new BsCached(store)).close();
+  });
+
+  it('should pass listings and signed URLs on', async () => {
+    const { blobId } = await bs.setBlob('Listed');
+    expect((await bs.listBlobs()).blobs.map((b) => b.blobId)).toEqual([blobId]);
+    const url = await bs.generateSignedUrl(blobId, 60, 'delete');
+    expect(store.verifySignedUrl(url)).toMatchObject({
+      blobId,
+      permissions: 'delete',
+    });
+  });
+
+  it('should wrap other blob stores', async () => {
+    const inner = new BsCached(store);
+    bs = new BsCached(inner);
+    const { blobId } = await bs.setBlob('Nested', { tags: ['t'] });
+    expect((await bs.getBlob(blobId)).content.toString()).toBe('Nested');
+    expect(inner.stats().content.misses).toBe(1);
+    expect(await store.getBlobProperties(blobId)).toMatchObject({
+      tags: ['t'],
+    });
+  });
+
+  it('should ignore metadata for stores other than BsFs', async () => {
+    const plain = {
+      setBlob: vi.fn((content: string) => store.setBlob(content)),
+    };
+    bs = new BsCached(plain as unknown as Bs);
+    const { blobId } = await bs.setBlob('Plain', { tags: ['t'] });
+    expect(plain.setBlob).toHaveBeenCalledWith('Plain');
+    expect((await store.getBlobProperties(blobId)).tags).toBeUndefined();
+  });
+});
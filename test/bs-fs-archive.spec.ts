@@ -0,0 +1,291 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { hshBuffer } from '@rljson/hash';
+
+import { randomBytes } from 'node:crypto';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { PassThrough, Readable } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { StaticKeyProvider } from '../src/encryption.ts';
+import { ArchiveError } from '../src/errors.ts';
+import { createTarHeader, tarPadding, tarTrailer } from '../src/tar.ts';
+
+describe('BsFs archives', () => {
+  let source: BsFs;
+  let target: BsFs;
+  const sourceDir = './test-bs-fs-archive-source';
+  const targetDir = './test-bs-fs-archive-target';
+
+  const pathsOf = (dir: string, blobId: string) => {
+    const shardDir = join(
+      dir,
+      ...[0, 2, 4, 6].map((i) => blobId.substring(i, i + 2)),
+    );
+    return {
+      filePath: join(shardDir, `${blobId}.txt`),
+      metaPath: join(shardDir, `${blobId}.meta.json`),
+    };
+  };
+
+  // Export into a buffer
+  const exportArchive = async (
+    bs: BsFs,
+    options?: Parameters<BsFs['exportArchive']>[1],
+  ) => {
+    const stream = new PassThrough();
+    const chunks = stream.toArray();
+    const report = await bs.exportArchive(stream, options);
+    stream.end();
+    return { report, archive: Buffer.concat(await chunks) };
+  };
+
+  // Build an archive by hand
+  const archiveOf = (...files: [string, Buffer | string][]) =>
+    Buffer.concat([
+      ...files.flatMap(([name, content]) => [
+        createTarHeader({ name, size: content.length, mtime: new Date() }),
+        Buffer.from(content),
+        tarPadding(content.length),
+      ]),
+      tarTrailer(),
+    ]);
+
+  const text = 'Line of text\n'.repeat(1000);
+
+  beforeEach(async () => {
+    source = new BsFs(sourceDir);
+    target = new BsFs(targetDir);
+    await source.clear();
+    await target.clear();
+  });
+
+  afterEach(async () => {
+    await rm(sourceDir, { recursive: true, force: true });
+    await rm(targetDir, { recursive: true, force: true });
+  });
+
+  describe('exportArchive and importArchive', () => {
+    it('should move blobs with their metadata', async () => {
+      const a = await source.setBlob(text, {
+        filename: 'a.txt',
+        tags: ['docs'],
+      });
+      const b = await source.setBlob(randomBytes(3000));
+      const empty = await source.setBlob('');
+      await source.retain(a.blobId);
+
+      const { report, archive } = await exportArchive(source);
+      expect(report).toEqual({ exported: 3, bytes: text.length + 3000 });
+      expect(archive.length % 512).toBe(0);
+
+      const imported = await target.importArchive(Readable.from([archive]));
+      expect(imported.imported.sort()).toEqual(
+        [a.blobId, b.blobId, empty.blobId].sort(),
+      );
+      expect(imported.skipped).toEqual([]);
+      expect(imported.invalid).toEqual([]);
+
+      for (const blob of [a, b, empty]) {
+        expect(await target.getBlobProperties(blob.blobId)).toEqual(blob);
+        expect((await target.getBlob(blob.blobId)).content).toEqual(
+          (await source.getBlob(blob.blobId)).content,
+        );
+      }
+
+      // References belong to the source store
+      expect(await target.refCount(a.blobId)).toBe(0);
+    });
+
+    it('should add listeners to the stream once, not per blob', async () => {
+      const listenersAfter = async (bs: BsFs) => {
+        const stream = new PassThrough().resume();
+        await bs.exportArchive(stream);
+        return ['error', 'close', 'finish'].map((e) => stream.listenerCount(e));
+      };
+
+      const none = await listenersAfter(source);
+      for (let i = 0; i < 20; i++) {
+        await source.setBlob(`Blob ${i}`);
+      }
+      expect(await listenersAfter(source)).toEqual(none);
+    });
+
+    it('should write archives readable by other stores', async () => {
+      const keys = { k1: randomBytes(32) };
+      const encrypted = new BsFs(sourceDir, {
+        compression: 'gzip',
+        encryption: { keyProvider: new StaticKeyProvider(keys, 'k1') },
+      });
+      const { blobId } = await encrypted.setBlob(text);
+
+      // Payloads are exported decoded
+      const { archive } = await exportArchive(encrypted);
+      expect(archive.includes(Buffer.from(text))).toBe(true);
+
+      const compressed = new BsFs(targetDir, { compression: 'brotli' });
+      await compressed.importArchive(Readable.from([archive]));
+      expect((await compressed.getBlob(blobId)).content.toString()).toBe(text);
+      expect(
+        (await readFile(pathsOf(targetDir, blobId).filePath)).length,
+      ).toBeLessThan(text.length);
+    });
+
+    it('should export blobs by prefix and creation date', async () => {
+      const old = await source.setBlob('Old');
+      const { metaPath } = pathsOf(sourceDir, old.blobId);
+      const metadata = JSON.parse(await readFile(metaPath, 'utf8'));
+      metadata.createdAt = '2026-01-01T00:00:00.000Z';
+      await writeFile(metaPath, JSON.stringify(metadata));
+      await source.rebuildIndex();
+      const recent = await source.setBlob('Recent');
+
+      const since = new Date('2026-02-01T00:00:00.000Z');
+      const delta = await exportArchive(source, { since });
+      expect(delta.report.exported).toBe(1);
+      await target.importArchive(Readable.from([delta.archive]));
+      expect((await target.listBlobs()).blobs.map((b) => b.blobId)).toEqual([
+        recent.blobId,
+      ]);
+
+      // The creation date is kept
+      const all = await exportArchive(source);
+      await target.importArchive(Readable.from([all.archive]));
+      expect((await target.getBlobProperties(old.blobId)).createdAt).toEqual(
+        new Date('2026-01-01T00:00:00.000Z'),
+      );
+
+      const prefix = old.blobId.substring(0, 3);
+      const byPrefix = await exportArchive(source, { prefix });
+      expect(byPrefix.report.exported).toBe(1);
+      expect(byPrefix.archive.includes(Buffer.from('Old'))).toBe(true);
+
+      // An empty archive
+      const none = await exportArchive(source, { since: new Date() });
+      expect(none.report).toEqual({ exported: 0, bytes: 0 });
+      expect(none.archive).toEqual(tarTrailer());
+    });
+
+    it('should skip blobs the store has already', async () => {
+      const { blobId } = await source.setBlob('Shared', { tags: ['source'] });
+      await target.setBlob('Shared', { tags: ['target'] });
+      const other = await source.setBlob('Other');
+
+      const { archive } = await exportArchive(source);
+      const report = await target.importArchive(Readable.from([archive]));
+      expect(report).toEqual({
+        imported: [other.blobId],
+        skipped: [blobId],
+        invalid: [],
+      });
+      expect((await target.getBlobProperties(blobId)).tags).toEqual(['target']);
+    });
+
+    it('should read web streams', async () => {
+      const { blobId } = await source.setBlob('Web');
+      const { archive } = await exportArchive(source);
+      const stream = Readable.toWeb(Readable.from([archive]));
+      const report = await target.importArchive(stream as ReadableStream);
+      expect(report.imported).toEqual([blobId]);
+    });
+
+    it('should skip blobs deleted while exporting', async () => {
+      const { blobId } = await source.setBlob('Vanishing');
+      await rm(pathsOf(sourceDir, blobId).filePath);
+
+      const { report, archive } = await exportArchive(source);
+      expect(report.exported).toBe(0);
+      expect(archive).toEqual(tarTrailer());
+    });
+
+    it('should fail on payloads not matching their size', async () => {
+      const { blobId } = await source.setBlob('Truncated');
+      await writeFile(pathsOf(sourceDir, blobId).filePath, 'Trunc');
+
+      await expect(exportArchive(source)).rejects.toThrow(
+        `Payload doesn't match its size: ${blobId}`,
+      );
+    });
+  });
+
+  describe('importArchive', () => {
+    it('should reject content not matching its blob id', async () => {
+      const blobId = hshBuffer(Buffer.from('Original'));
+      const report = await target.importArchive(
+        Readable.from([archiveOf([`blobs/${blobId}`, 'Forged'])]),
+      );
+      expect(report).toEqual({ imported: [], skipped: [], invalid: [blobId] });
+      expect(await target.size()).toBe(0);
+    });
+
+    it('should import blobs without or with invalid metadata', async () => {
+      const a = Buffer.from('No metadata');
+      const b = Buffer.from('Invalid metadata');
+      const c = Buffer.from('Wrong types');
+      const d = Buffer.from('Null metadata');
+      const [idA, idB, idC, idD] = [a, b, c, d].map((content) =>
+        hshBuffer(content),
+      );
+
+      const report = await target.importArchive(
+        Readable.from([
+          archiveOf(
+            [`blobs/${idA}`, a],
+            [`blobs/${idB}.meta.json`, '{'],
+            [`blobs/${idB}`, b],
+            [
+              `blobs/${idC}.meta.json`,
+              JSON.stringify({ createdAt: 'never', filename: 7, tags: ['t'] }),
+            ],
+            [`blobs/${idC}`, c],
+            [`blobs/${idD}.meta.json`, 'null'],
+            [`blobs/${idD}`, d],
+          ),
+        ]),
+      );
+      expect(report.imported).toEqual([idA, idB, idC, idD]);
+
+      const properties = await target.getBlobProperties(idC);
+      expect(properties.filename).toBeUndefined();
+      expect(properties.tags).toEqual(['t']);
+      expect(properties.contentType).toBeUndefined();
+      expect(Date.now() - properties.createdAt.getTime()).toBeLessThan(60_000);
+    });
+
+    it('should ignore metadata of other blobs and foreign files', async () => {
+      const content = Buffer.from('Content');
+      const blobId = hshBuffer(content);
+      const report = await target.importArchive(
+        Readable.from([
+          archiveOf(
+            ['README', 'Not a blob'],
+            ['blobs/../escape', 'Not a blob either'],
+            ['blobs/other.meta.json', JSON.stringify({ tags: ['other'] })],
+            [`blobs/${blobId}`, content],
+          ),
+        ]),
+      );
+      expect(report.imported).toEqual([blobId]);
+      expect((await target.getBlobProperties(blobId)).tags).toBeUndefined();
+    });
+
+    it('should throw for malformed archives', async () => {
+      const blobId = hshBuffer(Buffer.from('Cut'));
+      const archive = archiveOf([`blobs/${blobId}`, 'Cut']);
+
+      await expect(
+        target.importArchive(Readable.from([archive.subarray(0, 514)])),
+      ).rejects.toThrow(ArchiveError);
+      await expect(
+        target.importArchive(Readable.from([Buffer.from('No tar')])),
+      ).rejects.toThrow(ArchiveError);
+      expect(await target.size()).toBe(0);
+    });
+  });
+});
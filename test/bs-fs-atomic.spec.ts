@@ -0,0 +1,272 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { randomBytes } from 'node:crypto';
+import {
+  access,
+  appendFile,
+  mkdir,
+  readdir,
+  rename,
+  rm,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { StaticKeyProvider } from '../src/encryption.ts';
+
+vi.mock('node:fs/promises', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs/promises')>();
+  return { ...actual, rename: vi.fn(actual.rename), rm: vi.fn(actual.rm) };
+});
+
+const { rename: realRename } =
+  await vi.importActual<typeof import('node:fs/promises')>('node:fs/promises');
+
+const simulatedCrash = () => Promise.reject(new Error('Simulated crash'));
+
+describe('BsFs atomic writes', () => {
+  let bs: BsFs;
+  const testDir = './test-bs-fs-atomic';
+
+  const shardDir = (blobId: string) =>
+    join(testDir, ...[0, 2, 4, 6].map((i) => blobId.substring(i, i + 2)));
+
+  const tempFiles = async () => {
+    try {
+      const entries = await readdir(testDir, { recursive: true });
+      return entries.filter((e) => e.endsWith('.tmp'));
+    } catch {
+      return [];
+    }
+  };
+
+  beforeEach(async () => {
+    bs = new BsFs(testDir);
+    await bs.clear();
+  });
+
+  afterEach(async () => {
+    vi.mocked(rename).mockReset();
+    vi.mocked(rename).mockImplementation(realRename);
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('crash before the payload is renamed into place', () => {
+    it('should leave no visible blob and no temp files', async () => {
+      vi.mocked(rename).mockImplementationOnce(simulatedCrash);
+
+      await expect(bs.setBlob('Crash early')).rejects.toThrow(
+        'Simulated crash',
+      );
+
+      expect(await bs.size()).toBe(0);
+      expect(await tempFiles()).toEqual([]);
+    });
+
+    it('should store the blob on retry', async () => {
+      vi.mocked(rename).mockImplementationOnce(simulatedCrash);
+      await expect(bs.setBlob('Retry me')).rejects.toThrow();
+
+      const props = await bs.setBlob('Retry me');
+      const { content } = await bs.getBlob(props.blobId);
+      expect(content.toString('utf8')).toBe('Retry me');
+    });
+  });
+
+  describe('crash between payload and metadata rename', () => {
+    it('should not expose the blob to readers', async () => {
+      vi.mocked(rename)
+        .mockImplementationOnce(realRename)
+        .mockImplementationOnce(simulatedCrash);
+
+      await expect(bs.setBlob('Crash late')).rejects.toThrow('Simulated crash');
+
+      // The payload is already in place ...
+      const entries = await readdir(testDir, { recursive: true });
+      const payload = entries.find((e) => e.endsWith('.txt'));
+      expect(payload).toBeDefined();
+      expect(entries.some((e) => e.endsWith('.meta.json'))).toBe(false);
+
+      // ... but readers don't see a blob without metadata
+      const blobId = payload!.split(/[\\/]/).pop()!.replace('.txt', '');
+      expect(await bs.blobExists(blobId)).toBe(false);
+      await expect(bs.getBlob(blobId)).rejects.toThrow(
+        `Blob not found: ${blobId}`,
+      );
+      await expect(bs.getBlobStream(blobId)).rejects.toThrow(
+        `Blob not found: ${blobId}`,
+      );
+      expect((await bs.listBlobs()).blobs).toEqual([]);
+      expect(await tempFiles()).toEqual([]);
+    });
+
+    it('should complete the blob on retry', async () => {
+      vi.mocked(rename)
+        .mockImplementationOnce(realRename)
+        .mockImplementationOnce(simulatedCrash);
+      await expect(bs.setBlob('Complete me')).rejects.toThrow();
+
+      const props = await bs.setBlob('Complete me');
+      const { content, properties } = await bs.getBlob(props.blobId);
+      expect(content.toString('utf8')).toBe('Complete me');
+      expect(properties.size).toBe(11);
+      expect(await bs.size()).toBe(1);
+    });
+  });
+
+  describe('crash while deleting', () => {
+    it('should make the blob vanish before the payload is removed', async () => {
+      const props = await bs.setBlob('Delete me');
+      vi.mocked(rm).mockImplementationOnce(simulatedCrash);
+
+      await expect(bs.deleteBlob(props.blobId)).rejects.toThrow(
+        'Simulated crash',
+      );
+
+      expect(await bs.blobExists(props.blobId)).toBe(false);
+      expect(await bs.size()).toBe(0);
+    });
+  });
+
+  describe('crash while appending to the index', () => {
+    it('should keep later blobs listed', async () => {
+      await bs.setBlob('one');
+      await appendFile(
+        join(testDir, 'bs-fs.index.log'),
+        '{"op":"add","blobId":"xx',
+      );
+
+      const two = await bs.setBlob('two');
+      const reopened = new BsFs(testDir);
+      expect(await reopened.size()).toBe(2);
+      expect((await reopened.listBlobs()).blobs.map((b) => b.blobId)).toContain(
+        two.blobId,
+      );
+    });
+  });
+
+  describe('crash while rotating keys', () => {
+    it('should keep the blob readable', async () => {
+      const keys = { k1: randomBytes(32), k2: randomBytes(32) };
+      const withKey = (keyId: string) =>
+        new BsFs(testDir, {
+          encryption: { keyProvider: new StaticKeyProvider(keys, keyId) },
+        });
+      const props = await withKey('k1').setBlob('Rotate me');
+
+      vi.mocked(rename)
+        .mockImplementationOnce(realRename)
+        .mockImplementationOnce(simulatedCrash);
+      await expect(withKey('k2').rotateKeys()).rejects.toThrow(
+        'Simulated crash',
+      );
+
+      // The payload names its key, so the old metadata still works
+      const { content } = await withKey('k2').getBlob(props.blobId);
+      expect(content.toString('utf8')).toBe('Rotate me');
+      expect(await tempFiles()).toEqual([]);
+    });
+  });
+
+  describe('startup', () => {
+    it('should sweep orphaned temp files on the first write', async () => {
+      const dir = shardDir('abcdefgh');
+      await mkdir(dir, { recursive: true });
+
+      const orphan = join(dir, '.orphan.tmp');
+      await writeFile(orphan, 'half written');
+      const old = new Date(Date.now() - 60 * 60 * 1000);
+      await utimes(orphan, old, old);
+
+      const recent = join(dir, '.in-progress.tmp');
+      await writeFile(recent, 'still being written');
+
+      await new BsFs(testDir).setBlob('Trigger startup');
+
+      await expect(access(orphan)).rejects.toThrow();
+      await expect(access(recent)).resolves.toBeUndefined();
+    });
+
+    it('should sweep only once per instance', async () => {
+      await bs.setBlob('First write');
+
+      const orphan = join(testDir, '.late.tmp');
+      await writeFile(orphan, 'orphan');
+      const old = new Date(0);
+      await utimes(orphan, old, old);
+
+      await bs.setBlob('Second write');
+      await expect(access(orphan)).resolves.toBeUndefined();
+    });
+  });
+
+  describe('sweepTempFiles', () => {
+    it('should remove temp files older than the given age', async () => {
+      await mkdir(testDir, { recursive: true });
+      await writeFile(join(testDir, '.a.tmp'), 'a');
+      await writeFile(join(testDir, '.b.tmp'), 'b');
+
+      // File times may lie slightly ahead of Date.now()
+      const past = new Date(Date.now() - 1000);
+      for (const name of ['.a.tmp', '.b.tmp']) {
+        await utimes(join(testDir, name), past, past);
+      }
+
+      expect(await bs.sweepTempFiles(60 * 1000)).toBe(0);
+      expect(await bs.sweepTempFiles(0)).toBe(2);
+      expect(await tempFiles()).toEqual([]);
+    });
+
+    it('should return 0 when the base directory does not exist', async () => {
+      expect(await bs.sweepTempFiles(0)).toBe(0);
+    });
+
+    it('should respect the configured max age', async () => {
+      const eager = new BsFs(testDir, { tempFileMaxAgeMs: 0 });
+      await mkdir(testDir, { recursive: true });
+      const tempFile = join(testDir, '.c.tmp');
+      await writeFile(tempFile, 'c');
+
+      // File times may lie slightly ahead of Date.now()
+      const past = new Date(Date.now() - 1000);
+      await utimes(tempFile, past, past);
+
+      expect(await eager.sweepTempFiles()).toBe(1);
+    });
+  });
+
+  describe('fsync', () => {
+    it('should write, read and delete blobs with fsync enabled', async () => {
+      const synced = new BsFs(testDir, { fsync: true });
+
+      const props = await synced.setBlob('Synced content');
+      const { content } = await synced.getBlob(props.blobId);
+      expect(content.toString('utf8')).toBe('Synced content');
+
+      await synced.deleteBlob(props.blobId);
+      expect(await synced.blobExists(props.blobId)).toBe(false);
+    });
+
+    it('should write streams with fsync enabled', async () => {
+      const synced = new BsFs(testDir, { fsync: true });
+
+      const props = await synced.setBlob(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(Buffer.from('Synced stream'));
+            controller.close();
+          },
+        }),
+      );
+      const { content } = await synced.getBlob(props.blobId);
+      expect(content.toString('utf8')).toBe('Synced stream');
+    });
+  });
+});
@@ -0,0 +1,208 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { rm, writeFile } from 'node:fs/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFs, BsFsEvents } from '../src/bs-fs.ts';
+import { BsFsChange } from '../src/change-log.ts';
+import { BlobIntegrityError, ChangeLogTruncatedError } from '../src/errors.ts';
+import { layoutPaths, layouts } from '../src/layout.ts';
+
+describe('BsFs changes', () => {
+  let bs: BsFs;
+  const testDir = './test-bs-fs-changes';
+
+  // Record all events of a store
+  const record = (store: BsFs) => {
+    const events: [keyof BsFsEvents, string, number?][] = [];
+    store.on('blobAdded', ({ blobId, seq }) =>
+      events.push(['blobAdded', blobId, seq]),
+    );
+    store.on('blobDeleted', ({ blobId, seq }) =>
+      events.push(['blobDeleted', blobId, seq]),
+    );
+    store.on('blobDeduplicated', ({ blobId }) =>
+      events.push(['blobDeduplicated', blobId]),
+    );
+    return events;
+  };
+
+  const collect = async (changes: AsyncIterable<BsFsChange>) => {
+    const result: [number, string, string][] = [];
+    for await (const { seq, type, blobId } of changes) {
+      result.push([seq, type, blobId]);
+    }
+    return result;
+  };
+
+  beforeEach(async () => {
+    // Start without a change log, so that changes are numbered from 1
+    await rm(testDir, { recursive: true, force: true });
+    bs = new BsFs(testDir);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('events', () => {
+    it('should tell about added, stored again and deleted blobs', async () => {
+      const events = record(bs);
+      const a = await bs.setBlob('A');
+      const b = await bs.setBlob(new Blob(['B']).stream());
+      await bs.setBlob('A');
+      await bs.setBlob('A', { tags: ['again'] });
+      await bs.setBlob(new Blob(['B']).stream());
+      await bs.deleteBlob(a.blobId);
+
+      expect(events).toEqual([
+        ['blobAdded', a.blobId, 1],
+        ['blobAdded', b.blobId, 2],
+        ['blobDeduplicated', a.blobId],
+        ['blobDeduplicated', a.blobId],
+        ['blobDeduplicated', b.blobId],
+        ['blobDeleted', a.blobId, 3],
+      ]);
+    });
+
+    it('should pass the properties of the blob', async () => {
+      const added: BsFsEvents['blobAdded'][] = [];
+      const deduplicated: BsFsEvents['blobDeduplicated'][] = [];
+      bs.on('blobAdded', (details) => added.push(details));
+      bs.on('blobDeduplicated', (details) => deduplicated.push(details));
+
+      const properties = await bs.setBlob('Content', { filename: 'c.txt' });
+      await bs.setBlob('Content', { tags: ['t'] });
+
+      expect(added).toEqual([
+        {
+          seq: 1,
+          type: 'added',
+          blobId: properties.blobId,
+          at: expect.any(Date),
+          properties,
+        },
+      ]);
+      expect(deduplicated).toEqual([
+        {
+          blobId: properties.blobId,
+          properties: { ...properties, tags: ['t'] },
+        },
+      ]);
+    });
+
+    it('should tell about collected and quarantined blobs', async () => {
+      const events = record(bs);
+      const collected = await bs.setBlob('Collected');
+      await bs.gc({ gracePeriodMs: 0 });
+
+      const quarantining = new BsFs(testDir, {
+        verifyOnRead: true,
+        quarantineCorruptBlobs: true,
+      });
+      const quarantined = record(quarantining);
+      const { blobId } = await quarantining.setBlob('Original');
+      const { filePath } = layoutPaths(testDir, layouts.legacy, blobId);
+      await writeFile(filePath, 'Modified');
+      await expect(quarantining.getBlob(blobId)).rejects.toThrow(
+        BlobIntegrityError,
+      );
+
+      expect(events).toEqual([
+        ['blobAdded', collected.blobId, 1],
+        ['blobDeleted', collected.blobId, 2],
+      ]);
+      expect(quarantined).toEqual([
+        ['blobAdded', blobId, 3],
+        ['blobDeleted', blobId, 4],
+      ]);
+    });
+
+    it('should stop telling removed listeners', async () => {
+      const seen: string[] = [];
+      const listener = ({ blobId }: BsFsChange) => seen.push(blobId);
+      bs.on('blobAdded', listener).on('blobDeleted', listener);
+
+      const { blobId } = await bs.setBlob('A');
+      bs.off('blobAdded', listener);
+      await bs.setBlob('B');
+      await bs.deleteBlob(blobId);
+      expect(seen).toEqual([blobId, blobId]);
+    });
+
+    it('should not tell about failed writes', async () => {
+      const full = new BsFs(testDir, { quota: { maxBlobs: 0 } });
+      const events = record(full);
+      await expect(full.setBlob('Too much')).rejects.toThrow('Quota');
+      expect(events).toEqual([]);
+      expect(await full.changeSeq()).toBe(0);
+    });
+  });
+
+  describe('changesSince', () => {
+    it('should list the changes of all instances', async () => {
+      const other = new BsFs(testDir);
+      const a = await bs.setBlob('A');
+      const b = await other.setBlob('B');
+      await other.deleteBlob(a.blobId);
+
+      expect(await collect(bs.changesSince(0))).toEqual([
+        [1, 'added', a.blobId],
+        [2, 'added', b.blobId],
+        [3, 'deleted', a.blobId],
+      ]);
+      expect(await bs.changeSeq()).toBe(3);
+    });
+
+    it('should resume after a restart', async () => {
+      await bs.setBlob('A');
+      const seq = await bs.changeSeq();
+      const b = await bs.setBlob('B');
+
+      const restarted = new BsFs(testDir);
+      expect(await collect(restarted.changesSince(seq))).toEqual([
+        [2, 'added', b.blobId],
+      ]);
+      const c = await restarted.setBlob('C');
+      expect(await collect(restarted.changesSince(2))).toEqual([
+        [3, 'added', c.blobId],
+      ]);
+    });
+
+    it('should fail once the changes were dropped', async () => {
+      bs = new BsFs(testDir, { changeLogMaxRecords: 2 });
+      for (const content of ['A', 'B', 'C']) {
+        await bs.setBlob(content);
+      }
+
+      await expect(collect(bs.changesSince(0))).rejects.toThrow(
+        ChangeLogTruncatedError,
+      );
+      expect((await collect(bs.changesSince(2))).map(([seq]) => seq)).toEqual([
+        3,
+      ]);
+    });
+
+    it('should keep numbering when the store is cleared', async () => {
+      await bs.setBlob('A');
+      await bs.clear();
+      expect(await bs.changeSeq()).toBe(2);
+
+      // Readers from before the clear missed its deletions
+      for (const seq of [0, 1]) {
+        await expect(collect(bs.changesSince(seq))).rejects.toThrow(
+          new ChangeLogTruncatedError(seq, 3),
+        );
+      }
+
+      const b = await new BsFs(testDir).setBlob('B');
+      expect(await collect(bs.changesSince(2))).toEqual([
+        [3, 'added', b.blobId],
+      ]);
+    });
+  });
+});
@@ -0,0 +1,286 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { hshBuffer } from '@rljson/hash';
+
+import { readFile, rm, stat, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { codecs, isCodecSupported } from '../src/compression.ts';
+import { BlobIntegrityError } from '../src/errors.ts';
+
+describe('BsFs compression', () => {
+  let bs: BsFs;
+  const testDir = './test-bs-fs-compression';
+
+  const text = Buffer.from(
+    Array.from({ length: 500 }, (_, i) => `{"row":${i},"ok":true}\n`).join(''),
+  );
+
+  const pathsOf = (blobId: string) => {
+    const dir = join(
+      testDir,
+      ...[0, 2, 4, 6].map((i) => blobId.substring(i, i + 2)),
+    );
+    return {
+      filePath: join(dir, `${blobId}.txt`),
+      metaPath: join(dir, `${blobId}.meta.json`),
+    };
+  };
+
+  const readMeta = async (blobId: string) =>
+    JSON.parse(await readFile(pathsOf(blobId).metaPath, 'utf8'));
+
+  const toStream = (content: Buffer, chunkSize = 100) =>
+    new ReadableStream({
+      start(controller) {
+        for (let i = 0; i < content.length; i += chunkSize) {
+          controller.enqueue(content.subarray(i, i + chunkSize));
+        }
+        controller.close();
+      },
+    });
+
+  const readAll = async (stream: ReadableStream) => {
+    const chunks: Uint8Array[] = [];
+    const reader = stream.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(async () => {
+    bs = new BsFs(testDir, { compression: 'gzip' });
+    await bs.clear();
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('codecs', () => {
+    for (const codec of codecs) {
+      it.skipIf(!isCodecSupported(codec))(
+        `should store and read ${codec} payloads`,
+        async () => {
+          const store = new BsFs(testDir, { compression: codec });
+
+          const properties = await store.setBlob(text);
+          expect(properties.blobId).toBe(hshBuffer(text));
+          expect(properties.size).toBe(text.length);
+
+          const { filePath } = pathsOf(properties.blobId);
+          expect((await stat(filePath)).size).toBeLessThan(text.length / 4);
+          expect(await readMeta(properties.blobId)).toMatchObject({
+            size: text.length,
+            codec,
+          });
+
+          const { content } = await store.getBlob(properties.blobId);
+          expect(content).toEqual(text);
+          expect(
+            await readAll(await store.getBlobStream(properties.blobId)),
+          ).toEqual(text);
+        },
+      );
+    }
+
+    it('should reject unknown codecs', () => {
+      expect(
+        () => new BsFs(testDir, { compression: { codec: 'lzma' as 'gzip' } }),
+      ).toThrow('Unknown compression codec: lzma');
+    });
+  });
+
+  describe('setBlob', () => {
+    it('should store small blobs uncompressed', async () => {
+      const { blobId } = await bs.setBlob('Small');
+
+      expect(await readMeta(blobId)).not.toHaveProperty('codec');
+      expect(await readFile(pathsOf(blobId).filePath, 'utf8')).toBe('Small');
+    });
+
+    it('should respect the configured threshold', async () => {
+      const eager = new BsFs(testDir, {
+        compression: { codec: 'gzip', minSize: 0 },
+      });
+      const { blobId } = await eager.setBlob('Small');
+
+      expect(await readMeta(blobId)).toHaveProperty('codec', 'gzip');
+      const { content } = await eager.getBlob(blobId);
+      expect(content.toString('utf8')).toBe('Small');
+    });
+
+    it('should store content uncompressed that looks compressed', async () => {
+      const png = Buffer.concat([
+        Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]),
+        text,
+      ]);
+      const { blobId } = await bs.setBlob(png);
+
+      expect(await readMeta(blobId)).not.toHaveProperty('codec');
+      expect(await readFile(pathsOf(blobId).filePath)).toEqual(png);
+    });
+
+    it('should compress streams', async () => {
+      const { blobId, size } = await bs.setBlob(toStream(text));
+
+      expect(blobId).toBe(hshBuffer(text));
+      expect(size).toBe(text.length);
+      expect(await readMeta(blobId)).toHaveProperty('codec', 'gzip');
+
+      const { content } = await bs.getBlob(blobId);
+      expect(content).toEqual(text);
+    });
+
+    it('should store small streams uncompressed', async () => {
+      const { blobId } = await bs.setBlob(toStream(Buffer.from('Small'), 2));
+
+      expect(await readMeta(blobId)).not.toHaveProperty('codec');
+      expect(await readFile(pathsOf(blobId).filePath, 'utf8')).toBe('Small');
+    });
+
+    it('should deduplicate against uncompressed blobs', async () => {
+      const raw = new BsFs(testDir);
+      const { blobId } = await raw.setBlob(text);
+
+      await bs.setBlob(text);
+      expect(await readMeta(blobId)).not.toHaveProperty('codec');
+      expect(await bs.size()).toBe(1);
+    });
+  });
+
+  describe('mixed stores', () => {
+    it('should read, list and verify blobs of all codecs', async () => {
+      const raw = new BsFs(testDir);
+      const rawBlob = await raw.setBlob(text);
+      const other = Buffer.concat([text, Buffer.from('more')]);
+      const gzipBlob = await bs.setBlob(other);
+
+      // Each instance reads payloads of the other
+      expect((await bs.getBlob(rawBlob.blobId)).content).toEqual(text);
+      expect((await raw.getBlob(gzipBlob.blobId)).content).toEqual(other);
+
+      const { blobs } = await raw.listBlobs();
+      expect(blobs.map((b) => b.size).sort()).toEqual(
+        [text.length, other.length].sort(),
+      );
+
+      expect(await raw.verify()).toEqual({ checked: 2, issues: [] });
+    });
+  });
+
+  describe('range reads', () => {
+    let blobId: string;
+
+    beforeEach(async () => {
+      ({ blobId } = await bs.setBlob(text));
+    });
+
+    it('should return the right bytes', async () => {
+      const { content, properties } = await bs.getBlob(blobId, {
+        range: { start: 1000, end: 1100 },
+      });
+      expect(content).toEqual(text.subarray(1000, 1100));
+      expect(properties.size).toBe(text.length);
+
+      const suffix = await bs.getBlob(blobId, { range: { suffix: 10 } });
+      expect(suffix.content).toEqual(text.subarray(-10));
+
+      const empty = await bs.getBlob(blobId, { range: { start: 5, end: 5 } });
+      expect(empty.content.length).toBe(0);
+    });
+
+    it('should stream the right bytes', async () => {
+      const stream = await bs.getBlobStream(blobId, {
+        range: { start: 2000 },
+      });
+      expect(await readAll(stream)).toEqual(text.subarray(2000));
+    });
+  });
+
+  describe('verifyOnRead', () => {
+    it('should verify compressed payloads', async () => {
+      const verifying = new BsFs(testDir, {
+        compression: 'gzip',
+        verifyOnRead: true,
+      });
+      const { blobId } = await verifying.setBlob(text);
+
+      expect((await verifying.getBlob(blobId)).content).toEqual(text);
+      const range = await verifying.getBlob(blobId, { range: { suffix: 5 } });
+      expect(range.content).toEqual(text.subarray(-5));
+
+      // Replace the payload with valid gzip of other content
+      const tampered = new BsFs(`${testDir}-tampered`, {
+        compression: { codec: 'gzip', minSize: 0 },
+      });
+      const { blobId: otherId } = await tampered.setBlob('Other content');
+      const otherPath = join(
+        `${testDir}-tampered`,
+        ...[0, 2, 4, 6].map((i) => otherId.substring(i, i + 2)),
+        `${otherId}.txt`,
+      );
+      await writeFile(pathsOf(blobId).filePath, await readFile(otherPath));
+      await rm(`${testDir}-tampered`, { recursive: true, force: true });
+
+      await expect(verifying.getBlob(blobId)).rejects.toThrow(
+        BlobIntegrityError,
+      );
+      await expect(
+        verifying.getBlob(blobId, { range: { start: 0, end: 1 } }),
+      ).rejects.toThrow(BlobIntegrityError);
+    });
+  });
+
+  describe('verify and repair', () => {
+    it('should rebuild missing metadata of compressed payloads', async () => {
+      const { blobId } = await bs.setBlob(text);
+      await rm(pathsOf(blobId).metaPath);
+
+      const report = await bs.repair();
+      expect(report.issues.map((i) => i.kind)).toEqual(['orphanedPayload']);
+
+      const metadata = await readMeta(blobId);
+      expect(metadata).toMatchObject({ blobId, size: text.length });
+      expect(metadata.codec).toBe('gzip');
+
+      expect(await bs.verify()).toEqual({ checked: 1, issues: [] });
+      expect((await bs.getBlob(blobId)).content).toEqual(text);
+    });
+
+    it('should fix metadata with a wrong codec', async () => {
+      const { blobId } = await bs.setBlob(text);
+      const metadata = await readMeta(blobId);
+      delete metadata.codec;
+      await writeFile(pathsOf(blobId).metaPath, JSON.stringify(metadata));
+
+      expect((await bs.verify()).issues.map((i) => i.kind)).toEqual([
+        'invalidMetadata',
+      ]);
+
+      await bs.repair();
+      expect(await readMeta(blobId)).toHaveProperty('codec', 'gzip');
+      expect(await bs.verify()).toEqual({ checked: 1, issues: [] });
+    });
+
+    it('should report undecodable payloads as corrupt', async () => {
+      const { blobId } = await bs.setBlob(text);
+      const { filePath } = pathsOf(blobId);
+      const payload = await readFile(filePath);
+      await writeFile(filePath, payload.subarray(0, payload.length / 2));
+
+      expect((await bs.verify()).issues.map((i) => i.kind)).toEqual([
+        'corrupt',
+      ]);
+    });
+  });
+});
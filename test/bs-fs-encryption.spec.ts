@@ -0,0 +1,422 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { hshBuffer } from '@rljson/hash';
+
+import { randomBytes } from 'node:crypto';
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { StaticKeyProvider } from '../src/encryption.ts';
+import { BlobDecryptionError, BlobIntegrityError } from '../src/errors.ts';
+
+describe('BsFs encryption', () => {
+  let bs: BsFs;
+  const testDir = './test-bs-fs-encryption';
+
+  const keys = { k1: randomBytes(32), k2: randomBytes(32) };
+  const withKey = (keyId: string, chunkSize = 64) =>
+    new BsFs(testDir, {
+      encryption: {
+        keyProvider: new StaticKeyProvider(keys, keyId),
+        chunkSize,
+      },
+    });
+
+  const text = Buffer.from(
+    Array.from({ length: 100 }, (_, i) => `Line ${i}\n`).join(''),
+  );
+
+  const pathsOf = (blobId: string) => {
+    const dir = join(
+      testDir,
+      ...[0, 2, 4, 6].map((i) => blobId.substring(i, i + 2)),
+    );
+    return {
+      filePath: join(dir, `${blobId}.txt`),
+      metaPath: join(dir, `${blobId}.meta.json`),
+    };
+  };
+
+  const readMeta = async (blobId: string) =>
+    JSON.parse(await readFile(pathsOf(blobId).metaPath, 'utf8'));
+
+  const readAll = async (stream: ReadableStream) => {
+    const chunks: Uint8Array[] = [];
+    const reader = stream.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  beforeEach(async () => {
+    bs = withKey('k1');
+    await bs.clear();
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('setBlob and getBlob', () => {
+    it('should store payloads encrypted', async () => {
+      const { blobId, size } = await bs.setBlob(text);
+      expect(blobId).toBe(hshBuffer(text));
+      expect(size).toBe(text.length);
+
+      const payload = await readFile(pathsOf(blobId).filePath);
+      expect(payload.includes('Line 1')).toBe(false);
+      expect(await readMeta(blobId)).toMatchObject({
+        size: text.length,
+        keyId: 'k1',
+      });
+
+      expect((await bs.getBlob(blobId)).content).toEqual(text);
+      expect(await readAll(await bs.getBlobStream(blobId))).toEqual(text);
+    });
+
+    it('should encrypt streams', async () => {
+      const { blobId } = await bs.setBlob(
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(text.subarray(0, 10));
+            controller.enqueue(text.subarray(10));
+            controller.close();
+          },
+        }),
+      );
+
+      expect(blobId).toBe(hshBuffer(text));
+      expect(await readMeta(blobId)).toHaveProperty('keyId', 'k1');
+      expect((await bs.getBlob(blobId)).content).toEqual(text);
+    });
+
+    it('should deduplicate by plaintext', async () => {
+      const first = await bs.setBlob(text);
+      const payload = await readFile(pathsOf(first.blobId).filePath);
+
+      const second = await bs.setBlob(text);
+      expect(second.blobId).toBe(first.blobId);
+      expect(await readFile(pathsOf(first.blobId).filePath)).toEqual(payload);
+    });
+
+    it('should compress before encrypting', async () => {
+      const both = new BsFs(testDir, {
+        compression: { codec: 'gzip', minSize: 0 },
+        encryption: { keyProvider: new StaticKeyProvider(keys, 'k1') },
+      });
+      const { blobId } = await both.setBlob(text);
+
+      expect(await readMeta(blobId)).toMatchObject({
+        codec: 'gzip',
+        keyId: 'k1',
+      });
+      expect((await both.getBlob(blobId)).content).toEqual(text);
+    });
+
+    it('should fail to read encrypted blobs without keys', async () => {
+      const { blobId } = await bs.setBlob(text);
+
+      await expect(new BsFs(testDir).getBlob(blobId)).rejects.toThrow(
+        `Blob is encrypted, but no keys are configured: ${blobId}`,
+      );
+    });
+
+    it('should fail to read tampered blobs', async () => {
+      const { blobId } = await bs.setBlob(text);
+      const { filePath } = pathsOf(blobId);
+      const payload = await readFile(filePath);
+      payload[payload.length - 1]! ^= 1;
+      await writeFile(filePath, payload);
+
+      await expect(bs.getBlob(blobId)).rejects.toThrow(BlobDecryptionError);
+    });
+  });
+
+  describe('metadata', () => {
+    const secret = {
+      contentType: 'text/x-secret',
+      filename: 'secret.txt',
+      tags: ['hidden'],
+    };
+
+    it('should store metadata encrypted', async () => {
+      const { blobId } = await bs.setBlob(text, secret);
+
+      const stored = await readFile(pathsOf(blobId).metaPath, 'utf8');
+      const index = await readFile(join(testDir, 'bs-fs.index.log'), 'utf8');
+      for (const file of [stored, index]) {
+        expect(file).toContain(blobId);
+        expect(file).not.toMatch(/secret|hidden/);
+      }
+      expect(await readMeta(blobId)).toMatchObject({
+        blobId,
+        size: text.length,
+        sealed: { keyId: 'k1' },
+      });
+
+      // Readable by other instances, also after rebuilding the index
+      const other = withKey('k1');
+      expect(await other.getBlobProperties(blobId)).toMatchObject(secret);
+      await other.rebuildIndex();
+      const { blobs } = await other.listBlobs({ tag: 'hidden' });
+      expect(blobs.map((b) => b.filename)).toEqual(['secret.txt']);
+    });
+
+    it('should hide metadata that can not be decrypted', async () => {
+      const { blobId } = await bs.setBlob(text, secret);
+      const other = await bs.setBlob('Other', { filename: 'other.txt' });
+
+      // Sealed metadata is bound to its blob
+      await writeFile(
+        pathsOf(other.blobId).metaPath,
+        JSON.stringify({
+          ...(await readMeta(other.blobId)),
+          sealed: (await readMeta(blobId)).sealed,
+        }),
+      );
+      const properties = await withKey('k1').getBlobProperties(other.blobId);
+      expect(properties.filename).toBeUndefined();
+      expect(await withKey('k1').rotateKeys()).toEqual({
+        checked: 2,
+        rotated: 0,
+      });
+
+      // Without keys, blobs are listed without metadata, which stays sealed
+      const keyless = new BsFs(testDir);
+      await keyless.rebuildIndex();
+      expect((await keyless.getBlobProperties(blobId)).tags).toBeUndefined();
+      expect((await keyless.listBlobs()).blobs).toHaveLength(2);
+      const { blobs } = await withKey('k1').listBlobs({ tag: 'hidden' });
+      expect(blobs.map((b) => b.blobId)).toEqual([blobId]);
+    });
+
+    it('should keep sealed metadata when repairing', async () => {
+      const { blobId } = await bs.setBlob(text, secret);
+      const metadata = await readMeta(blobId);
+      await writeFile(
+        pathsOf(blobId).metaPath,
+        JSON.stringify({ ...metadata, keyId: 'k2' }),
+      );
+
+      expect((await bs.repair()).issues.map((i) => i.kind)).toEqual([
+        'invalidMetadata',
+      ]);
+      expect(await withKey('k1').getBlobProperties(blobId)).toMatchObject(
+        secret,
+      );
+    });
+  });
+
+  describe('range reads', () => {
+    it('should read ranges of encrypted blobs', async () => {
+      const { blobId } = await bs.setBlob(text);
+
+      for (const [start, end] of [
+        [0, 10],
+        [60, 200],
+        [100, 100],
+      ]) {
+        const { content } = await bs.getBlob(blobId, { range: { start, end } });
+        expect(content).toEqual(text.subarray(start, end));
+      }
+
+      const suffix = await bs.getBlob(blobId, { range: { suffix: 7 } });
+      expect(suffix.content).toEqual(text.subarray(-7));
+
+      const stream = await bs.getBlobStream(blobId, {
+        range: { start: 100, end: 300 },
+      });
+      expect(await readAll(stream)).toEqual(text.subarray(100, 300));
+    });
+
+    it('should read ranges of compressed and encrypted blobs', async () => {
+      const both = new BsFs(testDir, {
+        compression: { codec: 'gzip', minSize: 0 },
+        encryption: { keyProvider: new StaticKeyProvider(keys, 'k1') },
+      });
+      const { blobId } = await both.setBlob(text);
+
+      const { content } = await both.getBlob(blobId, {
+        range: { start: 500, end: 600 },
+      });
+      expect(content).toEqual(text.subarray(500, 600));
+    });
+
+    it('should verify ranges of encrypted blobs', async () => {
+      const { blobId } = await bs.setBlob(text);
+      const other = await bs.setBlob('Other');
+      await writeFile(
+        pathsOf(blobId).filePath,
+        await readFile(pathsOf(other.blobId).filePath),
+      );
+
+      await expect(
+        bs.getBlob(blobId, { range: { start: 0, end: 1 }, verify: true }),
+      ).rejects.toThrow(BlobIntegrityError);
+    });
+  });
+
+  describe('verify and repair', () => {
+    it('should report nothing for a healthy store', async () => {
+      await bs.setBlob(text);
+      await bs.setBlob('Small');
+
+      expect(await bs.verify()).toEqual({ checked: 2, issues: [] });
+    });
+
+    it('should report tampered payloads as corrupt', async () => {
+      const { blobId } = await bs.setBlob(text);
+      const { filePath } = pathsOf(blobId);
+      const payload = await readFile(filePath);
+      payload[40]! ^= 1;
+      await writeFile(filePath, payload);
+
+      const { issues } = await bs.verify();
+      expect(issues).toMatchObject([
+        { kind: 'corrupt', blobId, message: "Payload can't be decrypted" },
+      ]);
+    });
+
+    it('should rebuild metadata of encrypted payloads', async () => {
+      const { blobId } = await bs.setBlob(text);
+      await rm(pathsOf(blobId).metaPath);
+
+      await bs.repair();
+      expect(await readMeta(blobId)).toMatchObject({
+        size: text.length,
+        keyId: 'k1',
+      });
+      expect(await bs.verify()).toEqual({ checked: 1, issues: [] });
+    });
+
+    it('should report metadata naming the wrong key', async () => {
+      const { blobId } = await bs.setBlob(text);
+      const metadata = await readMeta(blobId);
+      await writeFile(
+        pathsOf(blobId).metaPath,
+        JSON.stringify({ ...metadata, keyId: 'k2' }),
+      );
+
+      expect((await bs.verify()).issues.map((i) => i.kind)).toEqual([
+        'invalidMetadata',
+      ]);
+    });
+
+    it('should need keys to verify encrypted payloads', async () => {
+      await bs.setBlob(text);
+      await expect(new BsFs(testDir).verify()).rejects.toThrow(
+        'Blob is encrypted, but no keys are configured',
+      );
+    });
+  });
+
+  describe('rotateKeys', () => {
+    it('should re-encrypt blobs with the current key', async () => {
+      const plain = new BsFs(testDir);
+      const unencrypted = await plain.setBlob('Unencrypted');
+      const old = await bs.setBlob(text, { contentType: 'text/plain' });
+
+      const rotating = withKey('k2');
+      expect(await rotating.rotateKeys()).toEqual({ checked: 2, rotated: 2 });
+
+      for (const { blobId } of [unencrypted, old]) {
+        expect(await readMeta(blobId)).toHaveProperty('keyId', 'k2');
+      }
+      expect((await rotating.getBlob(old.blobId)).content).toEqual(text);
+      expect((await rotating.getBlob(unencrypted.blobId)).content).toEqual(
+        Buffer.from('Unencrypted'),
+      );
+      expect(await rotating.verify()).toEqual({ checked: 2, issues: [] });
+
+      // Nothing left to do
+      expect(await rotating.rotateKeys()).toEqual({ checked: 2, rotated: 0 });
+
+      // The old key is no longer needed
+      const k2Only = new BsFs(testDir, {
+        encryption: {
+          keyProvider: new StaticKeyProvider({ k2: keys.k2 }, 'k2'),
+        },
+      });
+      expect((await k2Only.getBlob(old.blobId)).content).toEqual(text);
+      expect(await k2Only.getBlobProperties(old.blobId)).toHaveProperty(
+        'contentType',
+        'text/plain',
+      );
+      expect(
+        (await k2Only.listBlobs()).blobs.map((b) => b.contentType),
+      ).toContain('text/plain');
+    });
+
+    it('should seal metadata with the current key', async () => {
+      const { blobId } = await withKey('k2').setBlob(text);
+      await bs.setBlobMetadata(blobId, { filename: 'old.txt' });
+      expect(await readMeta(blobId)).toMatchObject({
+        keyId: 'k2',
+        sealed: { keyId: 'k1' },
+      });
+
+      // Blobs without metadata are up to date
+      const bare = await withKey('k2').setBlob('Bare');
+      expect(await readMeta(bare.blobId)).not.toHaveProperty('sealed');
+
+      expect(await withKey('k2').rotateKeys()).toEqual({
+        checked: 2,
+        rotated: 1,
+      });
+      expect(await readMeta(blobId)).toMatchObject({
+        keyId: 'k2',
+        sealed: { keyId: 'k2' },
+      });
+    });
+
+    it('should keep compressed payloads compressed', async () => {
+      const both = new BsFs(testDir, {
+        compression: { codec: 'gzip', minSize: 0 },
+        encryption: { keyProvider: new StaticKeyProvider(keys, 'k1') },
+      });
+      const { blobId } = await both.setBlob(text);
+
+      await withKey('k2').rotateKeys();
+      expect(await readMeta(blobId)).toMatchObject({
+        codec: 'gzip',
+        keyId: 'k2',
+      });
+      expect((await withKey('k2').getBlob(blobId)).content).toEqual(text);
+    });
+
+    it('should skip blobs deleted meanwhile', async () => {
+      const { blobId } = await bs.setBlob(text);
+      await rm(pathsOf(blobId).metaPath);
+
+      expect(await withKey('k2').rotateKeys()).toEqual({
+        checked: 1,
+        rotated: 0,
+      });
+    });
+
+    it('should stop when aborted', async () => {
+      await bs.setBlob(text);
+      const controller = new AbortController();
+      controller.abort(new Error('Stopped'));
+
+      await expect(
+        withKey('k2').rotateKeys({ signal: controller.signal }),
+      ).rejects.toThrow('Stopped');
+    });
+
+    it('should need encryption to be configured', async () => {
+      await expect(new BsFs(testDir).rotateKeys()).rejects.toThrow(
+        'Encryption is not configured',
+      );
+    });
+  });
+});
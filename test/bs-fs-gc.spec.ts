@@ -0,0 +1,247 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import {
+  BlobNotFoundError,
+  BlobNotRetainedError,
+  BlobReferencedError,
+} from '../src/errors.ts';
+
+describe('BsFs reference counting and gc', () => {
+  let bs: BsFs;
+  const testDir = './test-bs-fs-gc';
+
+  const metaPathOf = (blobId: string) =>
+    join(
+      testDir,
+      ...[0, 2, 4, 6].map((i) => blobId.substring(i, i + 2)),
+      `${blobId}.meta.json`,
+    );
+
+  const readMeta = async (blobId: string) =>
+    JSON.parse(await readFile(metaPathOf(blobId), 'utf8'));
+
+  // Pretend a blob was created long ago
+  const age = async (blobId: string) => {
+    const metadata = await readMeta(blobId);
+    metadata.createdAt = new Date(Date.now() - 3_600_000).toISOString();
+    await writeFile(metaPathOf(blobId), JSON.stringify(metadata));
+  };
+
+  beforeEach(async () => {
+    bs = new BsFs(testDir);
+    await bs.clear();
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('retain and release', () => {
+    it('should count owners in the metadata', async () => {
+      const { blobId } = await bs.setBlob('Shared');
+      expect(await bs.refCount(blobId)).toBe(0);
+
+      expect(await bs.retain(blobId)).toBe(1);
+      expect(await bs.retain(blobId)).toBe(2);
+      expect(await bs.refCount(blobId)).toBe(2);
+      expect((await readMeta(blobId)).refCount).toBe(2);
+
+      expect(await bs.release(blobId)).toBe(1);
+      expect(await bs.release(blobId)).toBe(0);
+
+      const metadata = await readMeta(blobId);
+      expect(metadata.refCount).toBeUndefined();
+      expect(Date.parse(metadata.releasedAt)).toBeLessThanOrEqual(Date.now());
+
+      expect(await bs.retain(blobId)).toBe(1);
+      expect((await readMeta(blobId)).releasedAt).toBeUndefined();
+    });
+
+    it('should not lose concurrent updates', async () => {
+      const { blobId } = await bs.setBlob('Shared');
+      await Promise.all(Array.from({ length: 10 }, () => bs.retain(blobId)));
+      expect(await bs.refCount(blobId)).toBe(10);
+    });
+
+    it('should reject releasing blobs nobody retains', async () => {
+      const { blobId } = await bs.setBlob('Unowned');
+      const error = await bs.release(blobId).catch((e) => e);
+      expect(error).toBeInstanceOf(BlobNotRetainedError);
+      expect(error).toMatchObject({
+        blobId,
+        message: `Blob is not retained: ${blobId}`,
+      });
+    });
+
+    it('should throw BlobNotFoundError for unknown blobs', async () => {
+      for (const call of [
+        () => bs.retain('unknown'),
+        () => bs.release('unknown'),
+        () => bs.refCount('unknown'),
+      ]) {
+        await expect(call()).rejects.toThrow(BlobNotFoundError);
+      }
+    });
+
+    it('should keep retained blobs from being deleted', async () => {
+      const { blobId } = await bs.setBlob('Shared');
+      await bs.retain(blobId);
+
+      const error = await bs.deleteBlob(blobId).catch((e) => e);
+      expect(error).toBeInstanceOf(BlobReferencedError);
+      expect(error.refCount).toBe(1);
+      expect(error.message).toBe(
+        `Blob is still referenced: ${blobId} (1 owners)`,
+      );
+      expect(await bs.blobExists(blobId)).toBe(true);
+
+      await bs.release(blobId);
+      await bs.deleteBlob(blobId);
+      expect(await bs.blobExists(blobId)).toBe(false);
+    });
+
+    it('should keep owners when repairing metadata', async () => {
+      const { blobId } = await bs.setBlob('Shared');
+      await bs.retain(blobId);
+      const metadata = await readMeta(blobId);
+      await writeFile(
+        metaPathOf(blobId),
+        JSON.stringify({ ...metadata, size: 1 }),
+      );
+
+      await bs.repair();
+      expect(await readMeta(blobId)).toEqual(metadata);
+
+      // Invalid counts are dropped
+      for (const refCount of ['many', -1]) {
+        await writeFile(
+          metaPathOf(blobId),
+          JSON.stringify({ ...metadata, size: 1, refCount }),
+        );
+        await bs.repair();
+        expect(await bs.refCount(blobId)).toBe(0);
+      }
+
+      await writeFile(metaPathOf(blobId), 'null');
+      await bs.repair();
+      expect(await bs.refCount(blobId)).toBe(0);
+
+      // Release dates are kept as well
+      await bs.retain(blobId);
+      await bs.release(blobId);
+      const released = await readMeta(blobId);
+      await writeFile(
+        metaPathOf(blobId),
+        JSON.stringify({ ...released, size: 1 }),
+      );
+      await bs.repair();
+      expect(await readMeta(blobId)).toEqual(released);
+    });
+  });
+
+  describe('gc', () => {
+    it('should delete blobs neither retained nor referenced', async () => {
+      const retained = await bs.setBlob('Retained');
+      const referenced = await bs.setBlob('Referenced');
+      const garbage = await bs.setBlob('Garbage');
+      await bs.retain(retained.blobId);
+
+      const report = await bs.gc({
+        roots: [referenced.blobId],
+        gracePeriodMs: 0,
+      });
+      expect(report).toEqual({
+        checked: 3,
+        live: 2,
+        recent: 0,
+        deleted: [garbage.blobId],
+        deletedBytes: 7,
+      });
+
+      expect(await bs.blobExists(garbage.blobId)).toBe(false);
+      expect(await bs.size()).toBe(2);
+    });
+
+    it('should accept functions and async iterables as roots', async () => {
+      const { blobId } = await bs.setBlob('Referenced');
+      await bs.setBlob('Garbage');
+
+      const walk = async function* () {
+        yield blobId;
+      };
+
+      for (const roots of [
+        walk(),
+        walk,
+        () => [blobId],
+        async () => new Set([blobId]),
+      ]) {
+        const report = await bs.gc({ roots, gracePeriodMs: 0, dryRun: true });
+        expect(report.live).toBe(1);
+        expect(report.deleted).toHaveLength(1);
+      }
+    });
+
+    it('should only report on dry runs', async () => {
+      const { blobId } = await bs.setBlob('Garbage');
+
+      const report = await bs.gc({ gracePeriodMs: 0, dryRun: true });
+      expect(report.deleted).toEqual([blobId]);
+      expect(report.deletedBytes).toBe(7);
+      expect(await bs.blobExists(blobId)).toBe(true);
+    });
+
+    it('should keep blobs during the grace period', async () => {
+      const fresh = await bs.setBlob('Fresh');
+      const old = await bs.setBlob('Old');
+      const released = await bs.setBlob('Released');
+      await age(old.blobId);
+      await age(released.blobId);
+      await bs.retain(released.blobId);
+      await bs.release(released.blobId);
+
+      const report = await bs.gc();
+      expect(report.recent).toBe(2);
+      expect(report.deleted).toEqual([old.blobId]);
+      expect(await bs.blobExists(fresh.blobId)).toBe(true);
+      expect(await bs.blobExists(released.blobId)).toBe(true);
+    });
+
+    it('should cope with many blobs and an empty store', async () => {
+      expect(await bs.gc()).toEqual({
+        checked: 0,
+        live: 0,
+        recent: 0,
+        deleted: [],
+        deletedBytes: 0,
+      });
+
+      for (let i = 0; i < 150; i++) {
+        await bs.setBlob(`Blob ${i}`);
+      }
+      const report = await bs.gc({ gracePeriodMs: 0 });
+      expect(report.checked).toBe(150);
+      expect(report.deleted).toHaveLength(150);
+      expect(await bs.size()).toBe(0);
+    });
+
+    it('should skip blobs whose metadata vanished', async () => {
+      const { blobId } = await bs.setBlob('Vanishing');
+      await bs.size();
+      await rm(metaPathOf(blobId));
+
+      const report = await bs.gc({ gracePeriodMs: 0 });
+      expect(report.checked).toBe(1);
+      expect(report.deleted).toEqual([]);
+    });
+  });
+});
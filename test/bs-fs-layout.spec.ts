@@ -0,0 +1,386 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import {
+  link,
+  mkdir,
+  readdir,
+  readFile,
+  rm,
+  writeFile,
+} from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { LockTimeoutError } from '../src/errors.ts';
+import { layoutPaths, layouts, ResolvedLayout } from '../src/layout.ts';
+
+describe('BsFs layouts', () => {
+  let bs: BsFs;
+  const testDir = './test-bs-fs-layout';
+  const manifestPath = join(testDir, 'bs-fs.manifest.json');
+  const indexPath = join(testDir, 'bs-fs.index.log');
+  const changesPath = join(testDir, 'bs-fs.changes.log');
+
+  const pathsOf = (layout: ResolvedLayout, blobId: string) =>
+    layoutPaths(testDir, layout, blobId);
+
+  const exists = async (path: string) =>
+    readFile(path).then(
+      () => true,
+      () => false,
+    );
+
+  const manifest = async () => JSON.parse(await readFile(manifestPath, 'utf8'));
+
+  // The layouts recorded in the manifest
+  const recorded = async () => {
+    const { layout, previousLayout } = await manifest();
+    return { layout, previousLayout };
+  };
+
+  // All files below the base directory
+  const files = async () =>
+    (await readdir(testDir, { recursive: true, withFileTypes: true }))
+      .filter((entry) => entry.isFile())
+      .map((entry) => join(entry.parentPath, entry.name));
+
+  // A signal stopping a migration after the given number of blobs
+  const stopAfter = (blobs: number) =>
+    ({
+      throwIfAborted: () => {
+        if (blobs-- === 0) {
+          throw new Error('Stopped');
+        }
+      },
+    }) as AbortSignal;
+
+  beforeEach(async () => {
+    bs = new BsFs(testDir);
+    await bs.clear();
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('layout option', () => {
+    it('should keep the legacy layout by default', async () => {
+      const { blobId } = await bs.setBlob('Legacy');
+      expect(await exists(pathsOf(layouts.legacy, blobId).filePath)).toBe(true);
+      expect(await recorded()).toEqual({ layout: layouts.legacy });
+    });
+
+    it('should place blobs flat', async () => {
+      bs = new BsFs(testDir, { layout: 'flat' });
+      const { blobId } = await bs.setBlob('Flat', { tags: ['t'] });
+
+      expect((await files()).sort()).toEqual(
+        [
+          manifestPath,
+          indexPath,
+          changesPath,
+          join(testDir, `${blobId}.bin`),
+          join(testDir, `${blobId}.meta.json`),
+        ].sort(),
+      );
+      expect(await recorded()).toEqual({ layout: layouts.flat });
+
+      expect((await bs.getBlob(blobId)).content.toString()).toBe('Flat');
+      expect((await bs.getBlobProperties(blobId)).tags).toEqual(['t']);
+      expect(await bs.verify()).toEqual({ checked: 1, issues: [] });
+      await bs.deleteBlob(blobId);
+      expect((await files()).sort()).toEqual(
+        [manifestPath, indexPath, changesPath].sort(),
+      );
+    });
+
+    it('should not find ids leaving the store', async () => {
+      bs = new BsFs(testDir, { layout: 'flat' });
+      await bs.setBlob('Flat');
+      const victimDir = `${testDir}-victim`;
+      await mkdir(victimDir, { recursive: true });
+      await writeFile(join(victimDir, 'x.bin'), 'Victim');
+      await writeFile(join(victimDir, 'x.meta.json'), '{}');
+      const blobId = `../${victimDir}/x`;
+
+      try {
+        await expect(bs.getBlob(blobId)).rejects.toThrow(
+          `Blob not found: ${blobId}`,
+        );
+        await expect(bs.deleteBlob(blobId)).rejects.toThrow('Blob not found');
+        expect(await bs.blobExists(blobId)).toBe(false);
+        expect(await exists(join(victimDir, 'x.bin'))).toBe(true);
+        expect(await exists(join(victimDir, 'x.meta.json'))).toBe(true);
+      } finally {
+        await rm(victimDir, { recursive: true, force: true });
+      }
+    });
+
+    it('should place blobs in configurable directories', async () => {
+      const layout = { depth: 3, width: 1 };
+      bs = new BsFs(testDir, { layout });
+      const stream = new Blob(['Streamed']).stream();
+      const { blobId } = await bs.setBlob(stream);
+
+      const expected = pathsOf({ ...layout, extension: '.bin' }, blobId);
+      expect(expected.dir).toBe(join(testDir, ...blobId.slice(0, 3)));
+      expect(await exists(expected.filePath)).toBe(true);
+      expect(await exists(expected.metaPath)).toBe(true);
+    });
+
+    it('should keep the layout of existing stores', async () => {
+      bs = new BsFs(testDir, { layout: 'flat' });
+      const a = await bs.setBlob('A');
+
+      const reopened = new BsFs(testDir, { layout: 'sharded' });
+      expect(await reopened.blobExists(a.blobId)).toBe(true);
+      const b = await reopened.setBlob('B');
+      expect(await exists(pathsOf(layouts.flat, b.blobId).filePath)).toBe(true);
+    });
+
+    it('should treat stores without manifest as legacy', async () => {
+      const a = await bs.setBlob('A');
+      await rm(manifestPath);
+
+      const reopened = new BsFs(testDir, { layout: 'flat' });
+      expect((await reopened.getBlob(a.blobId)).content.toString()).toBe('A');
+      const b = await reopened.setBlob('B');
+      expect(await exists(pathsOf(layouts.legacy, b.blobId).filePath)).toBe(
+        true,
+      );
+      expect(await recorded()).toEqual({ layout: layouts.legacy });
+    });
+
+    it('should adopt a manifest written by another process', async () => {
+      const first = new BsFs(testDir, { layout: 'flat' });
+      const second = new BsFs(testDir, { layout: 'sharded' });
+
+      // Both look at the empty store before either writes
+      expect(await first.size()).toBe(0);
+      expect(await second.blobExists('x')).toBe(false);
+
+      await first.setBlob('First');
+      const { blobId } = await second.setBlob('Second');
+      expect(await exists(pathsOf(layouts.flat, blobId).filePath)).toBe(true);
+    });
+
+    it('should record the layout with the next write if it failed', async () => {
+      // Pretend another live process holds the lock
+      await mkdir(testDir, { recursive: true });
+      const lockPath = join(testDir, 'bs-fs.lock');
+      await writeFile(
+        lockPath,
+        JSON.stringify({ pid: process.pid, hostname: hostname(), token: 'x' }),
+      );
+
+      bs = new BsFs(testDir, { layout: 'flat', lockTimeoutMs: 50 });
+      await expect(bs.setBlob('Locked')).rejects.toThrow(LockTimeoutError);
+      expect(await exists(manifestPath)).toBe(false);
+
+      await rm(lockPath);
+      await bs.setBlob('Unlocked');
+      expect(await recorded()).toEqual({ layout: layouts.flat });
+    });
+
+    it('should reject invalid layouts', () => {
+      expect(() => new BsFs(testDir, { layout: { width: 0 } })).toThrow(
+        'Invalid layout: {"width":0}',
+      );
+    });
+  });
+
+  describe('migrateLayout', () => {
+    it('should move all blobs into the new layout', async () => {
+      const a = await bs.setBlob('A', { filename: 'a.txt' });
+      const b = await bs.setBlob('B');
+      const c = await bs.setBlob('C');
+      await bs.retain(a.blobId);
+
+      const report = await bs.migrateLayout('flat');
+      expect(report).toEqual({ checked: 3, moved: 3 });
+      expect(await recorded()).toEqual({ layout: layouts.flat });
+
+      // The directories of the old layout are gone
+      const entries = await readdir(testDir, { withFileTypes: true });
+      expect(entries.filter((entry) => entry.isDirectory())).toEqual([]);
+      for (const { blobId } of [a, b, c]) {
+        expect(await exists(pathsOf(layouts.flat, blobId).filePath)).toBe(true);
+      }
+
+      expect(await bs.getBlobProperties(a.blobId)).toEqual(a);
+      expect(await bs.refCount(a.blobId)).toBe(1);
+      expect((await bs.getBlob(b.blobId)).content.toString()).toBe('B');
+      expect(await bs.verify()).toEqual({ checked: 3, issues: [] });
+
+      // Other instances see the new layout
+      const reopened = new BsFs(testDir);
+      expect((await reopened.getBlob(c.blobId)).content.toString()).toBe('C');
+    });
+
+    it('should keep blobs readable while migrating', async () => {
+      const blobs = await Promise.all(
+        ['A', 'B', 'C', 'D'].map((content) => bs.setBlob(content)),
+      );
+      await expect(
+        bs.migrateLayout('sharded', { signal: stopAfter(2) }),
+      ).rejects.toThrow('Stopped');
+      expect(await recorded()).toEqual({
+        layout: layouts.sharded,
+        previousLayout: layouts.legacy,
+      });
+
+      for (const blob of blobs) {
+        const { content } = await bs.getBlob(blob.blobId);
+        expect(await bs.getBlobProperties(blob.blobId)).toEqual(blob);
+        expect(
+          await new Response(await bs.getBlobStream(blob.blobId)).text(),
+        ).toBe(content.toString());
+      }
+
+      // Storing an unmoved blob again doesn't duplicate it
+      const index = (await bs.listBlobs()).blobs.map((blob) => blob.blobId);
+      const unmoved = [];
+      for (const blobId of index) {
+        if (await exists(pathsOf(layouts.legacy, blobId).metaPath)) {
+          unmoved.push(blobId);
+        }
+      }
+      expect(unmoved).toHaveLength(2);
+      const [kept, deleted] = unmoved as [string, string];
+      const content = (await bs.getBlob(kept)).content;
+      await bs.setBlob(content, { tags: ['again'] });
+      await bs.setBlob(
+        Readable.toWeb(Readable.from([content])) as ReadableStream,
+      );
+      expect(await exists(pathsOf(layouts.sharded, kept).filePath)).toBe(false);
+      expect((await bs.getBlobProperties(kept)).tags).toEqual(['again']);
+
+      // Unmoved blobs can be deleted, new blobs go into the new layout
+      await bs.deleteBlob(deleted);
+      expect(await exists(pathsOf(layouts.legacy, deleted).filePath)).toBe(
+        false,
+      );
+      const { blobId } = await bs.setBlob('New');
+      expect(await exists(pathsOf(layouts.sharded, blobId).filePath)).toBe(
+        true,
+      );
+      expect(await bs.verify()).toEqual({ checked: 4, issues: [] });
+
+      // Another migration has to wait
+      await expect(bs.migrateLayout('flat')).rejects.toThrow(
+        'Another layout migration is in progress',
+      );
+
+      // Continue
+      const report = await bs.migrateLayout('sharded');
+      expect(report).toEqual({ checked: 4, moved: 1 });
+      expect(await recorded()).toEqual({ layout: layouts.sharded });
+      expect(await exists(pathsOf(layouts.legacy, kept).filePath)).toBe(false);
+      expect(await bs.verify()).toEqual({ checked: 4, issues: [] });
+    });
+
+    it('should change the extension only', async () => {
+      const { blobId } = await bs.setBlob('Renamed');
+      const legacy = pathsOf(layouts.legacy, blobId);
+      const layout = { ...layouts.legacy, extension: '.bin' as const };
+      const target = pathsOf(layout, blobId);
+
+      // A migration interrupted after linking the payload
+      await link(legacy.filePath, target.filePath);
+      expect((await bs.getBlob(blobId)).content.toString()).toBe('Renamed');
+
+      expect(await bs.migrateLayout(layout)).toEqual({ checked: 1, moved: 1 });
+      expect(await exists(legacy.filePath)).toBe(false);
+      expect(await exists(target.filePath)).toBe(true);
+      expect((await bs.getBlob(blobId)).content.toString()).toBe('Renamed');
+      expect(await bs.verify()).toEqual({ checked: 1, issues: [] });
+    });
+
+    it('should find unmoved blobs if only the extension changes', async () => {
+      const a = await bs.setBlob('A');
+      const b = await bs.setBlob('B');
+      const layout = { ...layouts.legacy, extension: '.bin' as const };
+      await expect(
+        bs.migrateLayout(layout, { signal: stopAfter(1) }),
+      ).rejects.toThrow('Stopped');
+
+      for (const { blobId } of [a, b]) {
+        expect(await bs.getBlobStream(blobId)).toBeDefined();
+        expect(await bs.blobExists(blobId)).toBe(true);
+      }
+      expect(await bs.migrateLayout(layout)).toEqual({ checked: 2, moved: 1 });
+    });
+
+    it('should keep directories holding other files', async () => {
+      const { blobId } = await bs.setBlob('A');
+      const { dir } = pathsOf(layouts.legacy, blobId);
+      await writeFile(join(dir, 'notes'), 'Not a blob');
+
+      await bs.migrateLayout('flat');
+      expect(await exists(join(dir, 'notes'))).toBe(true);
+    });
+
+    it('should do nothing for the current layout', async () => {
+      await bs.setBlob('A');
+      expect(await bs.migrateLayout('legacy')).toEqual({
+        checked: 0,
+        moved: 0,
+      });
+      expect(await recorded()).toEqual({ layout: layouts.legacy });
+    });
+
+    it('should migrate back to the legacy layout', async () => {
+      bs = new BsFs(testDir, { layout: 'flat' });
+      const { blobId } = await bs.setBlob('Back');
+
+      expect(await bs.migrateLayout('legacy')).toEqual({
+        checked: 1,
+        moved: 1,
+      });
+      expect(await recorded()).toEqual({ layout: layouts.legacy });
+      expect(await exists(pathsOf(layouts.legacy, blobId).filePath)).toBe(true);
+    });
+
+    it('should fail on blobs without payload', async () => {
+      const { blobId } = await bs.setBlob('Lost');
+      await rm(pathsOf(layouts.legacy, blobId).filePath);
+
+      await expect(bs.migrateLayout('flat')).rejects.toThrow('ENOENT');
+    });
+  });
+
+  describe('verify', () => {
+    it('should move payloads with the wrong extension', async () => {
+      bs = new BsFs(testDir, { layout: 'flat' });
+      const { blobId } = await bs.setBlob('Misnamed');
+      const { filePath } = pathsOf(layouts.flat, blobId);
+      const misnamed = join(testDir, `${blobId}.txt`);
+      await link(filePath, misnamed);
+      await rm(filePath);
+
+      expect((await bs.verify()).issues.map((issue) => issue.kind)).toEqual([
+        'misplaced',
+      ]);
+      await bs.repair();
+      expect(await bs.verify()).toEqual({ checked: 1, issues: [] });
+      expect((await bs.getBlob(blobId)).content.toString()).toBe('Misnamed');
+    });
+
+    it('should report metadata without payload', async () => {
+      bs = new BsFs(testDir, { layout: 'flat' });
+      const { blobId } = await bs.setBlob('Orphan');
+      await rm(pathsOf(layouts.flat, blobId).filePath);
+
+      expect((await bs.verify()).issues.map((issue) => issue.kind)).toEqual([
+        'orphanedMetadata',
+      ]);
+    });
+  });
+});
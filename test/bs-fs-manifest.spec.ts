@@ -0,0 +1,212 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { randomBytes } from 'node:crypto';
+import { mkdir, readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { StaticKeyProvider } from '../src/encryption.ts';
+import { IncompatibleStoreError } from '../src/errors.ts';
+import { layouts } from '../src/layout.ts';
+
+describe('BsFs manifest', () => {
+  const testDir = './test-bs-fs-manifest';
+  const manifestPath = join(testDir, 'bs-fs.manifest.json');
+
+  const encryption = {
+    keyProvider: new StaticKeyProvider({ k1: randomBytes(32) }, 'k1'),
+  };
+
+  const manifest = async () => JSON.parse(await readFile(manifestPath, 'utf8'));
+
+  beforeEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('constructor', () => {
+    it('should write a versioned manifest with the first write', async () => {
+      const bs = new BsFs(testDir, { compression: 'gzip' });
+      expect(await bs.blobExists('x')).toBe(false);
+      expect(await readdir(testDir).catch(() => [])).toEqual([]);
+
+      await bs.setBlob('First');
+      expect(await manifest()).toEqual({
+        format: 'bs-fs',
+        version: 1,
+        hashAlgorithm: 'sha256',
+        layout: layouts.legacy,
+        features: ['compression'],
+      });
+    });
+
+    it('should add the features of later writers', async () => {
+      await new BsFs(testDir).setBlob('Plain');
+      expect((await manifest()).features).toEqual([]);
+
+      await new BsFs(testDir, { encryption }).setBlob('Secret');
+      await new BsFs(testDir, { compression: 'brotli' }).setBlob('Packed');
+      await new BsFs(testDir).setBlob('Plain again');
+      expect((await manifest()).features).toEqual([
+        'compression',
+        'encryption',
+      ]);
+    });
+
+    it('should refuse stores written by newer versions', async () => {
+      const { blobId } = await new BsFs(testDir).setBlob('Old');
+      await writeFile(
+        manifestPath,
+        JSON.stringify({ ...(await manifest()), version: 2 }),
+      );
+
+      const bs = new BsFs(testDir);
+      await expect(bs.getBlob(blobId)).rejects.toThrow(IncompatibleStoreError);
+      await expect(bs.setBlob('New')).rejects.toThrow(
+        'format version 2 is newer than the supported version 1',
+      );
+    });
+  });
+
+  describe('create', () => {
+    it('should create a store with its manifest', async () => {
+      const bs = await BsFs.create(testDir, { layout: 'flat', encryption });
+      expect(await manifest()).toMatchObject({
+        layout: layouts.flat,
+        features: ['encryption'],
+      });
+
+      const { blobId } = await bs.setBlob('Created');
+      expect(await readdir(testDir)).toContain(`${blobId}.bin`);
+    });
+
+    it('should create stores in empty directories', async () => {
+      await mkdir(testDir);
+      await BsFs.create(testDir);
+      expect((await manifest()).layout).toEqual(layouts.legacy);
+    });
+
+    it('should refuse directories that are not empty', async () => {
+      await BsFs.create(testDir);
+      await expect(BsFs.create(testDir)).rejects.toThrow(
+        new IncompatibleStoreError(testDir, 'the directory is not empty'),
+      );
+
+      await rm(manifestPath);
+      await writeFile(join(testDir, 'notes.txt'), 'Not a store');
+      await expect(BsFs.create(testDir)).rejects.toThrow(
+        'Incompatible store at ./test-bs-fs-manifest: the directory is not empty',
+      );
+    });
+  });
+
+  describe('open', () => {
+    it('should open existing stores', async () => {
+      await BsFs.create(testDir, { layout: 'sharded' });
+
+      // Without a layout option, the layout of the store is used
+      const bs = await BsFs.open(testDir);
+      const { blobId } = await bs.setBlob('Opened');
+      expect(
+        await readdir(join(testDir, blobId.slice(0, 2), blobId.slice(2, 4))),
+      ).toContain(`${blobId}.bin`);
+      expect((await bs.getBlob(blobId)).content.toString()).toBe('Opened');
+    });
+
+    it('should open stores once written by the constructor', async () => {
+      const { blobId } = await new BsFs(testDir).setBlob('Adopted');
+      const bs = await BsFs.open(testDir);
+      expect(await bs.blobExists(blobId)).toBe(true);
+    });
+
+    it('should open stores written before manifests', async () => {
+      const { blobId } = await new BsFs(testDir).setBlob('Legacy');
+      await rm(manifestPath);
+
+      const bs = await BsFs.open(testDir);
+      expect((await bs.getBlob(blobId)).content.toString()).toBe('Legacy');
+      await expect(BsFs.open(testDir, { layout: 'flat' })).rejects.toThrow(
+        'the store uses another layout than configured',
+      );
+
+      // The next write records the legacy layout
+      await bs.setBlob('Next');
+      expect((await manifest()).layout).toEqual(layouts.legacy);
+    });
+
+    it('should refuse directories without manifest', async () => {
+      await expect(BsFs.open(testDir)).rejects.toThrow(
+        new IncompatibleStoreError(testDir, 'no manifest found'),
+      );
+
+      // Files looking like blobs don't make a store
+      await mkdir(testDir);
+      await writeFile(join(testDir, 'abc.meta.json'), '{}');
+      await expect(BsFs.open(testDir)).rejects.toThrow('no manifest found');
+
+      // Neither do blobs outside the legacy layout
+      const createdAt = new Date().toISOString();
+      await writeFile(
+        join(testDir, 'abc.meta.json'),
+        JSON.stringify({ blobId: 'abc', size: 5, createdAt }),
+      );
+      await expect(BsFs.open(testDir)).rejects.toThrow('no manifest found');
+    });
+
+    it('should need encryption for encrypted stores', async () => {
+      await BsFs.create(testDir, { encryption });
+      await expect(BsFs.open(testDir)).rejects.toThrow(
+        'the store is encrypted, but no encryption is configured',
+      );
+
+      const bs = await BsFs.open(testDir, { encryption });
+      const { blobId } = await bs.setBlob('Secret');
+      expect((await bs.getBlob(blobId)).content.toString()).toBe('Secret');
+    });
+
+    it('should refuse layouts other than the one of the store', async () => {
+      await BsFs.create(testDir, { layout: 'sharded' });
+      await expect(BsFs.open(testDir, { layout: 'flat' })).rejects.toThrow(
+        new IncompatibleStoreError(
+          testDir,
+          'the store uses another layout than configured',
+        ),
+      );
+      await expect(
+        BsFs.open(testDir, { layout: { depth: 1, extension: '.bin' } }),
+      ).rejects.toThrow('the store uses another layout than configured');
+
+      // The same layout, also given as options, fits
+      const bs = await BsFs.open(testDir, { layout: 'sharded' });
+      expect(await bs.size()).toBe(0);
+      await BsFs.open(testDir, { layout: layouts.sharded });
+    });
+
+    it('should allow other features for new payloads', async () => {
+      await BsFs.create(testDir, { compression: 'gzip' });
+      const plain = await BsFs.open(testDir);
+      const { blobId } = await plain.setBlob('Plain');
+
+      const encrypted = await BsFs.open(testDir, { encryption });
+      expect((await encrypted.getBlob(blobId)).content.toString()).toBe(
+        'Plain',
+      );
+    });
+
+    it('should refuse invalid manifests', async () => {
+      await mkdir(testDir);
+      await writeFile(manifestPath, '{"layout": "flat"}');
+      await expect(BsFs.open(testDir)).rejects.toThrow(
+        'the manifest is not valid',
+      );
+    });
+  });
+});
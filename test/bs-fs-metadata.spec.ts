@@ -0,0 +1,367 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { hshBuffer } from '@rljson/hash';
+
+import { readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { BlobNotFoundError } from '../src/errors.ts';
+
+describe('BsFs blob metadata', () => {
+  let bs: BsFs;
+  const testDir = './test-bs-fs-metadata';
+
+  const metaPathOf = (blobId: string) =>
+    join(
+      testDir,
+      ...[0, 2, 4, 6].map((i) => blobId.substring(i, i + 2)),
+      `${blobId}.meta.json`,
+    );
+
+  const readMeta = async (blobId: string) =>
+    JSON.parse(await readFile(metaPathOf(blobId), 'utf8'));
+
+  const stream = (content: string) =>
+    new ReadableStream({
+      start(controller) {
+        controller.enqueue(Buffer.from(content));
+        controller.close();
+      },
+    });
+
+  const listed = async (tag: string) =>
+    (await bs.listBlobs({ tag })).blobs.map((blob) => blob.blobId);
+
+  beforeEach(async () => {
+    bs = new BsFs(testDir);
+    await bs.clear();
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('setBlob', () => {
+    it('should store metadata next to the blob', async () => {
+      const properties = await bs.setBlob('Report', {
+        contentType: 'text/plain',
+        filename: 'report.txt',
+        tags: ['reports', 'draft', 'reports'],
+      });
+
+      // The blob id only depends on the content
+      expect(properties.blobId).toBe(hshBuffer(Buffer.from('Report')));
+      expect(properties).toMatchObject({
+        contentType: 'text/plain',
+        filename: 'report.txt',
+        tags: ['draft', 'reports'],
+      });
+      expect(await readMeta(properties.blobId)).toMatchObject({
+        contentType: 'text/plain',
+        filename: 'report.txt',
+        tags: ['draft', 'reports'],
+      });
+
+      expect(await bs.getBlobProperties(properties.blobId)).toEqual(properties);
+      expect((await bs.getBlob(properties.blobId)).properties).toEqual(
+        properties,
+      );
+      expect((await bs.listBlobs()).blobs).toEqual([properties]);
+    });
+
+    it('should not add fields to blobs without metadata', async () => {
+      const properties = await bs.setBlob('Plain');
+      expect(Object.keys(properties).sort()).toEqual([
+        'blobId',
+        'createdAt',
+        'size',
+      ]);
+      expect(Object.keys((await bs.listBlobs()).blobs[0]!).sort()).toEqual([
+        'blobId',
+        'createdAt',
+        'size',
+      ]);
+    });
+
+    it('should merge metadata of duplicates', async () => {
+      const { blobId, createdAt } = await bs.setBlob('Shared', {
+        contentType: 'text/plain',
+        tags: ['a'],
+      });
+
+      const buffer = await bs.setBlob('Shared', {
+        filename: 'shared.txt',
+        tags: ['b'],
+      });
+      expect(buffer).toEqual({
+        blobId,
+        size: 6,
+        createdAt,
+        contentType: 'text/plain',
+        filename: 'shared.txt',
+        tags: ['a', 'b'],
+      });
+
+      const streamed = await bs.setBlob(stream('Shared'), {
+        contentType: 'text/markdown',
+        tags: ['c'],
+      });
+      expect(streamed.contentType).toBe('text/markdown');
+      expect(streamed.tags).toEqual(['a', 'b', 'c']);
+
+      // Duplicates without new metadata keep the stored one
+      expect(await bs.setBlob('Shared')).toEqual(streamed);
+      expect(await bs.setBlob(stream('Shared'), { tags: ['a'] })).toEqual(
+        streamed,
+      );
+      expect(await bs.size()).toBe(1);
+      expect(await listed('c')).toEqual([blobId]);
+    });
+
+    it('should reject invalid metadata', async () => {
+      await expect(
+        bs.setBlob('Invalid', { tags: 'a' as unknown as string[] }),
+      ).rejects.toThrow('Invalid blob metadata: tags must be');
+      expect(await bs.size()).toBe(0);
+    });
+  });
+
+  describe('content type detection', () => {
+    const png = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]);
+
+    beforeEach(() => {
+      bs = new BsFs(testDir, { detectContentType: true });
+    });
+
+    it('should detect the content type of buffers and streams', async () => {
+      expect((await bs.setBlob(png)).contentType).toBe('image/png');
+      expect((await bs.setBlob('{"a": 1}')).contentType).toBe(
+        'application/json',
+      );
+      expect((await bs.setBlob(stream('Streamed text'))).contentType).toBe(
+        'text/plain; charset=utf-8',
+      );
+      expect((await bs.setBlob(stream('[1, 2]'))).contentType).toBe(
+        'application/json',
+      );
+
+      // Unknown content gets no content type
+      const binary = await bs.setBlob(Buffer.from([1, 2, 3]));
+      expect(binary.contentType).toBeUndefined();
+      expect(await readMeta(binary.blobId)).not.toHaveProperty('contentType');
+    });
+
+    it('should detect long streams from their first bytes', async () => {
+      const chunks = ['{"a": "', 'x'.repeat(100 * 1024), '"}'];
+      const long = new ReadableStream({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(Buffer.from(chunk));
+          }
+          controller.close();
+        },
+      });
+      // Too long to parse as JSON
+      expect((await bs.setBlob(long)).contentType).toBe(
+        'text/plain; charset=utf-8',
+      );
+    });
+
+    it('should prefer a given content type', async () => {
+      const given = await bs.setBlob(png, { contentType: 'image/x-custom' });
+      expect(given.contentType).toBe('image/x-custom');
+
+      // Duplicates don't replace a stored type with a detected one
+      expect((await bs.setBlob(png)).contentType).toBe('image/x-custom');
+      expect((await bs.setBlob(stream('Text'))).contentType).toBe(
+        'text/plain; charset=utf-8',
+      );
+      expect(
+        (await bs.setBlob(stream('Text'), { contentType: 'text/markdown' }))
+          .contentType,
+      ).toBe('text/markdown');
+    });
+
+    it('should add a detected type to stored blobs without one', async () => {
+      const { blobId } = await bs.setBlob(png, { tags: ['image'] });
+      await bs.setBlobMetadata(blobId, { tags: ['image'] });
+      expect((await bs.getBlobProperties(blobId)).contentType).toBeUndefined();
+
+      expect((await bs.setBlob(png)).contentType).toBe('image/png');
+      expect((await listed('image'))[0]).toBe(blobId);
+      expect((await bs.listBlobs({ tag: 'image' })).blobs[0]!.contentType).toBe(
+        'image/png',
+      );
+    });
+
+    it('should be disabled by default', async () => {
+      bs = new BsFs(testDir);
+      expect((await bs.setBlob(png)).contentType).toBeUndefined();
+      expect((await bs.setBlob(stream('Text'))).contentType).toBeUndefined();
+      expect(
+        (await bs.setBlob('Given', { contentType: 'text/plain' })).contentType,
+      ).toBe('text/plain');
+    });
+
+    it('should detect the type again when rebuilding metadata', async () => {
+      const { blobId } = await bs.setBlob('{"rebuilt": true}');
+      await rm(metaPathOf(blobId));
+      await bs.repair();
+      expect((await bs.getBlobProperties(blobId)).contentType).toBe(
+        'application/json',
+      );
+
+      // Long payloads are sniffed from their first bytes
+      const long = await bs.setBlob(`{"a": "${'x'.repeat(100 * 1024)}"}`);
+      await rm(metaPathOf(long.blobId));
+      await bs.repair();
+      expect((await bs.getBlobProperties(long.blobId)).contentType).toBe(
+        'text/plain; charset=utf-8',
+      );
+
+      const plain = new BsFs(testDir);
+      await rm(metaPathOf(blobId));
+      await plain.repair();
+      expect(
+        (await plain.getBlobProperties(blobId)).contentType,
+      ).toBeUndefined();
+    });
+  });
+
+  describe('setBlobMetadata', () => {
+    it('should replace the metadata of a blob', async () => {
+      const { blobId } = await bs.setBlob('Image', {
+        contentType: 'image/png',
+        filename: 'a.png',
+        tags: ['old'],
+      });
+      await bs.retain(blobId);
+
+      const properties = await bs.setBlobMetadata(blobId, {
+        contentType: 'image/jpeg',
+        tags: ['new'],
+      });
+      expect(properties.contentType).toBe('image/jpeg');
+      expect(properties.filename).toBeUndefined();
+      expect(properties.tags).toEqual(['new']);
+      expect(await bs.getBlobProperties(blobId)).toEqual(properties);
+
+      // Other metadata is kept
+      expect(await bs.refCount(blobId)).toBe(1);
+
+      expect(await listed('old')).toEqual([]);
+      expect(await listed('new')).toEqual([blobId]);
+
+      // Unchanged metadata isn't written again
+      const before = await readFile(metaPathOf(blobId), 'utf8');
+      await bs.setBlobMetadata(blobId, {
+        contentType: 'image/jpeg',
+        tags: ['new'],
+      });
+      expect(await readFile(metaPathOf(blobId), 'utf8')).toBe(before);
+
+      expect(await bs.setBlobMetadata(blobId, {})).toEqual({
+        blobId,
+        size: 5,
+        createdAt: properties.createdAt,
+      });
+    });
+
+    it('should reject unknown blobs and invalid metadata', async () => {
+      await expect(bs.setBlobMetadata('unknown', {})).rejects.toThrow(
+        BlobNotFoundError,
+      );
+      const { blobId } = await bs.setBlob('Valid');
+      await expect(
+        bs.setBlobMetadata(blobId, { filename: 1 as unknown as string }),
+      ).rejects.toThrow('Invalid blob metadata: filename must be a string');
+    });
+
+    it('should be seen by other instances', async () => {
+      const other = new BsFs(testDir);
+      const { blobId } = await bs.setBlob('Seen');
+      expect(await other.listBlobs({ tag: 'seen' })).toEqual({
+        blobs: [],
+        continuationToken: undefined,
+      });
+
+      await bs.setBlobMetadata(blobId, { tags: ['seen'] });
+      expect((await other.listBlobs({ tag: 'seen' })).blobs[0]!.blobId).toBe(
+        blobId,
+      );
+    });
+  });
+
+  describe('listBlobs', () => {
+    it('should filter by tag page by page', async () => {
+      const tagged: string[] = [];
+      for (let i = 0; i < 5; i++) {
+        const { blobId } = await bs.setBlob(`Blob ${i}`, {
+          tags: i % 2 === 0 ? ['even'] : ['odd'],
+        });
+        if (i % 2 === 0) {
+          tagged.push(blobId);
+        }
+      }
+
+      const page1 = await bs.listBlobs({ tag: 'even', maxResults: 2 });
+      const page2 = await bs.listBlobs({
+        tag: 'even',
+        maxResults: 2,
+        continuationToken: page1.continuationToken,
+      });
+      expect(page2.continuationToken).toBeUndefined();
+      const all = await listed('even');
+      expect(
+        [...page1.blobs, ...page2.blobs].map((blob) => blob.blobId),
+      ).toEqual(all);
+      expect([...all].sort()).toEqual(tagged.sort());
+    });
+  });
+
+  describe('index and repair', () => {
+    it('should keep metadata when rebuilding the index', async () => {
+      const { blobId } = await bs.setBlob('Indexed', { tags: ['kept'] });
+      await rm(join(testDir, 'bs-fs.index.log'));
+
+      const reopened = new BsFs(testDir);
+      expect(await reopened.listBlobs({ tag: 'kept' })).toMatchObject({
+        blobs: [{ blobId, tags: ['kept'] }],
+      });
+    });
+
+    it('should keep metadata when repairing', async () => {
+      bs = new BsFs(testDir, { detectContentType: true });
+      const { blobId } = await bs.setBlob('Repaired', {
+        contentType: 'text/plain',
+        filename: 'r.txt',
+        tags: ['kept'],
+      });
+      const metadata = await readMeta(blobId);
+      await writeFile(
+        metaPathOf(blobId),
+        JSON.stringify({ ...metadata, size: 1 }),
+      );
+
+      await bs.repair();
+      expect(await readMeta(blobId)).toEqual(metadata);
+
+      // Invalid fields are dropped, the content type is detected again
+      await writeFile(
+        metaPathOf(blobId),
+        JSON.stringify({ ...metadata, size: 1, contentType: 7, tags: 'x' }),
+      );
+      await bs.repair();
+      const repaired = await bs.getBlobProperties(blobId);
+      expect(repaired.contentType).toBe('text/plain; charset=utf-8');
+      expect(repaired.filename).toBe('r.txt');
+      expect(repaired.tags).toBeUndefined();
+    });
+  });
+});
@@ -0,0 +1,153 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { hshBuffer } from '@rljson/hash';
+
+import { execFile } from 'node:child_process';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { join } from 'node:path';
+import { promisify } from 'node:util';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { LockTimeoutError } from '../src/errors.ts';
+
+const run = promisify(execFile);
+
+describe('BsFs shared by processes', () => {
+  const testDir = './test-bs-fs-processes';
+  const counterFile = './test-bs-fs-processes-counter.txt';
+  let bs: BsFs;
+
+  // Run the worker script in a child process
+  const worker = (...args: string[]) =>
+    run(process.execPath, [
+      join('node_modules', '.bin', 'vite-node'),
+      '--config',
+      'vitest.config.mts',
+      join('test', 'bs-fs-worker.ts'),
+      ...args,
+    ]);
+
+  const workers = (count: number, ...args: string[]) =>
+    Promise.all(Array.from({ length: count }, () => worker(...args)));
+
+  beforeEach(async () => {
+    bs = new BsFs(testDir);
+    await bs.clear();
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await rm(counterFile, { force: true });
+  });
+
+  it('should wait for other processes changing the store', async () => {
+    const { blobId } = await bs.setBlob('Locked');
+
+    // Pretend another live process holds the lock
+    await mkdir(testDir, { recursive: true });
+    const lockPath = join(testDir, 'bs-fs.lock');
+    await writeFile(
+      lockPath,
+      JSON.stringify({ pid: process.pid, hostname: hostname(), token: 'x' }),
+    );
+
+    const waiting = new BsFs(testDir, { lockTimeoutMs: 50 });
+    for (const change of [
+      () => waiting.setBlob('New'),
+      () => waiting.deleteBlob(blobId),
+      () => waiting.retain(blobId),
+      () => waiting.clear(),
+    ]) {
+      await expect(change()).rejects.toThrow(LockTimeoutError);
+    }
+
+    // Reads don't wait
+    expect(await waiting.blobExists(blobId)).toBe(true);
+
+    await rm(lockPath);
+    await waiting.setBlob('New');
+    expect(await waiting.size()).toBe(2);
+  });
+
+  it('should serialize critical sections', { timeout: 60_000 }, async () => {
+    await writeFile(counterFile, '0');
+    await workers(4, 'count', join(testDir, 'counter.lock'), '50', counterFile);
+    expect(await readFile(counterFile, 'utf8')).toBe('200');
+  });
+
+  it(
+    'should not leave dangling metadata when processes store and delete ' +
+      'the same blob',
+    { timeout: 60_000 },
+    async () => {
+      const start = await bs.changeSeq();
+      await workers(4, 'churn', testDir, '100', 'Contended');
+
+      const report = await bs.verify();
+      expect(report.issues).toEqual([]);
+
+      // The change log numbers the changes of all processes without gaps,
+      // and the blob was added and deleted in turns
+      const changes = [];
+      for await (const change of bs.changesSince(start)) {
+        changes.push(change);
+      }
+      expect(changes.map(({ seq }) => seq)).toEqual(
+        changes.map((_, i) => start + i + 1),
+      );
+      expect(
+        changes.every(
+          ({ type }, i) => type === (i % 2 === 0 ? 'added' : 'deleted'),
+        ),
+      ).toBe(true);
+      expect(changes.at(-1)?.type).toBe('added');
+
+      // The store is still usable
+      const { blobId } = await bs.setBlob('Contended');
+      expect(await bs.blobExists(blobId)).toBe(true);
+      expect((await bs.getBlob(blobId)).content.toString()).toBe('Contended');
+    },
+  );
+
+  for (const poll of [false, true]) {
+    it(
+      `should tell watchers about changes of other processes (poll: ${poll})`,
+      { timeout: 60_000 },
+      async () => {
+        await bs.setBlob('Existing');
+        const watcher = await bs.watch({ poll, pollIntervalMs: 100 });
+        const added = new Set<string>();
+        const deleted = new Set<string>();
+        watcher.on('blobAdded', ({ blobId }) => added.add(blobId));
+        watcher.on('blobDeleted', ({ blobId }) => deleted.add(blobId));
+
+        try {
+          await worker('put', testDir, '5', 'Watched');
+          const blobIds = Array.from({ length: 5 }, (_, i) =>
+            hshBuffer(Buffer.from(`Watched${i}`)),
+          );
+          await vi.waitFor(
+            () => expect([...added].sort()).toEqual(blobIds.sort()),
+            {
+              timeout: 10_000,
+            },
+          );
+
+          await worker('delete', testDir, '5', 'Watched');
+          await vi.waitFor(() => expect([...deleted].sort()).toEqual(blobIds), {
+            timeout: 10_000,
+          });
+          expect(added.size).toBe(5);
+        } finally {
+          watcher.close();
+        }
+      },
+    );
+  }
+});
@@ -0,0 +1,294 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { readdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFs, BsFsOptions } from '../src/bs-fs.ts';
+import { QuotaExceededError } from '../src/errors.ts';
+
+describe('BsFs quota', () => {
+  const testDir = './test-bs-fs-quota';
+  let bs: BsFs;
+
+  const create = async (quota: BsFsOptions['quota']) => {
+    bs = new BsFs(testDir, { quota });
+    await bs.clear();
+  };
+
+  const metaPathOf = (blobId: string) =>
+    join(
+      testDir,
+      ...[0, 2, 4, 6].map((i) => blobId.substring(i, i + 2)),
+      `${blobId}.meta.json`,
+    );
+
+  const readMeta = async (blobId: string) =>
+    JSON.parse(await readFile(metaPathOf(blobId), 'utf8'));
+
+  // Pretend a blob was created the given number of hours ago
+  const age = async (blobId: string, hours: number) => {
+    const metadata = await readMeta(blobId);
+    metadata.createdAt = new Date(Date.now() - hours * 3_600_000).toISOString();
+    await writeFile(metaPathOf(blobId), JSON.stringify(metadata));
+  };
+
+  const stored = async () =>
+    (await bs.listBlobs()).blobs.map((blob) => blob.blobId).sort();
+
+  const stream = (content: string) =>
+    new ReadableStream({
+      start(controller) {
+        controller.enqueue(Buffer.from(content));
+        controller.close();
+      },
+    });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('evict mode', () => {
+    beforeEach(async () => {
+      await create({ maxBlobs: 3, accessTimeResolutionMs: 0 });
+    });
+
+    it('should evict the least recently read blobs', async () => {
+      const a = await bs.setBlob('a');
+      const b = await bs.setBlob('b');
+      const c = await bs.setBlob('c');
+      await age(a.blobId, 3);
+      await age(b.blobId, 2);
+      await age(c.blobId, 1);
+      await bs.getBlob(a.blobId);
+
+      const d = await bs.setBlob('d');
+      expect(await stored()).toEqual([a.blobId, c.blobId, d.blobId].sort());
+
+      // Streams are tracked and written alike
+      await (await bs.getBlobStream(c.blobId)).cancel();
+      await bs.setBlob(stream('e'));
+      expect(await bs.blobExists(a.blobId)).toBe(false);
+      expect(await bs.blobExists(c.blobId)).toBe(true);
+    });
+
+    it('should never evict retained blobs', async () => {
+      const a = await bs.setBlob('a');
+      await bs.setBlob('b');
+      await bs.setBlob('c');
+      await age(a.blobId, 1);
+      await bs.retain(a.blobId);
+
+      await bs.setBlob('d');
+      expect(await bs.blobExists(a.blobId)).toBe(true);
+      expect(await bs.size()).toBe(3);
+    });
+
+    it('should not evict for duplicates', async () => {
+      const a = await bs.setBlob('a');
+      await bs.setBlob('b');
+      await bs.setBlob('c');
+
+      await bs.setBlob('a');
+      await bs.setBlob(stream('a'));
+      expect(await bs.size()).toBe(3);
+      expect(await bs.blobExists(a.blobId)).toBe(true);
+    });
+
+    it('should reject blobs that fit by no eviction', async () => {
+      await create({ maxBytes: 10 });
+      const kept = await bs.setBlob('12345');
+      await bs.retain(kept.blobId);
+
+      const error = await bs.setBlob('1234567890').catch((e) => e);
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error.limit).toBe('maxBytes');
+      expect(error.max).toBe(10);
+      expect(error.size).toBe(10);
+      expect(await stored()).toEqual([kept.blobId]);
+
+      // No temp files are left behind
+      await expect(bs.setBlob(stream('1234567890'))).rejects.toThrow(
+        QuotaExceededError,
+      );
+      expect(await readdir(testDir)).not.toContainEqual(
+        expect.stringMatching(/\.tmp$/),
+      );
+    });
+
+    it('should not overshoot with concurrent writes', async () => {
+      await Promise.all(
+        Array.from({ length: 10 }, (_, i) => bs.setBlob(`Blob ${i}`)),
+      );
+      expect(await bs.size()).toBe(3);
+    });
+  });
+
+  describe('eviction policies', () => {
+    it('should evict the oldest blobs', async () => {
+      await create({ maxBlobs: 2, eviction: 'oldest' });
+      const a = await bs.setBlob('a');
+      const b = await bs.setBlob('b');
+      await age(a.blobId, 2);
+      await age(b.blobId, 1);
+      await bs.getBlob(a.blobId);
+
+      await bs.setBlob('c');
+      expect(await bs.blobExists(a.blobId)).toBe(false);
+
+      // Reads are not recorded
+      expect((await readMeta(b.blobId)).lastAccessedAt).toBeUndefined();
+    });
+
+    it('should evict the largest blobs', async () => {
+      await create({ maxBytes: 10, eviction: 'largest' });
+      const small = await bs.setBlob('1');
+      const large = await bs.setBlob('12345');
+      await bs.setBlob('123');
+
+      await bs.setBlob('1234');
+      expect(await bs.blobExists(large.blobId)).toBe(false);
+      expect(await bs.blobExists(small.blobId)).toBe(true);
+      expect((await bs.usage()).bytes).toBe(8);
+    });
+
+    it('should use custom policies', async () => {
+      await create({
+        maxBlobs: 1,
+        eviction: (a, b) => b.size - a.size || a.blobId.localeCompare(b.blobId),
+      });
+      await bs.setBlob('1');
+      const two = await bs.setBlob('12');
+      expect(await stored()).toEqual([two.blobId]);
+    });
+  });
+
+  describe('reject mode', () => {
+    it('should reject new blobs instead of evicting', async () => {
+      await create({ maxBlobs: 1, mode: 'reject' });
+      const a = await bs.setBlob('a');
+
+      const error = await bs.setBlob('b').catch((e) => e);
+      expect(error).toBeInstanceOf(QuotaExceededError);
+      expect(error.limit).toBe('maxBlobs');
+      expect(error.message).toBe(
+        `Quota exceeded: blob ${error.blobId} (1 bytes) doesn't fit ` +
+          `within maxBlobs 1`,
+      );
+      expect(await stored()).toEqual([a.blobId]);
+
+      // Room made by deleting is used again
+      await bs.deleteBlob(a.blobId);
+      await bs.setBlob('b');
+      expect(await bs.size()).toBe(1);
+    });
+  });
+
+  describe('access tracking', () => {
+    it('should record reads at most once per resolution', async () => {
+      await create({ maxBlobs: 10 });
+      const fresh = await bs.setBlob('fresh');
+      const old = await bs.setBlob('old');
+      await age(old.blobId, 1);
+
+      await bs.getBlob(fresh.blobId);
+      await bs.getBlob(old.blobId);
+      expect((await readMeta(fresh.blobId)).lastAccessedAt).toBeUndefined();
+
+      const { lastAccessedAt } = await readMeta(old.blobId);
+      expect(Date.now() - Date.parse(lastAccessedAt)).toBeLessThan(60_000);
+
+      await bs.getBlob(old.blobId);
+      expect((await readMeta(old.blobId)).lastAccessedAt).toBe(lastAccessedAt);
+    });
+
+    it('should keep access times when repairing metadata', async () => {
+      await create({ maxBlobs: 10, accessTimeResolutionMs: 0 });
+      const { blobId } = await bs.setBlob('read');
+      await bs.getBlob(blobId);
+      const metadata = await readMeta(blobId);
+
+      await writeFile(
+        metaPathOf(blobId),
+        JSON.stringify({ ...metadata, size: 1 }),
+      );
+      await bs.repair();
+      expect(await readMeta(blobId)).toEqual(metadata);
+    });
+
+    it('should record reads served elsewhere', async () => {
+      await create({ maxBlobs: 10, accessTimeResolutionMs: 0 });
+      const { blobId } = await bs.setBlob('cached');
+
+      await bs.touchBlob(blobId);
+      const { lastAccessedAt } = await readMeta(blobId);
+      expect(Date.now() - Date.parse(lastAccessedAt)).toBeLessThan(60_000);
+      await expect(bs.touchBlob('missing')).rejects.toThrow('Blob not found');
+
+      // Not without quota
+      const other = await bs.setBlob('other');
+      await new BsFs(testDir).touchBlob(other.blobId);
+      expect((await readMeta(other.blobId)).lastAccessedAt).toBeUndefined();
+    });
+
+    it('should not record reads without quota', async () => {
+      bs = new BsFs(testDir);
+      await bs.clear();
+      const { blobId } = await bs.setBlob('read');
+      await age(blobId, 1);
+
+      await bs.getBlob(blobId);
+      expect((await readMeta(blobId)).lastAccessedAt).toBeUndefined();
+    });
+  });
+
+  describe('evict', () => {
+    it('should shrink a store to a lowered quota', async () => {
+      bs = new BsFs(testDir);
+      await bs.clear();
+      const blobs = [];
+      for (const content of ['a', 'b', 'c', 'd']) {
+        blobs.push(await bs.setBlob(content));
+        await age(blobs.at(-1)!.blobId, 5 - blobs.length);
+      }
+      await bs.retain(blobs[0]!.blobId);
+
+      const limited = new BsFs(testDir, {
+        quota: { maxBlobs: 2, eviction: 'oldest' },
+      });
+      expect(await limited.evict()).toEqual([
+        blobs[1]!.blobId,
+        blobs[2]!.blobId,
+      ]);
+      expect(await limited.evict()).toEqual([]);
+
+      // Retained blobs stay
+      const one = new BsFs(testDir, { quota: { maxBlobs: 1 } });
+      expect(await one.evict()).toEqual([blobs[3]!.blobId]);
+      expect(await stored()).toEqual([blobs[0]!.blobId]);
+    });
+
+    it('should evict nothing if the store would not fit anyway', async () => {
+      bs = new BsFs(testDir);
+      await bs.clear();
+      const retained = await bs.setBlob('retained');
+      const other = await bs.setBlob('other');
+      await bs.retain(retained.blobId);
+
+      const tiny = new BsFs(testDir, {
+        quota: { maxBlobs: 0, eviction: () => 0 },
+      });
+      expect(await tiny.evict()).toEqual([]);
+      expect(await stored()).toEqual([retained.blobId, other.blobId].sort());
+    });
+
+    it('should require a quota', async () => {
+      bs = new BsFs(testDir);
+      await expect(bs.evict()).rejects.toThrow('No quota is configured');
+    });
+  });
+});
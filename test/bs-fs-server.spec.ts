@@ -0,0 +1,473 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { hshBuffer } from '@rljson/hash';
+
+import { randomBytes } from 'node:crypto';
+import { mkdir, readFile, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFsServer } from '../src/bs-fs-server.ts';
+import { BsFs } from '../src/bs-fs.ts';
+import { StaticKeyProvider } from '../src/encryption.ts';
+
+describe('BsFsServer', () => {
+  let bs: BsFs;
+  let server: BsFsServer;
+  let baseUrl: string;
+  const testDir = './test-bs-fs-server';
+  const accessToken = 'secret token';
+  const auth = { Authorization: `Bearer ${accessToken}` };
+
+  const content = Buffer.from('0123456789'.repeat(10));
+  let blobId: string;
+
+  const upload = async (body: BodyInit) => {
+    const res = await fetch(`${baseUrl}/blobs`, {
+      method: 'POST',
+      headers: auth,
+      body,
+      duplex: 'half',
+    } as RequestInit);
+    expect(res.status).toBe(201);
+    return res.json();
+  };
+
+  const get = (path: string, headers: Record<string, string> = auth) =>
+    fetch(`${baseUrl}${path}`, { headers });
+
+  const signedUrl = async (permissions = 'read', expiresIn = 60) => {
+    const res = await fetch(
+      `${baseUrl}/blobs/${blobId}/signed-url?expiresIn=${expiresIn}&permissions=${permissions}`,
+      { method: 'POST', headers: auth },
+    );
+    expect(res.status).toBe(200);
+    return ((await res.json()) as { url: string }).url;
+  };
+
+  beforeEach(async () => {
+    bs = new BsFs(testDir, { detectContentType: true });
+    await bs.clear();
+    ({ blobId } = await bs.setBlob(content));
+    server = new BsFsServer(bs, { accessToken });
+    baseUrl = await server.listen();
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('lifecycle', () => {
+    it('should report its URL while listening', async () => {
+      expect(server.url).toBe(baseUrl);
+      expect(baseUrl).toMatch(/^http:\/\/127\.0\.0\.1:\d+$/);
+      await expect(server.listen()).rejects.toThrow(
+        'Server is already listening',
+      );
+
+      await server.close();
+      expect(() => server.url).toThrow('Server is not listening');
+      await server.close();
+    });
+
+    it('should fail to listen on a used port', async () => {
+      const port = Number(new URL(baseUrl).port);
+      const other = new BsFsServer(bs, { port });
+      await expect(other.listen()).rejects.toThrow('EADDRINUSE');
+    });
+
+    it('should bracket IPv6 hosts', async () => {
+      const v6 = new BsFsServer(bs, { host: '::1' });
+      const url = await v6.listen().catch(() => undefined);
+
+      // Skip where IPv6 is not available
+      if (url) {
+        expect(url).toMatch(/^http:\/\/\[::1\]:\d+$/);
+        await v6.close();
+      }
+    });
+  });
+
+  describe('uploads', () => {
+    it('should store request bodies', async () => {
+      const properties = await upload('Uploaded');
+      expect(properties).toMatchObject({
+        blobId: hshBuffer(Buffer.from('Uploaded')),
+        size: 8,
+      });
+
+      const res = await fetch(`${baseUrl}/blobs`, {
+        method: 'PUT',
+        headers: auth,
+        body: 'Put',
+      });
+      expect(res.status).toBe(201);
+      expect(await bs.size()).toBe(3);
+    });
+
+    it('should stream request bodies', async () => {
+      const large = randomBytes(256 * 1024);
+      const body = new ReadableStream({
+        start(controller) {
+          for (let i = 0; i < large.length; i += 10000) {
+            controller.enqueue(large.subarray(i, i + 10000));
+          }
+          controller.close();
+        },
+      });
+
+      const properties = await upload(body);
+      expect(properties.blobId).toBe(hshBuffer(large));
+      expect((await bs.getBlob(properties.blobId)).content).toEqual(large);
+    });
+  });
+
+  describe('downloads', () => {
+    it('should send blobs', async () => {
+      const res = await get(`/blobs/${blobId}`);
+      expect(res.status).toBe(200);
+      expect(res.headers.get('etag')).toBe(`"${blobId}"`);
+      expect(res.headers.get('accept-ranges')).toBe('bytes');
+      expect(res.headers.get('content-length')).toBe('100');
+      expect(res.headers.get('content-type')).toBe('text/plain; charset=utf-8');
+      expect(Buffer.from(await res.arrayBuffer())).toEqual(content);
+    });
+
+    it('should send the content type of blobs', async () => {
+      await bs.setBlobMetadata(blobId, { contentType: 'text/csv' });
+      const res = await get(`/blobs/${blobId}`);
+      expect(res.headers.get('content-type')).toBe('text/csv');
+
+      // Blobs of unknown type are sent as bytes
+      await bs.setBlobMetadata(blobId, {});
+      const bytes = await get(`/blobs/${blobId}`);
+      expect(bytes.headers.get('content-type')).toBe(
+        'application/octet-stream',
+      );
+    });
+
+    it('should send headers only for HEAD', async () => {
+      const res = await fetch(`${baseUrl}/blobs/${blobId}`, {
+        method: 'HEAD',
+        headers: { ...auth, Range: 'bytes=10-19' },
+      });
+      expect(res.status).toBe(206);
+      expect(res.headers.get('content-length')).toBe('10');
+      expect(res.headers.get('content-range')).toBe('bytes 10-19/100');
+      expect(await res.text()).toBe('');
+    });
+
+    it('should answer matching ETags with 304', async () => {
+      for (const etag of [
+        `"${blobId}"`,
+        `W/"${blobId}"`,
+        `"other", "${blobId}"`,
+        '*',
+      ]) {
+        const res = await get(`/blobs/${blobId}`, {
+          ...auth,
+          'If-None-Match': etag,
+        });
+        expect(res.status).toBe(304);
+        expect(res.headers.get('etag')).toBe(`"${blobId}"`);
+      }
+
+      const res = await get(`/blobs/${blobId}`, {
+        ...auth,
+        'If-None-Match': '"other"',
+      });
+      expect(res.status).toBe(200);
+    });
+
+    it('should send ranges', async () => {
+      for (const [range, start, end] of [
+        ['bytes=10-19', 10, 20],
+        ['bytes=90-', 90, 100],
+        ['bytes=95-200', 95, 100],
+        ['bytes=-5', 95, 100],
+        ['bytes=-500', 0, 100],
+      ] as const) {
+        const res = await get(`/blobs/${blobId}`, { ...auth, Range: range });
+        expect(res.status).toBe(206);
+        expect(res.headers.get('content-range')).toBe(
+          `bytes ${start}-${end - 1}/100`,
+        );
+        expect(Buffer.from(await res.arrayBuffer())).toEqual(
+          content.subarray(start, end),
+        );
+      }
+    });
+
+    it('should ignore ranges it does not support', async () => {
+      for (const range of [
+        'bytes=0-1,5-6',
+        'bytes=-',
+        'bytes=5-1',
+        'items=1-2',
+      ]) {
+        const res = await get(`/blobs/${blobId}`, { ...auth, Range: range });
+        expect(res.status).toBe(200);
+        expect((await res.arrayBuffer()).byteLength).toBe(100);
+      }
+    });
+
+    it('should answer unsatisfiable ranges with 416', async () => {
+      const empty = await bs.setBlob('');
+
+      for (const [id, range] of [
+        [blobId, 'bytes=100-'],
+        [blobId, 'bytes=-0'],
+        [empty.blobId, 'bytes=-5'],
+      ]) {
+        const res = await get(`/blobs/${id}`, { ...auth, Range: range! });
+        expect(res.status).toBe(416);
+        expect(res.headers.get('content-range')).toMatch(/^bytes \*\/\d+$/);
+      }
+    });
+
+    it('should answer unknown blobs with 404', async () => {
+      const res = await get('/blobs/unknownBlob');
+      expect(res.status).toBe(404);
+      expect(await res.json()).toEqual({
+        error: 'Blob not found: unknownBlob',
+      });
+    });
+
+    it('should answer failing reads with 500', async () => {
+      const encrypted = new BsFs(testDir, {
+        encryption: {
+          keyProvider: new StaticKeyProvider({ k: randomBytes(32) }, 'k'),
+        },
+      });
+      const { blobId: encryptedId } = await encrypted.setBlob('Secret');
+
+      const res = await get(`/blobs/${encryptedId}`);
+      expect(res.status).toBe(500);
+      expect((await res.json()).error).toContain('no keys are configured');
+    });
+  });
+
+  describe('deletes', () => {
+    it('should delete blobs', async () => {
+      const res = await fetch(`${baseUrl}/blobs/${blobId}`, {
+        method: 'DELETE',
+        headers: auth,
+      });
+      expect(res.status).toBe(204);
+      expect(await bs.blobExists(blobId)).toBe(false);
+    });
+
+    it('should refuse to delete retained blobs', async () => {
+      await bs.retain(blobId);
+      const res = await fetch(`${baseUrl}/blobs/${blobId}`, {
+        method: 'DELETE',
+        headers: auth,
+      });
+      expect(res.status).toBe(409);
+      expect(await res.json()).toEqual({
+        error: `Blob is still referenced: ${blobId} (1 owners)`,
+      });
+      expect(await bs.blobExists(blobId)).toBe(true);
+    });
+  });
+
+  describe('listing', () => {
+    it('should list blobs page by page', async () => {
+      await bs.setBlob('Second');
+      await bs.setBlob('Third');
+
+      const first = await (await get('/blobs?maxResults=2')).json();
+      expect(first.blobs).toHaveLength(2);
+      expect(first.continuationToken).toBeDefined();
+
+      const second = await (
+        await get(
+          `/blobs?maxResults=2&continuationToken=${first.continuationToken}`,
+        )
+      ).json();
+      expect(second.blobs).toHaveLength(1);
+      expect(second.continuationToken).toBeUndefined();
+    });
+
+    it('should filter by prefix', async () => {
+      const res = await get(`/blobs?prefix=${blobId.substring(0, 6)}`);
+      const { blobs } = await res.json();
+      expect(blobs.map((b: { blobId: string }) => b.blobId)).toEqual([blobId]);
+    });
+
+    it('should reject invalid page sizes', async () => {
+      for (const maxResults of ['0', '1.5', 'many']) {
+        const res = await get(`/blobs?maxResults=${maxResults}`);
+        expect(res.status).toBe(400);
+      }
+    });
+  });
+
+  describe('signed URLs', () => {
+    it('should allow reads with a signed URL', async () => {
+      const url = await signedUrl();
+      expect(url.startsWith(`${baseUrl}/blobs/${blobId}?`)).toBe(true);
+
+      const res = await fetch(url);
+      expect(res.status).toBe(200);
+      expect(Buffer.from(await res.arrayBuffer())).toEqual(content);
+
+      // Reading does not allow deleting
+      const del = await fetch(url, { method: 'DELETE' });
+      expect(del.status).toBe(403);
+      expect(await del.json()).toEqual({
+        error: 'Signed URL does not grant delete',
+      });
+    });
+
+    it('should allow deletes with a signed URL', async () => {
+      const url = await signedUrl('delete');
+
+      expect((await fetch(url)).status).toBe(403);
+      expect((await fetch(url, { method: 'DELETE' })).status).toBe(204);
+      expect(await bs.blobExists(blobId)).toBe(false);
+    });
+
+    it('should reject tampered and expired URLs', async () => {
+      const url = await signedUrl();
+      const other = await bs.setBlob('Other');
+
+      const tampered = await fetch(url.replace(blobId, other.blobId));
+      expect(tampered.status).toBe(403);
+      expect((await tampered.json()).error).toBe(
+        'Signed URL is not valid: invalid signature',
+      );
+
+      const expired = server.toHttpUrl(await bs.generateSignedUrl(blobId, -1));
+      const res = await fetch(expired);
+      expect(res.status).toBe(403);
+      expect((await res.json()).error).toContain('expired at');
+    });
+
+    it('should validate signing requests', async () => {
+      for (const query of [
+        'expiresIn=0',
+        'expiresIn=soon',
+        'expiresIn=60&permissions=write',
+      ]) {
+        const res = await fetch(
+          `${baseUrl}/blobs/${blobId}/signed-url?${query}`,
+          { method: 'POST', headers: auth },
+        );
+        expect(res.status).toBe(400);
+      }
+    });
+
+    it('should sign read URLs by default', async () => {
+      const res = await fetch(
+        `${baseUrl}/blobs/${blobId}/signed-url?expiresIn=60`,
+        { method: 'POST', headers: auth },
+      );
+      const { url } = await res.json();
+      expect(url).toContain('permissions=read');
+    });
+
+    it('should only convert signed URLs', () => {
+      expect(() => server.toHttpUrl('http://example.com')).toThrow(
+        'Not a signed URL: http://example.com',
+      );
+    });
+  });
+
+  describe('authorization', () => {
+    it('should require a token or a signed URL', async () => {
+      for (const [method, path] of [
+        ['GET', '/blobs'],
+        ['POST', '/blobs'],
+        ['GET', `/blobs/${blobId}`],
+        ['DELETE', `/blobs/${blobId}`],
+        ['POST', `/blobs/${blobId}/signed-url?expiresIn=60`],
+      ]) {
+        const res = await fetch(`${baseUrl}${path}`, { method });
+        expect(res.status).toBe(401);
+        expect(await res.json()).toEqual({
+          error: 'Access token or signed URL required',
+        });
+      }
+    });
+
+    it('should reject wrong tokens', async () => {
+      const res = await get('/blobs', { Authorization: 'Bearer wrong' });
+      expect(res.status).toBe(401);
+      expect(await res.json()).toEqual({ error: 'Invalid access token' });
+    });
+
+    it('should accept only signed URLs without a configured token', async () => {
+      const open = new BsFsServer(bs);
+      const url = await open.listen();
+
+      try {
+        const res = await fetch(`${url}/blobs`, { headers: auth });
+        expect(res.status).toBe(401);
+
+        const signed = open.toHttpUrl(await bs.generateSignedUrl(blobId, 60));
+        expect((await fetch(signed)).status).toBe(200);
+      } finally {
+        await open.close();
+      }
+    });
+  });
+
+  describe('routing', () => {
+    it('should answer unknown paths with 404', async () => {
+      for (const path of [
+        '/',
+        '/other',
+        `/blobs/${blobId}/other`,
+        `/blobs/${blobId}/signed-url/x`,
+      ]) {
+        expect((await get(path)).status).toBe(404);
+      }
+    });
+
+    it('should answer unknown methods with 405', async () => {
+      for (const [method, path, allow] of [
+        ['PATCH', '/blobs', 'GET, POST, PUT'],
+        ['PUT', `/blobs/${blobId}`, 'GET, HEAD, DELETE'],
+        ['GET', `/blobs/${blobId}/signed-url`, 'POST'],
+      ]) {
+        const res = await fetch(`${baseUrl}${path}`, {
+          method,
+          headers: auth,
+        });
+        expect(res.status).toBe(405);
+        expect(res.headers.get('allow')).toBe(allow);
+      }
+    });
+
+    it('should reject malformed blob ids', async () => {
+      const res = await get('/blobs/%E0%A4%A');
+      expect(res.status).toBe(400);
+    });
+
+    it('should reject blob ids leaving the store', async () => {
+      const victimDir = `${testDir}-victim`;
+      await mkdir(victimDir, { recursive: true });
+      await writeFile(join(victimDir, 'x.txt'), 'Victim');
+      const path = `/blobs/${encodeURIComponent(`../../../../../${victimDir}/x`)}`;
+
+      try {
+        for (const method of ['GET', 'HEAD', 'DELETE']) {
+          const res = await fetch(`${baseUrl}${path}`, {
+            method,
+            headers: auth,
+          });
+          expect(res.status).toBe(400);
+        }
+        expect(await readFile(join(victimDir, 'x.txt'), 'utf8')).toBe('Victim');
+      } finally {
+        await rm(victimDir, { recursive: true, force: true });
+      }
+    });
+  });
+});
@@ -0,0 +1,443 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { hshBuffer } from '@rljson/hash';
+
+import {
+  mkdir,
+  readdir,
+  readFile,
+  rename,
+  rm,
+  symlink,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { BlobIntegrityError } from '../src/errors.ts';
+
+describe('BsFs verify and repair', () => {
+  let bs: BsFs;
+  const testDir = './test-bs-fs-verify';
+
+  const pathsOf = (blobId: string) => {
+    const dir = join(
+      testDir,
+      ...[0, 2, 4, 6].map((i) => blobId.substring(i, i + 2)),
+    );
+    return {
+      dir,
+      filePath: join(dir, `${blobId}.txt`),
+      metaPath: join(dir, `${blobId}.meta.json`),
+    };
+  };
+
+  const kinds = async () =>
+    (await bs.verify()).issues.map((i) => [i.kind, i.blobId]);
+
+  beforeEach(async () => {
+    bs = new BsFs(testDir);
+    await bs.clear();
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('verify', () => {
+    it('should report nothing for a healthy store', async () => {
+      await bs.setBlob('Blob 1');
+      await bs.setBlob('Blob 2');
+
+      expect(await bs.verify()).toEqual({ checked: 2, issues: [] });
+    });
+
+    it('should report nothing for an empty store', async () => {
+      expect(await bs.verify()).toEqual({ checked: 0, issues: [] });
+    });
+
+    it('should skip entries that are neither files nor directories', async () => {
+      const { blobId } = await bs.setBlob('Blob 1');
+      await symlink(
+        join(process.cwd(), pathsOf(blobId).filePath),
+        join(testDir, 'link.txt'),
+      );
+
+      expect(await bs.verify()).toEqual({ checked: 1, issues: [] });
+    });
+
+    it('should report corrupt payloads', async () => {
+      const { blobId } = await bs.setBlob('Original');
+      const { filePath } = pathsOf(blobId);
+      await writeFile(filePath, 'Modified');
+
+      const { issues } = await bs.verify();
+      expect(issues).toHaveLength(1);
+      expect(issues[0]).toMatchObject({
+        kind: 'corrupt',
+        blobId,
+        path: filePath,
+      });
+      expect(issues[0]!.message).toMatch(/^Payload hashes to /);
+    });
+
+    it('should report truncated payloads', async () => {
+      const { blobId } = await bs.setBlob('Complete content');
+      await writeFile(pathsOf(blobId).filePath, 'Complete');
+
+      const { issues } = await bs.verify();
+      expect(issues).toEqual([
+        {
+          kind: 'truncated',
+          blobId,
+          path: pathsOf(blobId).filePath,
+          message: 'Payload has 8 of 16 bytes',
+        },
+      ]);
+    });
+
+    it('should report payloads without metadata', async () => {
+      const { blobId } = await bs.setBlob('Orphan');
+      await rm(pathsOf(blobId).metaPath);
+
+      expect(await kinds()).toEqual([['orphanedPayload', blobId]]);
+    });
+
+    it('should report metadata without payload', async () => {
+      const { blobId } = await bs.setBlob('Gone');
+      await rm(pathsOf(blobId).filePath);
+
+      expect(await kinds()).toEqual([['orphanedMetadata', blobId]]);
+    });
+
+    it('should report invalid metadata', async () => {
+      const a = await bs.setBlob('Invalid json');
+      const b = await bs.setBlob('Wrong size');
+      await writeFile(pathsOf(a.blobId).metaPath, '{');
+      await writeFile(
+        pathsOf(b.blobId).metaPath,
+        JSON.stringify({ ...b, size: 3 }),
+      );
+
+      expect((await kinds()).sort()).toEqual(
+        [
+          ['invalidMetadata', a.blobId],
+          ['invalidMetadata', b.blobId],
+        ].sort(),
+      );
+    });
+
+    it('should report misplaced payloads', async () => {
+      const { blobId } = await bs.setBlob('Misplaced');
+      const { filePath, metaPath } = pathsOf(blobId);
+      await rename(filePath, join(testDir, `${blobId}.txt`));
+      await rename(metaPath, join(testDir, `${blobId}.meta.json`));
+
+      const { issues } = await bs.verify();
+      expect(issues).toEqual([
+        {
+          kind: 'misplaced',
+          blobId,
+          path: join(testDir, `${blobId}.txt`),
+          message: `Payload belongs to ${filePath}`,
+        },
+      ]);
+    });
+
+    it('should ignore quarantined files', async () => {
+      await mkdir(join(testDir, 'lost+found'), { recursive: true });
+      await writeFile(join(testDir, 'lost+found', 'x.txt'), 'x');
+      await writeFile(join(testDir, 'lost+found', 'y.meta.json'), '{}');
+
+      expect(await bs.verify()).toEqual({ checked: 0, issues: [] });
+    });
+  });
+
+  describe('repair', () => {
+    it('should quarantine corrupt and truncated payloads', async () => {
+      const a = await bs.setBlob('Will be corrupted');
+      const b = await bs.setBlob('Will be truncated');
+      const c = await bs.setBlob('Stays healthy');
+      await writeFile(pathsOf(a.blobId).filePath, 'Was corrupted!!!!');
+      await writeFile(pathsOf(b.blobId).filePath, 'Will');
+
+      const report = await bs.repair();
+      expect(report.repaired.map((r) => r.action)).toEqual([
+        'quarantined',
+        'quarantined',
+      ]);
+
+      const quarantined = await readdir(join(testDir, 'lost+found'));
+      expect(quarantined).toHaveLength(4);
+      expect(quarantined.some((f) => f.endsWith(`-${a.blobId}.txt`))).toBe(
+        true,
+      );
+
+      expect((await bs.listBlobs()).blobs.map((x) => x.blobId)).toEqual([
+        c.blobId,
+      ]);
+      expect(await bs.verify()).toEqual({ checked: 1, issues: [] });
+    });
+
+    it('should quarantine corrupt payloads without metadata', async () => {
+      const { blobId } = await bs.setBlob('Corrupt orphan');
+      await rm(pathsOf(blobId).metaPath);
+      await writeFile(pathsOf(blobId).filePath, 'Something else');
+
+      const report = await bs.repair();
+      expect(report.repaired).toMatchObject([
+        { issue: { kind: 'corrupt' }, action: 'quarantined' },
+      ]);
+      expect(await readdir(join(testDir, 'lost+found'))).toHaveLength(1);
+    });
+
+    it('should move misplaced payloads back', async () => {
+      const props = await bs.setBlob('Misplaced');
+      const { filePath, metaPath } = pathsOf(props.blobId);
+      await rename(filePath, join(testDir, `${props.blobId}.txt`));
+      await rename(metaPath, join(testDir, `${props.blobId}.meta.json`));
+
+      const report = await bs.repair();
+      expect(report.repaired.map((r) => r.action)).toEqual(['moved']);
+
+      const { content, properties } = await bs.getBlob(props.blobId);
+      expect(content.toString('utf8')).toBe('Misplaced');
+      expect(properties).toEqual(props);
+      expect(await bs.verify()).toEqual({ checked: 1, issues: [] });
+    });
+
+    it('should drop misplaced copies of existing blobs', async () => {
+      const props = await bs.setBlob('Copied');
+      const copyDir = join(testDir, 'zz');
+      await mkdir(copyDir);
+      await writeFile(join(copyDir, `${props.blobId}.txt`), 'Copied');
+
+      const report = await bs.repair();
+      expect(report.repaired.map((r) => r.action)).toEqual(['removed']);
+      expect(await readdir(copyDir)).toEqual([]);
+      expect(await bs.verify()).toEqual({ checked: 1, issues: [] });
+    });
+
+    it('should replace orphaned metadata by moved payloads', async () => {
+      const props = await bs.setBlob('Moved away');
+      const { filePath } = pathsOf(props.blobId);
+      await rename(filePath, join(testDir, `${props.blobId}.txt`));
+
+      expect((await kinds()).map(([kind]) => kind).sort()).toEqual([
+        'misplaced',
+        'orphanedMetadata',
+      ]);
+
+      const report = await bs.repair();
+      expect(report.repaired.map((r) => r.action)).toEqual([
+        'removed',
+        'moved',
+      ]);
+
+      const { content } = await bs.getBlob(props.blobId);
+      expect(content.toString('utf8')).toBe('Moved away');
+      expect(await bs.verify()).toEqual({ checked: 1, issues: [] });
+    });
+
+    it('should rebuild missing metadata from the payload', async () => {
+      const props = await bs.setBlob('Orphan');
+      const { filePath, metaPath } = pathsOf(props.blobId);
+      await rm(metaPath);
+      const mtime = new Date('2025-06-01T12:00:00.000Z');
+      await utimes(filePath, mtime, mtime);
+
+      const report = await bs.repair();
+      expect(report.repaired.map((r) => r.action)).toEqual(['rebuiltMetadata']);
+
+      const properties = await bs.getBlobProperties(props.blobId);
+      expect(properties).toEqual({ ...props, createdAt: mtime });
+      expect(await bs.size()).toBe(1);
+    });
+
+    it('should rebuild invalid metadata', async () => {
+      const a = await bs.setBlob('Invalid json');
+      const b = await bs.setBlob('Wrong size');
+      const c = await bs.setBlob('No date');
+      await writeFile(pathsOf(a.blobId).metaPath, '{');
+      await writeFile(
+        pathsOf(b.blobId).metaPath,
+        JSON.stringify({ ...b, size: 3 }),
+      );
+      await writeFile(
+        pathsOf(c.blobId).metaPath,
+        JSON.stringify({ blobId: c.blobId }),
+      );
+
+      const report = await bs.repair();
+      expect(report.repaired.map((r) => r.action)).toEqual([
+        'rebuiltMetadata',
+        'rebuiltMetadata',
+        'rebuiltMetadata',
+      ]);
+
+      // The creation date is kept where possible
+      expect(await bs.getBlobProperties(b.blobId)).toEqual(b);
+      expect((await bs.getBlobProperties(a.blobId)).size).toBe(a.size);
+      expect((await bs.getBlobProperties(c.blobId)).size).toBe(c.size);
+      expect(await bs.verify()).toEqual({ checked: 3, issues: [] });
+    });
+
+    it('should remove metadata without payload', async () => {
+      const { blobId } = await bs.setBlob('Gone');
+      await rm(pathsOf(blobId).filePath);
+      expect(await bs.size()).toBe(1);
+
+      const report = await bs.repair();
+      expect(report.repaired.map((r) => r.action)).toEqual(['removed']);
+      expect(await bs.size()).toBe(0);
+      await expect(readFile(pathsOf(blobId).metaPath)).rejects.toThrow();
+    });
+
+    it('should do nothing for a healthy store', async () => {
+      await bs.setBlob('Healthy');
+
+      expect(await bs.repair()).toEqual({
+        checked: 1,
+        issues: [],
+        repaired: [],
+      });
+    });
+  });
+
+  describe('verifyOnRead', () => {
+    const corrupt = async (store: BsFs) => {
+      const { blobId } = await store.setBlob('Original');
+      await writeFile(pathsOf(blobId).filePath, 'Modified');
+      return blobId;
+    };
+
+    const readAll = async (stream: ReadableStream) => {
+      const chunks: Uint8Array[] = [];
+      const reader = stream.getReader();
+      try {
+        while (true) {
+          const { done, value } = await reader.read();
+          if (done) break;
+          chunks.push(value);
+        }
+      } catch (err) {
+        return { chunks, err };
+      }
+      return { chunks, err: undefined };
+    };
+
+    it('should not verify by default', async () => {
+      const blobId = await corrupt(bs);
+
+      const { content } = await bs.getBlob(blobId);
+      expect(content.toString('utf8')).toBe('Modified');
+    });
+
+    it('should verify on request', async () => {
+      const blobId = await corrupt(bs);
+
+      const err = await bs.getBlob(blobId, { verify: true }).catch((e) => e);
+      expect(err).toBeInstanceOf(BlobIntegrityError);
+      expect(err.blobId).toBe(blobId);
+      expect(err.actualBlobId).toBe(hshBuffer(Buffer.from('Modified')));
+      expect(err.message).toBe(
+        `Blob is corrupt: ${blobId} (content hashes to ${err.actualBlobId})`,
+      );
+
+      // The blob is not quarantined by default
+      expect(await bs.blobExists(blobId)).toBe(true);
+    });
+
+    it('should verify all reads of a verifying store', async () => {
+      const verifying = new BsFs(testDir, { verifyOnRead: true });
+      const blobId = await corrupt(verifying);
+
+      await expect(verifying.getBlob(blobId)).rejects.toThrow(
+        BlobIntegrityError,
+      );
+      await expect(
+        verifying.getBlob(blobId, { range: { start: 0, end: 3 } }),
+      ).rejects.toThrow(BlobIntegrityError);
+      await expect(
+        verifying.getBlobStream(blobId, { range: { suffix: 3 } }),
+      ).rejects.toThrow(BlobIntegrityError);
+
+      // Unless turned off per call
+      const { content } = await verifying.getBlob(blobId, { verify: false });
+      expect(content.toString('utf8')).toBe('Modified');
+    });
+
+    it('should pass healthy blobs', async () => {
+      const verifying = new BsFs(testDir, { verifyOnRead: true });
+      const { blobId } = await verifying.setBlob('0123456789');
+
+      const { content } = await verifying.getBlob(blobId);
+      expect(content.toString('utf8')).toBe('0123456789');
+
+      const range = await verifying.getBlob(blobId, {
+        range: { start: 2, end: 4 },
+      });
+      expect(range.content.toString('utf8')).toBe('23');
+
+      const streamed = await readAll(await verifying.getBlobStream(blobId));
+      expect(streamed.err).toBeUndefined();
+      expect(Buffer.concat(streamed.chunks).toString('utf8')).toBe(
+        '0123456789',
+      );
+
+      const streamedRange = await readAll(
+        await verifying.getBlobStream(blobId, { range: { start: 8 } }),
+      );
+      expect(Buffer.concat(streamedRange.chunks).toString('utf8')).toBe('89');
+    });
+
+    it('should error streams at their end', async () => {
+      const blobId = await corrupt(bs);
+
+      const stream = await bs.getBlobStream(blobId, { verify: true });
+      const { chunks, err } = await readAll(stream);
+
+      expect(Buffer.concat(chunks).toString('utf8')).toBe('Modified');
+      expect(err).toBeInstanceOf(BlobIntegrityError);
+    });
+
+    it('should quarantine corrupt blobs if configured', async () => {
+      const quarantining = new BsFs(testDir, {
+        verifyOnRead: true,
+        quarantineCorruptBlobs: true,
+      });
+      const blobId = await corrupt(quarantining);
+
+      await expect(quarantining.getBlob(blobId)).rejects.toThrow(
+        BlobIntegrityError,
+      );
+
+      expect(await quarantining.blobExists(blobId)).toBe(false);
+      expect(await quarantining.size()).toBe(0);
+      expect(await readdir(join(testDir, 'lost+found'))).toHaveLength(2);
+
+      // Storing the content again heals the store
+      await quarantining.setBlob('Original');
+      const { content } = await quarantining.getBlob(blobId);
+      expect(content.toString('utf8')).toBe('Original');
+    });
+
+    it('should quarantine corrupt streamed blobs if configured', async () => {
+      const quarantining = new BsFs(testDir, {
+        verifyOnRead: true,
+        quarantineCorruptBlobs: true,
+      });
+      const blobId = await corrupt(quarantining);
+
+      const { err } = await readAll(await quarantining.getBlobStream(blobId));
+      expect(err).toBeInstanceOf(BlobIntegrityError);
+      expect(await quarantining.blobExists(blobId)).toBe(false);
+    });
+  });
+});
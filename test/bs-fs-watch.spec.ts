@@ -0,0 +1,115 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { BsFsWatcher, BsFsWatchOptions } from '../src/watcher.ts';
+
+describe('BsFs watch', () => {
+  let bs: BsFs;
+  let other: BsFs;
+  let watcher: BsFsWatcher | undefined;
+  const testDir = './test-bs-fs-watch';
+
+  // Start watching and record the events
+  const watch = async (options: BsFsWatchOptions = {}) => {
+    watcher = await bs.watch({
+      debounceMs: 20,
+      pollIntervalMs: 50,
+      ...options,
+    });
+    const events: string[] = [];
+    watcher.on('blobAdded', ({ blobId }) => events.push(`+${blobId}`));
+    watcher.on('blobDeleted', ({ blobId }) => events.push(`-${blobId}`));
+    return events;
+  };
+
+  // Give the watcher time to report changes that shouldn't be reported
+  const settle = () => new Promise((resolve) => setTimeout(resolve, 200));
+
+  beforeEach(async () => {
+    bs = new BsFs(testDir);
+    other = new BsFs(testDir);
+    await bs.clear();
+  });
+
+  afterEach(async () => {
+    watcher?.close();
+    watcher = undefined;
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  for (const poll of [false, true]) {
+    describe(poll ? 'polling' : 'fs.watch', () => {
+      it('should report blobs added and deleted', async () => {
+        const existing = await bs.setBlob('Existing');
+        const events = await watch({ poll });
+        expect(watcher!.mode).toBe(poll ? 'poll' : 'watch');
+
+        const { blobId } = await other.setBlob('New');
+        await vi.waitFor(() => expect(events).toEqual([`+${blobId}`]));
+
+        await other.deleteBlob(existing.blobId);
+        await vi.waitFor(() =>
+          expect(events).toEqual([`+${blobId}`, `-${existing.blobId}`]),
+        );
+      });
+
+      it('should not report metadata updates', async () => {
+        const { blobId } = await bs.setBlob('Existing');
+        const events = await watch({ poll });
+
+        await other.retain(blobId);
+        await other.setBlobMetadata(blobId, { tags: ['t'] });
+        await other.setBlob('Existing');
+        await settle();
+        expect(events).toEqual([]);
+      });
+    });
+  }
+
+  it('should report bursts once per blob', async () => {
+    const events = await watch();
+    const { blobId } = await other.setBlob('Flickering');
+    await other.deleteBlob(blobId);
+    await other.setBlob('Flickering');
+    await vi.waitFor(() => expect(events).toEqual([`+${blobId}`]));
+  });
+
+  it('should ignore temp files and other files', async () => {
+    await bs.setBlob('Existing');
+    const events = await watch();
+
+    await writeFile(join(testDir, '.x.meta.json'), '{}');
+    await writeFile(join(testDir, 'notes.txt'), 'Not a blob');
+    await settle();
+    expect(events).toEqual([]);
+  });
+
+  it('should not report blobs moved by a migration', async () => {
+    const { blobId } = await bs.setBlob('Moved');
+    const events = await watch();
+
+    await bs.migrateLayout('flat');
+    await settle();
+    expect(events).toEqual([]);
+
+    await bs.deleteBlob(blobId);
+    await vi.waitFor(() => expect(events).toEqual([`-${blobId}`]));
+  });
+
+  it('should poll stores not created yet', async () => {
+    await rm(testDir, { recursive: true, force: true });
+    const events = await watch();
+    expect(watcher!.mode).toBe('poll');
+
+    const { blobId } = await other.setBlob('First');
+    await vi.waitFor(() => expect(events).toEqual([`+${blobId}`]));
+  });
+});
@@ -0,0 +1,84 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+// Child process for the multi-process tests, run with vite-node:
+//
+//   bs-fs-worker.ts churn <dir> <rounds> <content>
+//     Store and delete the same content over and over, then store it
+//
+//   bs-fs-worker.ts count <lockFile> <rounds> <counterFile>
+//     Increment a number in a file while holding a lock
+//
+//   bs-fs-worker.ts put <dir> <count> <prefix>
+//     Store the contents <prefix>0, <prefix>1, ...
+//
+//   bs-fs-worker.ts delete <dir> <count> <prefix>
+//     Delete the blobs stored by put
+
+import { hshBuffer } from '@rljson/hash';
+
+import { readFile, writeFile } from 'node:fs/promises';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { BlobNotFoundError } from '../src/errors.ts';
+import { FileLock } from '../src/file-lock.ts';
+
+const [mode, path, rounds, arg] = process.argv.slice(2) as [
+  string,
+  string,
+  string,
+  string,
+];
+
+const churn = async () => {
+  const bs = new BsFs(path);
+  for (let i = 0; i < Number(rounds); i++) {
+    const { blobId } = await bs.setBlob(arg);
+    try {
+      await bs.deleteBlob(blobId);
+    } catch (error) {
+      // Deleted by another process meanwhile
+      if (!(error instanceof BlobNotFoundError)) {
+        throw error;
+      }
+    }
+  }
+
+  // Leave the blob behind, a dangling metadata file would hide it
+  await bs.setBlob(arg);
+};
+
+const count = async () => {
+  const lock = new FileLock(path);
+  for (let i = 0; i < Number(rounds); i++) {
+    await lock.run(async () => {
+      const value = Number(await readFile(arg, 'utf8'));
+      await writeFile(arg, String(value + 1));
+    });
+  }
+};
+
+const put = async () => {
+  const bs = new BsFs(path);
+  for (let i = 0; i < Number(rounds); i++) {
+    await bs.setBlob(`${arg}${i}`);
+  }
+};
+
+const remove = async () => {
+  const bs = new BsFs(path);
+  for (let i = 0; i < Number(rounds); i++) {
+    await bs.deleteBlob(hshBuffer(Buffer.from(`${arg}${i}`)));
+  }
+};
+
+const modes: Record<string, () => Promise<void>> = {
+  churn,
+  count,
+  put,
+  delete: remove,
+};
+await modes[mode]!();
@@ -4,23 +4,63 @@
 // Use of this source code is governed by terms that can be
 // found in the LICENSE file in the root of this package.
 
-import { access, readFile } from 'node:fs/promises';
+import { hshBuffer } from '@rljson/hash';
+
+import { createHash } from 'node:crypto';
+import { access, readdir, readFile, rm, writeFile } from 'node:fs/promises';
 import { join } from 'node:path';
-import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 
-import { BsFs } from './bs-fs.js';
+import { BsFs } from '../src/bs-fs.ts';
+import { ChangeLog } from '../src/change-log.ts';
+import {
+  BlobRangeError,
+  SignedUrlError,
+  SignedUrlExpiredError,
+} from '../src/errors.ts';
+import { BsFsRange } from '../src/range.ts';
 
 describe('BsFs', () => {
   let bs: BsFs;
   const testDir = './test-bs-fs';
 
+  const metaPathOf = (blobId: string) => {
+    const subDirs = [0, 2, 4, 6].map((i) => blobId.substring(i, i + 2));
+    return {
+      metaPath: join(testDir, ...subDirs, `${blobId}.meta.json`),
+    };
+  };
+
   beforeEach(async () => {
     bs = new BsFs(testDir);
     await bs.clear();
   });
 
   afterEach(async () => {
-    await bs.clear();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('example', () => {
+    it('should return a working instance on a temp directory', async () => {
+      const example = BsFs.example;
+      const props = await example.setBlob('Example content');
+
+      const { content } = await example.getBlob(props.blobId);
+      expect(content.toString('utf8')).toBe('Example content');
+      expect(await example.size()).toBe(1);
+
+      await example.clear();
+    });
+
+    it('should return a new directory on each call', async () => {
+      const a = BsFs.example;
+      const b = BsFs.example;
+
+      await a.setBlob('Only in a');
+      expect(await b.size()).toBe(0);
+
+      await a.clear();
+    });
   });
 
   describe('setBlob', () => {
@@ -55,6 +95,91 @@ describe('BsFs', () => {
       expect(props.size).toBe(Buffer.from(content).length);
     });
 
+    it('should hash streams chunk by chunk like hshBuffer', async () => {
+      const chunks = ['Streamed ', 'in ', 'several ', 'chunks'];
+      const stream = new ReadableStream({
+        start(controller) {
+          for (const chunk of chunks) {
+            controller.enqueue(new TextEncoder().encode(chunk));
+          }
+          controller.close();
+        },
+      });
+
+      const props = await bs.setBlob(stream);
+      const expected = hshBuffer(Buffer.from(chunks.join('')));
+
+      expect(props.blobId).toBe(expected);
+      expect(props.size).toBe(chunks.join('').length);
+
+      const { content } = await bs.getBlob(props.blobId);
+      expect(content.toString('utf8')).toBe(chunks.join(''));
+    });
+
+    it('should stream large content without assembling it', async () => {
+      const chunkSize = 64 * 1024;
+      const chunkCount = 128; // 8 MB
+      const hasher = createHash('sha256');
+      let sent = 0;
+
+      const stream = new ReadableStream<Uint8Array>({
+        pull(controller) {
+          if (sent === chunkCount) {
+            controller.close();
+            return;
+          }
+          const chunk = Buffer.alloc(chunkSize, sent % 256);
+          hasher.update(chunk);
+          controller.enqueue(chunk);
+          sent++;
+        },
+      });
+
+      const props = await bs.setBlob(stream);
+
+      expect(props.size).toBe(chunkSize * chunkCount);
+      expect(props.blobId).toBe(hasher.digest('base64url').substring(0, 22));
+    });
+
+    it('should discard the temp file of duplicate streams', async () => {
+      const toStream = (text: string) =>
+        new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode(text));
+            controller.close();
+          },
+        });
+
+      const props1 = await bs.setBlob(toStream('Same stream'));
+      const props2 = await bs.setBlob(toStream('Same stream'));
+
+      expect(props2).toEqual(props1);
+      expect(await bs.size()).toBe(1);
+
+      const entries = await readdir(testDir, { recursive: true });
+      expect(entries.filter((e) => e.endsWith('.tmp'))).toEqual([]);
+    });
+
+    it('should clean up when the stream fails', async () => {
+      // Fail within and after the bytes read ahead to detect the type
+      for (const partial of ['Partial', 'x'.repeat(100 * 1024)]) {
+        const stream = new ReadableStream({
+          start(controller) {
+            controller.enqueue(new TextEncoder().encode(partial));
+          },
+          pull(controller) {
+            controller.error(new Error('Connection lost'));
+          },
+        });
+
+        await expect(bs.setBlob(stream)).rejects.toThrow('Connection lost');
+      }
+
+      expect(await bs.size()).toBe(0);
+      const entries = await readdir(testDir, { recursive: true });
+      expect(entries.filter((e) => e.endsWith('.tmp'))).toEqual([]);
+    });
+
     it('should deduplicate identical content', async () => {
       const content = 'Duplicate content';
       const props1 = await bs.setBlob(content);
@@ -125,6 +250,57 @@ describe('BsFs', () => {
       expect(result.content.toString('utf8')).toBe('234');
     });
 
+    it('should read until the end for ranges without end', async () => {
+      const props = await bs.setBlob('0123456789');
+
+      const result = await bs.getBlob(props.blobId, { range: { start: 6 } });
+
+      expect(result.content.toString('utf8')).toBe('6789');
+      expect(result.properties.size).toBe(10);
+    });
+
+    it('should handle suffix ranges', async () => {
+      const props = await bs.setBlob('0123456789');
+
+      const last3 = await bs.getBlob(props.blobId, { range: { suffix: 3 } });
+      expect(last3.content.toString('utf8')).toBe('789');
+
+      const all = await bs.getBlob(props.blobId, { range: { suffix: 99 } });
+      expect(all.content.toString('utf8')).toBe('0123456789');
+    });
+
+    it('should handle empty ranges', async () => {
+      const props = await bs.setBlob('0123456789');
+
+      const result = await bs.getBlob(props.blobId, {
+        range: { start: 3, end: 3 },
+      });
+      expect(result.content.length).toBe(0);
+    });
+
+    it('should read ranges of large blobs', async () => {
+      const content = Buffer.alloc(3 * 1024 * 1024);
+      for (let i = 0; i < content.length; i++) content[i] = i % 251;
+      const props = await bs.setBlob(content);
+
+      const start = 2 * 1024 * 1024 + 17;
+      const result = await bs.getBlob(props.blobId, {
+        range: { start, end: start + 1000 },
+      });
+      expect(result.content).toEqual(content.subarray(start, start + 1000));
+    });
+
+    it('should reject ranges outside of the blob', async () => {
+      const props = await bs.setBlob('0123456789');
+
+      await expect(
+        bs.getBlob(props.blobId, { range: { start: 5, end: 20 } }),
+      ).rejects.toThrow(BlobRangeError);
+      await expect(
+        bs.getBlob(props.blobId, { range: { start: 11 } }),
+      ).rejects.toThrow('start 11 lies beyond the end of the blob');
+    });
+
     it('should throw error for non-existent blob', async () => {
       await expect(bs.getBlob('non-existent-id')).rejects.toThrow(
         'Blob not found: non-existent-id',
@@ -161,6 +337,31 @@ describe('BsFs', () => {
       expect(result).toBe(content);
     });
 
+    it('should stream only the requested range', async () => {
+      const props = await bs.setBlob('0123456789');
+
+      const read = async (range: BsFsRange) =>
+        Buffer.from(
+          await new Response(
+            await bs.getBlobStream(props.blobId, { range }),
+          ).arrayBuffer(),
+        ).toString('utf8');
+
+      expect(await read({ start: 2, end: 5 })).toBe('234');
+      expect(await read({ start: 8 })).toBe('89');
+      expect(await read({ suffix: 4 })).toBe('6789');
+      expect(await read({ start: 0, end: 10 })).toBe('0123456789');
+      expect(await read({ start: 5, end: 5 })).toBe('');
+    });
+
+    it('should reject stream ranges outside of the blob', async () => {
+      const props = await bs.setBlob('0123456789');
+
+      await expect(
+        bs.getBlobStream(props.blobId, { range: { start: 0, end: 11 } }),
+      ).rejects.toThrow('end 11 lies beyond the end of the blob');
+    });
+
     it('should throw error for non-existent blob', async () => {
       await expect(bs.getBlobStream('non-existent-id')).rejects.toThrow(
         'Blob not found: non-existent-id',
@@ -333,6 +534,58 @@ describe('BsFs', () => {
     });
   });
 
+  describe('index', () => {
+    it('should list blobs without reading their metadata files', async () => {
+      const props = await bs.setBlob('Indexed');
+      const { metaPath } = metaPathOf(props.blobId);
+      await writeFile(metaPath, 'not json');
+
+      const { blobs } = await bs.listBlobs();
+      expect(blobs).toEqual([props]);
+    });
+
+    it('should keep the index in a log file in the base directory', async () => {
+      const props = await bs.setBlob('Logged');
+      await bs.deleteBlob(props.blobId);
+
+      const log = await readFile(join(testDir, 'bs-fs.index.log'), 'utf8');
+      expect(log.trim().split('\n')).toEqual([
+        JSON.stringify({ op: 'add', ...props }),
+        JSON.stringify({ op: 'del', blobId: props.blobId }),
+      ]);
+    });
+
+    it('should rebuild a missing index', async () => {
+      await bs.setBlob('Content 1');
+      await bs.setBlob('Content 2');
+      await rm(join(testDir, 'bs-fs.index.log'));
+
+      const reopened = new BsFs(testDir);
+      expect(await reopened.size()).toBe(2);
+      expect((await reopened.listBlobs()).blobs).toHaveLength(2);
+    });
+
+    it('should rebuild the index on request', async () => {
+      const props = await bs.setBlob('Content 1');
+      await bs.setBlob('Content 2');
+
+      // Remove a blob behind the index's back
+      await rm(metaPathOf(props.blobId).metaPath);
+      expect(await bs.size()).toBe(2);
+
+      await bs.rebuildIndex();
+      expect(await bs.size()).toBe(1);
+    });
+
+    it('should see blobs written by other instances', async () => {
+      const other = new BsFs(testDir);
+      expect(await bs.size()).toBe(0);
+
+      await other.setBlob('From the other instance');
+      expect(await bs.size()).toBe(1);
+    });
+  });
+
   describe('generateSignedUrl', () => {
     it('should generate a signed URL for existing blob', async () => {
       const content = 'URL test';
@@ -358,6 +611,44 @@ describe('BsFs', () => {
         bs.generateSignedUrl('non-existent-id', 3600),
       ).rejects.toThrow('Blob not found: non-existent-id');
     });
+
+    it('should verify its own URLs', async () => {
+      const props = await bs.setBlob('URL test');
+
+      const url = await bs.generateSignedUrl(props.blobId, 3600, 'delete');
+      const grant = bs.verifySignedUrl(url);
+      expect(grant.blobId).toBe(props.blobId);
+      expect(grant.permissions).toBe('delete');
+      expect(grant.expires).toBeGreaterThan(Date.now() + 3500 * 1000);
+
+      // URLs of other instances use other random secrets
+      expect(() => new BsFs(testDir).verifySignedUrl(url)).toThrow(
+        SignedUrlError,
+      );
+    });
+
+    it('should reject expired URLs', async () => {
+      const props = await bs.setBlob('URL test');
+
+      const url = await bs.generateSignedUrl(props.blobId, -1);
+      expect(() => bs.verifySignedUrl(url)).toThrow(SignedUrlExpiredError);
+    });
+
+    it('should accept URLs signed with rotated secrets', async () => {
+      const props = await bs.setBlob('URL test');
+      const before = new BsFs(testDir, { signedUrlSecrets: ['first'] });
+      const after = new BsFs(testDir, {
+        signedUrlSecrets: ['second', 'first'],
+      });
+
+      const url = await before.generateSignedUrl(props.blobId, 3600);
+      expect(after.verifySignedUrl(url).blobId).toBe(props.blobId);
+
+      const newUrl = await after.generateSignedUrl(props.blobId, 3600);
+      expect(() => before.verifySignedUrl(newUrl)).toThrow(
+        'Signed URL is not valid: invalid signature',
+      );
+    });
   });
 
   describe('clear', () => {
@@ -379,11 +670,32 @@ describe('BsFs', () => {
       await expect(bs.clear()).resolves.toBeUndefined();
     });
 
-    it('should completely remove the base directory', async () => {
+    it('should remove everything but the change log', async () => {
+      await bs.setBlob('Test');
+      await bs.clear();
+      expect(await readdir(testDir)).toEqual(['bs-fs.changes.log']);
+    });
+
+    it('should hold the lock until the change log is restarted', async () => {
       await bs.setBlob('Test');
+      const { changeLog } = bs as unknown as { changeLog: ChangeLog };
+      let locked = false;
+      vi.spyOn(changeLog, 'restart').mockImplementationOnce(async () => {
+        locked = await access(join(testDir, 'bs-fs.lock')).then(
+          () => true,
+          () => false,
+        );
+      });
+
       await bs.clear();
+      expect(locked).toBe(true);
+    });
 
-      // Try to access the directory - it should not exist
+    it('should completely remove stores without changes', async () => {
+      await rm(testDir, { recursive: true, force: true });
+      await bs.setBlob('Test');
+      await rm(join(testDir, 'bs-fs.changes.log'));
+      await bs.clear();
       await expect(access(testDir)).rejects.toThrow();
     });
   });
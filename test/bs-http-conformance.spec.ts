@@ -0,0 +1,46 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { BsTestSetup } from '@rljson/bs';
+
+import { BsFsServer } from '../src/bs-fs-server.ts';
+import { BsFs } from '../src/bs-fs.ts';
+import { BsHttp } from '../src/bs-http.ts';
+
+import { runBsConformanceTests } from './bs-conformance.spec.ts';
+
+// .............................................................................
+/**
+ * Runs the conformance tests against a BsHttp talking to a BsFsServer
+ */
+class BsHttpTestSetup implements BsTestSetup {
+  bs!: BsHttp;
+  private readonly store = new BsFs('./test-blobs-http');
+  private readonly server = new BsFsServer(this.store, {
+    accessToken: 'conformance',
+  });
+
+  async beforeAll(): Promise<void> {
+    const url = await this.server.listen();
+    this.bs = new BsHttp(url, { accessToken: 'conformance' });
+  }
+
+  async beforeEach(): Promise<void> {
+    await this.store.clear();
+  }
+
+  async afterEach(): Promise<void> {
+    // Nothing to clean up
+  }
+
+  async afterAll(): Promise<void> {
+    await this.server.close();
+    await this.store.clear();
+  }
+}
+
+// Importing the conformance tests runs them for BsFs as well
+runBsConformanceTests(() => new BsHttpTestSetup());
@@ -0,0 +1,256 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { hshBuffer } from '@rljson/hash';
+
+import { randomBytes } from 'node:crypto';
+import { rm } from 'node:fs/promises';
+import { createServer, Server } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFsServer } from '../src/bs-fs-server.ts';
+import { BsFs } from '../src/bs-fs.ts';
+import { BsHttp } from '../src/bs-http.ts';
+import { StaticKeyProvider } from '../src/encryption.ts';
+import {
+  BlobNotFoundError,
+  BlobRangeError,
+  BsHttpError,
+} from '../src/errors.ts';
+
+describe('BsHttp', () => {
+  let store: BsFs;
+  let server: BsFsServer;
+  let bs: BsHttp;
+  const testDir = './test-bs-http';
+  const accessToken = 'client token';
+
+  const content = Buffer.from('0123456789'.repeat(10));
+  let blobId: string;
+
+  const readAll = async (stream: ReadableStream) => {
+    const chunks: Uint8Array[] = [];
+    const reader = stream.getReader();
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      chunks.push(value);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  // A server failing the first requests with the given status
+  const flakyServer = async (failures: number, status = 503) => {
+    const requests: string[] = [];
+    const flaky = createServer((req, res) => {
+      requests.push(req.method!);
+      if (requests.length <= failures) {
+        req.resume();
+        res.writeHead(status).end();
+        return;
+      }
+      server.handleRequest(req, res);
+    });
+    await new Promise<void>((resolve) => flaky.listen(0, '127.0.0.1', resolve));
+    const { port } = flaky.address() as AddressInfo;
+    return { flaky, requests, url: `http://127.0.0.1:${port}` };
+  };
+
+  const close = (s: Server) =>
+    new Promise<void>((resolve) => {
+      s.close(() => resolve());
+      s.closeAllConnections();
+    });
+
+  beforeEach(async () => {
+    store = new BsFs(testDir);
+    await store.clear();
+    ({ blobId } = await store.setBlob(content));
+    server = new BsFsServer(store, { accessToken });
+    bs = new BsHttp(`${await server.listen()}/`, {
+      accessToken,
+      retryDelayMs: 1,
+    });
+  });
+
+  afterEach(async () => {
+    await server.close();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('setBlob', () => {
+    it('should upload streams', async () => {
+      const large = randomBytes(200 * 1024);
+      const stream = new ReadableStream({
+        start(controller) {
+          controller.enqueue(large.subarray(0, 1000));
+          controller.enqueue(large.subarray(1000));
+          controller.close();
+        },
+      });
+
+      const properties = await bs.setBlob(stream);
+      expect(properties.blobId).toBe(hshBuffer(large));
+      expect(properties.createdAt).toBeInstanceOf(Date);
+      expect((await store.getBlob(properties.blobId)).content).toEqual(large);
+    });
+  });
+
+  describe('ranges', () => {
+    it('should read ranges', async () => {
+      for (const [range, start, end] of [
+        [{ start: 10, end: 20 }, 10, 20],
+        [{ start: 90 }, 90, 100],
+        [{ suffix: 5 }, 95, 100],
+        [{ start: 40, end: 40 }, 40, 40],
+        [{ suffix: 0 }, 100, 100],
+      ] as const) {
+        const { content: part, properties } = await bs.getBlob(blobId, {
+          range,
+        });
+        expect(part).toEqual(content.subarray(start, end));
+        expect(properties.size).toBe(100);
+
+        const stream = await bs.getBlobStream(blobId, { range });
+        expect(await readAll(stream)).toEqual(content.subarray(start, end));
+      }
+    });
+
+    it('should reject ranges like BsFs does', async () => {
+      for (const range of [
+        { start: 50, end: 101 },
+        { start: 101 },
+        { start: 101, end: 101 },
+        { start: 5, end: 1 },
+        { start: -1, end: 5 },
+      ]) {
+        await expect(bs.getBlob(blobId, { range })).rejects.toThrow(
+          BlobRangeError,
+        );
+        await expect(store.getBlob(blobId, { range })).rejects.toThrow(
+          BlobRangeError,
+        );
+      }
+
+      await expect(
+        bs.getBlobStream(blobId, { range: { start: 50, end: 101 } }),
+      ).rejects.toThrow(BlobRangeError);
+    });
+  });
+
+  describe('errors', () => {
+    it('should throw BlobNotFoundError for unknown blobs', async () => {
+      const calls = [
+        () => bs.getBlob('unknown'),
+        () => bs.getBlob('unknown', { range: { start: 0, end: 0 } }),
+        () => bs.getBlobStream('unknown'),
+        () => bs.getBlobProperties('unknown'),
+        () => bs.deleteBlob('unknown'),
+        () => bs.generateSignedUrl('unknown', 60),
+      ];
+      for (const call of calls) {
+        const error = await call().catch((e) => e);
+        expect(error).toBeInstanceOf(BlobNotFoundError);
+        expect(error.message).toBe('Blob not found: unknown');
+      }
+      expect(await bs.blobExists('unknown')).toBe(false);
+    });
+
+    it('should report errors of the server', async () => {
+      const anonymous = new BsHttp(server.url);
+
+      const error = await anonymous.listBlobs().catch((e) => e);
+      expect(error).toBeInstanceOf(BsHttpError);
+      expect(error.status).toBe(401);
+      expect(error.message).toBe('Access token or signed URL required');
+
+      await expect(anonymous.blobExists(blobId)).rejects.toThrow(BsHttpError);
+      await expect(anonymous.setBlob('x')).rejects.toThrow(BsHttpError);
+    });
+
+    it('should report server errors without a JSON body', async () => {
+      const { flaky, url } = await flakyServer(1, 500);
+      try {
+        const error = await new BsHttp(url).listBlobs().catch((e) => e);
+        expect(error).toBeInstanceOf(BsHttpError);
+        expect(error.status).toBe(500);
+        expect(error.message).toBe('Internal Server Error');
+      } finally {
+        await close(flaky);
+      }
+    });
+
+    it('should report unreadable blobs', async () => {
+      const encrypted = new BsFs(testDir, {
+        encryption: {
+          keyProvider: new StaticKeyProvider({ k: randomBytes(32) }, 'k'),
+        },
+      });
+      const secret = await encrypted.setBlob('Secret');
+
+      const error = await bs.getBlob(secret.blobId).catch((e) => e);
+      expect(error).toBeInstanceOf(BsHttpError);
+      expect(error.status).toBe(500);
+      expect(error.message).toContain('no keys are configured');
+    });
+  });
+
+  describe('retries', () => {
+    it('should repeat requests failing temporarily', async () => {
+      const { flaky, requests, url } = await flakyServer(2);
+      try {
+        const client = new BsHttp(url, { accessToken, retryDelayMs: 1 });
+        expect((await client.getBlob(blobId)).content).toEqual(content);
+        expect(requests).toEqual(['GET', 'GET', 'GET']);
+
+        const properties = await client.setBlob('Retried');
+        expect(properties.size).toBe(7);
+      } finally {
+        await close(flaky);
+      }
+    });
+
+    it('should give up after the configured retries', async () => {
+      const { flaky, requests, url } = await flakyServer(10);
+      try {
+        const client = new BsHttp(url, { retries: 2, retryDelayMs: 1 });
+        const error = await client.listBlobs().catch((e) => e);
+        expect(error).toBeInstanceOf(BsHttpError);
+        expect(error.status).toBe(503);
+        expect(requests).toHaveLength(3);
+      } finally {
+        await close(flaky);
+      }
+    });
+
+    it('should not repeat stream uploads', async () => {
+      const { flaky, requests, url } = await flakyServer(1);
+      try {
+        const client = new BsHttp(url, { accessToken, retryDelayMs: 1 });
+        const stream = new ReadableStream({
+          start(controller) {
+            controller.enqueue(Buffer.from('Streamed'));
+            controller.close();
+          },
+        });
+
+        await expect(client.setBlob(stream)).rejects.toThrow(BsHttpError);
+        expect(requests).toEqual(['POST']);
+      } finally {
+        await close(flaky);
+      }
+    });
+
+    it('should repeat requests failing with network errors', async () => {
+      const url = server.url;
+      await server.close();
+
+      const client = new BsHttp(url, { retries: 1, retryDelayMs: 1 });
+      await expect(client.blobExists(blobId)).rejects.toThrow('fetch failed');
+    });
+  });
+});
@@ -0,0 +1,220 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { appendFile, mkdir, readFile, rm, truncate } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFsChange, ChangeLog } from '../src/change-log.ts';
+import { ChangeLogTruncatedError } from '../src/errors.ts';
+
+describe('ChangeLog', () => {
+  const testDir = './test-change-log';
+  const logPath = join(testDir, 'changes.log');
+
+  let log: ChangeLog;
+
+  const collect = async (changes: AsyncIterable<BsFsChange>) => {
+    const result: [number, string, string][] = [];
+    for await (const { seq, type, blobId } of changes) {
+      result.push([seq, type, blobId]);
+    }
+    return result;
+  };
+
+  const logLines = async () =>
+    (await readFile(logPath, 'utf8')).split('\n').filter((l) => l);
+
+  beforeEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(testDir, { recursive: true });
+    log = new ChangeLog(logPath);
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('append', () => {
+    it('should number changes', async () => {
+      const before = Date.now();
+      const first = await log.append('added', 'a');
+      expect(first).toMatchObject({ seq: 1, type: 'added', blobId: 'a' });
+      expect(first.at.getTime()).toBeGreaterThanOrEqual(before);
+
+      await log.append('deleted', 'a');
+      expect(await log.seq()).toBe(2);
+      expect(await logLines()).toHaveLength(2);
+    });
+
+    it('should continue the numbering of other instances', async () => {
+      const other = new ChangeLog(logPath);
+      await log.append('added', 'a');
+      await other.append('added', 'b');
+      await log.append('added', 'c');
+
+      // E.g. after a restart
+      const restarted = new ChangeLog(logPath);
+      expect(await restarted.seq()).toBe(3);
+      expect((await restarted.append('deleted', 'b')).seq).toBe(4);
+    });
+
+    it('should skip damaged and incomplete lines', async () => {
+      await appendFile(logPath, '{"seq":1,"ty');
+      expect(await log.seq()).toBe(0);
+
+      await appendFile(logPath, '\n');
+      expect((await log.append('added', 'a')).seq).toBe(1);
+      expect(await collect(log.since(0))).toEqual([[1, 'added', 'a']]);
+    });
+
+    it('should not glue changes onto an incomplete last line', async () => {
+      await log.append('added', 'a');
+      await appendFile(logPath, '{"seq":2,"type":"ad');
+
+      // Left behind by a crashed write
+      expect((await log.append('added', 'b')).seq).toBe(2);
+      expect((await log.append('added', 'c')).seq).toBe(3);
+
+      const reopened = new ChangeLog(logPath);
+      expect(await collect(reopened.since(0))).toEqual([
+        [1, 'added', 'a'],
+        [2, 'added', 'b'],
+        [3, 'added', 'c'],
+      ]);
+    });
+
+    it('should start over if the log vanished or shrank', async () => {
+      await log.append('added', 'a');
+      await log.append('added', 'b');
+
+      await truncate(logPath, 0);
+      expect((await log.append('added', 'c')).seq).toBe(1);
+
+      await rm(logPath);
+      expect(await log.seq()).toBe(0);
+    });
+  });
+
+  describe('since', () => {
+    it('should return the changes after a sequence number', async () => {
+      expect(await collect(log.since(0))).toEqual([]);
+
+      await log.append('added', 'a');
+      await log.append('added', 'b');
+      await log.append('deleted', 'a');
+
+      expect(await collect(log.since(0))).toEqual([
+        [1, 'added', 'a'],
+        [2, 'added', 'b'],
+        [3, 'deleted', 'a'],
+      ]);
+      expect(await collect(log.since(2))).toEqual([[3, 'deleted', 'a']]);
+      expect(await collect(log.since(3))).toEqual([]);
+      expect(await collect(log.since(7))).toEqual([]);
+    });
+
+    it('should be left early', async () => {
+      await log.append('added', 'a');
+      await log.append('added', 'b');
+
+      for await (const change of log.since(0)) {
+        expect(change.seq).toBe(1);
+        break;
+      }
+      expect(await log.seq()).toBe(2);
+    });
+
+    it('should reject invalid sequence numbers', () => {
+      for (const seq of [-1, 1.5, NaN]) {
+        expect(() => log.since(seq)).toThrow(`Invalid sequence number: ${seq}`);
+      }
+    });
+  });
+
+  describe('trimming', () => {
+    it('should drop the older half of long logs', async () => {
+      log = new ChangeLog(logPath, { maxRecords: 4 });
+      for (const blobId of ['a', 'b', 'c', 'd', 'e']) {
+        await log.append('added', blobId);
+      }
+      expect(await logLines()).toHaveLength(2);
+      expect(await collect(log.since(3))).toEqual([
+        [4, 'added', 'd'],
+        [5, 'added', 'e'],
+      ]);
+      expect((await log.append('deleted', 'e')).seq).toBe(6);
+
+      // Readers behind the log can't resume
+      await expect(collect(log.since(2))).rejects.toThrow(
+        new ChangeLogTruncatedError(2, 4),
+      );
+      await expect(collect(log.since(0))).rejects.toThrow(
+        'Changes after 0 are gone, the change log starts at 4',
+      );
+    });
+
+    it('should keep the latest change', async () => {
+      log = new ChangeLog(logPath, { maxRecords: 1 });
+      await log.append('added', 'a');
+      await log.append('added', 'b');
+      expect(await logLines()).toHaveLength(1);
+      expect((await log.append('added', 'c')).seq).toBe(3);
+    });
+  });
+
+  describe('restart', () => {
+    it('should continue the numbering after a marker', async () => {
+      await log.append('added', 'a');
+      await rm(testDir, { recursive: true });
+      await log.restart(1);
+
+      expect(await new ChangeLog(logPath).seq()).toBe(2);
+      expect((await log.append('added', 'b')).seq).toBe(3);
+      expect(await collect(log.since(2))).toEqual([[3, 'added', 'b']]);
+      await expect(collect(log.since(1))).rejects.toThrow(
+        new ChangeLogTruncatedError(1, 3),
+      );
+    });
+
+    it('should not need a marker for empty logs', async () => {
+      await rm(testDir, { recursive: true });
+      await log.restart(0);
+      expect(await log.seq()).toBe(0);
+      await expect(readFile(logPath)).rejects.toThrow();
+    });
+
+    it('should keep markers when trimming', async () => {
+      log = new ChangeLog(logPath, { maxRecords: 4 });
+      await log.append('added', 'a');
+      await log.restart(1);
+      await log.append('added', 'b');
+      await log.append('added', 'c');
+      await expect(collect(log.since(1))).rejects.toThrow(
+        new ChangeLogTruncatedError(1, 3),
+      );
+
+      // Trimming drops the marker along with older changes
+      await log.append('added', 'd');
+      await log.append('added', 'e');
+      await expect(collect(log.since(1))).rejects.toThrow(
+        new ChangeLogTruncatedError(1, 5),
+      );
+      expect(await collect(log.since(4))).toEqual([
+        [5, 'added', 'd'],
+        [6, 'added', 'e'],
+      ]);
+    });
+  });
+
+  describe('reset', () => {
+    it('should forget what was read', async () => {
+      await log.append('added', 'a');
+      log.reset();
+      expect(await log.seq()).toBe(1);
+    });
+  });
+});
@@ -0,0 +1,582 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { hshBuffer } from '@rljson/hash';
+
+import { readFile, rm, utimes, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsFs } from '../src/bs-fs.ts';
+import { runCli } from '../src/cli.ts';
+
+describe('runCli', () => {
+  const testDir = './test-cli';
+  const outFile = './test-cli-out.txt';
+  let bs: BsFs;
+
+  const content = Buffer.from('0123456789'.repeat(10));
+  let blobId: string;
+
+  // Run the tool on the test directory and collect its output
+  const run = async (args: string[], stdin = '') => {
+    const io = {
+      stdin: new PassThrough().end(stdin),
+      stdout: new PassThrough(),
+      stderr: new PassThrough(),
+    };
+    const code = await runCli([...args, '--dir', testDir], io);
+    io.stdout.end();
+    io.stderr.end();
+    return {
+      code,
+      stdout: (await io.stdout.toArray()).join(''),
+      stderr: (await io.stderr.toArray()).join(''),
+    };
+  };
+
+  const runJson = async (args: string[], stdin = '') => {
+    const { code, stdout } = await run([...args, '--json'], stdin);
+    expect(code).toBe(0);
+    return JSON.parse(stdout);
+  };
+
+  beforeEach(async () => {
+    bs = new BsFs(testDir, { detectContentType: true });
+    await bs.clear();
+    ({ blobId } = await bs.setBlob(content));
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await rm(outFile, { force: true });
+  });
+
+  describe('init', () => {
+    it('should create stores', async () => {
+      await rm(testDir, { recursive: true });
+      expect(await run(['init', '--layout', 'flat'])).toEqual({
+        code: 0,
+        stdout: `Created a store in ${testDir}\n`,
+        stderr: '',
+      });
+
+      const { blobId } = await (await BsFs.open(testDir)).setBlob('Flat');
+      expect(await readFile(join(testDir, `${blobId}.bin`), 'utf8')).toBe(
+        'Flat',
+      );
+    });
+
+    it('should create stores in the default layout', async () => {
+      await rm(testDir, { recursive: true });
+      expect(await runJson(['init'])).toEqual({ dir: testDir });
+      expect(await run(['du'])).toMatchObject({ code: 0 });
+    });
+
+    it('should refuse existing stores and invalid usage', async () => {
+      const { code, stderr } = await run(['init']);
+      expect(code).toBe(1);
+      expect(stderr).toContain('the directory is not empty');
+
+      expect((await run(['init', 'extra'])).code).toBe(2);
+      expect((await run(['init', '--layout', 'deep'])).stderr).toContain(
+        'Unknown layout: deep',
+      );
+    });
+
+    it('should be needed before other commands', async () => {
+      await rm(testDir, { recursive: true });
+      for (const args of [['put'], ['ls'], ['import']]) {
+        expect(await run(args)).toEqual({
+          code: 1,
+          stdout: '',
+          stderr: `bs-fs: Incompatible store at ${testDir}: no manifest found\n`,
+        });
+      }
+      expect(await bs.blobExists(blobId)).toBe(false);
+    });
+  });
+
+  describe('stores without manifest', () => {
+    it('should be read and written', async () => {
+      await rm(join(testDir, 'bs-fs.manifest.json'));
+      const { code, stdout } = await run(['ls']);
+      expect(code).toBe(0);
+      expect(stdout).toContain(blobId);
+
+      await writeFile(outFile, 'Added');
+      expect((await run(['put', outFile])).code).toBe(0);
+      expect(await bs.size()).toBe(2);
+    });
+  });
+
+  describe('put', () => {
+    it('should store files and stdin', async () => {
+      await writeFile(outFile, 'From a file');
+      expect(await run(['put', outFile])).toEqual({
+        code: 0,
+        stdout: `${hshBuffer(Buffer.from('From a file'))}\n`,
+        stderr: '',
+      });
+
+      for (const args of [['put'], ['put', '-']]) {
+        const properties = await runJson(args, 'From stdin');
+        expect(properties.blobId).toBe(hshBuffer(Buffer.from('From stdin')));
+        expect(properties.size).toBe(10);
+        expect(new Date(properties.createdAt).getTime()).not.toBeNaN();
+      }
+
+      expect(await bs.size()).toBe(3);
+    });
+
+    it('should store metadata', async () => {
+      await writeFile(outFile, 'Tagged');
+      const properties = await runJson([
+        'put',
+        outFile,
+        '--type',
+        'text/plain',
+        '--tag',
+        'b',
+        '--tag',
+        'a',
+      ]);
+      expect(properties).toMatchObject({
+        contentType: 'text/plain',
+        filename: 'test-cli-out.txt',
+        tags: ['a', 'b'],
+      });
+
+      const piped = await runJson(['put', '--name', 'piped.txt'], 'Piped');
+      expect(piped.filename).toBe('piped.txt');
+      expect((await runJson(['put'], 'Unnamed')).filename).toBeUndefined();
+    });
+
+    it('should fail for missing files', async () => {
+      const { code, stderr } = await run(['put', './test-cli-missing.txt']);
+      expect(code).toBe(1);
+      expect(stderr).toMatch(/^bs-fs: ENOENT/);
+
+      expect((await run(['put', 'a', 'b'])).code).toBe(2);
+    });
+  });
+
+  describe('get', () => {
+    it('should write blobs to stdout', async () => {
+      expect(await run(['get', blobId])).toEqual({
+        code: 0,
+        stdout: content.toString(),
+        stderr: '',
+      });
+    });
+
+    it('should write ranges', async () => {
+      for (const [args, start, end] of [
+        [['--start', '10', '--end', '20'], 10, 20],
+        [['--start', '90'], 90, 100],
+        [['--end', '5'], 0, 5],
+        [['--suffix', '5'], 95, 100],
+      ] as const) {
+        const { stdout } = await run(['get', blobId, ...args]);
+        expect(stdout).toBe(content.subarray(start, end).toString());
+      }
+    });
+
+    it('should write blobs to files', async () => {
+      expect(await run(['get', blobId, '-o', outFile])).toEqual({
+        code: 0,
+        stdout: '',
+        stderr: '',
+      });
+      expect(await readFile(outFile)).toEqual(content);
+
+      expect(
+        await runJson(['get', blobId, '--out', outFile, '--suffix', '3']),
+      ).toEqual({ blobId, file: outFile, bytes: 3 });
+      expect(await readFile(outFile, 'utf8')).toBe('789');
+    });
+
+    it('should reject invalid usage', async () => {
+      for (const [args, message] of [
+        [['get'], 'Expected exactly one blob id'],
+        [['get', blobId, '--json'], '--json requires --out'],
+        [['get', blobId, '--start=-1'], '--start must be a non-negative'],
+        [['get', blobId, '--end', 'x'], '--end must be a non-negative'],
+        [['get', blobId, '--suffix', '1', '--start', '0'], '--suffix can not'],
+      ] as const) {
+        const { code, stderr } = await run([...args]);
+        expect(code).toBe(2);
+        expect(stderr).toContain(message);
+        expect(stderr).toContain(`Run 'bs-fs --help' for usage`);
+      }
+    });
+
+    it('should fail for unknown blobs and invalid ranges', async () => {
+      expect(await run(['get', 'unknown'])).toEqual({
+        code: 1,
+        stdout: '',
+        stderr: 'bs-fs: Blob not found: unknown\n',
+      });
+
+      const { code, stderr } = await run(['get', blobId, '--start', '101']);
+      expect(code).toBe(1);
+      expect(stderr).toContain('Range not satisfiable');
+    });
+  });
+
+  describe('stat', () => {
+    it('should print the properties of a blob', async () => {
+      const { createdAt } = await bs.getBlobProperties(blobId);
+
+      expect((await run(['stat', blobId])).stdout).toBe(
+        `blobId     ${blobId}\n` +
+          `size       100\n` +
+          `createdAt  ${createdAt.toISOString()}\n` +
+          `type       text/plain; charset=utf-8\n`,
+      );
+      expect(await runJson(['stat', blobId])).toEqual({
+        blobId,
+        size: 100,
+        createdAt: createdAt.toISOString(),
+        contentType: 'text/plain; charset=utf-8',
+      });
+
+      // Blobs of unknown type have no type line
+      const binary = await bs.setBlob(Buffer.from([1, 2, 3]));
+      expect((await run(['stat', binary.blobId])).stdout).not.toContain('type');
+    });
+
+    it('should print metadata', async () => {
+      await bs.setBlobMetadata(blobId, {
+        contentType: 'text/plain',
+        filename: 'digits.txt',
+        tags: ['a', 'b'],
+      });
+      expect((await run(['stat', blobId])).stdout).toContain(
+        `type       text/plain\n` +
+          `filename   digits.txt\n` +
+          `tags       a b\n`,
+      );
+    });
+  });
+
+  describe('ls', () => {
+    it('should list blobs page by page', async () => {
+      const others = [await bs.setBlob('a'), await bs.setBlob('b')];
+      const all = (await bs.listBlobs()).blobs;
+
+      const { stdout, stderr } = await run(['ls', '--limit', '2']);
+      expect(stdout).toBe(
+        all
+          .slice(0, 2)
+          .map((b) => `${b.blobId}  ${b.size}  ${b.createdAt.toISOString()}\n`)
+          .join(''),
+      );
+      expect(stderr).toBe(
+        `More blobs follow, continue with --token ${all[1]!.blobId}\n`,
+      );
+
+      const page = await runJson(['ls', '--token', all[1]!.blobId]);
+      expect(page.blobs.map((b: { blobId: string }) => b.blobId)).toEqual([
+        all[2]!.blobId,
+      ]);
+      expect(page.continuationToken).toBeUndefined();
+
+      const prefix = others[0]!.blobId.slice(0, 4);
+      const filtered = await runJson([
+        'ls',
+        '--prefix',
+        prefix,
+        '--limit',
+        '1',
+      ]);
+      expect(filtered.blobs[0].blobId).toBe(others[0]!.blobId);
+    });
+
+    it('should filter by tag', async () => {
+      const tagged = await bs.setBlob('a', { tags: ['x'] });
+      expect((await run(['ls', '--tag', 'x'])).stdout).toBe(
+        `${tagged.blobId}  1  ${tagged.createdAt.toISOString()}\n`,
+      );
+    });
+
+    it('should reject arguments', async () => {
+      expect((await run(['ls', 'x'])).code).toBe(2);
+    });
+  });
+
+  describe('rm', () => {
+    it('should delete blobs', async () => {
+      const other = await bs.setBlob('other');
+      expect(await runJson(['rm', blobId, other.blobId])).toEqual({
+        deleted: [blobId, other.blobId],
+      });
+      expect(await bs.size()).toBe(0);
+
+      expect((await run(['rm'])).code).toBe(2);
+      expect((await run(['rm', blobId])).stderr).toBe(
+        `bs-fs: Blob not found: ${blobId}\n`,
+      );
+    });
+  });
+
+  describe('du', () => {
+    it('should print the space taken', async () => {
+      await bs.setBlob('12345');
+      const usage = await runJson(['du']);
+      expect(usage.blobs).toBe(2);
+      expect(usage.bytes).toBe(105);
+      expect(usage.diskBytes).toBeGreaterThan(105);
+
+      expect((await run(['du'])).stdout).toBe(
+        `2 blobs, 105 bytes, ${usage.diskBytes} bytes on disk\n`,
+      );
+    });
+  });
+
+  describe('verify', () => {
+    it('should succeed for healthy stores', async () => {
+      expect(await run(['verify'])).toEqual({
+        code: 0,
+        stdout: 'Checked 1 blobs, found 0 issues\n',
+        stderr: '',
+      });
+    });
+
+    it('should report and repair issues', async () => {
+      const metaPath = join(
+        testDir,
+        ...[0, 2, 4, 6].map((i) => blobId.slice(i, i + 2)),
+        `${blobId}.meta.json`,
+      );
+      await rm(metaPath);
+
+      const { code, stdout } = await run(['verify']);
+      expect(code).toBe(1);
+      expect(stdout).toContain(`orphanedPayload  ${blobId}`);
+      expect(stdout).toContain('found 1 issues');
+
+      const json = await run(['verify', '--json']);
+      expect(json.code).toBe(1);
+      expect(JSON.parse(json.stdout).issues[0].kind).toBe('orphanedPayload');
+
+      expect(await run(['verify', '--repair'])).toMatchObject({
+        code: 0,
+        stdout: expect.stringContaining(
+          `rebuiltMetadata  orphanedPayload  ${blobId}`,
+        ),
+      });
+      expect(await runJson(['verify'])).toEqual({ checked: 1, issues: [] });
+      expect(await runJson(['verify', '--repair'])).toEqual({
+        checked: 1,
+        issues: [],
+        repaired: [],
+      });
+    });
+  });
+
+  describe('export and import', () => {
+    it('should move blobs through stdout and stdin', async () => {
+      const { code, stdout } = await run(['export']);
+      expect(code).toBe(0);
+      expect(stdout).toContain(`blobs/${blobId}`);
+
+      await bs.clear();
+      await run(['init']);
+      expect(await run(['import'], stdout)).toEqual({
+        code: 0,
+        stdout: 'Imported 1 blobs, skipped 0 existing, 0 invalid\n',
+        stderr: '',
+      });
+      expect((await bs.getBlob(blobId)).content).toEqual(content);
+    });
+
+    it('should export into files', async () => {
+      expect(await runJson(['export', '--out', outFile])).toEqual({
+        file: outFile,
+        exported: 1,
+        bytes: 100,
+      });
+      expect(
+        await run(['export', '--out', outFile, '--since', '2999-01-01']),
+      ).toEqual({
+        code: 0,
+        stdout: 'Exported 0 blobs, 0 bytes\n',
+        stderr: '',
+      });
+
+      await run(['export', '--out', outFile, '--prefix', blobId]);
+      expect(await runJson(['import', outFile])).toEqual({
+        imported: [],
+        skipped: [blobId],
+        invalid: [],
+      });
+    });
+
+    it('should exit with 1 for invalid blobs', async () => {
+      await run(['export', '--out', outFile]);
+      const archive = await readFile(outFile, 'utf8');
+      await writeFile(outFile, archive.replace('0123456789', '9876543210'));
+      await bs.clear();
+      await run(['init']);
+
+      const { code, stdout } = await run(['import', outFile]);
+      expect(code).toBe(1);
+      expect(stdout).toBe(
+        `invalid  ${blobId}\n` +
+          'Imported 0 blobs, skipped 0 existing, 1 invalid\n',
+      );
+    });
+
+    it('should reject invalid usage', async () => {
+      for (const args of [
+        ['export', 'extra'],
+        ['export', '--json'],
+        ['export', '--out', outFile, '--since', 'yesterday'],
+        ['import', 'a', 'b'],
+      ]) {
+        expect((await run(args)).code).toBe(2);
+      }
+      expect((await run(['export', '--since', 'soon'])).stderr).toContain(
+        '--since must be a date',
+      );
+    });
+  });
+
+  describe('migrate', () => {
+    it('should move blobs into another layout', async () => {
+      const { stdout } = await run(['migrate', 'flat']);
+      expect(stdout).toBe('Moved 1 of 1 blobs\n');
+      expect(await readFile(join(testDir, `${blobId}.bin`))).toEqual(content);
+
+      expect(await runJson(['migrate', 'flat'])).toEqual({
+        checked: 0,
+        moved: 0,
+      });
+    });
+
+    it('should reject unknown layouts', async () => {
+      const { code, stderr } = await run(['migrate', 'deep']);
+      expect(code).toBe(2);
+      expect(stderr).toContain('Unknown layout: deep');
+      expect((await run(['migrate'])).code).toBe(2);
+    });
+  });
+
+  describe('gc', () => {
+    it('should remove old temp files', async () => {
+      const tempFile = join(testDir, '.crashed.tmp');
+      await writeFile(tempFile, 'partial');
+
+      expect(await runJson(['gc', '--max-age', '60000'])).toEqual({
+        removedTempFiles: 0,
+      });
+
+      const past = new Date(Date.now() - 20 * 60 * 1000);
+      await utimes(tempFile, past, past);
+      expect((await run(['gc'])).stdout).toBe('Removed 1 temp files\n');
+    });
+
+    it('should delete unreferenced blobs given roots', async () => {
+      const garbage = await bs.setBlob('Garbage');
+      const retained = await bs.setBlob('Retained');
+      await bs.retain(retained.blobId);
+      await writeFile(outFile, `${blobId}\n\n`);
+
+      const dryRun = await runJson([
+        'gc',
+        '--roots',
+        outFile,
+        '--grace',
+        '0',
+        '--dry-run',
+      ]);
+      expect(dryRun).toEqual({
+        blobs: {
+          checked: 3,
+          live: 2,
+          recent: 0,
+          deleted: [garbage.blobId],
+          deletedBytes: 7,
+        },
+      });
+      expect(await bs.size()).toBe(3);
+
+      // Fresh blobs are kept for the grace period
+      expect((await run(['gc', '--roots', outFile])).stdout).toBe(
+        'Removed 0 temp files\nDeleted 0 unreferenced blobs, 0 bytes\n',
+      );
+
+      expect(
+        (await run(['gc', '--roots', '-', '--grace', '0'], blobId)).stdout,
+      ).toBe(
+        'Removed 0 temp files\n' +
+          `${garbage.blobId}\n` +
+          'Deleted 1 unreferenced blobs, 7 bytes\n',
+      );
+      expect(await bs.size()).toBe(2);
+
+      expect((await run(['gc', '--dry-run'])).code).toBe(2);
+    });
+  });
+
+  describe('usage', () => {
+    it('should print help', async () => {
+      const { code, stdout } = await run(['--help']);
+      expect(code).toBe(0);
+      expect(stdout).toMatch(/^Usage: bs-fs <command>/);
+      for (const name of ['put', 'get', 'stat', 'ls', 'rm', 'du', 'verify']) {
+        expect(stdout).toContain(`\n  ${name}`);
+      }
+
+      expect((await run(['get', '-h'])).stdout).toBe(
+        'Usage: bs-fs get <blobId> [--out file] [--start n] [--end n] ' +
+          '[--suffix n] [--dir dir] [--json]\n\n' +
+          'Write a blob or a range of it to stdout or a file\n',
+      );
+    });
+
+    it('should reject invalid command lines', async () => {
+      const missing = await run([]);
+      expect(missing.code).toBe(2);
+      expect(missing.stderr).toMatch(/^Usage: bs-fs <command>/);
+
+      expect(await run(['unknown'])).toMatchObject({
+        code: 2,
+        stderr: expect.stringContaining('bs-fs: Unknown command: unknown'),
+      });
+      expect(await run(['ls', '--repair'])).toMatchObject({
+        code: 2,
+        stderr: expect.stringContaining(`Unknown option '--repair'`),
+      });
+    });
+
+    it('should work on ./blobs by default', async () => {
+      const io = {
+        stdin: new PassThrough(),
+        stdout: new PassThrough(),
+        stderr: new PassThrough(),
+      };
+      expect(await runCli(['ls'], io)).toBe(1);
+      io.stderr.end();
+      expect((await io.stderr.toArray()).join('')).toBe(
+        'bs-fs: Incompatible store at ./blobs: no manifest found\n',
+      );
+    });
+
+    it('should accept options before the command', async () => {
+      const io = {
+        stdin: new PassThrough(),
+        stdout: new PassThrough(),
+        stderr: new PassThrough(),
+      };
+      expect(await runCli(['--dir', testDir, '--json', 'du'], io)).toBe(0);
+      io.stdout.end();
+      expect(JSON.parse((await io.stdout.toArray()).join('')).blobs).toBe(1);
+    });
+  });
+});
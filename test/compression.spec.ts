@@ -0,0 +1,154 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Readable } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+
+import {
+  BsFsCodec,
+  chooseCodec,
+  codecs,
+  decodeBuffer,
+  decodeStream,
+  encodeBuffer,
+  encodeStream,
+  isCodecSupported,
+  looksCompressed,
+  resolveCompression,
+} from '../src/compression.ts';
+
+describe('compression', () => {
+  const text = Buffer.from('{"key":"value"}\n'.repeat(200));
+  const png = Buffer.from([
+    0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 0, 0, 0, 0x0d,
+  ]);
+
+  const collect = async (stream: Readable) => {
+    const chunks: Buffer[] = [];
+    for await (const chunk of stream) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  describe('resolveCompression', () => {
+    it('should return undefined without compression', () => {
+      expect(resolveCompression(undefined)).toBeUndefined();
+    });
+
+    it('should apply defaults to a codec', () => {
+      expect(resolveCompression('gzip')).toEqual({
+        codec: 'gzip',
+        minSize: 1024,
+        sniff: true,
+        level: 6,
+      });
+      expect(resolveCompression('brotli')?.level).toBe(5);
+    });
+
+    it('should keep given options', () => {
+      expect(
+        resolveCompression({
+          codec: 'brotli',
+          minSize: 0,
+          sniff: false,
+          level: 9,
+        }),
+      ).toEqual({ codec: 'brotli', minSize: 0, sniff: false, level: 9 });
+    });
+
+    it('should reject unknown codecs', () => {
+      expect(() => resolveCompression('lzma' as BsFsCodec)).toThrow(
+        'Unknown compression codec: lzma',
+      );
+    });
+  });
+
+  describe('looksCompressed', () => {
+    it('should detect compressed formats', () => {
+      expect(looksCompressed(png)).toBe(true);
+      expect(looksCompressed(Buffer.from([0x1f, 0x8b, 0x08]))).toBe(true);
+      expect(looksCompressed(Buffer.from('RIFF\0\0\0\0WEBPVP8 '))).toBe(true);
+      expect(looksCompressed(Buffer.from('\0\0\0\x18ftypmp42'))).toBe(true);
+    });
+
+    it('should not detect text', () => {
+      expect(looksCompressed(text)).toBe(false);
+      expect(looksCompressed(Buffer.alloc(0))).toBe(false);
+      expect(looksCompressed(Buffer.from('ID3 tags of the songs'))).toBe(false);
+    });
+  });
+
+  describe('chooseCodec', () => {
+    const gzip = resolveCompression('gzip');
+
+    it('should not compress without compression', () => {
+      expect(chooseCodec(undefined, text, true)).toBeUndefined();
+    });
+
+    it('should compress large content', () => {
+      expect(chooseCodec(gzip, text, true)).toBe('gzip');
+    });
+
+    it('should not compress content below the threshold', () => {
+      expect(chooseCodec(gzip, text.subarray(0, 100), true)).toBeUndefined();
+
+      // Incomplete content continues beyond the head
+      expect(chooseCodec(gzip, text.subarray(0, 100), false)).toBe('gzip');
+    });
+
+    it('should not compress content that looks compressed', () => {
+      const large = Buffer.concat([png, Buffer.alloc(2000)]);
+      expect(chooseCodec(gzip, large, true)).toBeUndefined();
+
+      const unsniffed = resolveCompression({ codec: 'gzip', sniff: false });
+      expect(chooseCodec(unsniffed, large, true)).toBe('gzip');
+    });
+  });
+
+  describe('encoding and decoding', () => {
+    for (const codec of codecs) {
+      describe(codec, () => {
+        it.skipIf(!isCodecSupported(codec))(
+          'should round trip buffers',
+          async () => {
+            const encoded = await encodeBuffer(codec, 3, text);
+            expect(encoded.length).toBeLessThan(text.length / 5);
+            expect(await decodeBuffer(codec, encoded)).toEqual(text);
+          },
+        );
+
+        it.skipIf(!isCodecSupported(codec))(
+          'should round trip streams',
+          async () => {
+            const source = Readable.from([
+              text.subarray(0, 7),
+              text.subarray(7),
+            ]);
+            const encoded = encodeStream(source, codec, 3);
+            const decoded = decodeStream(encoded, codec);
+            expect(await collect(decoded)).toEqual(text);
+          },
+        );
+      });
+    }
+
+    it('should reject invalid input', async () => {
+      await expect(decodeBuffer('gzip', text)).rejects.toThrow();
+    });
+
+    it('should forward errors of the source', async () => {
+      const source = new Readable({
+        read() {
+          this.destroy(new Error('Source failed'));
+        },
+      });
+      await expect(collect(decodeStream(source, 'gzip'))).rejects.toThrow(
+        'Source failed',
+      );
+    });
+  });
+});
@@ -0,0 +1,299 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { randomBytes } from 'node:crypto';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { Readable } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import {
+  createEncryptor,
+  currentKey,
+  decryptRange,
+  decryptStream,
+  encryptBuffer,
+  encryptStream,
+  isSealedMetadata,
+  openMetadata,
+  readKeyId,
+  resolveEncryption,
+  resolveKey,
+  sealMetadata,
+  StaticKeyProvider,
+} from '../src/encryption.ts';
+import { BlobDecryptionError } from '../src/errors.ts';
+
+describe('encryption', () => {
+  const testDir = './test-encryption';
+  const key = randomBytes(32);
+  const keys = new StaticKeyProvider({ k1: key }, 'k1');
+  const chunkSize = 16;
+
+  const plaintextOf = (length: number) =>
+    Buffer.from(Array.from({ length }, (_, i) => i % 251));
+
+  const collect = async (source: AsyncIterable<Uint8Array>) => {
+    const chunks: Uint8Array[] = [];
+    for await (const chunk of source) {
+      chunks.push(chunk);
+    }
+    return Buffer.concat(chunks);
+  };
+
+  // Feed data in small pieces to exercise chunk boundaries
+  const decrypt = (data: Buffer, pieceSize = 7) => {
+    const pieces: Buffer[] = [];
+    for (let i = 0; i < data.length; i += pieceSize) {
+      pieces.push(data.subarray(i, i + pieceSize));
+    }
+    return collect(decryptStream(Readable.from(pieces), keys, 'blob'));
+  };
+
+  beforeEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(testDir, { recursive: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('StaticKeyProvider', () => {
+    it('should provide its keys', async () => {
+      expect(keys.currentKeyId()).toBe('k1');
+      expect(keys.getKey('k1')).toBe(key);
+      expect(() => keys.getKey('k2')).toThrow('Unknown key: k2');
+      expect(await currentKey(keys)).toEqual({ keyId: 'k1', key });
+    });
+
+    it('should reject keys of the wrong length', async () => {
+      const short = new StaticKeyProvider({ s: randomBytes(16) }, 's');
+      await expect(resolveKey(short, 's')).rejects.toThrow(
+        'Key s is not 32 bytes long',
+      );
+    });
+  });
+
+  describe('resolveEncryption', () => {
+    it('should apply defaults', () => {
+      expect(resolveEncryption(undefined)).toBeUndefined();
+      expect(resolveEncryption({ keyProvider: keys })).toEqual({
+        keyProvider: keys,
+        chunkSize: 64 * 1024,
+      });
+    });
+
+    it('should reject invalid chunk sizes', () => {
+      for (const invalid of [0, 1.5, 2 ** 32]) {
+        expect(() =>
+          resolveEncryption({ keyProvider: keys, chunkSize: invalid }),
+        ).toThrow(`Invalid encryption chunk size: ${invalid}`);
+      }
+    });
+  });
+
+  describe('round trips', () => {
+    for (const length of [0, 1, 15, 16, 17, 48, 100]) {
+      it(`should encrypt and decrypt ${length} bytes`, async () => {
+        const plaintext = plaintextOf(length);
+
+        const encrypted = encryptBuffer(key, 'k1', chunkSize, plaintext);
+        expect(await decrypt(encrypted)).toEqual(plaintext);
+
+        const streamed = await collect(
+          encryptStream(Readable.from([plaintext]), key, 'k1', chunkSize),
+        );
+        expect(streamed.length).toBe(encrypted.length);
+        expect(await decrypt(streamed, 1000)).toEqual(plaintext);
+      });
+    }
+
+    it('should read headers arriving in pieces', async () => {
+      const plaintext = plaintextOf(20);
+      const encrypted = encryptBuffer(key, 'k1', chunkSize, plaintext);
+
+      // The key id arrives after the fixed part of the header
+      expect(await decrypt(encrypted, 23)).toEqual(plaintext);
+    });
+
+    it('should use a new nonce for every payload', () => {
+      const plaintext = plaintextOf(10);
+      expect(encryptBuffer(key, 'k1', chunkSize, plaintext)).not.toEqual(
+        encryptBuffer(key, 'k1', chunkSize, plaintext),
+      );
+    });
+
+    it('should reject key ids longer than 255 bytes', () => {
+      expect(() => createEncryptor(key, 'k'.repeat(256), chunkSize)).toThrow(
+        'Key id is longer than 255 bytes',
+      );
+    });
+  });
+
+  describe('tampering', () => {
+    const plaintext = plaintextOf(40);
+    const headerLength = 22 + 2;
+    let encrypted: Buffer;
+
+    beforeEach(() => {
+      encrypted = encryptBuffer(key, 'k1', chunkSize, plaintext);
+    });
+
+    const expectFailure = async (data: Buffer, reason: string) => {
+      const err = await decrypt(data).catch((e) => e);
+      expect(err).toBeInstanceOf(BlobDecryptionError);
+      expect(err.blobId).toBe('blob');
+      expect(err.reason).toBe(reason);
+      expect(err.message).toBe(`Blob can't be decrypted: blob (${reason})`);
+    };
+
+    it('should detect modified chunks', async () => {
+      encrypted[headerLength + 20]! ^= 1;
+      await expectFailure(encrypted, 'chunk 0 fails authentication');
+    });
+
+    it('should detect reordered chunks', async () => {
+      const chunk = (i: number) =>
+        encrypted.subarray(
+          headerLength + i * (chunkSize + 16),
+          headerLength + (i + 1) * (chunkSize + 16),
+        );
+      const swapped = Buffer.concat([
+        encrypted.subarray(0, headerLength),
+        chunk(1),
+        chunk(0),
+        encrypted.subarray(headerLength + 2 * (chunkSize + 16)),
+      ]);
+      await expectFailure(swapped, 'chunk 0 fails authentication');
+    });
+
+    it('should detect dropped chunks', async () => {
+      const dropped = encrypted.subarray(
+        0,
+        headerLength + 2 * (chunkSize + 16),
+      );
+      await expectFailure(dropped, 'chunk 1 fails authentication');
+    });
+
+    it('should detect truncated payloads', async () => {
+      await expectFailure(
+        encrypted.subarray(0, headerLength + 10),
+        'payload is truncated',
+      );
+      await expectFailure(encrypted.subarray(0, 20), 'payload is too short');
+    });
+
+    it('should reject payloads that are not encrypted', async () => {
+      await expectFailure(plaintext, 'payload is not encrypted');
+
+      encrypted[4] = 2;
+      await expectFailure(encrypted, 'unknown payload version');
+    });
+  });
+
+  describe('decryptRange', () => {
+    const plaintext = plaintextOf(100);
+    const path = join(testDir, 'payload');
+
+    const range = (start: number, end: number) =>
+      collect(decryptRange(path, keys, 'blob', plaintext.length, start, end));
+
+    beforeEach(async () => {
+      await writeFile(path, encryptBuffer(key, 'k1', chunkSize, plaintext));
+    });
+
+    it('should decrypt the bytes of a range', async () => {
+      for (const [start, end] of [
+        [0, 100],
+        [0, 1],
+        [15, 17],
+        [16, 32],
+        [33, 99],
+        [96, 100],
+      ] as const) {
+        expect(await range(start, end)).toEqual(plaintext.subarray(start, end));
+      }
+    });
+
+    it('should return nothing for empty ranges', async () => {
+      expect((await range(50, 50)).length).toBe(0);
+    });
+
+    it('should detect a tampered last chunk', async () => {
+      const truncated = encryptBuffer(key, 'k1', chunkSize, plaintext).subarray(
+        0,
+        -1,
+      );
+      await writeFile(path, truncated);
+
+      await expect(range(0, 16)).resolves.toEqual(plaintext.subarray(0, 16));
+      await expect(range(96, 100)).rejects.toThrow(BlobDecryptionError);
+    });
+
+    it('should reject files too short for a header', async () => {
+      await writeFile(path, 'BSFE');
+      await expect(range(0, 1)).rejects.toThrow('payload is too short');
+    });
+  });
+
+  describe('readKeyId', () => {
+    it('should return the key id of encrypted payloads', async () => {
+      const path = join(testDir, 'payload');
+      await writeFile(
+        path,
+        encryptBuffer(key, 'k1', chunkSize, plaintextOf(5)),
+      );
+      expect(await readKeyId(path)).toBe('k1');
+
+      await writeFile(path, 'Not encrypted at all');
+      expect(await readKeyId(path)).toBeUndefined();
+    });
+  });
+
+  describe('sealMetadata and openMetadata', () => {
+    const metadata = { filename: 'secret.txt', tags: ['hidden'] };
+
+    it('should encrypt metadata', async () => {
+      const sealed = sealMetadata(key, 'k1', 'blob', metadata);
+      expect(sealed.keyId).toBe('k1');
+      expect(Buffer.from(sealed.data, 'base64').toString()).not.toContain(
+        'secret',
+      );
+      expect(isSealedMetadata(sealed)).toBe(true);
+      expect(await openMetadata(keys, 'blob', sealed)).toEqual(metadata);
+    });
+
+    it('should reject metadata of other blobs or tampered metadata', async () => {
+      const sealed = sealMetadata(key, 'k1', 'blob', metadata);
+      await expect(openMetadata(keys, 'other', sealed)).rejects.toThrow(
+        "Blob can't be decrypted: other (metadata fails authentication)",
+      );
+
+      const data = Buffer.from(sealed.data, 'base64');
+      data[12]! ^= 1;
+      const tampered = { keyId: 'k1', data: data.toString('base64') };
+      await expect(openMetadata(keys, 'blob', tampered)).rejects.toThrow(
+        BlobDecryptionError,
+      );
+
+      const truncated = {
+        keyId: 'k1',
+        data: data.subarray(0, 20).toString('base64'),
+      };
+      await expect(openMetadata(keys, 'blob', truncated)).rejects.toThrow(
+        'metadata is truncated',
+      );
+    });
+
+    it('should recognize sealed metadata', () => {
+      expect(isSealedMetadata(null)).toBe(false);
+      expect(isSealedMetadata('sealed')).toBe(false);
+      expect(isSealedMetadata({ keyId: 'k1' })).toBe(false);
+      expect(isSealedMetadata({ keyId: 'k1', data: '' })).toBe(true);
+    });
+  });
+});
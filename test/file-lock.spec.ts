@@ -0,0 +1,157 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import {
+  access,
+  mkdir,
+  readFile,
+  rm,
+  utimes,
+  writeFile,
+} from 'node:fs/promises';
+import { hostname } from 'node:os';
+import { join } from 'node:path';
+import { setTimeout as sleep } from 'node:timers/promises';
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { LockTimeoutError } from '../src/errors.ts';
+import { FileLock } from '../src/file-lock.ts';
+
+describe('FileLock', () => {
+  const testDir = './test-file-lock';
+  const lockPath = join(testDir, 'sub', 'test.lock');
+
+  const exists = (path: string) =>
+    access(path).then(
+      () => true,
+      () => false,
+    );
+
+  // Pretend another process holds the lock
+  const foreignLock = async (owner: object, ageMs = 0) => {
+    await mkdir(join(testDir, 'sub'), { recursive: true });
+    await writeFile(lockPath, JSON.stringify(owner));
+    const time = new Date(Date.now() - ageMs);
+    await utimes(lockPath, time, time);
+  };
+
+  beforeEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  afterEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  it('should hold a lock file while running', async () => {
+    const lock = new FileLock(lockPath);
+
+    const result = await lock.run(async () => {
+      const owner = JSON.parse(await readFile(lockPath, 'utf8'));
+      expect(owner.pid).toBe(process.pid);
+      expect(owner.hostname).toBe(hostname());
+      return 'done';
+    });
+
+    expect(result).toBe('done');
+    expect(await exists(lockPath)).toBe(false);
+  });
+
+  it('should release the lock when the function throws', async () => {
+    const lock = new FileLock(lockPath);
+    await expect(
+      lock.run(() => Promise.reject(new Error('Failed'))),
+    ).rejects.toThrow('Failed');
+    expect(await exists(lockPath)).toBe(false);
+  });
+
+  it('should let instances wait for each other', async () => {
+    const events: string[] = [];
+    const section = (name: string) => async () => {
+      events.push(`${name} in`);
+      await sleep(30);
+      events.push(`${name} out`);
+    };
+
+    // A short stale time makes sure held locks are refreshed
+    const options = { staleMs: 30 };
+    await Promise.all([
+      new FileLock(lockPath, options).run(section('a')),
+      new FileLock(lockPath, options).run(section('b')),
+      new FileLock(lockPath, options).run(section('c')),
+    ]);
+
+    for (let i = 0; i < events.length; i += 2) {
+      expect(events[i + 1]).toBe(events[i]!.replace('in', 'out'));
+    }
+  });
+
+  it('should break locks not refreshed in time', async () => {
+    await foreignLock({ pid: 1, hostname: 'other', token: 'x' }, 60_000);
+    const lock = new FileLock(lockPath, { staleMs: 10_000, timeoutMs: 1000 });
+    expect(await lock.run(async () => 'taken over')).toBe('taken over');
+  });
+
+  it('should break locks of dead processes on this host', async () => {
+    // Process ids are far below this
+    await foreignLock({ pid: 2 ** 30, hostname: hostname(), token: 'x' });
+    const lock = new FileLock(lockPath, { timeoutMs: 1000 });
+    expect(await lock.run(async () => 'taken over')).toBe('taken over');
+  });
+
+  it('should wait for live owners', async () => {
+    for (const owner of [
+      { pid: process.pid, hostname: hostname(), token: 'x' },
+      { pid: 2 ** 30, hostname: 'other', token: 'x' },
+      { pid: 'unknown', hostname: hostname(), token: 'x' },
+      'Not an owner',
+    ]) {
+      await foreignLock(owner as object);
+      const lock = new FileLock(lockPath, { timeoutMs: 50 });
+
+      const error = await lock.run(async () => 'taken').catch((e) => e);
+      expect(error).toBeInstanceOf(LockTimeoutError);
+      expect(error.path).toBe(lockPath);
+      expect(error.timeoutMs).toBe(50);
+      expect(error.message).toBe(
+        `Timed out after 50 ms waiting for lock: ${lockPath}`,
+      );
+    }
+
+    // Unreadable lock files are treated as being written
+    await rm(lockPath);
+    await mkdir(lockPath);
+    const lock = new FileLock(lockPath, { timeoutMs: 50 });
+    await expect(lock.run(async () => 'taken')).rejects.toThrow(
+      LockTimeoutError,
+    );
+  });
+
+  it('should keep locks taken over by others', async () => {
+    const lock = new FileLock(lockPath);
+    await lock.run(async () => {
+      await foreignLock({ pid: 1, hostname: 'other', token: 'other' });
+    });
+    expect(JSON.parse(await readFile(lockPath, 'utf8')).token).toBe('other');
+
+    // Locks removed meanwhile are fine as well
+    await rm(lockPath);
+    await lock.run(() => rm(lockPath));
+  });
+
+  it('should rethrow unexpected errors', async () => {
+    const tooLong = join(testDir, 'x'.repeat(300));
+    await expect(new FileLock(tooLong).run(async () => 0)).rejects.toThrow(
+      'ENAMETOOLONG',
+    );
+
+    await mkdir(testDir, { recursive: true });
+    await writeFile(join(testDir, 'sub'), 'Not a directory');
+    await expect(new FileLock(lockPath).run(async () => 0)).rejects.toThrow(
+      /EEXIST|ENOTDIR/,
+    );
+  });
+});
@@ -0,0 +1,128 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+
+import {
+  BsFsLayoutName,
+  layoutDirs,
+  layoutPaths,
+  layouts,
+  resolveLayout,
+  sameLayout,
+  usesDir,
+} from '../src/layout.ts';
+
+describe('layout', () => {
+  const blobId = 'abc123def456';
+
+  describe('resolveLayout', () => {
+    it('should resolve predefined layouts', () => {
+      expect(resolveLayout('legacy')).toEqual({
+        depth: 4,
+        width: 2,
+        extension: '.txt',
+      });
+      expect(resolveLayout('flat').depth).toBe(0);
+
+      // Copies can't change the predefined layouts
+      resolveLayout('sharded').depth = 7;
+      expect(layouts.sharded.depth).toBe(2);
+    });
+
+    it('should apply defaults', () => {
+      expect(resolveLayout({})).toEqual(layouts.sharded);
+      expect(resolveLayout({ depth: 3, width: 1 })).toEqual({
+        depth: 3,
+        width: 1,
+        extension: '.bin',
+      });
+    });
+
+    it('should reject unknown and invalid layouts', () => {
+      expect(() => resolveLayout('deep' as BsFsLayoutName)).toThrow(
+        'Unknown layout: deep',
+      );
+      expect(() => resolveLayout('constructor' as BsFsLayoutName)).toThrow(
+        'Unknown layout',
+      );
+      for (const layout of [
+        { depth: -1 },
+        { depth: 1.5 },
+        { width: 0 },
+        { width: Infinity },
+        { depth: 5, width: 4 },
+        { extension: '.exe' as '.bin' },
+      ]) {
+        expect(() => resolveLayout(layout)).toThrow(
+          `Invalid layout: ${JSON.stringify(layout)}`,
+        );
+      }
+    });
+  });
+
+  describe('sameLayout', () => {
+    it('should compare where files are placed', () => {
+      expect(sameLayout(layouts.legacy, resolveLayout('legacy'))).toBe(true);
+      expect(sameLayout(layouts.legacy, layouts.sharded)).toBe(false);
+      expect(
+        sameLayout(layouts.legacy, { ...layouts.legacy, extension: '.bin' }),
+      ).toBe(false);
+
+      // The width doesn't matter without directories
+      expect(sameLayout(layouts.flat, { ...layouts.flat, width: 3 })).toBe(
+        true,
+      );
+    });
+  });
+
+  describe('layoutDirs', () => {
+    it('should take directory names from the blob id', () => {
+      expect(layoutDirs(layouts.legacy, blobId)).toEqual([
+        'ab',
+        'c1',
+        '23',
+        'de',
+      ]);
+      expect(
+        layoutDirs({ ...layouts.flat, depth: 3, width: 3 }, blobId),
+      ).toEqual(['abc', '123', 'def']);
+      expect(layoutDirs(layouts.flat, blobId)).toEqual([]);
+    });
+
+    it('should skip levels short ids do not fill', () => {
+      expect(layoutDirs(layouts.legacy, 'abc')).toEqual(['ab']);
+      expect(layoutDirs(layouts.legacy, 'a')).toEqual([]);
+    });
+  });
+
+  describe('layoutPaths', () => {
+    it('should place payload and metadata side by side', () => {
+      expect(layoutPaths('base', layouts.legacy, blobId)).toEqual({
+        dir: join('base', 'ab', 'c1', '23', 'de'),
+        filePath: join('base', 'ab', 'c1', '23', 'de', `${blobId}.txt`),
+        metaPath: join('base', 'ab', 'c1', '23', 'de', `${blobId}.meta.json`),
+      });
+      expect(layoutPaths('base', layouts.flat, blobId)).toEqual({
+        dir: 'base',
+        filePath: join('base', `${blobId}.bin`),
+        metaPath: join('base', `${blobId}.meta.json`),
+      });
+    });
+  });
+
+  describe('usesDir', () => {
+    it('should tell directories a layout may place blobs in', () => {
+      expect(usesDir(layouts.sharded, [])).toBe(true);
+      expect(usesDir(layouts.sharded, ['ab'])).toBe(true);
+      expect(usesDir(layouts.sharded, ['ab', 'c1'])).toBe(true);
+      expect(usesDir(layouts.sharded, ['ab', 'c1', '23'])).toBe(false);
+      expect(usesDir(layouts.sharded, ['abc'])).toBe(false);
+      expect(usesDir(layouts.flat, ['ab'])).toBe(false);
+    });
+  });
+});
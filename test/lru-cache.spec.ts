@@ -0,0 +1,98 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+
+import { LruCache } from '../src/lru-cache.ts';
+
+describe('LruCache', () => {
+  const sized = () =>
+    new LruCache<string>({ maxSize: 10, sizeOf: (value) => value.length });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('should return stored values and count lookups', () => {
+    const cache = sized();
+    expect(cache.get('a')).toBeUndefined();
+
+    cache.set('a', 'aaa');
+    cache.set('b', 'bb');
+    expect(cache.get('a')).toBe('aaa');
+    expect(cache.has('b')).toBe(true);
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, entries: 2, size: 5 });
+  });
+
+  it('should drop the least recently used values', () => {
+    const cache = sized();
+    cache.set('a', 'aaaa');
+    cache.set('b', 'bbbb');
+    cache.get('a');
+
+    cache.set('c', 'cccc');
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+    expect(cache.has('c')).toBe(true);
+    expect(cache.stats().size).toBe(8);
+  });
+
+  it('should replace values', () => {
+    const cache = sized();
+    cache.set('a', 'aaaaaaaa');
+    cache.set('a', 'aa');
+    expect(cache.get('a')).toBe('aa');
+    expect(cache.stats().size).toBe(2);
+  });
+
+  it('should not store values larger than the cache', () => {
+    const cache = sized();
+    cache.set('a', 'aaa');
+    cache.set('b', 'b'.repeat(11));
+    expect(cache.has('a')).toBe(true);
+    expect(cache.has('b')).toBe(false);
+
+    // Not even instead of a smaller value
+    cache.set('a', 'a'.repeat(11));
+    expect(cache.stats()).toMatchObject({ entries: 0, size: 0 });
+  });
+
+  it('should count entries without sizes', () => {
+    const cache = new LruCache<number>({ maxSize: 2 });
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('c', 3);
+    expect(cache.stats()).toMatchObject({ entries: 2, size: 2 });
+    expect(cache.has('a')).toBe(false);
+  });
+
+  it('should expire values', () => {
+    vi.useFakeTimers();
+    const cache = new LruCache<number>({ maxSize: 10, ttlMs: 100 });
+    cache.set('a', 1);
+
+    vi.advanceTimersByTime(99);
+    expect(cache.get('a')).toBe(1);
+
+    vi.advanceTimersByTime(1);
+    expect(cache.has('a')).toBe(false);
+    expect(cache.get('a')).toBeUndefined();
+    expect(cache.stats()).toEqual({ hits: 1, misses: 1, entries: 0, size: 0 });
+  });
+
+  it('should delete and clear values', () => {
+    const cache = sized();
+    cache.set('a', 'aaa');
+    cache.set('b', 'bbb');
+
+    cache.delete('a');
+    cache.delete('unknown');
+    expect(cache.stats()).toMatchObject({ entries: 1, size: 3 });
+
+    cache.clear();
+    expect(cache.stats()).toMatchObject({ entries: 0, size: 0 });
+  });
+});
@@ -0,0 +1,93 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { describe, expect, it } from 'vitest';
+
+import { IncompatibleStoreError } from '../src/errors.ts';
+import { layouts } from '../src/layout.ts';
+import {
+  BsFsFeature,
+  missingFeatures,
+  newManifest,
+  parseManifest,
+} from '../src/manifest.ts';
+
+describe('manifest', () => {
+  const baseDir = 'blobs';
+  const valid = newManifest(layouts.sharded, ['compression']);
+
+  const parse = (manifest: object) =>
+    parseManifest(baseDir, JSON.stringify(manifest));
+
+  describe('newManifest', () => {
+    it('should record the format, layout and sorted features', () => {
+      expect(
+        newManifest(layouts.flat, ['encryption', 'compression', 'encryption']),
+      ).toEqual({
+        format: 'bs-fs',
+        version: 1,
+        hashAlgorithm: 'sha256',
+        layout: layouts.flat,
+        features: ['compression', 'encryption'],
+      });
+    });
+  });
+
+  describe('missingFeatures', () => {
+    it('should return features not recorded yet', () => {
+      expect(missingFeatures(valid, ['encryption', 'compression'])).toEqual([
+        'encryption',
+      ]);
+      expect(missingFeatures(valid, [])).toEqual([]);
+    });
+  });
+
+  describe('parseManifest', () => {
+    it('should parse valid manifests', () => {
+      expect(parse(valid)).toEqual(valid);
+
+      const migrating = { ...valid, previousLayout: layouts.legacy };
+      expect(parse(migrating)).toEqual(migrating);
+    });
+
+    it('should reject invalid manifests', () => {
+      const invalid = [
+        'null',
+        '{"format":',
+        JSON.stringify({ ...valid, format: 'other' }),
+        JSON.stringify({ ...valid, version: 0 }),
+        JSON.stringify({ ...valid, version: '1' }),
+        JSON.stringify({ ...valid, features: 'compression' }),
+        JSON.stringify({ ...valid, layout: { width: 0 } }),
+        JSON.stringify({ ...valid, layout: undefined }),
+        JSON.stringify({ ...valid, previousLayout: 'deep' }),
+      ];
+      for (const content of invalid) {
+        expect(() => parseManifest(baseDir, content)).toThrow(
+          new IncompatibleStoreError(baseDir, 'the manifest is not valid'),
+        );
+      }
+    });
+
+    it('should reject stores this package cannot read', () => {
+      expect(() => parse({ ...valid, version: 2 })).toThrow(
+        'Incompatible store at blobs: format version 2 is newer than the ' +
+          'supported version 1',
+      );
+      expect(() => parse({ ...valid, hashAlgorithm: 'blake3' })).toThrow(
+        'Incompatible store at blobs: unsupported hash algorithm blake3',
+      );
+      expect(() =>
+        parse({
+          ...valid,
+          features: ['deduplication', 'encryption', 'zoning'] as BsFsFeature[],
+        }),
+      ).toThrow(
+        'Incompatible store at blobs: unsupported features deduplication, zoning',
+      );
+    });
+  });
+});
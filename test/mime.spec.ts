@@ -0,0 +1,131 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { describe, expect, it } from 'vitest';
+
+import { mimeSniffLength, sniffContentType, sniffFormat } from '../src/mime.ts';
+
+describe('mime', () => {
+  const bytes = (...values: number[]) => Buffer.from(values);
+
+  describe('sniffFormat', () => {
+    it('should recognize signatures', () => {
+      expect(sniffFormat(bytes(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a))).toEqual({
+        contentType: 'image/png',
+        compressed: true,
+      });
+      expect(sniffFormat(Buffer.from('%PDF-1.7\n'))).toEqual({
+        contentType: 'application/pdf',
+        compressed: false,
+      });
+      expect(sniffFormat(Buffer.from('RIFF....WEBPVP8 '))).toEqual({
+        contentType: 'image/webp',
+        compressed: true,
+      });
+    });
+
+    it('should check more than short magic bytes', () => {
+      expect(sniffFormat(Buffer.from('BZh91AY&SY\x01\x02'))).toEqual({
+        contentType: 'application/x-bzip2',
+        compressed: true,
+      });
+      expect(
+        sniffFormat(bytes(0x49, 0x44, 0x33, 4, 0, 0x80, 0, 0, 2, 1)),
+      ).toEqual({ contentType: 'audio/mpeg', compressed: true });
+
+      // Text starting with the same letters
+      for (const text of [
+        'BZh? Text',
+        'BZh9 is no block',
+        'BZh91AY&SX',
+        'ID3 tags',
+        'RIFF....WEBQ',
+        'Text....WEBPVP8 ',
+      ]) {
+        expect(sniffFormat(Buffer.from(text))).toBeUndefined();
+      }
+      for (const head of [
+        bytes(0x49, 0x44, 0x33, 5, 0, 0, 0, 0, 0, 0),
+        bytes(0x49, 0x44, 0x33, 3, 0xff, 0, 0, 0, 0, 0),
+        bytes(0x49, 0x44, 0x33, 3, 0, 0x01, 0, 0, 0, 0),
+        bytes(0x49, 0x44, 0x33, 3, 0, 0, 0, 0, 0x80, 0),
+      ]) {
+        expect(sniffFormat(head)).toBeUndefined();
+      }
+      expect(sniffContentType(Buffer.from('BZh, said the bee'), true)).toBe(
+        'text/plain; charset=utf-8',
+      );
+    });
+
+    it('should return undefined for unknown and short content', () => {
+      expect(sniffFormat(Buffer.from('Hello'))).toBeUndefined();
+      expect(sniffFormat(bytes(0x89))).toBeUndefined();
+      expect(sniffFormat(bytes())).toBeUndefined();
+    });
+  });
+
+  describe('sniffContentType', () => {
+    it('should detect formats by their signature', () => {
+      expect(sniffContentType(bytes(0xff, 0xd8, 0xff, 0xe0), true)).toBe(
+        'image/jpeg',
+      );
+      expect(sniffContentType(bytes(0x00, 0x61, 0x73, 0x6d, 1), false)).toBe(
+        'application/wasm',
+      );
+    });
+
+    it('should detect text and JSON', () => {
+      const text = 'text/plain; charset=utf-8';
+      expect(sniffContentType(Buffer.from('Hello\tWörld\r\n'), true)).toBe(
+        text,
+      );
+      expect(sniffContentType(Buffer.from(' {"a": [1, 2]}\n'), true)).toBe(
+        'application/json',
+      );
+      expect(sniffContentType(Buffer.from('[1, 2, 3]'), true)).toBe(
+        'application/json',
+      );
+
+      // Scalars and broken JSON are text
+      expect(sniffContentType(Buffer.from('42'), true)).toBe(text);
+      expect(sniffContentType(Buffer.from('{"a": '), true)).toBe(text);
+
+      // JSON needs the complete content
+      expect(sniffContentType(Buffer.from('{"a": 1}'), false)).toBe(text);
+      const long = JSON.stringify({ a: 'x'.repeat(mimeSniffLength) });
+      expect(sniffContentType(Buffer.from(long), true)).toBe(text);
+    });
+
+    it('should ignore a character cut off at the end of the head', () => {
+      const head = Buffer.from('Grüße €');
+      const cut = head.subarray(0, head.length - 1);
+      expect(sniffContentType(cut, false)).toBe('text/plain; charset=utf-8');
+      expect(sniffContentType(cut, true)).toBeUndefined();
+
+      const umlaut = Buffer.from('Grü');
+      expect(sniffContentType(umlaut.subarray(0, -1), false)).toBe(
+        'text/plain; charset=utf-8',
+      );
+      const emoji = Buffer.from('Smile 😀');
+      expect(sniffContentType(emoji.subarray(0, -2), false)).toBe(
+        'text/plain; charset=utf-8',
+      );
+
+      // Only trailing bytes of a character
+      expect(sniffContentType(bytes(0x80, 0x80), false)).toBeUndefined();
+      expect(sniffContentType(bytes(0xe2), false)).toBe(
+        'text/plain; charset=utf-8',
+      );
+    });
+
+    it('should return undefined for binary and empty content', () => {
+      expect(sniffContentType(bytes(0x01, 0x02, 0x03), true)).toBeUndefined();
+      expect(sniffContentType(Buffer.from('a\u007fb'), true)).toBeUndefined();
+      expect(sniffContentType(bytes(0xc3, 0x28), true)).toBeUndefined();
+      expect(sniffContentType(bytes(), true)).toBeUndefined();
+    });
+  });
+});
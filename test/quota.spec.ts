@@ -0,0 +1,117 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { describe, expect, it } from 'vitest';
+
+import {
+  BsFsEvictionCandidate,
+  chooseVictims,
+  exceededLimit,
+  resolveQuota,
+} from '../src/quota.ts';
+
+describe('quota', () => {
+  const candidate = (
+    blobId: string,
+    size: number,
+    createdAt: number,
+    lastAccessedAt: number,
+  ): BsFsEvictionCandidate => ({
+    blobId,
+    size,
+    createdAt: new Date(createdAt),
+    lastAccessedAt: new Date(lastAccessedAt),
+  });
+
+  // Created in order a, b, c; read in order c, a, b; sized c, b, a
+  const candidates = [
+    candidate('a', 10, 1, 5),
+    candidate('b', 20, 2, 6),
+    candidate('c', 30, 3, 4),
+  ];
+
+  const victims = (
+    eviction: Parameters<typeof resolveQuota>[0] & object,
+    usage = { blobs: 3, bytes: 60 },
+  ) =>
+    chooseVictims(resolveQuota(eviction)!, usage, candidates)?.map(
+      (c) => c.blobId,
+    );
+
+  describe('resolveQuota', () => {
+    it('should return undefined without quota', () => {
+      expect(resolveQuota(undefined)).toBeUndefined();
+    });
+
+    it('should apply defaults', () => {
+      const quota = resolveQuota({ maxBytes: 100 })!;
+      expect(quota).toMatchObject({
+        maxBytes: 100,
+        maxBlobs: Infinity,
+        mode: 'evict',
+        tracksAccess: true,
+        accessTimeResolutionMs: 60_000,
+      });
+      expect(resolveQuota({ maxBlobs: 1 })!.maxBytes).toBe(Infinity);
+    });
+
+    it('should only track access if the policy needs it', () => {
+      const tracks = (options: Parameters<typeof resolveQuota>[0]) =>
+        resolveQuota(options)!.tracksAccess;
+
+      expect(tracks({ maxBlobs: 1, eviction: 'lru' })).toBe(true);
+      expect(tracks({ maxBlobs: 1, eviction: () => 0 })).toBe(true);
+      expect(tracks({ maxBlobs: 1, eviction: 'oldest' })).toBe(false);
+      expect(tracks({ maxBlobs: 1, eviction: 'largest' })).toBe(false);
+      expect(tracks({ maxBlobs: 1, mode: 'reject' })).toBe(false);
+    });
+
+    it('should reject invalid options', () => {
+      expect(() => resolveQuota({})).toThrow(
+        'A quota needs maxBytes or maxBlobs',
+      );
+      expect(() =>
+        resolveQuota({ maxBlobs: 1, eviction: 'random' as 'lru' }),
+      ).toThrow('Unknown eviction policy: random');
+    });
+  });
+
+  describe('exceededLimit', () => {
+    it('should name the exceeded limit', () => {
+      const quota = resolveQuota({ maxBytes: 100, maxBlobs: 2 })!;
+      expect(exceededLimit(quota, { blobs: 2, bytes: 100 })).toBeUndefined();
+      expect(exceededLimit(quota, { blobs: 3, bytes: 100 })).toBe('maxBlobs');
+      expect(exceededLimit(quota, { blobs: 2, bytes: 101 })).toBe('maxBytes');
+      expect(exceededLimit(quota, { blobs: 3, bytes: 101 })).toBe('maxBlobs');
+    });
+  });
+
+  describe('chooseVictims', () => {
+    it('should evict by policy until the store fits', () => {
+      expect(victims({ maxBlobs: 2, eviction: 'lru' })).toEqual(['c']);
+      expect(victims({ maxBlobs: 2, eviction: 'oldest' })).toEqual(['a']);
+      expect(victims({ maxBlobs: 2, eviction: 'largest' })).toEqual(['c']);
+      expect(victims({ maxBytes: 35, eviction: 'lru' })).toEqual(['c']);
+      expect(victims({ maxBytes: 30, eviction: 'oldest' })).toEqual(['a', 'b']);
+    });
+
+    it('should accept custom policies', () => {
+      const byId = (a: BsFsEvictionCandidate, b: BsFsEvictionCandidate) =>
+        b.blobId.localeCompare(a.blobId);
+      expect(victims({ maxBlobs: 1, eviction: byId })).toEqual(['c', 'b']);
+    });
+
+    it('should evict nothing if the store fits', () => {
+      expect(victims({ maxBlobs: 3 })).toEqual([]);
+    });
+
+    it('should give up if evicting all candidates is not enough', () => {
+      expect(victims({ maxBytes: 10 }, { blobs: 4, bytes: 80 })).toBe(
+        undefined,
+      );
+    });
+  });
+});
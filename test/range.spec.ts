@@ -0,0 +1,126 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { describe, expect, it } from 'vitest';
+
+import { BlobRangeError } from '../src/errors.ts';
+import { resolveRange, sliceRange } from '../src/range.ts';
+
+describe('resolveRange', () => {
+  const resolve = (range: Parameters<typeof resolveRange>[1]) =>
+    resolveRange('blob', range, 10);
+
+  describe('start and end', () => {
+    it('should return the range as is', () => {
+      expect(resolve({ start: 2, end: 5 })).toEqual({ start: 2, end: 5 });
+    });
+
+    it('should extend a range without end to the end of the blob', () => {
+      expect(resolve({ start: 7 })).toEqual({ start: 7, end: 10 });
+    });
+
+    it('should accept empty ranges', () => {
+      expect(resolve({ start: 4, end: 4 })).toEqual({ start: 4, end: 4 });
+      expect(resolve({ start: 10 })).toEqual({ start: 10, end: 10 });
+    });
+
+    it('should reject ranges starting beyond the blob', () => {
+      expect(() => resolve({ start: 11 })).toThrow(
+        'Range not satisfiable for blob blob (10 bytes): ' +
+          'start 11 lies beyond the end of the blob',
+      );
+    });
+
+    it('should reject ranges ending beyond the blob', () => {
+      expect(() => resolve({ start: 0, end: 11 })).toThrow(
+        'end 11 lies beyond the end of the blob',
+      );
+    });
+
+    it('should reject ranges ending before they start', () => {
+      expect(() => resolve({ start: 5, end: 3 })).toThrow(
+        'end 3 lies before start 5',
+      );
+    });
+
+    it('should reject negative and fractional offsets', () => {
+      expect(() => resolve({ start: -1 })).toThrow(
+        'start -1 and end 10 must be non-negative integers',
+      );
+      expect(() => resolve({ start: 0, end: 1.5 })).toThrow(
+        'start 0 and end 1.5 must be non-negative integers',
+      );
+    });
+  });
+
+  describe('suffix', () => {
+    it('should select the last bytes', () => {
+      expect(resolve({ suffix: 3 })).toEqual({ start: 7, end: 10 });
+    });
+
+    it('should select the whole blob for long suffixes', () => {
+      expect(resolve({ suffix: 20 })).toEqual({ start: 0, end: 10 });
+    });
+
+    it('should select nothing for a zero suffix', () => {
+      expect(resolve({ suffix: 0 })).toEqual({ start: 10, end: 10 });
+    });
+
+    it('should reject negative suffixes', () => {
+      expect(() => resolve({ suffix: -2 })).toThrow(
+        'suffix -2 is not a non-negative integer',
+      );
+    });
+  });
+
+  it('should throw BlobRangeError with blob details', () => {
+    try {
+      resolve({ start: 20 });
+      expect.fail('should have thrown');
+    } catch (err) {
+      expect(err).toBeInstanceOf(BlobRangeError);
+      expect((err as BlobRangeError).name).toBe('BlobRangeError');
+      expect((err as BlobRangeError).blobId).toBe('blob');
+      expect((err as BlobRangeError).size).toBe(10);
+    }
+  });
+});
+
+describe('sliceRange', () => {
+  const chunks = ['0123', '4567', '89'].map((c) => Buffer.from(c));
+
+  const slice = async (start: number, end: number) => {
+    let read = 0;
+    const source = async function* () {
+      for (const chunk of chunks) {
+        read++;
+        yield chunk;
+      }
+    };
+
+    const parts: string[] = [];
+    for await (const part of sliceRange(source(), start, end)) {
+      parts.push(Buffer.from(part).toString('utf8'));
+    }
+    return { parts, read };
+  };
+
+  it('should pass on the bytes within the range', async () => {
+    expect((await slice(2, 9)).parts).toEqual(['23', '4567', '8']);
+    expect((await slice(0, 10)).parts).toEqual(['0123', '4567', '89']);
+    expect((await slice(5, 6)).parts).toEqual(['5']);
+  });
+
+  it('should stop reading at the end of the range', async () => {
+    expect(await slice(1, 3)).toEqual({ parts: ['12'], read: 1 });
+    expect(await slice(4, 8)).toEqual({ parts: ['4567'], read: 2 });
+  });
+
+  it('should pass on nothing for empty ranges', async () => {
+    expect((await slice(4, 4)).parts).toEqual([]);
+    expect((await slice(10, 10)).parts).toEqual([]);
+  });
+});
@@ -0,0 +1,137 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { describe, expect, it } from 'vitest';
+
+import { SignedUrlError, SignedUrlExpiredError } from '../src/errors.ts';
+import {
+  BsFsSignedUrlGrant,
+  createSignedUrl,
+  resolveSecrets,
+  verifySignedUrl,
+} from '../src/signed-url.ts';
+
+describe('signed URLs', () => {
+  const [oldSecret, newSecret] = resolveSecrets(['old secret', 'new secret']);
+  const now = 1_700_000_000_000;
+  const grant: BsFsSignedUrlGrant = {
+    blobId: 'abcdefgh12345',
+    permissions: 'read',
+    expires: now + 60_000,
+  };
+
+  const reasonOf = (url: string, secrets = [oldSecret!]) => {
+    try {
+      verifySignedUrl(url, secrets, now);
+    } catch (e) {
+      expect(e).toBeInstanceOf(SignedUrlError);
+      return (e as SignedUrlError).reason;
+    }
+    throw new Error('URL was accepted');
+  };
+
+  describe('resolveSecrets', () => {
+    it('should create a random secret by default', () => {
+      const [first, ...rest] = resolveSecrets(undefined);
+      expect(first!.length).toBe(32);
+      expect(rest).toEqual([]);
+      expect(resolveSecrets(undefined)[0]).not.toEqual(first);
+    });
+
+    it('should accept strings and buffers', () => {
+      expect(resolveSecrets(['a', Buffer.from('b')])).toEqual([
+        Buffer.from('a'),
+        Buffer.from('b'),
+      ]);
+    });
+
+    it('should reject missing or empty secrets', () => {
+      expect(() => resolveSecrets([])).toThrow(
+        'At least one signed URL secret is required',
+      );
+      expect(() => resolveSecrets(['a', ''])).toThrow(
+        'Signed URL secrets must not be empty',
+      );
+    });
+  });
+
+  describe('verifySignedUrl', () => {
+    it('should return the grant of valid URLs', () => {
+      const url = createSignedUrl(oldSecret!, grant);
+      expect(url).toMatch(
+        /^fs:\/\/abcdefgh12345\?expires=\d+&permissions=read&signature=[\w-]+$/,
+      );
+      expect(verifySignedUrl(url, [oldSecret!], now)).toEqual(grant);
+    });
+
+    it('should encode blob ids', () => {
+      const odd = { ...grant, blobId: 'a/b?c&d' };
+      const url = createSignedUrl(oldSecret!, odd);
+      expect(url.startsWith('fs://a%2Fb%3Fc%26d?')).toBe(true);
+      expect(verifySignedUrl(url, [oldSecret!], now)).toEqual(odd);
+    });
+
+    it('should reject tampered URLs', () => {
+      const url = createSignedUrl(oldSecret!, grant);
+
+      for (const tampered of [
+        url.replace('abcdefgh12345', 'abcdefgh12346'),
+        url.replace(`expires=${grant.expires}`, `expires=${grant.expires + 1}`),
+        url.replace('permissions=read', 'permissions=delete'),
+        url.replace(/signature=.*$/, 'signature=AAAA'),
+        url.replace(/&signature=.*$/, ''),
+      ]) {
+        expect(reasonOf(tampered)).toBe('invalid signature');
+      }
+    });
+
+    it('should reject malformed URLs', () => {
+      const url = createSignedUrl(oldSecret!, grant);
+
+      for (const malformed of [
+        url.replace('fs://', 'http://'),
+        'fs://abcdefgh12345',
+        url.replace('abcdefgh12345', ''),
+        url.replace('abcdefgh12345', '%E0%A4%A'),
+        url.replace(/expires=\d+/, 'expires=soon'),
+        url.replace('permissions=read', 'permissions=write'),
+      ]) {
+        expect(reasonOf(malformed)).toBe('malformed URL');
+      }
+    });
+
+    it('should reject expired URLs', () => {
+      const expired = { ...grant, expires: now };
+      const url = createSignedUrl(oldSecret!, expired);
+
+      const error = (() => {
+        try {
+          verifySignedUrl(url, [oldSecret!], now);
+        } catch (e) {
+          return e as SignedUrlExpiredError;
+        }
+      })();
+      expect(error).toBeInstanceOf(SignedUrlExpiredError);
+      expect(error).toBeInstanceOf(SignedUrlError);
+      expect(error!.expires).toBe(now);
+      expect(error!.message).toBe(
+        'Signed URL is not valid: expired at 2023-11-14T22:13:20.000Z',
+      );
+
+      // Tampered URLs don't reveal whether they expired
+      expect(reasonOf(url, [newSecret!])).toBe('invalid signature');
+    });
+
+    it('should accept all configured secrets', () => {
+      const url = createSignedUrl(oldSecret!, grant);
+
+      expect(verifySignedUrl(url, [newSecret!, oldSecret!], now)).toEqual(
+        grant,
+      );
+      expect(reasonOf(url, [newSecret!])).toBe('invalid signature');
+    });
+  });
+});
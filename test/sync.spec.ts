@@ -0,0 +1,296 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { rm } from 'node:fs/promises';
+
+import { afterEach, beforeEach, describe, expect, it } from 'vitest';
+
+import { BsCached } from '../src/bs-cached.ts';
+import { BsFs } from '../src/bs-fs.ts';
+import { BsSyncProgress, syncBs } from '../src/sync.ts';
+
+import type { Bs } from '@rljson/bs';
+
+describe('syncBs', () => {
+  let source: BsFs;
+  let target: BsFs;
+  const sourceDir = './test-sync-source';
+  const targetDir = './test-sync-target';
+
+  const idsOf = async (bs: BsFs) =>
+    (await bs.listBlobs()).blobs.map((blob) => blob.blobId).sort();
+
+  const sorted = (...ids: string[]) => [...ids].sort();
+
+  // A plain Bs listing one blob per page
+  const plainBs = (bs: BsFs, overrides: Partial<Bs> = {}): Bs =>
+    ({
+      setBlob: (content: Buffer | string | ReadableStream) =>
+        bs.setBlob(content),
+      getBlobStream: (blobId: string) => bs.getBlobStream(blobId),
+      deleteBlob: (blobId: string) => bs.deleteBlob(blobId),
+      blobExists: (blobId: string) => bs.blobExists(blobId),
+      listBlobs: (options?: { prefix?: string; continuationToken?: string }) =>
+        bs.listBlobs({ ...options, maxResults: 1 }),
+      ...overrides,
+    }) as unknown as Bs;
+
+  beforeEach(async () => {
+    source = new BsFs(sourceDir);
+    target = new BsFs(targetDir);
+    await source.clear();
+    await target.clear();
+  });
+
+  afterEach(async () => {
+    await rm(sourceDir, { recursive: true, force: true });
+    await rm(targetDir, { recursive: true, force: true });
+  });
+
+  describe('oneWay', () => {
+    it('should copy missing blobs with their metadata', async () => {
+      const a = await source.setBlob('A', { filename: 'a.txt', tags: ['x'] });
+      const b = await source.setBlob('Bee');
+      const shared = await source.setBlob('Shared');
+      await target.setBlob('Shared');
+      const extra = await target.setBlob('Extra');
+
+      const report = await syncBs(source, target);
+      expect(sorted(...report.copiedToTarget)).toEqual(
+        sorted(a.blobId, b.blobId),
+      );
+      expect(report.copiedToSource).toEqual([]);
+      expect(report.deletedFromTarget).toEqual([]);
+      expect(report.bytes).toBe(4);
+      expect(report.baseline).toEqual(
+        sorted(a.blobId, b.blobId, shared.blobId),
+      );
+
+      const { createdAt, ...copied } = await target.getBlobProperties(a.blobId);
+      expect(createdAt.getTime()).toBeGreaterThanOrEqual(a.createdAt.getTime());
+      expect(copied).toEqual({ ...a, createdAt: undefined });
+      expect(await idsOf(target)).toEqual(
+        sorted(a.blobId, b.blobId, shared.blobId, extra.blobId),
+      );
+
+      // Nothing left to do
+      const again = await syncBs(source, target);
+      expect(again.copiedToTarget).toEqual([]);
+    });
+
+    it('should delete blobs missing in the source if enabled', async () => {
+      const kept = await source.setBlob('Kept');
+      const extra = await target.setBlob('Extra');
+
+      const report = await syncBs(source, target, { deletePropagation: true });
+      expect(report.copiedToTarget).toEqual([kept.blobId]);
+      expect(report.deletedFromTarget).toEqual([extra.blobId]);
+      expect(report.baseline).toEqual([kept.blobId]);
+      expect(await idsOf(target)).toEqual([kept.blobId]);
+    });
+
+    it('should only sync blobs with the prefix', async () => {
+      const a = await source.setBlob('A');
+      await source.setBlob('B');
+      const prefix = a.blobId.substring(0, 4);
+
+      const report = await syncBs(source, target, { prefix });
+      expect(report.copiedToTarget).toEqual([a.blobId]);
+      expect(await idsOf(target)).toEqual([a.blobId]);
+    });
+  });
+
+  describe('twoWay', () => {
+    it('should copy missing blobs both ways', async () => {
+      const a = await source.setBlob('A');
+      const b = await target.setBlob('B');
+
+      const report = await syncBs(source, target, { direction: 'twoWay' });
+      expect(report.copiedToTarget).toEqual([a.blobId]);
+      expect(report.copiedToSource).toEqual([b.blobId]);
+      expect(report.baseline).toEqual(sorted(a.blobId, b.blobId));
+      expect(await idsOf(source)).toEqual(await idsOf(target));
+    });
+
+    it('should propagate deletions since the baseline', async () => {
+      const a = await source.setBlob('A');
+      const b = await source.setBlob('B');
+      const first = await syncBs(source, target, { direction: 'twoWay' });
+
+      // Delete a blob on each side and add new ones
+      await source.deleteBlob(a.blobId);
+      await target.deleteBlob(b.blobId);
+      const c = await source.setBlob('C');
+      const d = await target.setBlob('D');
+
+      const report = await syncBs(source, target, {
+        direction: 'twoWay',
+        deletePropagation: true,
+        baseline: first.baseline,
+      });
+      expect(report.deletedFromTarget).toEqual([a.blobId]);
+      expect(report.deletedFromSource).toEqual([b.blobId]);
+      expect(report.copiedToTarget).toEqual([c.blobId]);
+      expect(report.copiedToSource).toEqual([d.blobId]);
+      expect(report.baseline).toEqual(sorted(c.blobId, d.blobId));
+      expect(await idsOf(source)).toEqual(report.baseline);
+      expect(await idsOf(target)).toEqual(report.baseline);
+    });
+
+    it('should restore deleted blobs without delete propagation', async () => {
+      const a = await source.setBlob('A');
+      const first = await syncBs(source, target, { direction: 'twoWay' });
+      await target.deleteBlob(a.blobId);
+
+      const report = await syncBs(source, target, {
+        direction: 'twoWay',
+        baseline: first.baseline,
+      });
+      expect(report.copiedToTarget).toEqual([a.blobId]);
+    });
+
+    it('should need a baseline to propagate deletions', async () => {
+      await expect(
+        syncBs(source, target, {
+          direction: 'twoWay',
+          deletePropagation: true,
+        }),
+      ).rejects.toThrow('Two-way delete propagation needs a baseline');
+    });
+  });
+
+  describe('progress and concurrency', () => {
+    it('should report progress', async () => {
+      const blobs = await Promise.all(
+        ['1', '2', '3'].map((content) => source.setBlob(content)),
+      );
+      const extra = await target.setBlob('Extra');
+
+      const events: BsSyncProgress[] = [];
+      await syncBs(source, target, {
+        deletePropagation: true,
+        concurrency: 1,
+        onProgress: (event) => events.push(event),
+      });
+      expect(events.map(({ done, total }) => [done, total])).toEqual([
+        [1, 4],
+        [2, 4],
+        [3, 4],
+        [4, 4],
+      ]);
+      expect(events.filter((e) => e.action === 'copied').length).toBe(3);
+      expect(events.at(-1)).toMatchObject({
+        action: 'deleted',
+        blobId: extra.blobId,
+        store: 'target',
+      });
+      expect(sorted(...events.slice(0, 3).map((e) => e.blobId))).toEqual(
+        sorted(...blobs.map((blob) => blob.blobId)),
+      );
+    });
+
+    it('should reject invalid concurrency', async () => {
+      for (const concurrency of [0, 1.5, -1]) {
+        await expect(syncBs(source, target, { concurrency })).rejects.toThrow(
+          `Invalid concurrency: ${concurrency}`,
+        );
+      }
+    });
+
+    it('should stop once aborted', async () => {
+      await source.setBlob('A');
+      await source.setBlob('B');
+      const controller = new AbortController();
+
+      await expect(
+        syncBs(source, target, {
+          concurrency: 1,
+          signal: controller.signal,
+          onProgress: () => controller.abort(),
+        }),
+      ).rejects.toThrow('aborted');
+      expect((await idsOf(target)).length).toBe(1);
+    });
+  });
+
+  describe('any Bs', () => {
+    it('should sync stores other than BsFs page by page', async () => {
+      const a = await source.setBlob('A', { tags: ['x'] });
+      const b = await source.setBlob('B');
+      const c = await target.setBlob('C');
+
+      const report = await syncBs(plainBs(source), plainBs(target), {
+        direction: 'twoWay',
+      });
+      expect(sorted(...report.copiedToTarget)).toEqual(
+        sorted(a.blobId, b.blobId),
+      );
+      expect(report.copiedToSource).toEqual([c.blobId]);
+
+      // Metadata is only copied between BsFs stores
+      expect((await target.getBlobProperties(a.blobId)).tags).toBeUndefined();
+    });
+
+    it('should copy metadata to a BsFs through a BsCached', async () => {
+      const a = await source.setBlob('A', { filename: 'a.txt' });
+      await syncBs(new BsCached(source), new BsCached(new BsCached(target)));
+      expect(await target.getBlobProperties(a.blobId)).toMatchObject({
+        filename: 'a.txt',
+      });
+    });
+
+    it('should skip blobs deleted while syncing', async () => {
+      const a = await source.setBlob('A');
+      const b = await source.setBlob('B');
+      const extra = await target.setBlob('Extra');
+
+      // Stores failing with errors of their own
+      const vanishing = plainBs(source, {
+        getBlobStream: async (blobId: string) => {
+          if (blobId === a.blobId) {
+            await source.deleteBlob(blobId);
+            throw new Error('404 Not Found');
+          }
+          return source.getBlobStream(blobId);
+        },
+      });
+      const deleting = plainBs(target, {
+        deleteBlob: async (blobId: string) => {
+          await target.deleteBlob(blobId);
+          throw new Error('404 Not Found');
+        },
+      });
+
+      const report = await syncBs(vanishing, deleting, {
+        deletePropagation: true,
+      });
+      expect(report.copiedToTarget).toEqual([b.blobId]);
+      expect(report.deletedFromTarget).toEqual([]);
+      expect(report.baseline).toEqual([b.blobId]);
+      expect(await target.blobExists(extra.blobId)).toBe(false);
+    });
+
+    it('should throw other errors after running copies', async () => {
+      await source.setBlob('A');
+      await source.setBlob('B');
+      const failing = plainBs(source, {
+        getBlobStream: async () => {
+          throw new Error('Connection lost');
+        },
+      });
+
+      await expect(syncBs(failing, target)).rejects.toThrow('Connection lost');
+      expect(await idsOf(target)).toEqual([]);
+
+      // Also if the store can't tell whether the blob is gone
+      const offline = plainBs(source, {
+        getBlobStream: failing.getBlobStream,
+        blobExists: failing.getBlobStream,
+      });
+      await expect(syncBs(offline, target)).rejects.toThrow('Connection lost');
+    });
+  });
+});
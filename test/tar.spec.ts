@@ -0,0 +1,194 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { Readable } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+
+import { ArchiveError } from '../src/errors.ts';
+import {
+  createTarHeader,
+  readTar,
+  tarBlockSize,
+  tarPadding,
+  tarTrailer,
+} from '../src/tar.ts';
+
+describe('tar', () => {
+  const mtime = new Date('2026-03-01T12:00:00.000Z');
+
+  // Build an archive of files
+  const archive = (...files: [string, string][]) =>
+    Buffer.concat([
+      ...files.flatMap(([name, content]) => [
+        createTarHeader({ name, size: content.length, mtime }),
+        Buffer.from(content),
+        tarPadding(content.length),
+      ]),
+      tarTrailer(),
+    ]);
+
+  const toArray = async <T>(source: AsyncIterable<T>) => {
+    const items: T[] = [];
+    for await (const item of source) {
+      items.push(item);
+    }
+    return items;
+  };
+
+  // The files of an archive given as a single chunk
+  const filesOf = (data: Buffer) => toArray(readTar(Readable.from([data])));
+
+  // Read all files of an archive, fed in chunks of the given size
+  const read = async (data: Buffer, chunkSize = data.length) => {
+    const chunks: Buffer[] = [];
+    for (let i = 0; i < data.length; i += chunkSize) {
+      chunks.push(data.subarray(i, i + chunkSize));
+    }
+
+    const files: { name: string; size: number; content: string }[] = [];
+    for await (const file of readTar(Readable.from(chunks))) {
+      const content = Buffer.concat(await toArray(file.content));
+      files.push({ name: file.name, size: file.size, content: `${content}` });
+    }
+    return files;
+  };
+
+  // Recompute the checksum of a modified header
+  const sign = (header: Buffer) => {
+    header.fill(0x20, 148, 156);
+    const sum = header.reduce((a, b) => a + b, 0);
+    header.write(`${sum.toString(8).padStart(6, '0')}\0 `, 148, 'ascii');
+    return header;
+  };
+
+  describe('createTarHeader', () => {
+    it('should write ustar headers', () => {
+      const header = createTarHeader({ name: 'a/b.txt', size: 1234, mtime });
+      expect(header.length).toBe(tarBlockSize);
+      expect(header.toString('ascii', 0, 7)).toBe('a/b.txt');
+      expect(header.toString('ascii', 124, 135)).toBe(
+        (1234).toString(8).padStart(11, '0'),
+      );
+      expect(header.toString('ascii', 156, 157)).toBe('0');
+      expect(header.toString('ascii', 257, 265)).toBe('ustar\u000000');
+    });
+
+    it('should write huge sizes in binary', async () => {
+      const size = 2 ** 40;
+      const header = createTarHeader({ name: 'huge', size, mtime });
+      expect(header[124]).toBe(0x80);
+
+      // Read the header back without content
+      for await (const file of readTar(Readable.from([header]))) {
+        expect(file.size).toBe(size);
+        break;
+      }
+    });
+
+    it('should reject long names', () => {
+      expect(() =>
+        createTarHeader({ name: 'x'.repeat(101), size: 0, mtime }),
+      ).toThrow('Name too long for a tar archive');
+    });
+  });
+
+  describe('tarPadding', () => {
+    it('should fill up the last block', () => {
+      expect(tarPadding(0).length).toBe(0);
+      expect(tarPadding(1).length).toBe(511);
+      expect(tarPadding(512).length).toBe(0);
+      expect(tarPadding(513).length).toBe(511);
+    });
+  });
+
+  describe('readTar', () => {
+    it('should read files in any chunk size', async () => {
+      const data = archive(
+        ['empty', ''],
+        ['one', 'x'],
+        ['long', 'y'.repeat(1000)],
+      );
+      for (const chunkSize of [1, 100, 512, data.length]) {
+        const files = await read(data, chunkSize);
+        expect(files.map(({ name, size }) => [name, size])).toEqual([
+          ['empty', 0],
+          ['one', 1],
+          ['long', 1000],
+        ]);
+        expect(files[2]!.content).toBe('y'.repeat(1000));
+      }
+    });
+
+    it('should return the modification time', async () => {
+      const [file] = await filesOf(archive(['a', 'b']));
+      expect(file!.mtime).toEqual(mtime);
+    });
+
+    it('should skip content not read', async () => {
+      const names: string[] = [];
+      const data = archive(['a', 'abc'], ['b', 'd']);
+      for await (const file of readTar(Readable.from([data]))) {
+        names.push(file.name);
+        if (file.name === 'a') {
+          // Read only the first chunk
+          for await (const chunk of file.content) {
+            expect(`${chunk}`).toBe('abc');
+            break;
+          }
+        }
+      }
+      expect(names).toEqual(['a', 'b']);
+    });
+
+    it('should skip entries other than files', async () => {
+      const dir = createTarHeader({ name: 'dir/', size: 0, mtime });
+      dir.write('5', 156, 'ascii');
+      const data = Buffer.concat([sign(dir), archive(['dir/a', 'a'])]);
+      expect((await read(data)).map(({ name }) => name)).toEqual(['dir/a']);
+    });
+
+    it('should join prefix and name', async () => {
+      const header = createTarHeader({ name: 'file', size: 0, mtime });
+      header.write('some/long/path', 345, 'utf8');
+      const data = Buffer.concat([sign(header), tarTrailer()]);
+      expect((await read(data))[0]!.name).toBe('some/long/path/file');
+    });
+
+    it('should accept archives without trailer and numbers with spaces', async () => {
+      const header = createTarHeader({ name: 'a', size: 1, mtime });
+      header.write(' 0000000001 ', 124, 'ascii');
+      header.fill(0, 136, 148);
+      const data = Buffer.concat([
+        sign(header),
+        Buffer.from('a'),
+        tarPadding(1),
+      ]);
+      const files = await read(data);
+      expect(files).toEqual([{ name: 'a', size: 1, content: 'a' }]);
+    });
+
+    it('should reject malformed archives', async () => {
+      const valid = archive(['a', 'abc']);
+
+      const foreign = Buffer.from(valid);
+      foreign.write('other', 257, 'ascii');
+      await expect(read(foreign)).rejects.toThrow(
+        new ArchiveError('not a ustar archive'),
+      );
+
+      const tampered = Buffer.from(valid);
+      tampered.write('b', 0, 'ascii');
+      await expect(read(tampered)).rejects.toThrow(
+        'Archive is not valid: header checksum mismatch',
+      );
+
+      await expect(read(valid.subarray(0, 514))).rejects.toThrow(
+        'Archive is not valid: unexpected end of archive',
+      );
+      await expect(read(valid.subarray(0, 100))).rejects.toThrow(ArchiveError);
+    });
+  });
+});
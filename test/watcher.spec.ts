@@ -0,0 +1,247 @@
+// @license
+// Copyright (c) 2026 Rljson
+//
+// Use of this source code is governed by terms that can be
+// found in the LICENSE file in the root of this package.
+
+import { EventEmitter } from 'node:events';
+import { FSWatcher, watch } from 'node:fs';
+import { mkdir, rm, writeFile } from 'node:fs/promises';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+import { BsFsWatcher } from '../src/watcher.ts';
+
+vi.mock('node:fs', async (importOriginal) => {
+  const actual = await importOriginal<typeof import('node:fs')>();
+  return { ...actual, watch: vi.fn(actual.watch) };
+});
+
+describe('BsFsWatcher', () => {
+  const testDir = './test-watcher';
+
+  let blobs: Set<string>;
+  let checked: string[];
+  let listError: Error | undefined;
+  let existsError: Error | undefined;
+  let watcher: BsFsWatcher;
+  let events: string[];
+
+  const source = {
+    list: async () => {
+      if (listError) {
+        throw listError;
+      }
+      return [...blobs];
+    },
+    exists: async (blobId: string) => {
+      if (existsError) {
+        throw existsError;
+      }
+      checked.push(blobId);
+      return blobs.has(blobId);
+    },
+  };
+
+  // Replace fs.watch, so that tests can report paths themselves
+  const fakeWatch = () => {
+    const fake = Object.assign(new EventEmitter(), { close: vi.fn() });
+    let report: (filename: string | null) => void = () => {};
+    vi.mocked(watch).mockImplementationOnce(((
+      _: string,
+      __: object,
+      listener: (event: string, filename: string | null) => void,
+    ) => {
+      report = (filename) => listener('rename', filename);
+      return fake as unknown as FSWatcher;
+    }) as typeof watch);
+    return { fake, report: (filename: string | null) => report(filename) };
+  };
+
+  const start = async (options = {}) => {
+    watcher = new BsFsWatcher(testDir, source, {
+      debounceMs: 10,
+      pollIntervalMs: 20,
+      ...options,
+    });
+    events = [];
+    watcher.on('blobAdded', ({ blobId }) => events.push(`+${blobId}`));
+    watcher.on('blobDeleted', ({ blobId }) => events.push(`-${blobId}`));
+    await watcher.start();
+  };
+
+  beforeEach(async () => {
+    await rm(testDir, { recursive: true, force: true });
+    await mkdir(testDir, { recursive: true });
+    blobs = new Set(['known']);
+    checked = [];
+    listError = undefined;
+    existsError = undefined;
+  });
+
+  afterEach(async () => {
+    watcher.close();
+    vi.mocked(watch).mockReset();
+    await rm(testDir, { recursive: true, force: true });
+  });
+
+  describe('fs.watch', () => {
+    it('should check changed metadata files once per burst', async () => {
+      const { report } = fakeWatch();
+      await start();
+      expect(watcher.mode).toBe('watch');
+
+      blobs.add('a');
+      blobs.delete('known');
+      report(join('a1', 'a.meta.json'));
+      report('a.meta.json');
+      report('known.meta.json');
+
+      await vi.waitFor(() => expect(events).toEqual(['+a', '-known']));
+      expect(checked).toEqual(['a', 'known']);
+    });
+
+    it('should ignore temp files and other files', async () => {
+      const { report } = fakeWatch();
+      await start();
+
+      for (const path of [
+        '.a.meta.json',
+        join('lost+found', 'a.meta.json'),
+        'bs-fs.index.log',
+        join('a1', 'a.bin'),
+        'lost+found',
+      ]) {
+        report(path);
+      }
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(checked).toEqual([]);
+    });
+
+    it('should check all blobs below changed directories', async () => {
+      const { report } = fakeWatch();
+      await start();
+
+      await mkdir(join(testDir, 'a1', 'b2'), { recursive: true });
+      await writeFile(join(testDir, 'a1', 'b2', 'a.meta.json'), '{}');
+      await writeFile(join(testDir, 'top.meta.json'), '{}');
+      blobs.add('a');
+      blobs.add('top');
+
+      report('a1');
+      report('gone');
+      await vi.waitFor(() => expect(events).toEqual(['+a']));
+
+      // Platforms without file names
+      report(null);
+      await vi.waitFor(() => expect(events).toEqual(['+a', '+top']));
+    });
+
+    it('should report errors', async () => {
+      const { fake, report } = fakeWatch();
+      await start();
+      const errors: Error[] = [];
+      watcher.on('error', (error) => errors.push(error));
+
+      existsError = new Error('Unreadable');
+      report('a.meta.json');
+      await vi.waitFor(() => expect(errors).toEqual([existsError]));
+
+      fake.emit('error', new Error('Watch failed'));
+      expect(errors.map((e) => e.message)).toEqual([
+        'Unreadable',
+        'Watch failed',
+      ]);
+
+      // Removed listeners aren't called anymore
+      const removed = vi.fn();
+      watcher.on('error', removed).off('error', removed);
+      fake.emit('error', new Error('Watch failed again'));
+      expect(removed).not.toHaveBeenCalled();
+      errors.pop();
+
+      // Closed watchers are quiet
+      watcher.close();
+      expect(fake.close).toHaveBeenCalled();
+      fake.emit('error', new Error('Ignored'));
+      existsError = undefined;
+      blobs.add('a');
+      report('a.meta.json');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(errors).toHaveLength(2);
+      expect(events).toEqual([]);
+    });
+
+    it('should drop errors nobody listens for', async () => {
+      const { fake, report } = fakeWatch();
+      await start();
+
+      fake.emit('error', new Error('Watch failed'));
+      existsError = new Error('Unreadable');
+      report('a.meta.json');
+      await new Promise((resolve) => setTimeout(resolve, 50));
+
+      existsError = undefined;
+      blobs.add('a');
+      report('a.meta.json');
+      await vi.waitFor(() => expect(events).toEqual(['+a']));
+    });
+  });
+
+  describe('polling', () => {
+    it('should compare all blobs', async () => {
+      await start({ poll: true });
+      expect(watcher.mode).toBe('poll');
+      expect(watch).not.toHaveBeenCalled();
+
+      blobs.add('a');
+      blobs.delete('known');
+      await vi.waitFor(() => expect(events).toEqual(['-known', '+a']));
+    });
+
+    it('should go on polling after errors', async () => {
+      await start({ poll: true });
+      const errors: Error[] = [];
+      watcher.on('error', (error) => errors.push(error));
+
+      listError = new Error('Unlistable');
+      await vi.waitFor(() => expect(errors.length).toBeGreaterThan(0));
+
+      listError = undefined;
+      blobs.add('a');
+      await vi.waitFor(() => expect(events).toEqual(['+a']));
+    });
+
+    it('should stop polling once closed', async () => {
+      await start({ poll: true });
+      let release = () => {};
+      const list = vi
+        .spyOn(source, 'list')
+        .mockImplementationOnce(
+          () => new Promise((resolve) => (release = () => resolve([]))),
+        );
+
+      // Close while a poll is running
+      await vi.waitFor(() => expect(list).toHaveBeenCalledOnce());
+      watcher.close();
+      release();
+      await new Promise((resolve) => setTimeout(resolve, 50));
+      expect(list).toHaveBeenCalledOnce();
+      list.mockRestore();
+    });
+
+    it('should poll where fs.watch fails', async () => {
+      vi.mocked(watch).mockImplementationOnce(() => {
+        throw new Error('Not supported');
+      });
+      watcher = new BsFsWatcher(testDir, source);
+      await watcher.start();
+      expect(watcher.mode).toBe('poll');
+    });
+  });
+
+  it('should fail to start if the blobs cannot be listed', async () => {
+    listError = new Error('Unlistable');
+    await expect(start()).rejects.toThrow('Unlistable');
+  });
+});
@@ -17,7 +17,10 @@ export default defineConfig({
     // sourcemap: 'inline',
 
     lib: {
-      entry: resolve(__dirname, 'src/index.ts'),
+      entry: {
+        'bs-fs': resolve(__dirname, 'src/index.ts'),
+        'bs-fs-cli': resolve(__dirname, 'src/bs-fs-cli.ts'),
+      },
       formats: ['es'],
     },
     rollupOptions: {
@@ -25,6 +28,8 @@ export default defineConfig({
         '@rljson/rljson',
         '@rljson/json',
         '@rljson/hash',
+        '@rljson/bs',
+        /^node:/,
         // Add all peer depencies from package.json here
       ],
       output: {
@@ -23,7 +23,7 @@ export default defineConfig(({ mode }) => {
         provider: 'v8', // "istanbul" or "v8"
         reporter: ['text', 'json', 'html'],
         include: ['src/**/*.ts'],
-        exclude: ['src/index.ts'],
+        exclude: ['src/index.ts', 'src/bs-fs-cli.ts'],
         all: true,
         thresholds: {
           statements: 100,